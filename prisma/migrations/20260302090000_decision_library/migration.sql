@@ -0,0 +1,8 @@
+-- Searchable copy of the intake prompt for the decision library
+ALTER TABLE "Decision" ADD COLUMN "prompt" TEXT NOT NULL DEFAULT '';
+
+UPDATE "Decision"
+SET "prompt" = COALESCE(json_extract("rawInput", '$.prompt'), '')
+WHERE "prompt" = '';
+
+CREATE INDEX "Decision_updatedAt_idx" ON "Decision"("updatedAt");
@@ -0,0 +1,7 @@
+-- Durable analysis queue: lease ownership, heartbeats, and attempt counts
+ALTER TABLE "AnalysisRun" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "AnalysisRun" ADD COLUMN "leaseOwner" TEXT;
+ALTER TABLE "AnalysisRun" ADD COLUMN "leaseExpiresAt" DATETIME;
+ALTER TABLE "AnalysisRun" ADD COLUMN "heartbeatAt" DATETIME;
+
+CREATE INDEX "AnalysisRun_status_leaseExpiresAt_idx" ON "AnalysisRun"("status", "leaseExpiresAt");
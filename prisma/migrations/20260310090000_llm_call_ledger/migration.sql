@@ -0,0 +1,20 @@
+-- Per-call LLM usage ledger for token and cost accounting
+CREATE TABLE "LlmCallRecord" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "decisionId" TEXT NOT NULL,
+    "runId" TEXT,
+    "operation" TEXT NOT NULL,
+    "frameworkId" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "costUsd" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LlmCallRecord_decisionId_fkey" FOREIGN KEY ("decisionId") REFERENCES "Decision" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "LlmCallRecord_runId_fkey" FOREIGN KEY ("runId") REFERENCES "AnalysisRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "LlmCallRecord_decisionId_createdAt_idx" ON "LlmCallRecord"("decisionId", "createdAt");
+CREATE INDEX "LlmCallRecord_runId_idx" ON "LlmCallRecord"("runId");
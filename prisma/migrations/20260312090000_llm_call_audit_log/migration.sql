@@ -0,0 +1,27 @@
+-- Per-pass LLM prompt/response audit log
+CREATE TABLE "LlmCallLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "decisionId" TEXT NOT NULL,
+    "runId" TEXT,
+    "callId" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "frameworkId" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "schemaName" TEXT,
+    "pass" INTEGER NOT NULL,
+    "systemPrompt" TEXT NOT NULL,
+    "userPrompt" TEXT NOT NULL,
+    "rawText" TEXT,
+    "repairedJson" JSONB,
+    "validationError" TEXT,
+    "error" TEXT,
+    "latencyMs" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LlmCallLog_decisionId_fkey" FOREIGN KEY ("decisionId") REFERENCES "Decision" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "LlmCallLog_runId_fkey" FOREIGN KEY ("runId") REFERENCES "AnalysisRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "LlmCallLog_decisionId_createdAt_idx" ON "LlmCallLog"("decisionId", "createdAt");
+CREATE INDEX "LlmCallLog_runId_frameworkId_idx" ON "LlmCallLog"("runId", "frameworkId");
+CREATE INDEX "LlmCallLog_callId_idx" ON "LlmCallLog"("callId");
@@ -0,0 +1,17 @@
+-- Versioned, editable prompt templates with per-framework scopes and A/B weights
+CREATE TABLE "PromptTemplateVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "scope" TEXT NOT NULL DEFAULT 'global',
+    "version" INTEGER NOT NULL,
+    "systemTemplate" TEXT NOT NULL,
+    "userTemplate" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "weight" INTEGER NOT NULL DEFAULT 100,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+CREATE UNIQUE INDEX "PromptTemplateVersion_key_scope_version_key" ON "PromptTemplateVersion"("key", "scope", "version");
+CREATE INDEX "PromptTemplateVersion_key_status_idx" ON "PromptTemplateVersion"("key", "status");
@@ -0,0 +1,2 @@
+-- Optional self-consistency ensemble settings per analysis run
+ALTER TABLE "AnalysisRun" ADD COLUMN "ensemble" JSONB;
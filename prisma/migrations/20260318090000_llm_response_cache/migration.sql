@@ -0,0 +1,20 @@
+-- Content-addressed cache of structured LLM responses, plus a per-run opt-out
+ALTER TABLE "AnalysisRun" ADD COLUMN "bypassCache" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE "LlmResponseCache" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "schemaName" TEXT,
+    "response" JSONB NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME NOT NULL
+);
+
+CREATE INDEX "LlmResponseCache_expiresAt_idx" ON "LlmResponseCache"("expiresAt");
+CREATE INDEX "LlmResponseCache_lastUsedAt_idx" ON "LlmResponseCache"("lastUsedAt");
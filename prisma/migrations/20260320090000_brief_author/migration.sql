@@ -0,0 +1,2 @@
+-- Marks brief versions written by the user rather than generated from clarifications
+ALTER TABLE "DecisionBriefRecord" ADD COLUMN "author" TEXT NOT NULL DEFAULT 'model';
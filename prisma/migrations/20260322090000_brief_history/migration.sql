@@ -0,0 +1,3 @@
+-- Records the brief version each run analyzed, and which version a restored brief was copied from
+ALTER TABLE "AnalysisRun" ADD COLUMN "briefVersion" INTEGER;
+ALTER TABLE "DecisionBriefRecord" ADD COLUMN "restoredFromVersion" INTEGER;
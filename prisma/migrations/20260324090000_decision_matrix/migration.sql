@@ -0,0 +1,2 @@
+-- Stores the user-weighted criteria and option ratings that drive weighted multi-criteria scoring
+ALTER TABLE "Decision" ADD COLUMN "decisionMatrix" JSONB;
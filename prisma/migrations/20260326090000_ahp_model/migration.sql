@@ -0,0 +1,2 @@
+-- Stores pairwise AHP judgments for criteria and for options under each criterion
+ALTER TABLE "Decision" ADD COLUMN "ahpModel" JSONB;
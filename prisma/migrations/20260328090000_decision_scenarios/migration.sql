@@ -0,0 +1,13 @@
+-- Named what-if scenarios: theme and risk tolerance overrides with the ranking they produced
+CREATE TABLE "DecisionScenarioRecord" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "decisionId" TEXT NOT NULL,
+    "runId" TEXT,
+    "name" TEXT NOT NULL,
+    "overrides" JSONB NOT NULL,
+    "ranking" JSONB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DecisionScenarioRecord_decisionId_fkey" FOREIGN KEY ("decisionId") REFERENCES "Decision" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX "DecisionScenarioRecord_decisionId_createdAt_idx" ON "DecisionScenarioRecord"("decisionId", "createdAt");
@@ -0,0 +1,2 @@
+-- Stores the user-defined Monte Carlo model: uncertain variables per option, outcome formula and correlations
+ALTER TABLE "Decision" ADD COLUMN "monteCarloModel" JSONB;
@@ -0,0 +1,150 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+import {
+  compareEvaluationReports,
+  formatEvaluationReportMarkdown,
+  loadGoldenBriefs,
+  runPromptEvaluation,
+  type EvaluationReport,
+  type EvaluationTarget,
+} from "../src/lib/evaluation/harness";
+import type { LLMAdapter } from "../src/lib/llm/base";
+import { RecordingAdapter } from "../src/lib/llm/recording-adapter";
+import { listProviderRegistrations } from "../src/lib/llm/registry";
+import { ReplayAdapter } from "../src/lib/llm/replay-adapter";
+import { PROMPT_TEMPLATE_VARIABLES, unknownTemplateVariables, type ResolvedPromptTemplate } from "../src/lib/prompts/templates";
+import { frameworkIdSchema } from "../src/lib/schemas";
+
+const USAGE = `Usage: npm run eval:prompts -- [options]
+
+  --briefs <dir>         Golden DecisionBrief fixtures (default: evals/golden-briefs)
+  --frameworks <ids>     Comma-separated framework ids (default: swot_analysis,pareto_principle,consequences_model)
+  --providers <names>    Comma-separated provider names (default: every registered provider, or "canned" offline)
+  --offline              Replay canned responses from --fixtures instead of calling providers
+  --record               Call providers and save their responses to --fixtures for later offline runs
+  --fixtures <dir>       Canned response directory (default: evals/fixtures)
+  --template <file>      Candidate framework_analysis template JSON: { "systemTemplate", "userTemplate" }
+  --baseline <file>      Earlier report JSON to compare against
+  --out <dir>            Report directory (default: evals/reports)
+`;
+
+function csv(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+async function loadCandidateTemplate(file: string): Promise<ResolvedPromptTemplate> {
+  const source = JSON.parse(await readFile(file, "utf8")) as { systemTemplate?: string; userTemplate?: string };
+  if (typeof source.systemTemplate !== "string" || typeof source.userTemplate !== "string") {
+    throw new Error(`${file} must define systemTemplate and userTemplate strings`);
+  }
+
+  const template = { systemTemplate: source.systemTemplate, userTemplate: source.userTemplate };
+  const unknown = unknownTemplateVariables("framework_analysis", template);
+  if (unknown.length > 0) {
+    throw new Error(
+      `${file} uses unknown variables ${unknown.join(", ")}; allowed: ${PROMPT_TEMPLATE_VARIABLES.framework_analysis.join(", ")}`,
+    );
+  }
+
+  return { ...template, ref: { key: "framework_analysis", scope: `file:${path.basename(file)}`, version: 0 } };
+}
+
+function resolveTargets(options: {
+  offline: boolean;
+  record: boolean;
+  fixtureDir: string;
+  providers: string[];
+}): EvaluationTarget[] {
+  if (options.offline) {
+    const names = options.providers.length > 0 ? options.providers : ["canned"];
+    return names.map((name) => {
+      const adapter = new ReplayAdapter({ name, model: "canned" }, options.fixtureDir);
+      return { provider: name, llm: { adapter, provider: name, model: adapter.model } };
+    });
+  }
+
+  const registrations = listProviderRegistrations().filter(
+    (registration) => options.providers.length === 0 || options.providers.includes(registration.name),
+  );
+  const missing = options.providers.filter((name) => !registrations.some((entry) => entry.name === name));
+  if (missing.length > 0) {
+    throw new Error(`Unknown provider(s): ${missing.join(", ")}`);
+  }
+
+  return registrations.map((registration) => {
+    const adapter: LLMAdapter = options.record
+      ? new RecordingAdapter(registration.adapter, options.fixtureDir)
+      : registration.adapter;
+    return { provider: registration.name, llm: { adapter, provider: registration.name, model: registration.model } };
+  });
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      briefs: { type: "string", default: "evals/golden-briefs" },
+      frameworks: { type: "string", default: "swot_analysis,pareto_principle,consequences_model" },
+      providers: { type: "string" },
+      offline: { type: "boolean", default: false },
+      record: { type: "boolean", default: false },
+      fixtures: { type: "string", default: "evals/fixtures" },
+      template: { type: "string" },
+      baseline: { type: "string" },
+      out: { type: "string", default: "evals/reports" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values.offline && values.record) {
+    throw new Error("--offline and --record cannot be combined");
+  }
+
+  const frameworkIds = csv(values.frameworks).map((id) => frameworkIdSchema.parse(id));
+  const briefs = await loadGoldenBriefs(path.resolve(values.briefs));
+  const targets = resolveTargets({
+    offline: values.offline,
+    record: values.record,
+    fixtureDir: path.resolve(values.fixtures),
+    providers: csv(values.providers),
+  });
+  const prompt = values.template ? await loadCandidateTemplate(values.template) : undefined;
+
+  console.log(
+    `Evaluating ${briefs.length} brief(s) × ${frameworkIds.length} framework(s) × ${targets.length} provider(s)...`,
+  );
+  const report = await runPromptEvaluation({ briefs, frameworkIds, targets, prompt });
+  const comparison = values.baseline
+    ? compareEvaluationReports(
+        JSON.parse(await readFile(values.baseline, "utf8")) as EvaluationReport,
+        report,
+      )
+    : undefined;
+
+  const outDir = path.resolve(values.out);
+  const stamp = report.generatedAt.replaceAll(/[:.]/g, "-");
+  await mkdir(outDir, { recursive: true });
+  await writeFile(path.join(outDir, `${stamp}.json`), `${JSON.stringify({ ...report, comparison }, null, 2)}\n`);
+  const markdown = formatEvaluationReportMarkdown(report, comparison);
+  await writeFile(path.join(outDir, `${stamp}.md`), markdown);
+
+  console.log(markdown);
+  console.log(`Report written to ${path.join(outDir, `${stamp}.{json,md}`)}`);
+
+  if (report.cases.some((entry) => entry.status === "error") || (comparison?.regressions.length ?? 0) > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,98 @@
+import { ZodError } from "zod";
+
+import { alignAhpModel, buildDefaultAhpModel, computeAhp } from "@/lib/analysis/ahp";
+import { alignDecisionMatrix, buildDefaultDecisionMatrix, deriveDecisionOptions } from "@/lib/analysis/criteria";
+import {
+  getDecisionWithLatestBrief,
+  parseStoredAhpModel,
+  parseStoredDecisionMatrix,
+  saveAhpModel,
+} from "@/lib/decisions";
+import { badRequest, handleRouteError, notFound, ok, parseBody } from "@/lib/http";
+import { ahpModelInputSchema, decisionBriefSchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * The saved AHP model with its priorities and consistency ratios, or an
+ * unsaved default comparing the decision matrix's weighted criteria.
+ */
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    const briefRecord = decision.briefs[0];
+    if (!briefRecord) {
+      return badRequest("Decision brief missing. Run refinement first.", undefined, "INVALID_STATE");
+    }
+
+    const brief = decisionBriefSchema.parse(briefRecord.briefJson);
+    const options = deriveDecisionOptions(brief);
+    const stored = parseStoredAhpModel(decision.ahpModel);
+    const matrix = parseStoredDecisionMatrix(decision.decisionMatrix);
+    const model = stored
+      ? alignAhpModel(stored, options)
+      : buildDefaultAhpModel(matrix ? alignDecisionMatrix(matrix, options) : buildDefaultDecisionMatrix(brief));
+
+    return ok({ model, result: computeAhp(model) });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Stored decision brief failed validation", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to fetch AHP judgments");
+  }
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    const briefRecord = decision.briefs[0];
+    if (!briefRecord) {
+      return badRequest("Decision brief missing. Run refinement first.", undefined, "INVALID_STATE");
+    }
+
+    const payload = await parseBody(request, ahpModelInputSchema);
+    const options = deriveDecisionOptions(decisionBriefSchema.parse(briefRecord.briefJson));
+    const unknownOptions = [
+      ...new Set(
+        payload.alternativeJudgments
+          .flatMap((entry) => entry.judgments.flatMap((judgment) => [judgment.first, judgment.second]))
+          .filter((option) => !options.includes(option)),
+      ),
+    ];
+
+    if (unknownOptions.length > 0) {
+      return badRequest("Judgments must compare options from the latest brief", { unknownOptions });
+    }
+
+    const model = await saveAhpModel(id, {
+      criteria: payload.criteria,
+      options,
+      criteriaJudgments: payload.criteriaJudgments,
+      alternativeJudgments: payload.alternativeJudgments,
+      updatedAt: new Date().toISOString(),
+    });
+
+    return ok({ model, result: computeAhp(model) });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid AHP judgments", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to save AHP judgments");
+  }
+}
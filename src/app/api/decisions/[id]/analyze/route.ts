@@ -5,6 +5,7 @@ import { getDecisionWithLatestBrief } from "@/lib/decisions";
 import { prisma } from "@/lib/db";
 import { listFrameworkDefinitions } from "@/lib/frameworks/registry";
 import { badRequest, handleRouteError, notFound, ok, parseBody } from "@/lib/http";
+import { getProviderRegistration } from "@/lib/llm/registry";
 import { resolveLLM } from "@/lib/llm/router";
 import { analyzeRequestSchema } from "@/lib/schemas";
 
@@ -27,6 +28,13 @@ export async function POST(request: Request, context: RouteContext) {
 
     const payload = await parseBody(request, analyzeRequestSchema);
     const frameworks = payload.frameworkIds ?? listFrameworkDefinitions().map((framework) => framework.id);
+    const unknownProviders = (payload.ensemble?.providers ?? []).filter(
+      (provider) => !getProviderRegistration(provider),
+    );
+    if (unknownProviders.length > 0) {
+      return badRequest(`Unknown ensemble provider(s): ${unknownProviders.join(", ")}`);
+    }
+
     const resolved = await resolveLLM(payload.providerPreference);
 
     const run = await prisma.analysisRun.create({
@@ -36,6 +44,9 @@ export async function POST(request: Request, context: RouteContext) {
         model: resolved.model,
         status: "queued",
         frameworkIds: frameworks,
+        bypassCache: payload.bypassCache,
+        briefVersion: decision.briefs[0].version,
+        ...(payload.ensemble ? { ensemble: payload.ensemble } : {}),
       },
     });
 
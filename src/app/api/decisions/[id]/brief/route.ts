@@ -0,0 +1,43 @@
+import { ZodError } from "zod";
+
+import { getDecisionWithLatestBrief, saveDecisionBrief } from "@/lib/decisions";
+import { badRequest, handleRouteError, notFound, ok, parseBody } from "@/lib/http";
+import { scoreDecisionBriefQuality } from "@/lib/refinement";
+import { decisionBriefSchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Saves a user-edited brief as a new version; earlier versions are kept. */
+export async function PUT(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    if (!decision.briefs[0]) {
+      return badRequest("Decision brief missing. Run refinement first.", undefined, "INVALID_STATE");
+    }
+
+    const brief = await parseBody(request, decisionBriefSchema);
+    const qualityScore = scoreDecisionBriefQuality(brief);
+    const saved = await saveDecisionBrief(id, brief, qualityScore, "human");
+
+    return ok({
+      decisionBrief: brief,
+      qualityScore,
+      version: saved.version,
+      author: "human",
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid decision brief", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to save decision brief");
+  }
+}
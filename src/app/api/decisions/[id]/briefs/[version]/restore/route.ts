@@ -0,0 +1,48 @@
+import { ZodError } from "zod";
+
+import { getDecisionBriefVersion, getDecisionWithLatestBrief, saveDecisionBrief } from "@/lib/decisions";
+import { badRequest, handleRouteError, notFound, ok } from "@/lib/http";
+import { scoreDecisionBriefQuality } from "@/lib/refinement";
+import { briefVersionSchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string; version: string }>;
+}
+
+/**
+ * Copies an earlier brief version forward as the newest one, so history is
+ * never rewritten. The quality score is recomputed for the restored brief.
+ */
+export async function POST(_request: Request, context: RouteContext) {
+  try {
+    const { id, version: rawVersion } = await context.params;
+    const version = briefVersionSchema.parse(rawVersion);
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    if (decision.briefs[0]?.version === version) {
+      return badRequest(`Brief version ${version} is already the current brief.`, undefined, "INVALID_STATE");
+    }
+
+    const source = await getDecisionBriefVersion(id, version);
+    const qualityScore = scoreDecisionBriefQuality(source.brief);
+    const saved = await saveDecisionBrief(id, source.brief, qualityScore, source.author, source.version);
+
+    return ok({
+      decisionBrief: source.brief,
+      qualityScore,
+      version: saved.version,
+      author: source.author,
+      restoredFromVersion: source.version,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid brief version", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to restore brief version");
+  }
+}
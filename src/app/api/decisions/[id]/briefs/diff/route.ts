@@ -0,0 +1,29 @@
+import { ZodError } from "zod";
+
+import { diffBriefVersions } from "@/lib/brief-diff";
+import { getDecisionBriefVersion } from "@/lib/decisions";
+import { badRequest, handleRouteError, ok, parseSearchParams } from "@/lib/http";
+import { briefDiffQuerySchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const query = parseSearchParams(request, briefDiffQuerySchema);
+    const [from, to] = await Promise.all([
+      getDecisionBriefVersion(id, query.from),
+      getDecisionBriefVersion(id, query.to),
+    ]);
+
+    return ok(diffBriefVersions(id, from, to));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid brief diff query", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to diff brief versions");
+  }
+}
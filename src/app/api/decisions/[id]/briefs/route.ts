@@ -0,0 +1,27 @@
+import { ZodError } from "zod";
+
+import { getDecisionWithLatestBrief, listDecisionBriefs } from "@/lib/decisions";
+import { badRequest, handleRouteError, notFound, ok } from "@/lib/http";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    return ok({ versions: await listDecisionBriefs(id) });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Stored brief versions failed validation", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to list brief versions");
+  }
+}
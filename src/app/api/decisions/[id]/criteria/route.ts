@@ -0,0 +1,85 @@
+import { ZodError } from "zod";
+
+import {
+  alignDecisionMatrix,
+  buildDefaultDecisionMatrix,
+  deriveDecisionOptions,
+} from "@/lib/analysis/criteria";
+import { getDecisionWithLatestBrief, parseStoredDecisionMatrix, saveDecisionMatrix } from "@/lib/decisions";
+import { badRequest, handleRouteError, notFound, ok, parseBody } from "@/lib/http";
+import { decisionBriefSchema, decisionMatrixInputSchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** The saved matrix, or an unsaved default drawn from the latest brief's success criteria and constraints. */
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    const briefRecord = decision.briefs[0];
+    if (!briefRecord) {
+      return badRequest("Decision brief missing. Run refinement first.", undefined, "INVALID_STATE");
+    }
+
+    const brief = decisionBriefSchema.parse(briefRecord.briefJson);
+    const stored = parseStoredDecisionMatrix(decision.decisionMatrix);
+
+    return ok({
+      matrix: stored ? alignDecisionMatrix(stored, deriveDecisionOptions(brief)) : buildDefaultDecisionMatrix(brief),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Stored decision brief failed validation", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to fetch decision criteria");
+  }
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    const briefRecord = decision.briefs[0];
+    if (!briefRecord) {
+      return badRequest("Decision brief missing. Run refinement first.", undefined, "INVALID_STATE");
+    }
+
+    const payload = await parseBody(request, decisionMatrixInputSchema);
+    const options = deriveDecisionOptions(decisionBriefSchema.parse(briefRecord.briefJson));
+    const unknownOptions = [
+      ...new Set(payload.ratings.map((rating) => rating.option).filter((option) => !options.includes(option))),
+    ];
+
+    if (unknownOptions.length > 0) {
+      return badRequest("Ratings must reference options from the latest brief", { unknownOptions });
+    }
+
+    const matrix = await saveDecisionMatrix(id, {
+      options,
+      criteria: payload.criteria,
+      ratings: payload.ratings,
+      updatedAt: new Date().toISOString(),
+    });
+
+    return ok({ matrix });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid decision criteria", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to save decision criteria");
+  }
+}
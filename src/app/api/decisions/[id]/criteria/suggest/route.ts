@@ -0,0 +1,54 @@
+import { ZodError } from "zod";
+
+import { deriveDecisionOptions } from "@/lib/analysis/criteria";
+import { getDecisionWithLatestBrief } from "@/lib/decisions";
+import { badRequest, handleRouteError, notFound, ok, parseBody } from "@/lib/http";
+import { suggestCriterionRatings } from "@/lib/refinement";
+import { criteriaSuggestRequestSchema, decisionBriefSchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const runtime = "nodejs";
+export const maxDuration = 120;
+
+/** Drafts ratings for the posted criteria; nothing is saved until the matrix is PUT. */
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    const briefRecord = decision.briefs[0];
+    if (!briefRecord) {
+      return badRequest("Decision brief missing. Run refinement first.", undefined, "INVALID_STATE");
+    }
+
+    const payload = await parseBody(request, criteriaSuggestRequestSchema);
+    const brief = decisionBriefSchema.parse(briefRecord.briefJson);
+    const suggested = await suggestCriterionRatings(
+      brief,
+      deriveDecisionOptions(brief),
+      payload.criteria,
+      payload.providerPreference,
+      id,
+    );
+
+    return ok({
+      ratings: suggested.ratings,
+      provider: suggested.provider,
+      model: suggested.model,
+      fallback: suggested.fallback,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid criteria scoring request", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to suggest criterion ratings");
+  }
+}
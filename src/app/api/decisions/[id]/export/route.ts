@@ -1,10 +1,20 @@
 import { ZodError } from "zod";
 
-import { getDecisionWithLatestBrief, getLatestCompleteRun } from "@/lib/decisions";
+import { deriveDecisionOptions } from "@/lib/analysis/criteria";
+import { applyMonteCarloResult } from "@/lib/analysis/monte-carlo";
+import { rescoreSynthesis } from "@/lib/analysis/propagation";
+import {
+  getDecisionBriefVersion,
+  getDecisionWithLatestBrief,
+  getLatestCompleteRun,
+  parseScoringInputs,
+  simulateStoredMonteCarloModel,
+} from "@/lib/decisions";
 import { prisma } from "@/lib/db";
 import { buildMarkdownExport, buildZipExportBundle } from "@/lib/export/bundle";
 import { badRequest, handleRouteError, notFound } from "@/lib/http";
 import { decisionBriefSchema, frameworkResultSchema } from "@/lib/schemas";
+import type { SynthesisSummary } from "@/lib/types";
 
 export const runtime = "nodejs";
 
@@ -36,8 +46,22 @@ export async function GET(request: Request, context: RouteContext) {
       return badRequest("Invalid export format. Use format=md or format=zip.");
     }
 
-    const brief = decisionBriefSchema.parse(briefRecord.briefJson);
-    const frameworkResults = run.frameworkResults.map((record) => frameworkResultSchema.parse(record.resultJson));
+    // Export the brief the run analyzed, which may be older than the latest version.
+    const brief =
+      typeof run.briefVersion === "number"
+        ? (await getDecisionBriefVersion(id, run.briefVersion)).brief
+        : decisionBriefSchema.parse(briefRecord.briefJson);
+    const analyzedResults = run.frameworkResults.map((record) => frameworkResultSchema.parse(record.resultJson));
+    const synthesis = rescoreSynthesis(
+      run.synthesis as unknown as SynthesisSummary,
+      brief,
+      analyzedResults,
+      parseScoringInputs(decision),
+    );
+    const monteCarlo = simulateStoredMonteCarloModel(decision.monteCarloModel, deriveDecisionOptions(brief));
+    const frameworkResults = monteCarlo
+      ? applyMonteCarloResult(analyzedResults, monteCarlo, synthesis.decisionRecommendation?.recommendedOption)
+      : analyzedResults;
 
     if (format === "md") {
       const bundle = buildMarkdownExport({
@@ -48,7 +72,7 @@ export async function GET(request: Request, context: RouteContext) {
         propagatedMap: run.propagatedMap as unknown as Parameters<
           typeof buildMarkdownExport
         >[0]["propagatedMap"],
-        synthesis: run.synthesis as unknown as Parameters<typeof buildMarkdownExport>[0]["synthesis"],
+        synthesis,
       });
 
       await prisma.$transaction(async (transaction) => {
@@ -79,7 +103,7 @@ export async function GET(request: Request, context: RouteContext) {
       propagatedMap: run.propagatedMap as unknown as Parameters<
         typeof buildZipExportBundle
       >[0]["propagatedMap"],
-      synthesis: run.synthesis as unknown as Parameters<typeof buildZipExportBundle>[0]["synthesis"],
+      synthesis,
     });
 
     await prisma.$transaction(async (transaction) => {
@@ -0,0 +1,30 @@
+import { ZodError } from "zod";
+
+import { getDecisionWithLatestBrief } from "@/lib/decisions";
+import { badRequest, handleRouteError, notFound, ok, parseSearchParams } from "@/lib/http";
+import { listLLMCallLogs } from "@/lib/llm-audit";
+import { llmCallLogQuerySchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const query = parseSearchParams(request, llmCallLogQuerySchema);
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    return ok({ calls: await listLLMCallLogs(id, query) });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid LLM call log query", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to list LLM calls");
+  }
+}
@@ -0,0 +1,104 @@
+import crypto from "node:crypto";
+
+import { ZodError } from "zod";
+
+import { deriveDecisionOptions } from "@/lib/analysis/criteria";
+import {
+  alignMonteCarloModel,
+  buildMonteCarloModelTemplate,
+  runMonteCarlo,
+} from "@/lib/analysis/monte-carlo";
+import {
+  getDecisionWithLatestBrief,
+  parseStoredMonteCarloModel,
+  saveMonteCarloModel,
+  simulateStoredMonteCarloModel,
+} from "@/lib/decisions";
+import { badRequest, handleRouteError, notFound, ok, parseBody } from "@/lib/http";
+import { decisionBriefSchema, monteCarloModelInputSchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function newSeed(): string {
+  return crypto.randomUUID().slice(0, 8);
+}
+
+/** The saved model and its result, or an unsaved benefit-minus-cost template over the latest brief's options. */
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    const briefRecord = decision.briefs[0];
+    if (!briefRecord) {
+      return badRequest("Decision brief missing. Run refinement first.", undefined, "INVALID_STATE");
+    }
+
+    const options = deriveDecisionOptions(decisionBriefSchema.parse(briefRecord.briefJson));
+    const stored = parseStoredMonteCarloModel(decision.monteCarloModel);
+    if (!stored) {
+      return ok({ model: buildMonteCarloModelTemplate(options, newSeed()), result: null });
+    }
+
+    // A saved model that no longer runs still loads, so it can be fixed in the editor.
+    return ok({
+      model: alignMonteCarloModel(stored, options),
+      result: simulateStoredMonteCarloModel(decision.monteCarloModel, options),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Stored decision brief failed validation", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to fetch Monte Carlo model");
+  }
+}
+
+/** Saves the model and returns its first run; a model that cannot run is rejected without saving. */
+export async function PUT(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    const briefRecord = decision.briefs[0];
+    if (!briefRecord) {
+      return badRequest("Decision brief missing. Run refinement first.", undefined, "INVALID_STATE");
+    }
+
+    const payload = await parseBody(request, monteCarloModelInputSchema);
+    const options = deriveDecisionOptions(decisionBriefSchema.parse(briefRecord.briefJson));
+    const unknownOptions = payload.alternatives
+      .map((entry) => entry.option)
+      .filter((option) => !options.includes(option));
+
+    if (unknownOptions.length > 0) {
+      return badRequest("Modelled options must come from the latest brief", { unknownOptions });
+    }
+
+    const model = {
+      ...payload,
+      seed: payload.seed ?? parseStoredMonteCarloModel(decision.monteCarloModel)?.seed ?? newSeed(),
+      updatedAt: new Date().toISOString(),
+    };
+    const result = runMonteCarlo(model);
+    await saveMonteCarloModel(id, model);
+
+    return ok({ model, result });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid Monte Carlo model", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to save Monte Carlo model");
+  }
+}
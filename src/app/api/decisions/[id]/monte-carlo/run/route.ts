@@ -0,0 +1,47 @@
+import { ZodError } from "zod";
+
+import { deriveDecisionOptions } from "@/lib/analysis/criteria";
+import { alignMonteCarloModel, runMonteCarlo } from "@/lib/analysis/monte-carlo";
+import { getDecisionWithLatestBrief, parseStoredMonteCarloModel } from "@/lib/decisions";
+import { badRequest, handleRouteError, notFound, ok, parseBody } from "@/lib/http";
+import { decisionBriefSchema, monteCarloRunRequestSchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Reruns the saved model, optionally with another seed or trial count; the saved model is left unchanged. */
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    const briefRecord = decision.briefs[0];
+    if (!briefRecord) {
+      return badRequest("Decision brief missing. Run refinement first.", undefined, "INVALID_STATE");
+    }
+
+    const stored = parseStoredMonteCarloModel(decision.monteCarloModel);
+    if (!stored) {
+      return badRequest("No Monte Carlo model saved for this decision.", undefined, "INVALID_STATE");
+    }
+
+    const payload = await parseBody(request, monteCarloRunRequestSchema);
+    const model = alignMonteCarloModel(stored, deriveDecisionOptions(decisionBriefSchema.parse(briefRecord.briefJson)));
+    if (model.alternatives.length === 0) {
+      return badRequest("None of the modelled options are in the latest brief.", undefined, "INVALID_STATE");
+    }
+
+    return ok({ model, result: runMonteCarlo(model, payload) });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid Monte Carlo run request", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to run Monte Carlo model");
+  }
+}
@@ -35,7 +35,7 @@ export async function POST(request: Request, context: RouteContext) {
     const payload = await parseBody(request, refineRequestSchema);
 
     if (payload.mode === "generate_questions") {
-      const generated = await generateClarificationQuestions(rawInput, "auto");
+      const generated = await generateClarificationQuestions(rawInput, "auto", id);
       const persisted = await replaceClarificationQuestions(id, generated.questions);
 
       return ok({
@@ -54,7 +54,7 @@ export async function POST(request: Request, context: RouteContext) {
         rationale: question.rationale ?? "Clarification needed for decision quality.",
       }));
 
-      const suggested = await suggestClarificationAnswers(rawInput, normalizedQuestions, "auto");
+      const suggested = await suggestClarificationAnswers(rawInput, normalizedQuestions, "auto", id);
 
       return ok({
         suggestions: suggested.suggestions,
@@ -80,7 +80,7 @@ export async function POST(request: Request, context: RouteContext) {
       return badRequest("No clarification answers matched generated questions", undefined, "INVALID_STATE");
     }
 
-    const generated = await generateDecisionBrief(rawInput, saved.qaPairs, "auto");
+    const generated = await generateDecisionBrief(rawInput, saved.qaPairs, "auto", id);
     const qualityScore = scoreDecisionBriefQuality(generated.decisionBrief);
     await saveDecisionBrief(id, generated.decisionBrief, qualityScore);
 
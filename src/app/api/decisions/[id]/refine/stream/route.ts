@@ -0,0 +1,109 @@
+import { ZodError } from "zod";
+
+import { formatServerSentEvent } from "@/lib/analysis/run-events";
+import { getDecisionWithLatestBrief, saveClarificationAnswers, saveDecisionBrief } from "@/lib/decisions";
+import { toAppError } from "@/lib/errors";
+import { badRequest, handleRouteError, notFound, parseBody } from "@/lib/http";
+import { generateDecisionBrief, scoreDecisionBriefQuality } from "@/lib/refinement";
+import { briefStreamRequestSchema, createDecisionInputSchema } from "@/lib/schemas";
+import type { BriefStreamEvent } from "@/lib/types";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/**
+ * Streaming variant of refine's submit_answers: answers are validated and
+ * saved up front (errors are plain JSON), then the brief is streamed as
+ * server-sent events while the model writes it, ending in one "complete" or
+ * "error" event.
+ */
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    const rawInput = createDecisionInputSchema.parse(decision.rawInput);
+    const payload = await parseBody(request, briefStreamRequestSchema);
+
+    const saved = await saveClarificationAnswers(id, payload.answers);
+    if (saved.unmatchedIds.length > 0) {
+      return badRequest(
+        "Some answers did not match current clarification questions. Refresh questions and try again.",
+        {
+          unmatchedIds: saved.unmatchedIds,
+          generationId: saved.generationId,
+        },
+        "INVALID_STATE",
+      );
+    }
+
+    if (saved.qaPairs.length === 0) {
+      return badRequest("No clarification answers matched generated questions", undefined, "INVALID_STATE");
+    }
+
+    const encoder = new TextEncoder();
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: BriefStreamEvent) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+          }
+        };
+
+        try {
+          const generated = await generateDecisionBrief(rawInput, saved.qaPairs, "auto", id, (brief, provider) =>
+            send({ type: "partial", brief, provider }),
+          );
+          const qualityScore = scoreDecisionBriefQuality(generated.decisionBrief);
+          await saveDecisionBrief(id, generated.decisionBrief, qualityScore);
+
+          send({
+            type: "complete",
+            decisionBrief: generated.decisionBrief,
+            qualityScore,
+            provider: generated.provider,
+            model: generated.model,
+            fallback: generated.fallback,
+            status: "brief_ready",
+          });
+        } catch (error) {
+          const appError = toAppError(error, "Refinement failed");
+          send({ type: "error", error: appError.message, code: appError.code, details: appError.details });
+        }
+
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid refinement payload", error.flatten());
+    }
+
+    return handleRouteError(error, "Refinement failed");
+  }
+}
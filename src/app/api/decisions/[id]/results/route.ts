@@ -1,8 +1,19 @@
 import { ZodError } from "zod";
 
-import { getDecisionWithLatestBrief, getLatestCompleteRun } from "@/lib/decisions";
+import { deriveDecisionOptions } from "@/lib/analysis/criteria";
+import { applyMonteCarloResult } from "@/lib/analysis/monte-carlo";
+import { rescoreSynthesis, resolveHeuristicModel, resolveScoringModel } from "@/lib/analysis/propagation";
+import { analyzeSensitivity } from "@/lib/analysis/sensitivity";
+import {
+  getDecisionBriefVersion,
+  getDecisionWithLatestBrief,
+  getLatestCompleteRun,
+  parseScoringInputs,
+  simulateStoredMonteCarloModel,
+} from "@/lib/decisions";
 import { badRequest, handleRouteError, notFound, ok } from "@/lib/http";
 import { decisionBriefSchema, frameworkResultSchema, synthesisSummarySchema } from "@/lib/schemas";
+import { getUsageSummary } from "@/lib/usage-ledger";
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -27,18 +38,37 @@ export async function GET(_request: Request, context: RouteContext) {
       return badRequest("No completed analysis run found for this decision.");
     }
 
-    const brief = decisionBriefSchema.parse(briefRecord.briefJson);
+    // Results describe the brief the run analyzed, which may be older than the latest version.
+    const brief =
+      typeof run.briefVersion === "number"
+        ? (await getDecisionBriefVersion(id, run.briefVersion)).brief
+        : decisionBriefSchema.parse(briefRecord.briefJson);
     const frameworkResults = run.frameworkResults.map((record) => frameworkResultSchema.parse(record.resultJson));
-    const synthesis = synthesisSummarySchema.parse(run.synthesis);
+    const scoringInputs = parseScoringInputs(decision);
+    const synthesis = rescoreSynthesis(
+      synthesisSummarySchema.parse(run.synthesis),
+      brief,
+      frameworkResults,
+      scoringInputs,
+    );
+    const monteCarlo = simulateStoredMonteCarloModel(decision.monteCarloModel, deriveDecisionOptions(brief));
+    const usage = await getUsageSummary(id, run.id);
 
     return ok({
       brief,
-      frameworkResults,
+      frameworkResults: monteCarlo
+        ? applyMonteCarloResult(frameworkResults, monteCarlo, synthesis.decisionRecommendation?.recommendedOption)
+        : frameworkResults,
       propagatedMap: run.propagatedMap,
       synthesis,
+      sensitivity: analyzeSensitivity(resolveScoringModel(brief, frameworkResults, scoringInputs)),
+      whatIfModel: resolveHeuristicModel(brief, frameworkResults),
+      monteCarlo,
       runId: run.id,
+      briefVersion: run.briefVersion ?? null,
       provider: run.provider,
       model: run.model,
+      usage,
     });
   } catch (error) {
     if (error instanceof ZodError) {
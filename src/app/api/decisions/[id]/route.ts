@@ -36,6 +36,8 @@ export async function GET(_request: Request, context: RouteContext) {
       },
       brief: latestBriefRecord ? decisionBriefSchema.parse(latestBriefRecord.briefJson) : null,
       briefQualityScore: latestBriefRecord?.qualityScore ?? null,
+      briefVersion: latestBriefRecord?.version ?? null,
+      briefAuthor: latestBriefRecord?.author ?? null,
       clarifications,
       latestRun,
     });
@@ -0,0 +1,29 @@
+import { ZodError } from "zod";
+
+import { compareRuns } from "@/lib/analysis/run-comparison";
+import { getComparableRun } from "@/lib/decisions";
+import { badRequest, handleRouteError, ok, parseSearchParams } from "@/lib/http";
+import { runComparisonQuerySchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const query = parseSearchParams(request, runComparisonQuerySchema);
+    const [base, target] = await Promise.all([
+      getComparableRun(id, query.base),
+      getComparableRun(id, query.target),
+    ]);
+
+    return ok(compareRuns(id, base, target));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid run comparison query", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to compare analysis runs");
+  }
+}
@@ -0,0 +1,21 @@
+import { getDecisionWithLatestBrief, listDecisionRuns } from "@/lib/decisions";
+import { handleRouteError, notFound, ok } from "@/lib/http";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    return ok({ runs: await listDecisionRuns(id) });
+  } catch (error) {
+    return handleRouteError(error, "Failed to list analysis runs");
+  }
+}
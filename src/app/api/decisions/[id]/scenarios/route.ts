@@ -0,0 +1,82 @@
+import { ZodError } from "zod";
+
+import { applyWhatIf, rankHeuristicOptions } from "@/lib/analysis/heuristic";
+import { resolveHeuristicModel } from "@/lib/analysis/propagation";
+import {
+  createDecisionScenario,
+  getDecisionBriefVersion,
+  getDecisionWithLatestBrief,
+  getLatestCompleteRun,
+  listDecisionScenarios,
+} from "@/lib/decisions";
+import { badRequest, created, handleRouteError, notFound, ok, parseBody } from "@/lib/http";
+import { decisionBriefSchema, frameworkResultSchema, scenarioCreateRequestSchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    return ok({ scenarios: await listDecisionScenarios(id) });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Stored scenarios failed validation", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to list scenarios");
+  }
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const decision = await getDecisionWithLatestBrief(id);
+
+    if (!decision) {
+      return notFound(`Decision ${id} not found`);
+    }
+
+    const briefRecord = decision.briefs[0];
+    if (!briefRecord) {
+      return badRequest("Decision brief not found. Run refinement first.");
+    }
+
+    const run = await getLatestCompleteRun(id);
+    if (!run) {
+      return badRequest("No completed analysis run found for this decision.");
+    }
+
+    const payload = await parseBody(request, scenarioCreateRequestSchema);
+    const brief =
+      typeof run.briefVersion === "number"
+        ? (await getDecisionBriefVersion(id, run.briefVersion)).brief
+        : decisionBriefSchema.parse(briefRecord.briefJson);
+    const frameworkResults = run.frameworkResults.map((record) => frameworkResultSchema.parse(record.resultJson));
+
+    // Re-score on the server rather than trusting the client's ranking, so it always matches the overrides.
+    const model = applyWhatIf(resolveHeuristicModel(brief, frameworkResults), payload.overrides);
+    const ranking = rankHeuristicOptions(model);
+    const scenario = await createDecisionScenario(id, {
+      name: payload.name,
+      runId: run.id,
+      overrides: payload.overrides,
+      ranking,
+    });
+
+    return created({ scenario });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid scenario payload", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to save scenario");
+  }
+}
@@ -1,8 +1,31 @@
 import { ZodError } from "zod";
 
-import { createDecision } from "@/lib/decisions";
-import { created, badRequest, serverError, parseBody } from "@/lib/http";
-import { createDecisionInputSchema } from "@/lib/schemas";
+import { createDecision, listDecisions } from "@/lib/decisions";
+import {
+  created,
+  badRequest,
+  handleRouteError,
+  ok,
+  serverError,
+  parseBody,
+  parseSearchParams,
+} from "@/lib/http";
+import { createDecisionInputSchema, decisionLibraryQuerySchema } from "@/lib/schemas";
+
+export async function GET(request: Request) {
+  try {
+    const query = parseSearchParams(request, decisionLibraryQuerySchema);
+    const page = await listDecisions(query);
+
+    return ok(page);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid decision library query", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to list decisions");
+  }
+}
 
 export async function POST(request: Request) {
   try {
@@ -0,0 +1,38 @@
+import { ZodError } from "zod";
+
+import { badRequest, handleRouteError, ok, parseBody } from "@/lib/http";
+import { getPromptTemplateVersion, updatePromptTemplateVersion } from "@/lib/prompts/store";
+import { updatePromptTemplateVersionSchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    return ok(await getPromptTemplateVersion(id));
+  } catch (error) {
+    return handleRouteError(error, "Failed to fetch prompt template version");
+  }
+}
+
+/** Activates, archives, or reweights a version; template text is immutable once saved. */
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const patch = await parseBody(request, updatePromptTemplateVersionSchema);
+
+    return ok(await updatePromptTemplateVersion(id, patch));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid prompt template update", error.flatten());
+    }
+    if (error instanceof SyntaxError) {
+      return badRequest("Invalid JSON body");
+    }
+
+    return handleRouteError(error, "Failed to update prompt template version");
+  }
+}
@@ -0,0 +1,46 @@
+import { ZodError } from "zod";
+
+import { badRequest, created, handleRouteError, ok, parseBody, parseSearchParams } from "@/lib/http";
+import { createPromptTemplateVersion, listPromptTemplateVersions } from "@/lib/prompts/store";
+import { BUILTIN_PROMPT_TEMPLATES, PROMPT_TEMPLATE_VARIABLES } from "@/lib/prompts/templates";
+import { createPromptTemplateVersionSchema, promptTemplateQuerySchema } from "@/lib/schemas";
+import { PROMPT_TEMPLATE_KEYS } from "@/lib/types";
+
+export async function GET(request: Request) {
+  try {
+    const query = parseSearchParams(request, promptTemplateQuerySchema);
+
+    return ok({
+      builtins: PROMPT_TEMPLATE_KEYS.filter((key) => !query.key || key === query.key).map((key) => ({
+        key,
+        version: 0,
+        variables: PROMPT_TEMPLATE_VARIABLES[key],
+        ...BUILTIN_PROMPT_TEMPLATES[key],
+      })),
+      versions: await listPromptTemplateVersions(query),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid prompt template query", error.flatten());
+    }
+
+    return handleRouteError(error, "Failed to list prompt templates");
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const input = await parseBody(request, createPromptTemplateVersionSchema);
+
+    return created(await createPromptTemplateVersion(input));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid prompt template payload", error.flatten());
+    }
+    if (error instanceof SyntaxError) {
+      return badRequest("Invalid JSON body");
+    }
+
+    return handleRouteError(error, "Failed to create prompt template version");
+  }
+}
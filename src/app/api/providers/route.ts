@@ -0,0 +1,12 @@
+import { handleRouteError, ok } from "@/lib/http";
+import { listProviderSummaries } from "@/lib/llm/registry";
+import { PROVIDER_TIERS } from "@/lib/types";
+
+/** Tiers and registered providers, in priority order, for provider pickers. No health checks. */
+export async function GET() {
+  try {
+    return ok({ tiers: PROVIDER_TIERS, providers: listProviderSummaries() });
+  } catch (error) {
+    return handleRouteError(error, "Failed to list providers");
+  }
+}
@@ -0,0 +1,15 @@
+import { cancelAnalysisRun } from "@/lib/analysis/runner";
+import { handleRouteError, ok } from "@/lib/http";
+
+interface RouteContext {
+  params: Promise<{ runId: string }>;
+}
+
+export async function POST(_request: Request, context: RouteContext) {
+  try {
+    const { runId } = await context.params;
+    return ok(await cancelAnalysisRun(runId));
+  } catch (error) {
+    return handleRouteError(error, "Failed to cancel run");
+  }
+}
@@ -0,0 +1,108 @@
+import { getRunStatusSnapshot, listRunFrameworkResults } from "@/lib/analysis/runner";
+import { formatServerSentEvent, subscribeToRunEvents } from "@/lib/analysis/run-events";
+import { handleRouteError, notFound } from "@/lib/http";
+import type { RunEvent, RunStatus } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+const TERMINAL_STATUSES: RunStatus[] = ["complete", "failed", "cancelled"];
+const KEEP_ALIVE_MS = 15000;
+
+interface RouteContext {
+  params: Promise<{ runId: string }>;
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  let unsubscribe = () => {};
+
+  try {
+    const { runId } = await context.params;
+
+    // Subscribe before reading the snapshot so nothing published in between is lost.
+    const buffered: RunEvent[] = [];
+    let forward: ((event: RunEvent) => void) | null = null;
+    unsubscribe = subscribeToRunEvents(runId, (event) => {
+      if (forward) {
+        forward(event);
+      } else {
+        buffered.push(event);
+      }
+    });
+
+    const snapshot = await getRunStatusSnapshot(runId);
+    if (!snapshot) {
+      unsubscribe();
+      return notFound(`Run ${runId} not found`);
+    }
+    const frameworkResults = await listRunFrameworkResults(runId);
+
+    const encoder = new TextEncoder();
+    let keepAlive: ReturnType<typeof setInterval> | null = null;
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const close = () => {
+          if (closed) {
+            return;
+          }
+          closed = true;
+          unsubscribe();
+          if (keepAlive) {
+            clearInterval(keepAlive);
+          }
+          controller.close();
+        };
+
+        const send = (event: RunEvent) => {
+          if (closed) {
+            return;
+          }
+          controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+          if (event.type === "status" && TERMINAL_STATUSES.includes(event.status)) {
+            close();
+          }
+        };
+
+        send({
+          type: "snapshot",
+          runId,
+          at: new Date().toISOString(),
+          run: snapshot,
+          frameworkResults,
+        });
+        if (TERMINAL_STATUSES.includes(snapshot.status)) {
+          close();
+          return;
+        }
+
+        buffered.splice(0).forEach(send);
+        forward = send;
+        keepAlive = setInterval(() => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(": keep-alive\n\n"));
+          }
+        }, KEEP_ALIVE_MS);
+        request.signal.addEventListener("abort", close, { once: true });
+      },
+      cancel() {
+        closed = true;
+        unsubscribe();
+        if (keepAlive) {
+          clearInterval(keepAlive);
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    unsubscribe();
+    return handleRouteError(error, "Failed to stream run events");
+  }
+}
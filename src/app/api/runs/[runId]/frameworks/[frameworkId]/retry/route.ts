@@ -0,0 +1,29 @@
+import { ZodError } from "zod";
+
+import { retryFrameworkInRun } from "@/lib/analysis/runner";
+import { badRequest, handleRouteError, ok } from "@/lib/http";
+import { frameworkIdSchema, frameworkRetryRequestSchema } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ runId: string; frameworkId: string }>;
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const { runId, frameworkId: rawFrameworkId } = await context.params;
+    const frameworkId = frameworkIdSchema.parse(rawFrameworkId);
+    const rawBody = await request.text();
+    const payload = frameworkRetryRequestSchema.parse(rawBody.trim() ? JSON.parse(rawBody) : {});
+
+    return ok(await retryFrameworkInRun(runId, frameworkId, payload.providerPreference));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return badRequest("Invalid framework retry request", error.flatten());
+    }
+    if (error instanceof SyntaxError) {
+      return badRequest("Invalid JSON body");
+    }
+
+    return handleRouteError(error, "Failed to retry framework");
+  }
+}
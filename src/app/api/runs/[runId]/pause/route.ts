@@ -0,0 +1,15 @@
+import { pauseAnalysisRun } from "@/lib/analysis/runner";
+import { handleRouteError, ok } from "@/lib/http";
+
+interface RouteContext {
+  params: Promise<{ runId: string }>;
+}
+
+export async function POST(_request: Request, context: RouteContext) {
+  try {
+    const { runId } = await context.params;
+    return ok(await pauseAnalysisRun(runId));
+  } catch (error) {
+    return handleRouteError(error, "Failed to pause run");
+  }
+}
@@ -0,0 +1,5 @@
+import { DecisionLibrary } from "@/components/DecisionLibrary";
+
+export default function DecisionLibraryPage() {
+  return <DecisionLibrary />;
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+
+import { fetchJson } from "@/lib/client/api";
+import type { DecisionLibraryItem, DecisionLibraryPage, RunStatus } from "@/lib/types";
+
+type StatusFilter = RunStatus | "none" | "";
+type SortField = "createdAt" | "updatedAt";
+
+interface LibraryFilters {
+  q: string;
+  status: StatusFilter;
+  minQuality: string;
+  sort: SortField;
+}
+
+const PAGE_SIZE = 20;
+
+const initialFilters: LibraryFilters = {
+  q: "",
+  status: "",
+  minQuality: "",
+  sort: "updatedAt",
+};
+
+function buildLibraryUrl(filters: LibraryFilters, cursor?: string | null): string {
+  const params = new URLSearchParams({
+    limit: String(PAGE_SIZE),
+    sort: filters.sort,
+    order: "desc",
+  });
+
+  if (filters.q.trim()) {
+    params.set("q", filters.q.trim());
+  }
+  if (filters.status) {
+    params.set("status", filters.status);
+  }
+  if (filters.minQuality) {
+    params.set("minQuality", filters.minQuality);
+  }
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+
+  return `/api/decisions?${params.toString()}`;
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+function statusLabel(item: DecisionLibraryItem): string {
+  if (!item.latestRun) {
+    return item.latestBrief ? "brief ready" : "clarifying";
+  }
+
+  return item.latestRun.status;
+}
+
+export function DecisionLibrary() {
+  const [filters, setFilters] = useState<LibraryFilters>(initialFilters);
+  const [appliedFilters, setAppliedFilters] = useState<LibraryFilters>(initialFilters);
+  const [items, setItems] = useState<DecisionLibraryItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (activeFilters: LibraryFilters, cursor?: string | null) => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const page = await fetchJson<DecisionLibraryPage>(buildLibraryUrl(activeFilters, cursor));
+      setItems((previous) => (cursor ? [...previous, ...page.items] : page.items));
+      setNextCursor(page.nextCursor);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load decisions");
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPage(appliedFilters);
+  }, [appliedFilters, loadPage]);
+
+  return (
+    <div className="mx-auto flex w-full max-w-[1200px] flex-col gap-6 px-4 py-6 lg:px-10">
+      <header className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.24em] text-sky-300">DecisionRoom</p>
+          <h1 className="text-3xl font-semibold tracking-tight text-slate-50">Decision Library</h1>
+          <p className="mt-1 text-sm text-slate-300">Search and reopen past decisions, briefs, and analysis runs.</p>
+        </div>
+        <Link
+          href="/"
+          className="rounded-xl bg-sky-400 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-sky-300"
+        >
+          New decision
+        </Link>
+      </header>
+
+      <form
+        className="grid gap-3 rounded-2xl border border-slate-700/60 bg-slate-900/65 p-4 md:grid-cols-[2fr_1fr_1fr_1fr_auto]"
+        onSubmit={(event) => {
+          event.preventDefault();
+          setAppliedFilters(filters);
+        }}
+      >
+        <input
+          className="rounded-xl border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100"
+          placeholder="Search titles and prompts"
+          value={filters.q}
+          onChange={(event) => setFilters((previous) => ({ ...previous, q: event.target.value }))}
+        />
+        <select
+          aria-label="Latest run status"
+          className="rounded-xl border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100"
+          value={filters.status}
+          onChange={(event) =>
+            setFilters((previous) => ({ ...previous, status: event.target.value as StatusFilter }))
+          }
+        >
+          <option value="">Any run status</option>
+          <option value="none">No runs yet</option>
+          <option value="queued">Queued</option>
+          <option value="analyzing">Analyzing</option>
+          <option value="synthesizing">Synthesizing</option>
+          <option value="complete">Complete</option>
+          <option value="paused">Paused</option>
+          <option value="failed">Failed</option>
+          <option value="cancelled">Cancelled</option>
+        </select>
+        <select
+          aria-label="Minimum brief quality"
+          className="rounded-xl border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100"
+          value={filters.minQuality}
+          onChange={(event) => setFilters((previous) => ({ ...previous, minQuality: event.target.value }))}
+        >
+          <option value="">Any brief quality</option>
+          <option value="0.5">Quality ≥ 50%</option>
+          <option value="0.67">Quality ≥ 67%</option>
+          <option value="0.85">Quality ≥ 85%</option>
+        </select>
+        <select
+          aria-label="Sort by"
+          className="rounded-xl border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100"
+          value={filters.sort}
+          onChange={(event) =>
+            setFilters((previous) => ({ ...previous, sort: event.target.value as SortField }))
+          }
+        >
+          <option value="updatedAt">Recently updated</option>
+          <option value="createdAt">Recently created</option>
+        </select>
+        <button
+          type="submit"
+          disabled={busy}
+          className="rounded-xl border border-slate-500 px-4 py-2 text-sm text-slate-100 hover:border-sky-400 disabled:opacity-60"
+        >
+          Search
+        </button>
+      </form>
+
+      {error ? (
+        <p className="rounded-xl border border-rose-400/40 bg-rose-500/10 px-4 py-2 text-sm text-rose-200">{error}</p>
+      ) : null}
+
+      <section className="space-y-3">
+        {items.length === 0 && !busy ? (
+          <p className="rounded-2xl border border-slate-700/60 bg-slate-900/65 p-5 text-sm text-slate-300">
+            {nextCursor
+              ? "No matches among the decisions scanned so far. Load more to keep searching."
+              : "No decisions match the current filters."}
+          </p>
+        ) : null}
+
+        {items.map((item) => (
+          <Link
+            key={item.id}
+            href={`/decision/${item.id}`}
+            className="block rounded-2xl border border-slate-700/60 bg-slate-900/65 p-4 transition hover:border-sky-400/60"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-base font-semibold text-slate-100">{item.title}</h2>
+              <span className="rounded-full border border-slate-600 px-2.5 py-0.5 text-[11px] text-slate-200">
+                {statusLabel(item)}
+              </span>
+            </div>
+            <p className="mt-1 line-clamp-2 text-xs text-slate-300">{item.prompt}</p>
+            <div className="mt-2 flex flex-wrap gap-3 text-[11px] text-slate-400">
+              <span>Created {formatTimestamp(item.createdAt)}</span>
+              <span>Updated {formatTimestamp(item.updatedAt)}</span>
+              {item.latestBrief ? (
+                <span>
+                  Brief v{item.latestBrief.version}
+                  {typeof item.latestBrief.qualityScore === "number"
+                    ? ` · quality ${Math.round(item.latestBrief.qualityScore * 100)}%`
+                    : ""}
+                </span>
+              ) : null}
+              {item.latestRun ? (
+                <span>
+                  {item.latestRun.frameworkCount} frameworks · {item.latestRun.provider}
+                  {item.latestRun.model ? ` (${item.latestRun.model})` : ""}
+                </span>
+              ) : null}
+            </div>
+          </Link>
+        ))}
+      </section>
+
+      {nextCursor ? (
+        <button
+          type="button"
+          onClick={() => void loadPage(appliedFilters, nextCursor)}
+          disabled={busy}
+          className="mx-auto rounded-full border border-slate-600 px-4 py-1.5 text-xs text-slate-200 disabled:opacity-60"
+        >
+          {busy ? "Loading..." : "Load more"}
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -1,28 +1,39 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { AnimatePresence, motion } from "framer-motion";
 
 import { AnalysisStep } from "@/components/decision-studio/AnalysisStep";
 import { ClarificationStep } from "@/components/decision-studio/ClarificationStep";
 import { IntakeStep } from "@/components/decision-studio/IntakeStep";
+import { PartialBriefPreview } from "@/components/decision-studio/PartialBriefPreview";
 import { RecommendationStep } from "@/components/decision-studio/RecommendationStep";
 import type {
   DecisionDetailPayload,
+  LiveFrameworkProgress,
   ResultsPayload,
+  RunControlAction,
 } from "@/components/decision-studio/types";
 import { rankFrameworkFitsForBrief } from "@/lib/frameworks/fit-ranking";
 import { listFrameworkDefinitions } from "@/lib/frameworks/registry";
-import { ApiError, fetchJson } from "@/lib/client/api";
+import { ApiError, fetchEventStream, fetchJson } from "@/lib/client/api";
 import type {
+  BriefAuthor,
+  BriefStreamEvent,
   ClarificationQuestion,
   CreateDecisionInput,
   DecisionRecommendation,
   DecisionBrief,
   DecisionRunStatus,
   FrameworkId,
+  FrameworkResult,
   ProviderPreference,
+  ProviderSummary,
+  RunEvent,
+  RunEventType,
+  RunStatus,
 } from "@/lib/types";
 
 interface Props {
@@ -130,6 +141,17 @@ function getFallbackAutofillAnswer(question: ClarificationQuestion, form: Create
   return `Given the current decision context (${decisionSummary}), I would choose the most testable option and validate it against constraints before scaling.`;
 }
 
+function liveFrameworkFromResult(result: FrameworkResult): LiveFrameworkProgress {
+  return {
+    frameworkId: result.frameworkId,
+    state: result.generation?.mode === "fallback" ? "fallback" : "complete",
+    provider: result.generation?.provider ?? null,
+    model: result.generation?.model ?? null,
+    result,
+    warning: result.generation?.warning ?? null,
+  };
+}
+
 function deriveStage(
   decisionId: string | null,
   brief: DecisionBrief | null,
@@ -140,7 +162,7 @@ function deriveStage(
     return "results";
   }
 
-  if (runStatus && ["queued", "analyzing", "synthesizing"].includes(runStatus.status)) {
+  if (runStatus && ["queued", "analyzing", "synthesizing", "paused"].includes(runStatus.status)) {
     return "analyze";
   }
 
@@ -178,10 +200,17 @@ export function DecisionStudio({ initialDecisionId }: Props) {
   const [answers, setAnswers] = useState<Record<string, string>>({});
   const [brief, setBrief] = useState<DecisionBrief | null>(null);
   const [briefQualityScore, setBriefQualityScore] = useState<number | null>(null);
+  const [briefAuthor, setBriefAuthor] = useState<BriefAuthor | null>(null);
   const [runId, setRunId] = useState<string | null>(null);
   const [runStatus, setRunStatus] = useState<DecisionRunStatus | null>(null);
+  const [liveFrameworks, setLiveFrameworks] = useState<Record<string, LiveFrameworkProgress>>({});
+  const [liveWarnings, setLiveWarnings] = useState<string[]>([]);
+  const [retryingFrameworkId, setRetryingFrameworkId] = useState<FrameworkId | null>(null);
   const [results, setResults] = useState<ResultsPayload | null>(null);
   const [providerPreference, setProviderPreference] = useState<ProviderPreference>("auto");
+  const [providers, setProviders] = useState<ProviderSummary[]>([]);
+  const [ensembleSamples, setEnsembleSamples] = useState(1);
+  const [bypassCache, setBypassCache] = useState(false);
   const [selectedFrameworkIds, setSelectedFrameworkIds] = useState<Set<FrameworkId>>(
     () => new Set<FrameworkId>(),
   );
@@ -193,6 +222,9 @@ export function DecisionStudio({ initialDecisionId }: Props) {
   const [showFrameworkPanels, setShowFrameworkPanels] = useState(false);
   const [showRelationshipMap, setShowRelationshipMap] = useState(false);
   const [briefElapsedSeconds, setBriefElapsedSeconds] = useState(0);
+  const [partialBrief, setPartialBrief] = useState<{ brief: Partial<DecisionBrief>; provider: string } | null>(
+    null,
+  );
   const lastAutoSelectionBriefSignature = useRef<string | null>(null);
 
   const selectedFrameworkArray = useMemo(
@@ -272,7 +304,8 @@ export function DecisionStudio({ initialDecisionId }: Props) {
   const loadResults = useCallback(async (targetDecisionId: string) => {
     const payload = await fetchJson<ResultsPayload>(`/api/decisions/${targetDecisionId}/results`);
     setResults(payload);
-    setBrief(payload.brief);
+    // The run may have analyzed an older brief version; keep showing the current one.
+    setBrief((previous) => previous ?? payload.brief);
     setRunId(payload.runId);
     setRunStatus((previous) =>
       previous
@@ -340,6 +373,7 @@ export function DecisionStudio({ initialDecisionId }: Props) {
           ...payload.decision.input,
         }));
         setBriefQualityScore(payload.briefQualityScore);
+        setBriefAuthor(payload.briefAuthor);
         if (payload.brief) {
           setBrief(payload.brief);
         }
@@ -379,43 +413,166 @@ export function DecisionStudio({ initialDecisionId }: Props) {
     };
   }, [initialDecisionId, loadResults]);
 
+  const hasBrief = brief !== null;
+  useEffect(() => {
+    if (!hasBrief || providers.length > 0) {
+      return;
+    }
+
+    let cancelled = false;
+
+    void fetchJson<{ providers: ProviderSummary[] }>("/api/providers")
+      .then((payload) => {
+        if (!cancelled) {
+          setProviders(payload.providers);
+        }
+      })
+      .catch(() => {
+        // Tier preferences still work without the provider list.
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasBrief, providers.length]);
+
   useEffect(() => {
     if (!runId) {
       return;
     }
 
     let mounted = true;
-    const timer = setInterval(() => {
-      void fetchJson<DecisionRunStatus>(`/api/runs/${runId}`)
-        .then(async (snapshot) => {
-          if (!mounted) {
-            return;
-          }
+    let finished = false;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let source: EventSource | null = null;
+    const completedFrameworkIds = new Set<FrameworkId>();
+
+    const stop = () => {
+      finished = true;
+      if (timer) {
+        clearInterval(timer);
+      }
+      source?.close();
+    };
 
-          setRunStatus(snapshot);
+    const onStatus = async (status: RunStatus, statusError: string | null) => {
+      if (status === "complete" && decisionId) {
+        stop();
+        await loadResults(decisionId);
+      }
 
-          if (snapshot.status === "complete" && decisionId) {
-            clearInterval(timer);
-            await loadResults(decisionId);
-          }
+      if (status === "failed") {
+        stop();
+        setError(statusError ?? "Analysis run failed");
+      }
 
-          if (snapshot.status === "failed") {
-            clearInterval(timer);
-            setError(snapshot.error ?? "Analysis run failed");
-          }
-        })
-        .catch((pollError) => {
-          if (!mounted) {
-            return;
-          }
-          clearInterval(timer);
-          setError(getApiErrorMessage(pollError));
-        });
-    }, 1500);
+      if (status === "cancelled") {
+        stop();
+      }
+    };
+
+    const startPolling = () => {
+      timer = setInterval(() => {
+        void fetchJson<DecisionRunStatus>(`/api/runs/${runId}`)
+          .then(async (snapshot) => {
+            if (!mounted) {
+              return;
+            }
+
+            setRunStatus(snapshot);
+            await onStatus(snapshot.status, snapshot.error);
+          })
+          .catch((pollError) => {
+            if (!mounted) {
+              return;
+            }
+            stop();
+            setError(getApiErrorMessage(pollError));
+          });
+      }, 1500);
+    };
+
+    const listen = <T extends RunEventType>(
+      type: T,
+      handler: (event: Extract<RunEvent, { type: T }>) => void,
+    ) => {
+      source?.addEventListener(type, (message) => {
+        if (mounted) {
+          handler(JSON.parse((message as MessageEvent<string>).data));
+        }
+      });
+    };
+
+    setLiveFrameworks({});
+    setLiveWarnings([]);
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      source = new EventSource(`/api/runs/${runId}/events`);
+
+      listen("snapshot", (event) => {
+        event.frameworkResults.forEach((result) => completedFrameworkIds.add(result.frameworkId));
+        setRunStatus(event.run);
+        setLiveFrameworks(
+          Object.fromEntries(
+            event.frameworkResults.map((result) => [result.frameworkId, liveFrameworkFromResult(result)]),
+          ),
+        );
+        void onStatus(event.run.status, event.run.error);
+      });
+      listen("status", (event) => {
+        setRunStatus((previous) =>
+          previous ? { ...previous, status: event.status, error: event.error } : previous,
+        );
+        void onStatus(event.status, event.error);
+      });
+      listen("framework_started", (event) => {
+        setLiveFrameworks((previous) => ({
+          ...previous,
+          [event.frameworkId]: {
+            frameworkId: event.frameworkId,
+            state: "running",
+            provider: event.provider,
+            model: event.model,
+            result: null,
+            warning: null,
+          },
+        }));
+      });
+      listen("framework_fallback", (event) => {
+        setLiveWarnings((previous) => [...previous, event.warning]);
+      });
+      listen("warning", (event) => {
+        setLiveWarnings((previous) => [...previous, event.message]);
+      });
+      listen("framework_completed", (event) => {
+        if (completedFrameworkIds.has(event.frameworkId)) {
+          return;
+        }
+
+        completedFrameworkIds.add(event.frameworkId);
+        setLiveFrameworks((previous) => ({
+          ...previous,
+          [event.frameworkId]: liveFrameworkFromResult(event.result),
+        }));
+        setRunStatus((previous) =>
+          previous ? { ...previous, completedFrameworkCount: completedFrameworkIds.size } : previous,
+        );
+      });
+
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        if (mounted && !finished) {
+          startPolling();
+        }
+      };
+    }
 
     return () => {
       mounted = false;
-      clearInterval(timer);
+      stop();
     };
   }, [decisionId, loadResults, runId]);
 
@@ -444,6 +601,7 @@ export function DecisionStudio({ initialDecisionId }: Props) {
           if (payload.brief) {
             setBrief(payload.brief);
             setBriefQualityScore(payload.briefQualityScore);
+            setBriefAuthor(payload.briefAuthor);
             return true;
           }
         } catch {
@@ -478,6 +636,7 @@ export function DecisionStudio({ initialDecisionId }: Props) {
       setAnswers({});
       setBrief(null);
       setBriefQualityScore(null);
+      setBriefAuthor(null);
       setResults(null);
       setRunId(null);
       setRunStatus(null);
@@ -569,21 +728,32 @@ export function DecisionStudio({ initialDecisionId }: Props) {
 
     setBusy("brief");
     setError(null);
+    setPartialBrief(null);
 
     try {
-      const payload = await fetchJson<{ decisionBrief: DecisionBrief; qualityScore: number }>(
-        `/api/decisions/${decisionId}/refine`,
+      let streamError: ApiError | null = null;
+      await fetchEventStream<BriefStreamEvent>(
+        `/api/decisions/${decisionId}/refine/stream`,
         {
           method: "POST",
-          body: JSON.stringify({
-            mode: "submit_answers",
-            answers: answersPayload,
-          }),
+          body: JSON.stringify({ answers: answersPayload }),
+        },
+        (event) => {
+          if (event.type === "partial") {
+            setPartialBrief({ brief: event.brief, provider: event.provider });
+          } else if (event.type === "complete") {
+            setBrief(event.decisionBrief);
+            setBriefQualityScore(event.qualityScore);
+            setBriefAuthor("model");
+          } else {
+            streamError = new ApiError(event.error, 500, event.code, event.details);
+          }
         },
       );
 
-      setBrief(payload.decisionBrief);
-      setBriefQualityScore(payload.qualityScore);
+      if (streamError) {
+        throw streamError;
+      }
     } catch (briefError) {
       if (briefError instanceof ApiError && briefError.status === 504) {
         setError(
@@ -602,6 +772,58 @@ export function DecisionStudio({ initialDecisionId }: Props) {
       } else {
         setError(getApiErrorMessage(briefError));
       }
+    } finally {
+      setBusy(null);
+      setPartialBrief(null);
+    }
+  };
+
+  const onSaveBrief = async (edited: DecisionBrief): Promise<boolean> => {
+    if (!decisionId) {
+      return false;
+    }
+
+    setBusy("brief-edit");
+    setError(null);
+
+    try {
+      const payload = await fetchJson<{ decisionBrief: DecisionBrief; qualityScore: number }>(
+        `/api/decisions/${decisionId}/brief`,
+        {
+          method: "PUT",
+          body: JSON.stringify(edited),
+        },
+      );
+      setBrief(payload.decisionBrief);
+      setBriefQualityScore(payload.qualityScore);
+      setBriefAuthor("human");
+      return true;
+    } catch (saveError) {
+      setError(getApiErrorMessage(saveError));
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const onRestoreBrief = async (version: number) => {
+    if (!decisionId) {
+      return;
+    }
+
+    setBusy("brief-restore");
+    setError(null);
+
+    try {
+      const payload = await fetchJson<{ decisionBrief: DecisionBrief; qualityScore: number; author: BriefAuthor }>(
+        `/api/decisions/${decisionId}/briefs/${version}/restore`,
+        { method: "POST" },
+      );
+      setBrief(payload.decisionBrief);
+      setBriefQualityScore(payload.qualityScore);
+      setBriefAuthor(payload.author);
+    } catch (restoreError) {
+      setError(getApiErrorMessage(restoreError));
     } finally {
       setBusy(null);
     }
@@ -640,6 +862,8 @@ export function DecisionStudio({ initialDecisionId }: Props) {
         body: JSON.stringify({
           frameworkIds: selectedFrameworkArray,
           providerPreference,
+          ...(ensembleSamples > 1 ? { ensemble: { samples: ensembleSamples } } : {}),
+          ...(bypassCache ? { bypassCache: true } : {}),
         }),
       });
 
@@ -664,6 +888,53 @@ export function DecisionStudio({ initialDecisionId }: Props) {
     }
   };
 
+  const onRunControl = async (action: RunControlAction) => {
+    if (!runId) {
+      return;
+    }
+
+    setBusy("run-control");
+    setError(null);
+
+    try {
+      const snapshot = await fetchJson<DecisionRunStatus>(`/api/runs/${runId}/${action}`, {
+        method: "POST",
+      });
+      setRunStatus(snapshot);
+    } catch (controlError) {
+      setError(getApiErrorMessage(controlError));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const onRetryFramework = async (frameworkId: FrameworkId, preference: ProviderPreference) => {
+    if (!results || !decisionId) {
+      return;
+    }
+
+    setRetryingFrameworkId(frameworkId);
+    setError(null);
+
+    try {
+      await fetchJson(`/api/runs/${results.runId}/frameworks/${frameworkId}/retry`, {
+        method: "POST",
+        body: JSON.stringify({ providerPreference: preference }),
+      });
+      await loadResults(decisionId);
+    } catch (retryError) {
+      setError(getApiErrorMessage(retryError));
+    } finally {
+      setRetryingFrameworkId(null);
+    }
+  };
+
+  const onCriteriaSaved = async () => {
+    if (decisionId) {
+      await loadResults(decisionId);
+    }
+  };
+
   const onExecuteNextStep = async () => {
     if (stage === "intake") {
       await onCreateDecision();
@@ -736,7 +1007,9 @@ export function DecisionStudio({ initialDecisionId }: Props) {
             </p>
             <p className="mt-3 text-xs text-slate-400">
               Elapsed: {briefElapsedSeconds}s
+              {partialBrief ? ` · writing with ${partialBrief.provider}` : ""}
             </p>
+            {partialBrief ? <PartialBriefPreview brief={partialBrief.brief} /> : null}
           </div>
         </div>
       ) : null}
@@ -787,6 +1060,9 @@ export function DecisionStudio({ initialDecisionId }: Props) {
               <span>Current stage: {stage}</span>
               {decisionId ? <span className="truncate">ID: {decisionId}</span> : null}
             </div>
+            <Link href="/decisions" className="mt-2 block text-xs text-sky-300 underline underline-offset-4">
+              Open decision library
+            </Link>
           </div>
         </div>
 
@@ -894,8 +1170,16 @@ export function DecisionStudio({ initialDecisionId }: Props) {
             <AnalysisStep
               brief={brief}
               briefQualityScore={briefQualityScore}
+              briefAuthor={briefAuthor}
+              onSaveBrief={onSaveBrief}
+              onRestoreBrief={onRestoreBrief}
               providerPreference={providerPreference}
               setProviderPreference={setProviderPreference}
+              providers={providers}
+              ensembleSamples={ensembleSamples}
+              setEnsembleSamples={setEnsembleSamples}
+              bypassCache={bypassCache}
+              setBypassCache={setBypassCache}
               rankedFrameworkFits={rankedFrameworkFits}
               selectedFrameworkIds={selectedFrameworkIds}
               setSelectedFrameworkIds={setSelectedFrameworkIds}
@@ -905,7 +1189,10 @@ export function DecisionStudio({ initialDecisionId }: Props) {
               busy={busy}
               decisionId={decisionId}
               runStatus={runStatus}
+              liveFrameworks={liveFrameworks}
+              liveWarnings={liveWarnings}
               onStartAnalysis={onStartAnalysis}
+              onRunControl={onRunControl}
             />
           </motion.section>
         ) : null}
@@ -925,6 +1212,10 @@ export function DecisionStudio({ initialDecisionId }: Props) {
             setShowFrameworkPanels={setShowFrameworkPanels}
             displayedFrameworkResults={displayedFrameworkResults}
             frameworkOptions={frameworkOptions}
+            retryingFrameworkId={retryingFrameworkId}
+            providers={providers}
+            onRetryFramework={onRetryFramework}
+            onCriteriaSaved={onCriteriaSaved}
           />
         ) : null}
       </AnimatePresence>
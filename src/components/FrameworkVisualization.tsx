@@ -18,6 +18,7 @@ import type {
   ProjectPortfolioVizData,
   SwotVizData,
 } from "@/lib/types";
+import { formatOutcome, monteCarloBinLabel, monteCarloOutcomeAt } from "@/lib/analysis/monte-carlo";
 import { isTop12FrameworkId } from "@/lib/frameworks/visual-contracts";
 
 interface Props {
@@ -896,38 +897,53 @@ function MonteCarloViz({ data }: { data: MonteCarloVizData }) {
   const innerWidth = WIDTH - PADDING.left - PADDING.right;
   const innerHeight = HEIGHT - PADDING.top - PADDING.bottom;
   const x = d3
-    .scaleBand<string>()
-    .domain(rows.map((row) => `${Math.round(row.binStart * 100)}-${Math.round(row.binEnd * 100)}%`))
+    .scaleBand<number>()
+    .domain(rows.map((_, index) => index))
     .range([0, innerWidth])
     .padding(0.12);
   const y = d3.scaleLinear().domain([0, d3.max(rows, (row) => row.count) ?? 1]).nice().range([innerHeight, 0]);
   const percentileX = (value: number) => value * innerWidth;
+  const percentileLabel = (name: string, value: number) =>
+    data.outcome ? `${name} ${formatOutcome(monteCarloOutcomeAt(data, value))}` : name;
 
   return (
     <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-[250px] w-full rounded-xl bg-slate-950/80">
       <g transform={`translate(${PADDING.left},${PADDING.top})`}>
-        {rows.map((row) => {
-          const label = `${Math.round(row.binStart * 100)}-${Math.round(row.binEnd * 100)}%`;
-          return (
-            <rect
-              key={label}
-              x={x(label) ?? 0}
-              y={y(row.count)}
-              width={x.bandwidth()}
-              height={innerHeight - y(row.count)}
-              rx={3}
-              fill="rgba(56,189,248,0.82)"
-            />
-          );
-        })}
+        {rows.map((row, index) => (
+          <rect
+            key={index}
+            x={x(index) ?? 0}
+            y={y(row.count)}
+            width={x.bandwidth()}
+            height={innerHeight - y(row.count)}
+            rx={3}
+            fill="rgba(56,189,248,0.82)"
+          >
+            <title>{`${monteCarloBinLabel(data, row)}: ${row.count}`}</title>
+          </rect>
+        ))}
 
         <line x1={percentileX(data.p10)} y1={0} x2={percentileX(data.p10)} y2={innerHeight} stroke="#fca5a5" strokeDasharray="4 4" />
         <line x1={percentileX(data.p50)} y1={0} x2={percentileX(data.p50)} y2={innerHeight} stroke="#fcd34d" strokeDasharray="4 4" />
         <line x1={percentileX(data.p90)} y1={0} x2={percentileX(data.p90)} y2={innerHeight} stroke="#86efac" strokeDasharray="4 4" />
 
-        <text x={percentileX(data.p10) + 4} y={14} fill="#fecaca" fontSize="10">P10</text>
-        <text x={percentileX(data.p50) + 4} y={14} fill="#fef3c7" fontSize="10">P50</text>
-        <text x={percentileX(data.p90) + 4} y={14} fill="#bbf7d0" fontSize="10">P90</text>
+        <text x={percentileX(data.p10) + 4} y={14} fill="#fecaca" fontSize="10">{percentileLabel("P10", data.p10)}</text>
+        <text x={percentileX(data.p50) + 4} y={28} fill="#fef3c7" fontSize="10">{percentileLabel("P50", data.p50)}</text>
+        <text x={percentileX(data.p90) + 4} y={42} fill="#bbf7d0" fontSize="10">{percentileLabel("P90", data.p90)}</text>
+
+        {data.outcome ? (
+          <>
+            <text x={0} y={innerHeight + 16} fill="#94a3b8" fontSize="10">
+              {formatOutcome(data.outcome.min)}
+            </text>
+            <text x={innerWidth} y={innerHeight + 16} textAnchor="end" fill="#94a3b8" fontSize="10">
+              {formatOutcome(data.outcome.max)}
+            </text>
+            <text x={innerWidth / 2} y={innerHeight + 16} textAnchor="middle" fill="#93c5fd" fontSize="10">
+              {data.outcome.label}
+            </text>
+          </>
+        ) : null}
       </g>
     </svg>
   );
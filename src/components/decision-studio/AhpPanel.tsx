@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useState } from "react";
+
+import { CONSISTENCY_THRESHOLD, SAATY_SCALE, computeAhp } from "@/lib/analysis/ahp";
+import { fetchJson } from "@/lib/client/api";
+import type { AhpConsistency, AhpModel, AhpPriority, PairwiseJudgment } from "@/lib/types";
+
+interface AhpPanelProps {
+  decisionId: string;
+  /** Called after judgments are saved so the recommendation can be re-scored. */
+  onSaved: () => Promise<void>;
+}
+
+interface GridItem {
+  id: string;
+  label: string;
+}
+
+const CRITERIA_TAB = "criteria";
+
+function formatScale(value: number): string {
+  return value >= 1 ? String(value) : `1/${Math.round(1 / value)}`;
+}
+
+function judgedValue(judgments: PairwiseJudgment[], first: string, second: string): number {
+  const direct = judgments.find((judgment) => judgment.first === first && judgment.second === second);
+  if (direct) {
+    return direct.value;
+  }
+
+  const reverse = judgments.find((judgment) => judgment.first === second && judgment.second === first);
+  return reverse ? 1 / reverse.value : 1;
+}
+
+/** Judgments made through the API may fall between scale steps; the grid shows the nearest one. */
+function nearestScaleValue(value: number): number {
+  return SAATY_SCALE.reduce((best, step) =>
+    Math.abs(Math.log(step) - Math.log(value)) < Math.abs(Math.log(best) - Math.log(value)) ? step : best,
+  );
+}
+
+function setJudgment(
+  judgments: PairwiseJudgment[],
+  first: string,
+  second: string,
+  value: number,
+): PairwiseJudgment[] {
+  return [
+    ...judgments.filter(
+      (judgment) =>
+        !(judgment.first === first && judgment.second === second) &&
+        !(judgment.first === second && judgment.second === first),
+    ),
+    { first, second, value },
+  ];
+}
+
+function ConsistencyBadge({ consistency }: { consistency: AhpConsistency }) {
+  return (
+    <span className={consistency.consistent ? "text-emerald-300" : "text-amber-300"}>
+      CR {consistency.consistencyRatio.toFixed(2)}
+      {consistency.consistent ? " · consistent" : ` · above ${CONSISTENCY_THRESHOLD}, revisit judgments`}
+    </span>
+  );
+}
+
+function PairwiseGrid({
+  items,
+  judgments,
+  priorities,
+  onChange,
+}: {
+  items: GridItem[];
+  judgments: PairwiseJudgment[];
+  priorities: AhpPriority[];
+  onChange: (first: string, second: string, value: number) => void;
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-left">
+        <thead className="text-[11px] text-slate-400">
+          <tr>
+            <th className="py-1 pr-2" />
+            {items.map((item) => (
+              <th key={item.id} className="max-w-[120px] py-1 pr-2 font-medium">
+                {item.label}
+              </th>
+            ))}
+            <th className="py-1">Priority</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((row, rowIndex) => (
+            <tr key={row.id} className="border-t border-slate-800">
+              <th className="max-w-[160px] py-1 pr-2 font-medium text-slate-200">{row.label}</th>
+              {items.map((column, columnIndex) => {
+                if (rowIndex === columnIndex) {
+                  return (
+                    <td key={column.id} className="py-1 pr-2 text-center text-slate-500">
+                      1
+                    </td>
+                  );
+                }
+
+                const value = judgedValue(judgments, row.id, column.id);
+                // Each pair is edited once, above the diagonal; below it shows the reciprocal.
+                return rowIndex < columnIndex ? (
+                  <td key={column.id} className="py-1 pr-2">
+                    <select
+                      aria-label={`${row.label} vs ${column.label}`}
+                      className="rounded-lg border border-slate-700 bg-slate-950/70 px-1 py-0.5 text-xs text-slate-100"
+                      value={nearestScaleValue(value)}
+                      onChange={(event) => onChange(row.id, column.id, Number(event.target.value))}
+                    >
+                      {SAATY_SCALE.map((step) => (
+                        <option key={step} value={step}>
+                          {formatScale(step)}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                ) : (
+                  <td key={column.id} className="py-1 pr-2 text-center text-slate-400">
+                    {formatScale(nearestScaleValue(value))}
+                  </td>
+                );
+              })}
+              <td className="py-1 font-medium text-slate-100">
+                {Math.round((priorities.find((entry) => entry.id === row.id)?.priority ?? 0) * 100)}%
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function AhpPanel({ decisionId, onSaved }: AhpPanelProps) {
+  const [model, setModel] = useState<AhpModel | null>(null);
+  const [activeTab, setActiveTab] = useState<string>(CRITERIA_TAB);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void fetchJson<{ model: AhpModel }>(`/api/decisions/${decisionId}/ahp`)
+      .then((payload) => {
+        if (!cancelled) {
+          setModel(payload.model);
+        }
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load AHP judgments");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [decisionId]);
+
+  // Priorities update as judgments change; saving is only needed to re-score the recommendation.
+  const result = useMemo(() => (model ? computeAhp(model) : null), [model]);
+
+  const onSave = async () => {
+    if (!model) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const payload = await fetchJson<{ model: AhpModel }>(`/api/decisions/${decisionId}/ahp`, {
+        method: "PUT",
+        body: JSON.stringify({
+          criteria: model.criteria,
+          criteriaJudgments: model.criteriaJudgments,
+          alternativeJudgments: model.alternativeJudgments,
+        }),
+      });
+      setModel(payload.model);
+      await onSaved();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save AHP judgments");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!model || !result || model.criteria.length === 0 || model.options.length < 2) {
+    return error ? <p className="text-xs text-rose-200">{error}</p> : null;
+  }
+
+  const optionItems = model.options.map((option) => ({ id: option, label: option }));
+  const activeCriterion = model.criteria.find((criterion) => criterion.id === activeTab) ?? null;
+  const activeBreakdown = activeCriterion
+    ? result.byCriterion.find((entry) => entry.criterionId === activeCriterion.id)
+    : null;
+
+  const updateJudgment = (first: string, second: string, value: number) => {
+    setModel((previous) => {
+      if (!previous) {
+        return previous;
+      }
+
+      if (!activeCriterion) {
+        return { ...previous, criteriaJudgments: setJudgment(previous.criteriaJudgments, first, second, value) };
+      }
+
+      const existing =
+        previous.alternativeJudgments.find((entry) => entry.criterionId === activeCriterion.id)?.judgments ?? [];
+      return {
+        ...previous,
+        alternativeJudgments: [
+          ...previous.alternativeJudgments.filter((entry) => entry.criterionId !== activeCriterion.id),
+          { criterionId: activeCriterion.id, judgments: setJudgment(existing, first, second, value) },
+        ],
+      };
+    });
+  };
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-slate-700/60 bg-slate-900/65 p-5 text-xs text-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-100">Pairwise Comparison (AHP)</h3>
+          <p className="text-slate-400">
+            Each cell says how strongly the row is preferred to the column, from 1/9 to 9.
+            {model.updatedAt ? " Saved judgments drive the recommendation." : " Save to use AHP for the recommendation."}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void onSave()}
+          disabled={saving}
+          className="rounded-full bg-emerald-400 px-3 py-1 font-semibold text-slate-950 disabled:opacity-60"
+        >
+          {saving ? "Saving..." : "Save judgments"}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {[{ id: CRITERIA_TAB, label: "Criteria" }, ...model.criteria].map((tab) => (
+          <button
+            key={tab.id}
+            type="button"
+            onClick={() => setActiveTab(tab.id)}
+            className={`rounded-full border px-3 py-1 ${
+              activeTab === tab.id ? "border-sky-400 text-sky-100" : "border-slate-600 text-slate-300"
+            }`}
+          >
+            {tab.id === CRITERIA_TAB ? tab.label : `Options on ${tab.label}`}
+          </button>
+        ))}
+      </div>
+
+      {activeCriterion && activeBreakdown ? (
+        <>
+          <PairwiseGrid
+            items={optionItems}
+            judgments={
+              model.alternativeJudgments.find((entry) => entry.criterionId === activeCriterion.id)?.judgments ?? []
+            }
+            priorities={activeBreakdown.priorities}
+            onChange={updateJudgment}
+          />
+          <ConsistencyBadge consistency={activeBreakdown.consistency} />
+        </>
+      ) : (
+        <>
+          <PairwiseGrid
+            items={model.criteria}
+            judgments={model.criteriaJudgments}
+            priorities={result.criteria}
+            onChange={updateJudgment}
+          />
+          <ConsistencyBadge consistency={result.criteriaConsistency} />
+        </>
+      )}
+
+      <div>
+        <p className="font-semibold text-slate-100">Global priorities</p>
+        <ol className="mt-1 space-y-0.5">
+          {result.options.map((option) => (
+            <li key={option.id}>
+              {option.label}: {(option.priority * 100).toFixed(1)}%
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {error ? <p className="text-rose-200">{error}</p> : null}
+    </section>
+  );
+}
@@ -1,12 +1,31 @@
-import type { AnalysisStepProps } from "@/components/decision-studio/types";
+import { useState } from "react";
+
+import { BriefEditor } from "@/components/decision-studio/BriefEditor";
+import { BriefHistoryPanel } from "@/components/decision-studio/BriefHistoryPanel";
+import type { AnalysisStepProps, LiveFrameworkProgress } from "@/components/decision-studio/types";
+import { getFrameworkDefinition } from "@/lib/frameworks/registry";
 
 const MIN_BRIEF_QUALITY = 0.67;
 
+const LIVE_STATE_STYLES: Record<LiveFrameworkProgress["state"], string> = {
+  running: "border-sky-400/40 bg-sky-500/10 text-sky-200",
+  complete: "border-emerald-400/40 bg-emerald-500/10 text-emerald-200",
+  fallback: "border-amber-400/40 bg-amber-500/10 text-amber-200",
+};
+
 export function AnalysisStep({
   brief,
   briefQualityScore,
+  briefAuthor,
+  onSaveBrief,
+  onRestoreBrief,
   providerPreference,
   setProviderPreference,
+  providers,
+  ensembleSamples,
+  setEnsembleSamples,
+  bypassCache,
+  setBypassCache,
   rankedFrameworkFits,
   selectedFrameworkIds,
   setSelectedFrameworkIds,
@@ -16,10 +35,18 @@ export function AnalysisStep({
   busy,
   decisionId,
   runStatus,
+  liveFrameworks,
+  liveWarnings,
   onStartAnalysis,
+  onRunControl,
 }: AnalysisStepProps) {
+  const [editingBrief, setEditingBrief] = useState(false);
+  const liveFrameworkList = Object.values(liveFrameworks);
   const qualityBlocked =
     typeof briefQualityScore === "number" && briefQualityScore < MIN_BRIEF_QUALITY;
+  const runActive =
+    runStatus !== null && ["queued", "analyzing", "synthesizing"].includes(runStatus.status);
+  const runPaused = runStatus?.status === "paused";
 
   return (
     <div className="space-y-4 rounded-2xl border border-slate-700/60 bg-slate-900/65 p-5">
@@ -73,14 +100,41 @@ export function AnalysisStep({
         <select
           className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100"
           value={providerPreference}
-          onChange={(event) => setProviderPreference(event.target.value as typeof providerPreference)}
+          onChange={(event) => setProviderPreference(event.target.value)}
         >
-          <option value="auto">Auto (env priority)</option>
-          <option value="local">Local only (Ollama)</option>
-          <option value="hosted">Hosted only (Anthropic)</option>
+          <option value="auto">Auto (provider priority chain)</option>
+          <option value="local">Local only (offline providers)</option>
+          <option value="hosted">Hosted only</option>
+          {providers.length > 0 ? (
+            <optgroup label="Specific provider">
+              {providers.map((provider) => (
+                <option key={provider.name} value={provider.name}>
+                  {provider.name} ({provider.model})
+                </option>
+              ))}
+            </optgroup>
+          ) : null}
         </select>
       </label>
 
+      <label className="block text-xs font-medium uppercase tracking-wide text-slate-300">
+        Samples per framework
+        <select
+          className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-950/70 px-3 py-2 text-sm text-slate-100"
+          value={ensembleSamples}
+          onChange={(event) => setEnsembleSamples(Number(event.target.value))}
+        >
+          <option value={1}>1 (single pass)</option>
+          <option value={3}>3 (median of samples, slower)</option>
+          <option value={5}>5 (median of samples, slowest)</option>
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2 text-xs text-slate-300">
+        <input type="checkbox" checked={bypassCache} onChange={(event) => setBypassCache(event.target.checked)} />
+        Bypass response cache (re-query providers even if this brief was analyzed before)
+      </label>
+
       <button
         type="button"
         onClick={() => setShowFrameworkSelector((previous) => !previous)}
@@ -151,13 +205,129 @@ export function AnalysisStep({
             Progress: {runStatus.completedFrameworkCount}/{runStatus.frameworkCount}
           </p>
           {runStatus.error ? <p className="text-rose-200">Error: {runStatus.error}</p> : null}
+          {runActive || runPaused ? (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {runActive ? (
+                <button
+                  type="button"
+                  onClick={() => void onRunControl("pause")}
+                  disabled={busy === "run-control"}
+                  className="rounded-full border border-slate-600 px-3 py-1 text-xs text-slate-200 disabled:opacity-60"
+                >
+                  Pause
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => void onRunControl("resume")}
+                  disabled={busy === "run-control"}
+                  className="rounded-full border border-emerald-400/50 px-3 py-1 text-xs text-emerald-200 disabled:opacity-60"
+                >
+                  Resume
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => void onRunControl("cancel")}
+                disabled={busy === "run-control"}
+                className="rounded-full border border-rose-400/50 px-3 py-1 text-xs text-rose-200 disabled:opacity-60"
+              >
+                Cancel run
+              </button>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {liveFrameworkList.length > 0 ? (
+        <div className="space-y-2">
+          <h3 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">Live framework results</h3>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {liveFrameworkList.map((live) => (
+              <article
+                key={live.frameworkId}
+                className="rounded-xl border border-slate-700 bg-slate-950/70 p-3 text-xs text-slate-200"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="truncate font-semibold text-slate-100">
+                    {live.result?.frameworkName ?? getFrameworkDefinition(live.frameworkId).name}
+                  </p>
+                  <span className={`rounded-full border px-2 py-0.5 text-[10px] ${LIVE_STATE_STYLES[live.state]}`}>
+                    {live.state}
+                  </span>
+                </div>
+                <p className="mt-1 text-[11px] text-slate-400">
+                  {live.provider ?? "simulation"}
+                  {live.model ? ` (${live.model})` : ""}
+                </p>
+                {live.result ? (
+                  <>
+                    <p className="mt-1 text-[11px] text-slate-300">
+                      Applicability {Math.round(live.result.applicabilityScore * 100)}% · confidence{" "}
+                      {Math.round(live.result.confidence * 100)}%
+                    </p>
+                    <p className="mt-1 line-clamp-2 text-slate-300">{live.result.insights[0]}</p>
+                  </>
+                ) : null}
+              </article>
+            ))}
+          </div>
         </div>
       ) : null}
 
+      {liveWarnings.length > 0 ? (
+        <ul className="space-y-1 rounded-xl border border-amber-400/40 bg-amber-500/10 p-3 text-xs text-amber-100">
+          {liveWarnings.map((warning, index) => (
+            <li key={`${index}-${warning}`}>{warning}</li>
+          ))}
+        </ul>
+      ) : null}
+
       <div className="rounded-xl border border-slate-700 bg-slate-950/70 p-3">
-        <h3 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">Brief Summary</h3>
-        <p className="mt-2 text-sm text-slate-300">{brief.decisionStatement}</p>
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">
+            Brief Summary
+            {briefAuthor === "human" ? (
+              <span className="ml-2 normal-case tracking-normal text-sky-200">edited by you</span>
+            ) : null}
+          </h3>
+          {editingBrief ? null : (
+            <button
+              type="button"
+              onClick={() => setEditingBrief(true)}
+              disabled={runActive}
+              className="rounded-full border border-slate-600 px-3 py-1 text-xs text-slate-200 disabled:opacity-60"
+            >
+              Edit brief
+            </button>
+          )}
+        </div>
+        {editingBrief ? (
+          <BriefEditor
+            brief={brief}
+            saving={busy === "brief-edit"}
+            onSave={async (edited) => {
+              const saved = await onSaveBrief(edited);
+              if (saved) {
+                setEditingBrief(false);
+              }
+              return saved;
+            }}
+            onCancel={() => setEditingBrief(false)}
+          />
+        ) : (
+          <p className="mt-2 text-sm text-slate-300">{brief.decisionStatement}</p>
+        )}
       </div>
+
+      {decisionId ? (
+        <BriefHistoryPanel
+          decisionId={decisionId}
+          brief={brief}
+          restoring={busy === "brief-restore" || runActive}
+          onRestore={onRestoreBrief}
+        />
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,189 @@
+import { useState } from "react";
+
+import type { BriefListField, DecisionBrief } from "@/lib/types";
+
+type OptionalField = "deadline" | "budget" | "timeLimit";
+
+export const BRIEF_FIELD_LABELS: Record<keyof DecisionBrief, string> = {
+  title: "Title",
+  decisionStatement: "Decision statement",
+  context: "Context",
+  alternatives: "Alternatives",
+  constraints: "Constraints",
+  deadline: "Deadline",
+  stakeholders: "Stakeholders",
+  successCriteria: "Success criteria",
+  riskTolerance: "Risk tolerance",
+  budget: "Budget",
+  timeLimit: "Time limit",
+  assumptions: "Assumptions",
+  openQuestions: "Open questions",
+  executionSteps: "Execution steps",
+};
+
+const LIST_FIELDS: BriefListField[] = [
+  "alternatives",
+  "constraints",
+  "stakeholders",
+  "successCriteria",
+  "assumptions",
+  "openQuestions",
+  "executionSteps",
+];
+
+const OPTIONAL_FIELDS: OptionalField[] = ["deadline", "budget", "timeLimit"];
+
+const INPUT_CLASS =
+  "mt-1 w-full rounded-lg border border-slate-700 bg-slate-950/70 px-2 py-1.5 text-sm text-slate-100";
+
+interface BriefEditorProps {
+  brief: DecisionBrief;
+  saving: boolean;
+  onSave: (brief: DecisionBrief) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+/** Blank list items are dropped and blank optional fields become null, as the brief schema expects. */
+function normalizeDraft(draft: DecisionBrief): DecisionBrief {
+  const normalized = { ...draft, title: draft.title.trim() };
+
+  for (const key of LIST_FIELDS) {
+    normalized[key] = draft[key].map((item) => item.trim()).filter((item) => item.length > 0);
+  }
+  for (const key of OPTIONAL_FIELDS) {
+    normalized[key] = draft[key]?.trim() || null;
+  }
+
+  return normalized;
+}
+
+export function BriefEditor({ brief, saving, onSave, onCancel }: BriefEditorProps) {
+  const [draft, setDraft] = useState<DecisionBrief>(brief);
+
+  const updateList = (key: BriefListField, update: (items: string[]) => string[]) => {
+    setDraft((previous) => ({ ...previous, [key]: update(previous[key]) }));
+  };
+
+  return (
+    <form
+      className="mt-3 space-y-3 text-xs text-slate-300"
+      onSubmit={(event) => {
+        event.preventDefault();
+        void onSave(normalizeDraft(draft));
+      }}
+    >
+      <label className="block">
+        {BRIEF_FIELD_LABELS.title}
+        <input
+          className={INPUT_CLASS}
+          value={draft.title}
+          onChange={(event) => setDraft((previous) => ({ ...previous, title: event.target.value }))}
+        />
+      </label>
+      <label className="block">
+        {BRIEF_FIELD_LABELS.decisionStatement}
+        <textarea
+          className={INPUT_CLASS}
+          rows={3}
+          value={draft.decisionStatement}
+          onChange={(event) => setDraft((previous) => ({ ...previous, decisionStatement: event.target.value }))}
+        />
+      </label>
+      <label className="block">
+        {BRIEF_FIELD_LABELS.context}
+        <textarea
+          className={INPUT_CLASS}
+          rows={4}
+          value={draft.context}
+          onChange={(event) => setDraft((previous) => ({ ...previous, context: event.target.value }))}
+        />
+      </label>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {OPTIONAL_FIELDS.map((key) => (
+          <label key={key} className="block">
+            {BRIEF_FIELD_LABELS[key]}
+            <input
+              className={INPUT_CLASS}
+              value={draft[key] ?? ""}
+              placeholder="Not set"
+              onChange={(event) => setDraft((previous) => ({ ...previous, [key]: event.target.value }))}
+            />
+          </label>
+        ))}
+        <label className="block">
+          {BRIEF_FIELD_LABELS.riskTolerance}
+          <select
+            className={INPUT_CLASS}
+            value={draft.riskTolerance}
+            onChange={(event) =>
+              setDraft((previous) => ({
+                ...previous,
+                riskTolerance: event.target.value as DecisionBrief["riskTolerance"],
+              }))
+            }
+          >
+            <option value="low">Low</option>
+            <option value="medium">Medium</option>
+            <option value="high">High</option>
+          </select>
+        </label>
+      </div>
+
+      {LIST_FIELDS.map((key) => (
+        <fieldset key={key} className="rounded-xl border border-slate-700 bg-slate-950/60 p-2">
+          <legend className="px-1 font-semibold uppercase tracking-wide text-slate-300">{BRIEF_FIELD_LABELS[key]}</legend>
+          <div className="space-y-1">
+            {draft[key].map((item, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  aria-label={`${BRIEF_FIELD_LABELS[key]} ${index + 1}`}
+                  className={`${INPUT_CLASS} mt-0`}
+                  value={item}
+                  onChange={(event) =>
+                    updateList(key, (items) =>
+                      items.map((current, itemIndex) => (itemIndex === index ? event.target.value : current)),
+                    )
+                  }
+                />
+                <button
+                  type="button"
+                  aria-label={`Remove ${BRIEF_FIELD_LABELS[key].toLowerCase()} ${index + 1}`}
+                  onClick={() => updateList(key, (items) => items.filter((_, itemIndex) => itemIndex !== index))}
+                  className="rounded-full border border-slate-600 px-2 py-0.5 text-slate-300"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => updateList(key, (items) => [...items, ""])}
+            className="mt-1 text-slate-300 underline underline-offset-4"
+          >
+            Add {BRIEF_FIELD_LABELS[key].toLowerCase()}
+          </button>
+        </fieldset>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-full bg-emerald-400 px-3 py-1 text-xs font-semibold text-slate-950 disabled:opacity-60"
+        >
+          {saving ? "Saving..." : "Save brief"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="rounded-full border border-slate-600 px-3 py-1 text-xs text-slate-200 disabled:opacity-60"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
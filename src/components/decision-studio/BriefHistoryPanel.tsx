@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+
+import { BRIEF_FIELD_LABELS } from "@/components/decision-studio/BriefEditor";
+import { fetchJson } from "@/lib/client/api";
+import type { BriefDiff, DecisionBrief, DecisionBriefVersion } from "@/lib/types";
+
+interface BriefHistoryPanelProps {
+  decisionId: string;
+  /** The brief currently shown; history reloads whenever it changes. */
+  brief: DecisionBrief;
+  restoring: boolean;
+  onRestore: (version: number) => Promise<void>;
+}
+
+function formatQuality(score: number | null): string {
+  return typeof score === "number" ? `${Math.round(score * 100)}%` : "n/a";
+}
+
+function formatQualityDelta(delta: number | null): string {
+  if (delta === null) {
+    return "—";
+  }
+
+  const points = Math.round(delta * 100);
+  return `${points > 0 ? "+" : ""}${points} pts`;
+}
+
+export function BriefHistoryPanel({ decisionId, brief, restoring, onRestore }: BriefHistoryPanelProps) {
+  const [versions, setVersions] = useState<DecisionBriefVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<BriefDiff | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void fetchJson<{ versions: DecisionBriefVersion[] }>(`/api/decisions/${decisionId}/briefs`)
+      .then((payload) => {
+        if (cancelled) {
+          return;
+        }
+
+        setVersions(payload.versions);
+        setToVersion(payload.versions[0]?.version ?? null);
+        setFromVersion(payload.versions[1]?.version ?? null);
+        setDiff(null);
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load brief history");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [brief, decisionId]);
+
+  const onCompare = async () => {
+    if (fromVersion === null || toVersion === null) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ from: String(fromVersion), to: String(toVersion) });
+      setDiff(await fetchJson<BriefDiff>(`/api/decisions/${decisionId}/briefs/diff?${params.toString()}`));
+    } catch (compareError) {
+      setError(compareError instanceof Error ? compareError.message : "Failed to compare brief versions");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (versions.length === 0) {
+    return error ? <p className="text-xs text-rose-200">{error}</p> : null;
+  }
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-700 bg-slate-950/70 p-3 text-xs text-slate-200">
+      <h3 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">Brief History</h3>
+
+      <table className="w-full text-left">
+        <thead className="text-[11px] uppercase tracking-wide text-slate-400">
+          <tr>
+            <th className="py-1">Version</th>
+            <th className="py-1">Author</th>
+            <th className="py-1">Quality</th>
+            <th className="py-1">Saved</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {versions.map((entry, index) => (
+            <tr key={entry.version} className="border-t border-slate-800">
+              <td className="py-1">
+                v{entry.version}
+                {index === 0 ? <span className="ml-2 text-[10px] text-sky-300">current</span> : null}
+                {entry.restoredFromVersion !== null ? (
+                  <span className="ml-2 text-[10px] text-slate-400">restored from v{entry.restoredFromVersion}</span>
+                ) : null}
+              </td>
+              <td className="py-1">{entry.author === "human" ? "you" : "model"}</td>
+              <td className="py-1">{formatQuality(entry.qualityScore)}</td>
+              <td className="py-1">{new Date(entry.createdAt).toLocaleString()}</td>
+              <td className="py-1 text-right">
+                {index === 0 ? null : (
+                  <button
+                    type="button"
+                    onClick={() => void onRestore(entry.version)}
+                    disabled={restoring}
+                    className="rounded-full border border-slate-600 px-2 py-0.5 text-[11px] text-slate-200 disabled:opacity-60"
+                  >
+                    Restore v{entry.version}
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {versions.length >= 2 ? (
+        <div className="flex flex-wrap items-end gap-2">
+          {(
+            [
+              ["From", fromVersion, setFromVersion],
+              ["To", toVersion, setToVersion],
+            ] as const
+          ).map(([label, value, setValue]) => (
+            <label key={label} className="text-xs font-medium uppercase tracking-wide text-slate-300">
+              {label}
+              <select
+                className="mt-1 block rounded-xl border border-slate-700 bg-slate-950/70 px-3 py-1.5 text-xs normal-case text-slate-100"
+                value={value ?? ""}
+                onChange={(event) => setValue(Number(event.target.value))}
+              >
+                {versions.map((entry) => (
+                  <option key={entry.version} value={entry.version}>
+                    v{entry.version}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <button
+            type="button"
+            onClick={() => void onCompare()}
+            disabled={busy || fromVersion === null || toVersion === null || fromVersion === toVersion}
+            className="rounded-xl border border-slate-500 px-3 py-1.5 text-xs text-slate-100 hover:border-sky-400 disabled:opacity-60"
+          >
+            {busy ? "Comparing..." : "Compare versions"}
+          </button>
+        </div>
+      ) : null}
+
+      {error ? <p className="text-rose-200">{error}</p> : null}
+
+      {diff ? (
+        <div className="space-y-2">
+          <p>
+            v{diff.fromVersion} → v{diff.toVersion} · quality {formatQualityDelta(diff.qualityScoreDelta)}
+          </p>
+          {diff.scalarChanges.length === 0 && diff.listChanges.length === 0 ? (
+            <p className="text-slate-400">No field changes.</p>
+          ) : null}
+          {diff.scalarChanges.map((change) => (
+            <div key={change.field}>
+              <p className="font-semibold text-slate-100">{BRIEF_FIELD_LABELS[change.field]}</p>
+              <p className="text-rose-300 line-through">{change.from ?? "Not set"}</p>
+              <p className="text-emerald-300">{change.to ?? "Not set"}</p>
+            </div>
+          ))}
+          {diff.listChanges.map((change) => (
+            <div key={change.field}>
+              <p className="font-semibold text-slate-100">{BRIEF_FIELD_LABELS[change.field]}</p>
+              <ul className="space-y-0.5">
+                {change.added.map((item) => (
+                  <li key={`added-${item}`} className="text-emerald-300">
+                    + {item}
+                  </li>
+                ))}
+                {change.removed.map((item) => (
+                  <li key={`removed-${item}`} className="text-rose-300">
+                    − {item}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+
+import { RATING_SCALE_MAX } from "@/lib/analysis/criteria";
+import { fetchJson } from "@/lib/client/api";
+import type { CriterionRating, DecisionCriterion, DecisionMatrix } from "@/lib/types";
+
+interface CriteriaMatrixPanelProps {
+  decisionId: string;
+  /** Called after the matrix is saved so the recommendation can be re-scored. */
+  onSaved: () => Promise<void>;
+}
+
+const INPUT_CLASS = "rounded-lg border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100";
+
+function cellKey(option: string, criterionId: string): string {
+  return `${option}\u0000${criterionId}`;
+}
+
+function toRatingMap(ratings: CriterionRating[]): Record<string, number> {
+  return Object.fromEntries(ratings.map((rating) => [cellKey(rating.option, rating.criterionId), rating.score]));
+}
+
+/** Unrated cells show what scoring assumes: the midpoint, or a pass on hard constraints. */
+function effectiveRating(ratings: Record<string, number>, option: string, criterion: DecisionCriterion): number {
+  return ratings[cellKey(option, criterion.id)] ?? (criterion.hard ? RATING_SCALE_MAX : RATING_SCALE_MAX / 2);
+}
+
+function nextCustomId(criteria: DecisionCriterion[]): string {
+  const ids = new Set(criteria.map((criterion) => criterion.id));
+  let index = 1;
+  while (ids.has(`custom_${index}`)) {
+    index += 1;
+  }
+  return `custom_${index}`;
+}
+
+export function CriteriaMatrixPanel({ decisionId, onSaved }: CriteriaMatrixPanelProps) {
+  const [options, setOptions] = useState<string[]>([]);
+  const [criteria, setCriteria] = useState<DecisionCriterion[]>([]);
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [busy, setBusy] = useState<"suggest" | "save" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void fetchJson<{ matrix: DecisionMatrix }>(`/api/decisions/${decisionId}/criteria`)
+      .then(({ matrix }) => {
+        if (cancelled) {
+          return;
+        }
+
+        setOptions(matrix.options);
+        setCriteria(matrix.criteria);
+        setRatings(toRatingMap(matrix.ratings));
+        setSavedAt(matrix.updatedAt);
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load decision criteria");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [decisionId]);
+
+  const updateCriterion = (id: string, patch: Partial<DecisionCriterion>) => {
+    setCriteria((previous) =>
+      previous.map((criterion) => (criterion.id === id ? { ...criterion, ...patch } : criterion)),
+    );
+  };
+
+  const setRating = (option: string, criterionId: string, score: number) => {
+    setRatings((previous) => ({ ...previous, [cellKey(option, criterionId)]: score }));
+  };
+
+  const onSuggest = async () => {
+    setBusy("suggest");
+    setError(null);
+    setNotice(null);
+
+    try {
+      const payload = await fetchJson<{ ratings: CriterionRating[]; fallback: boolean }>(
+        `/api/decisions/${decisionId}/criteria/suggest`,
+        { method: "POST", body: JSON.stringify({ criteria }) },
+      );
+      setRatings((previous) => ({ ...previous, ...toRatingMap(payload.ratings) }));
+      setNotice(
+        payload.fallback
+          ? "AI scoring is unavailable right now; rate the options manually."
+          : `Filled ${payload.ratings.length} ratings. Review them, then save.`,
+      );
+    } catch (suggestError) {
+      setError(suggestError instanceof Error ? suggestError.message : "Failed to suggest ratings");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const onSave = async () => {
+    setBusy("save");
+    setError(null);
+    setNotice(null);
+
+    try {
+      // Save every cell explicitly so the stored matrix matches what is on screen.
+      const payload = await fetchJson<{ matrix: DecisionMatrix }>(`/api/decisions/${decisionId}/criteria`, {
+        method: "PUT",
+        body: JSON.stringify({
+          criteria: criteria.map((criterion) => ({ ...criterion, label: criterion.label.trim() })),
+          ratings: options.flatMap((option) =>
+            criteria.map((criterion) => ({
+              option,
+              criterionId: criterion.id,
+              score: effectiveRating(ratings, option, criterion),
+            })),
+          ),
+        }),
+      });
+      setSavedAt(payload.matrix.updatedAt);
+      await onSaved();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save decision criteria");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (options.length === 0) {
+    return error ? <p className="text-xs text-rose-200">{error}</p> : null;
+  }
+
+  const hasBlankLabel = criteria.some((criterion) => criterion.label.trim().length === 0);
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-slate-700/60 bg-slate-900/65 p-5 text-xs text-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-100">Decision Criteria</h3>
+          <p className="text-slate-400">
+            Weight what matters and rate each option 0–{RATING_SCALE_MAX}. An option that fails a hard constraint is
+            eliminated.
+            {savedAt ? "" : " Option scores use the analysis heuristic until you save."}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => void onSuggest()}
+            disabled={busy !== null || criteria.length === 0 || hasBlankLabel}
+            className="rounded-full border border-slate-600 px-3 py-1 text-slate-200 disabled:opacity-60"
+          >
+            {busy === "suggest" ? "Scoring..." : "Suggest ratings"}
+          </button>
+          <button
+            type="button"
+            onClick={() => void onSave()}
+            disabled={busy !== null || criteria.length === 0 || hasBlankLabel}
+            className="rounded-full bg-emerald-400 px-3 py-1 font-semibold text-slate-950 disabled:opacity-60"
+          >
+            {busy === "save" ? "Saving..." : "Save criteria"}
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[560px] text-left">
+          <thead className="text-[11px] uppercase tracking-wide text-slate-400">
+            <tr>
+              <th className="py-1 pr-2">Criterion</th>
+              <th className="py-1 pr-2">Weight</th>
+              <th className="py-1 pr-2">Hard</th>
+              {options.map((option) => (
+                <th key={option} className="py-1 pr-2 normal-case">
+                  {option}
+                </th>
+              ))}
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {criteria.map((criterion) => (
+              <tr key={criterion.id} className="border-t border-slate-800">
+                <td className="py-1 pr-2">
+                  <input
+                    aria-label={`Criterion ${criterion.id}`}
+                    className={`${INPUT_CLASS} w-full`}
+                    value={criterion.label}
+                    onChange={(event) => updateCriterion(criterion.id, { label: event.target.value })}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    aria-label={`Weight for ${criterion.label}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    disabled={criterion.hard}
+                    className={`${INPUT_CLASS} w-16 disabled:opacity-50`}
+                    value={criterion.weight}
+                    onChange={(event) =>
+                      updateCriterion(criterion.id, { weight: Math.max(0, Number(event.target.value) || 0) })
+                    }
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    aria-label={`Hard constraint: ${criterion.label}`}
+                    type="checkbox"
+                    checked={criterion.hard}
+                    onChange={(event) => updateCriterion(criterion.id, { hard: event.target.checked })}
+                  />
+                </td>
+                {options.map((option) => (
+                  <td key={option} className="py-1 pr-2">
+                    {criterion.hard ? (
+                      <select
+                        aria-label={`${option} on ${criterion.label}`}
+                        className={INPUT_CLASS}
+                        value={effectiveRating(ratings, option, criterion) === 0 ? "fail" : "pass"}
+                        onChange={(event) =>
+                          setRating(option, criterion.id, event.target.value === "fail" ? 0 : RATING_SCALE_MAX)
+                        }
+                      >
+                        <option value="pass">Passes</option>
+                        <option value="fail">Fails</option>
+                      </select>
+                    ) : (
+                      <input
+                        aria-label={`${option} on ${criterion.label}`}
+                        type="number"
+                        min={0}
+                        max={RATING_SCALE_MAX}
+                        step={1}
+                        className={`${INPUT_CLASS} w-16`}
+                        value={effectiveRating(ratings, option, criterion)}
+                        onChange={(event) =>
+                          setRating(
+                            option,
+                            criterion.id,
+                            Math.min(RATING_SCALE_MAX, Math.max(0, Number(event.target.value) || 0)),
+                          )
+                        }
+                      />
+                    )}
+                  </td>
+                ))}
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    aria-label={`Remove ${criterion.label}`}
+                    onClick={() => setCriteria((previous) => previous.filter((entry) => entry.id !== criterion.id))}
+                    className="rounded-full border border-slate-600 px-2 py-0.5 text-slate-300"
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        type="button"
+        onClick={() =>
+          setCriteria((previous) => [
+            ...previous,
+            { id: nextCustomId(previous), label: "", source: "custom", weight: 1, hard: false },
+          ])
+        }
+        className="text-slate-300 underline underline-offset-4"
+      >
+        Add criterion
+      </button>
+
+      {notice ? <p className="text-sky-200">{notice}</p> : null}
+      {error ? <p className="text-rose-200">{error}</p> : null}
+    </section>
+  );
+}
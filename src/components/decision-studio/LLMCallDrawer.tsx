@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+
+import { fetchJson } from "@/lib/client/api";
+import type { FrameworkId, LLMCallLogEntry } from "@/lib/types";
+
+interface LLMCallDrawerProps {
+  decisionId: string;
+  runId: string;
+  frameworkId: FrameworkId;
+  frameworkName: string;
+  onClose: () => void;
+}
+
+function PromptBlock({ label, text }: { label: string; text: string | null }) {
+  return (
+    <details className="rounded-lg border border-slate-700/60 bg-slate-950/60">
+      <summary className="cursor-pointer px-3 py-1.5 text-[11px] font-semibold text-slate-300">{label}</summary>
+      <pre className="max-h-72 overflow-auto whitespace-pre-wrap break-words px-3 pb-3 text-[11px] text-slate-200">
+        {text ?? "(no output)"}
+      </pre>
+    </details>
+  );
+}
+
+export function LLMCallDrawer({ decisionId, runId, frameworkId, frameworkName, onClose }: LLMCallDrawerProps) {
+  const [calls, setCalls] = useState<LLMCallLogEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({ runId, frameworkId });
+
+    void fetchJson<{ calls: LLMCallLogEntry[] }>(`/api/decisions/${decisionId}/llm-calls?${params.toString()}`)
+      .then((payload) => {
+        if (!cancelled) {
+          setCalls(payload.calls);
+        }
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load LLM calls");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [decisionId, frameworkId, runId]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-slate-950/60" onClick={onClose}>
+      <aside
+        role="dialog"
+        aria-label={`LLM calls for ${frameworkName}`}
+        onClick={(event) => event.stopPropagation()}
+        className="h-full w-full max-w-2xl space-y-4 overflow-y-auto border-l border-slate-700/60 bg-slate-900 p-5"
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h3 className="text-base font-semibold text-slate-100">Prompt inspection · {frameworkName}</h3>
+            <p className="text-xs text-slate-400">Every pass sent to the model for this framework in this run.</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-slate-600 px-3 py-1 text-xs text-slate-200"
+          >
+            Close
+          </button>
+        </div>
+
+        {error ? <p className="text-xs text-rose-300">{error}</p> : null}
+        {calls === null && !error ? <p className="text-xs text-slate-400">Loading…</p> : null}
+        {calls?.length === 0 ? (
+          <p className="text-xs text-slate-400">No LLM calls were recorded for this framework.</p>
+        ) : null}
+
+        {calls?.map((call) => (
+          <section key={call.id} className="space-y-2 rounded-xl border border-slate-700/60 p-3 text-xs">
+            <p className="text-slate-300">
+              Pass {call.pass} · {call.provider} ({call.model}) · {call.schemaName ?? "unnamed schema"} ·{" "}
+              {call.latencyMs}ms
+            </p>
+            {call.validationError ? (
+              <p className="text-amber-200">Validation: {call.validationError}</p>
+            ) : null}
+            {call.error ? <p className="text-rose-300">Call failed: {call.error}</p> : null}
+            <PromptBlock label="System prompt" text={call.systemPrompt} />
+            <PromptBlock label="User prompt" text={call.userPrompt} />
+            <PromptBlock label="Raw response" text={call.rawText} />
+            <PromptBlock
+              label="Repaired JSON"
+              text={call.repairedJson === null ? null : JSON.stringify(call.repairedJson, null, 2)}
+            />
+          </section>
+        ))}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,560 @@
+import { useEffect, useState } from "react";
+
+import { formatOutcome } from "@/lib/analysis/monte-carlo";
+import { ApiError, fetchJson } from "@/lib/client/api";
+import {
+  MONTE_CARLO_DISTRIBUTIONS,
+  MONTE_CARLO_MAX_DRAWS,
+  type MonteCarloAlternativeResult,
+  type MonteCarloDistribution,
+  type MonteCarloDistributionType,
+  type MonteCarloModel,
+  type MonteCarloResult,
+  type MonteCarloVariable,
+} from "@/lib/types";
+
+interface MonteCarloPanelProps {
+  decisionId: string;
+  /** Called after the model is saved so the Monte Carlo framework shows the new simulation. */
+  onSaved: () => Promise<void>;
+}
+
+interface MonteCarloPayload {
+  model: MonteCarloModel;
+  result: MonteCarloResult | null;
+}
+
+type ParameterizedDistribution = Exclude<MonteCarloDistribution, { type: "discrete" }>;
+
+const PARAMETERS: Record<Exclude<MonteCarloDistributionType, "discrete">, string[]> = {
+  triangular: ["min", "mode", "max"],
+  normal: ["mean", "sd"],
+  lognormal: ["mu", "sigma"],
+  uniform: ["min", "max"],
+  beta: ["alpha", "beta", "min", "max"],
+};
+
+const DEFAULT_DISTRIBUTIONS: Record<MonteCarloDistributionType, MonteCarloDistribution> = {
+  triangular: { type: "triangular", min: 0, mode: 50, max: 100 },
+  normal: { type: "normal", mean: 50, sd: 10 },
+  lognormal: { type: "lognormal", mu: 3.9, sigma: 0.25 },
+  uniform: { type: "uniform", min: 0, max: 100 },
+  beta: { type: "beta", alpha: 2, beta: 2, min: 0, max: 100 },
+  discrete: {
+    type: "discrete",
+    outcomes: [
+      { value: 0, probability: 0.5 },
+      { value: 100, probability: 0.5 },
+    ],
+  },
+};
+
+const INPUT_CLASS = "rounded-lg border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100";
+
+function randomSeed(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+/** Discrete outcomes are edited as "value:probability" pairs separated by commas. */
+function formatOutcomes(distribution: Extract<MonteCarloDistribution, { type: "discrete" }>): string {
+  return distribution.outcomes.map((outcome) => `${outcome.value}:${outcome.probability}`).join(", ");
+}
+
+function parseOutcomes(text: string): Array<{ value: number; probability: number }> {
+  return text
+    .split(",")
+    .map((pair) => pair.split(":").map((part) => Number(part.trim())))
+    .filter((parts) => parts.length === 2)
+    .map(([value, probability]) => ({ value, probability }));
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiError) {
+    const issues = (error.details as { issues?: unknown } | undefined)?.issues;
+    if (Array.isArray(issues) && issues.length > 1) {
+      return issues.join(" ");
+    }
+  }
+
+  return error instanceof Error ? error.message : fallback;
+}
+
+/** Variable names across options, in order of first appearance; the editor keeps them aligned. */
+function variableNames(model: MonteCarloModel): string[] {
+  return [...new Set(model.alternatives.flatMap((entry) => entry.variables.map((variable) => variable.name)))];
+}
+
+/** Most trials the server accepts for the variables modelled so far, in steps of 500. */
+function maxTrials(model: MonteCarloModel): number {
+  const variables = model.alternatives.reduce((sum, entry) => sum + entry.variables.length, 0);
+  return Math.max(500, Math.min(20000, Math.floor(MONTE_CARLO_MAX_DRAWS / Math.max(variables, 1) / 500) * 500));
+}
+
+function MiniHistogram({ entry }: { entry: MonteCarloAlternativeResult }) {
+  const peak = Math.max(...entry.viz.bins.map((bin) => bin.count), 1);
+
+  return (
+    <div className="flex h-6 w-32 items-end gap-px" aria-hidden>
+      {entry.viz.bins.map((bin, index) => (
+        <div key={index} className="flex-1 bg-sky-400/80" style={{ height: `${(bin.count / peak) * 100}%` }} />
+      ))}
+    </div>
+  );
+}
+
+function DistributionEditor({
+  distribution,
+  onChange,
+}: {
+  distribution: MonteCarloDistribution;
+  onChange: (distribution: MonteCarloDistribution) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        aria-label="Distribution"
+        className={INPUT_CLASS}
+        value={distribution.type}
+        onChange={(event) => onChange(DEFAULT_DISTRIBUTIONS[event.target.value as MonteCarloDistributionType])}
+      >
+        {MONTE_CARLO_DISTRIBUTIONS.map((type) => (
+          <option key={type} value={type}>
+            {type}
+          </option>
+        ))}
+      </select>
+
+      {distribution.type === "discrete" ? (
+        <input
+          aria-label="Outcomes as value:probability"
+          className={`${INPUT_CLASS} w-48`}
+          defaultValue={formatOutcomes(distribution)}
+          onBlur={(event) => onChange({ type: "discrete", outcomes: parseOutcomes(event.target.value) })}
+        />
+      ) : (
+        PARAMETERS[distribution.type].map((key) => (
+          <label key={key} className="flex items-center gap-1 text-slate-400">
+            {key}
+            <input
+              type="number"
+              className={`${INPUT_CLASS} w-20`}
+              value={(distribution as ParameterizedDistribution & Record<string, number>)[key]}
+              onChange={(event) =>
+                onChange({ ...distribution, [key]: Number(event.target.value) } as MonteCarloDistribution)
+              }
+            />
+          </label>
+        ))
+      )}
+    </div>
+  );
+}
+
+export function MonteCarloPanel({ decisionId, onSaved }: MonteCarloPanelProps) {
+  const [model, setModel] = useState<MonteCarloModel | null>(null);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [activeOption, setActiveOption] = useState<string | null>(null);
+  const [busy, setBusy] = useState<"saving" | "running" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void fetchJson<MonteCarloPayload>(`/api/decisions/${decisionId}/monte-carlo`)
+      .then((payload) => {
+        if (!cancelled) {
+          setModel(payload.model);
+          setResult(payload.result);
+        }
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load Monte Carlo model");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [decisionId]);
+
+  if (!model || model.alternatives.length === 0) {
+    return error ? <p className="text-xs text-rose-200">{error}</p> : null;
+  }
+
+  const names = variableNames(model);
+  const active = model.alternatives.find((entry) => entry.option === activeOption) ?? model.alternatives[0];
+
+  const updateVariables = (update: (variables: MonteCarloVariable[], option: string) => MonteCarloVariable[]) => {
+    setModel((previous) =>
+      previous
+        ? {
+            ...previous,
+            alternatives: previous.alternatives.map((entry) => ({
+              ...entry,
+              variables: update(entry.variables, entry.option),
+            })),
+          }
+        : previous,
+    );
+  };
+
+  const addVariable = () => {
+    let index = names.length + 1;
+    while (names.includes(`var_${index}`)) {
+      index += 1;
+    }
+    updateVariables((variables) => [
+      ...variables,
+      { name: `var_${index}`, distribution: DEFAULT_DISTRIBUTIONS.triangular },
+    ]);
+  };
+
+  const renameVariable = (from: string, to: string) => {
+    updateVariables((variables) =>
+      variables.map((variable) => (variable.name === from ? { ...variable, name: to } : variable)),
+    );
+    setModel((previous) =>
+      previous
+        ? {
+            ...previous,
+            correlations: previous.correlations.map((correlation) => ({
+              ...correlation,
+              first: correlation.first === from ? to : correlation.first,
+              second: correlation.second === from ? to : correlation.second,
+            })),
+          }
+        : previous,
+    );
+  };
+
+  const removeVariable = (name: string) => {
+    updateVariables((variables) => variables.filter((variable) => variable.name !== name));
+    setModel((previous) =>
+      previous
+        ? {
+            ...previous,
+            correlations: previous.correlations.filter(
+              (correlation) => correlation.first !== name && correlation.second !== name,
+            ),
+          }
+        : previous,
+    );
+  };
+
+  const setDistribution = (name: string, distribution: MonteCarloDistribution) => {
+    updateVariables((variables, option) =>
+      option === active.option
+        ? variables.map((variable) => (variable.name === name ? { ...variable, distribution } : variable))
+        : variables,
+    );
+  };
+
+  const updateCorrelation = (index: number, patch: Partial<MonteCarloModel["correlations"][number]>) => {
+    setModel((previous) =>
+      previous
+        ? {
+            ...previous,
+            correlations: previous.correlations.map((correlation, position) =>
+              position === index ? { ...correlation, ...patch } : correlation,
+            ),
+          }
+        : previous,
+    );
+  };
+
+  const onSave = async () => {
+    setBusy("saving");
+    setError(null);
+
+    try {
+      const payload = await fetchJson<MonteCarloPayload>(`/api/decisions/${decisionId}/monte-carlo`, {
+        method: "PUT",
+        body: JSON.stringify({
+          outcomeLabel: model.outcomeLabel,
+          formula: model.formula,
+          alternatives: model.alternatives,
+          correlations: model.correlations,
+          trials: model.trials,
+          seed: model.seed,
+        }),
+      });
+      setModel(payload.model);
+      setResult(payload.result);
+      await onSaved();
+    } catch (saveError) {
+      setError(errorMessage(saveError, "Failed to save Monte Carlo model"));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const onRerun = async () => {
+    setBusy("running");
+    setError(null);
+
+    try {
+      const payload = await fetchJson<MonteCarloPayload>(`/api/decisions/${decisionId}/monte-carlo/run`, {
+        method: "POST",
+        body: JSON.stringify({ seed: randomSeed() }),
+      });
+      setResult(payload.result);
+      // Saving next keeps the seed that produced the result on screen.
+      setModel((previous) => (previous && payload.result ? { ...previous, seed: payload.result.seed } : previous));
+    } catch (runError) {
+      setError(errorMessage(runError, "Failed to rerun Monte Carlo model"));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-slate-700/60 bg-slate-900/65 p-5 text-xs text-slate-200">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-100">Monte Carlo Simulation</h3>
+          <p className="text-slate-400">
+            Give each option distributions for the variables in the outcome formula. Variables with the same name
+            share each trial&apos;s draw across options, so the options are compared under the same conditions.
+            {model.updatedAt ? "" : " This is a template; save to simulate your own numbers."}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => void onRerun()}
+            disabled={busy !== null || !model.updatedAt}
+            className="rounded-full border border-slate-600 px-3 py-1 text-slate-200 disabled:opacity-60"
+          >
+            {busy === "running" ? "Running..." : "Rerun with new seed"}
+          </button>
+          <button
+            type="button"
+            onClick={() => void onSave()}
+            disabled={busy !== null}
+            className="rounded-full bg-emerald-400 px-3 py-1 font-semibold text-slate-950 disabled:opacity-60"
+          >
+            {busy === "saving" ? "Saving..." : "Save & run"}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid gap-2 md:grid-cols-[1fr_2fr_auto_auto]">
+        <label className="flex flex-col gap-1 text-slate-400">
+          Outcome
+          <input
+            className={INPUT_CLASS}
+            maxLength={80}
+            value={model.outcomeLabel}
+            onChange={(event) => setModel({ ...model, outcomeLabel: event.target.value })}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-slate-400">
+          Formula (+ - * / ^, min, max, abs, sqrt, exp, log)
+          <input
+            className={`${INPUT_CLASS} font-mono`}
+            maxLength={500}
+            value={model.formula}
+            onChange={(event) => setModel({ ...model, formula: event.target.value })}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-slate-400">
+          Trials
+          <input
+            type="number"
+            min={500}
+            max={maxTrials(model)}
+            step={500}
+            title={`Up to ${maxTrials(model).toLocaleString()} trials for the variables modelled`}
+            className={`${INPUT_CLASS} w-24`}
+            value={model.trials}
+            onChange={(event) => setModel({ ...model, trials: Number(event.target.value) })}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-slate-400">
+          Seed
+          <input
+            className={`${INPUT_CLASS} w-24`}
+            maxLength={64}
+            value={model.seed}
+            onChange={(event) => setModel({ ...model, seed: event.target.value })}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {model.alternatives.map((entry) => (
+          <button
+            key={entry.option}
+            type="button"
+            onClick={() => setActiveOption(entry.option)}
+            className={`rounded-full border px-3 py-1 ${
+              entry.option === active.option ? "border-sky-400 text-sky-100" : "border-slate-600 text-slate-300"
+            }`}
+          >
+            {entry.option}
+          </button>
+        ))}
+      </div>
+
+      <table className="w-full text-left">
+        <thead className="text-slate-400">
+          <tr>
+            <th className="pb-1">Variable (all options)</th>
+            <th className="pb-1">Distribution for {active.option}</th>
+            <th className="pb-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {active.variables.map((variable) => (
+            <tr key={variable.name} className="border-t border-slate-800 align-top">
+              <td className="py-1 pr-2">
+                <input
+                  aria-label="Variable name"
+                  className={`${INPUT_CLASS} w-32 font-mono`}
+                  defaultValue={variable.name}
+                  onBlur={(event) => {
+                    const next = event.target.value.trim();
+                    if (next && next !== variable.name && !names.includes(next)) {
+                      renameVariable(variable.name, next);
+                    } else {
+                      event.target.value = variable.name;
+                    }
+                  }}
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <DistributionEditor
+                  key={`${active.option}-${variable.name}-${variable.distribution.type}`}
+                  distribution={variable.distribution}
+                  onChange={(distribution) => setDistribution(variable.name, distribution)}
+                />
+              </td>
+              <td className="py-1 text-right">
+                <button
+                  type="button"
+                  onClick={() => removeVariable(variable.name)}
+                  className="rounded-full border border-slate-600 px-2 py-0.5 text-slate-300"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={addVariable}
+          disabled={names.length >= 20}
+          className="rounded-full border border-slate-600 px-3 py-1 text-slate-200 disabled:opacity-60"
+        >
+          Add variable
+        </button>
+        {names.length >= 2 ? (
+          <button
+            type="button"
+            onClick={() =>
+              setModel({
+                ...model,
+                correlations: [...model.correlations, { first: names[0], second: names[1], coefficient: 0.5 }],
+              })
+            }
+            className="rounded-full border border-slate-600 px-3 py-1 text-slate-200"
+          >
+            Add correlation
+          </button>
+        ) : null}
+      </div>
+
+      {model.correlations.length > 0 ? (
+        <ul className="space-y-1">
+          {model.correlations.map((correlation, index) => (
+            <li key={index} className="flex flex-wrap items-center gap-2">
+              {(["first", "second"] as const).map((side) => (
+                <select
+                  key={side}
+                  aria-label={`Correlated variable ${side === "first" ? 1 : 2}`}
+                  className={INPUT_CLASS}
+                  value={correlation[side]}
+                  onChange={(event) => updateCorrelation(index, { [side]: event.target.value })}
+                >
+                  {names.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              ))}
+              <label className="flex items-center gap-1 text-slate-400">
+                ρ
+                <input
+                  type="number"
+                  min={-0.99}
+                  max={0.99}
+                  step={0.05}
+                  className={`${INPUT_CLASS} w-20`}
+                  value={correlation.coefficient}
+                  onChange={(event) => updateCorrelation(index, { coefficient: Number(event.target.value) })}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() =>
+                  setModel({
+                    ...model,
+                    correlations: model.correlations.filter((_, position) => position !== index),
+                  })
+                }
+                className="rounded-full border border-slate-600 px-2 py-0.5 text-slate-300"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {result ? (
+        <div className="space-y-1">
+          <p className="font-semibold text-slate-100">
+            {result.outcomeLabel} over {result.trials.toLocaleString()} trials · seed {result.seed}
+            {result.correlationMode === "gaussian_copula" ? " · correlated" : ""}
+          </p>
+          <table className="w-full text-left">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="pb-1">Option</th>
+                <th className="pb-1">Distribution</th>
+                <th className="pb-1">Mean</th>
+                <th className="pb-1">P10</th>
+                <th className="pb-1">P50</th>
+                <th className="pb-1">P90</th>
+                <th className="pb-1">Best in</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.alternatives.map((entry) => (
+                <tr key={entry.option} className="border-t border-slate-800">
+                  <td className="py-1 pr-2 font-medium text-slate-100">{entry.option}</td>
+                  <td className="py-1 pr-2">
+                    <MiniHistogram entry={entry} />
+                  </td>
+                  <td className="py-1 pr-2">{formatOutcome(entry.mean)}</td>
+                  <td className="py-1 pr-2">{formatOutcome(entry.p10)}</td>
+                  <td className="py-1 pr-2">{formatOutcome(entry.p50)}</td>
+                  <td className="py-1 pr-2">{formatOutcome(entry.p90)}</td>
+                  <td className="py-1">{Math.round(entry.winProbability * 100)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      {error ? <p className="text-rose-200">{error}</p> : null}
+    </section>
+  );
+}
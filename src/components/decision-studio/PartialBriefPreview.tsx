@@ -0,0 +1,42 @@
+import type { DecisionBrief } from "@/lib/types";
+
+interface PartialBriefPreviewProps {
+  brief: Partial<DecisionBrief>;
+}
+
+const PREVIEW_FIELDS: Array<{ key: keyof DecisionBrief; label: string }> = [
+  { key: "title", label: "Title" },
+  { key: "decisionStatement", label: "Decision" },
+  { key: "context", label: "Context" },
+  { key: "alternatives", label: "Alternatives" },
+  { key: "constraints", label: "Constraints" },
+  { key: "stakeholders", label: "Stakeholders" },
+  { key: "successCriteria", label: "Success criteria" },
+  { key: "riskTolerance", label: "Risk tolerance" },
+  { key: "assumptions", label: "Assumptions" },
+  { key: "executionSteps", label: "Execution steps" },
+];
+
+/** Brief fields as the model writes them; the last field shown may still be mid-sentence. */
+export function PartialBriefPreview({ brief }: PartialBriefPreviewProps) {
+  const fields = PREVIEW_FIELDS.flatMap(({ key, label }) => {
+    const value = brief[key];
+    const text = Array.isArray(value) ? value.filter(Boolean).join(" · ") : value;
+    return typeof text === "string" && text.trim().length > 0 ? [{ key, label, text }] : [];
+  });
+
+  if (fields.length === 0) {
+    return null;
+  }
+
+  return (
+    <dl className="mt-3 max-h-[50vh] space-y-2 overflow-auto rounded-xl border border-slate-700 bg-slate-950/70 p-3 text-xs">
+      {fields.map((field) => (
+        <div key={field.key}>
+          <dt className="font-semibold text-slate-300">{field.label}</dt>
+          <dd className="mt-0.5 line-clamp-3 text-slate-200">{field.text}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
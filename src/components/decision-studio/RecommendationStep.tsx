@@ -1,8 +1,59 @@
 import { motion } from "framer-motion";
+import { useState } from "react";
 
 import { FrameworkVisualization } from "@/components/FrameworkVisualization";
 import { PropagatedGraph } from "@/components/PropagatedGraph";
+import { AhpPanel } from "@/components/decision-studio/AhpPanel";
+import { CriteriaMatrixPanel } from "@/components/decision-studio/CriteriaMatrixPanel";
+import { LLMCallDrawer } from "@/components/decision-studio/LLMCallDrawer";
+import { MonteCarloPanel } from "@/components/decision-studio/MonteCarloPanel";
+import { RunHistoryPanel } from "@/components/decision-studio/RunHistoryPanel";
+import { SensitivityPanel } from "@/components/decision-studio/SensitivityPanel";
+import { WhatIfPanel } from "@/components/decision-studio/WhatIfPanel";
 import type { RecommendationViewProps } from "@/components/decision-studio/types";
+import { RATING_SCALE_MAX } from "@/lib/analysis/criteria";
+import {
+  PROVIDER_TIERS,
+  type DecisionOptionScore,
+  type FrameworkResult,
+  type LLMUsageTotals,
+  type RecommendationMethod,
+} from "@/lib/types";
+
+const METHOD_LABELS: Record<RecommendationMethod, string> = {
+  heuristic: "framework theme heuristic",
+  weighted_criteria: "weighted criteria",
+  ahp: "AHP pairwise comparison",
+};
+
+const CRITERION_COLORS = ["bg-sky-400", "bg-emerald-400", "bg-amber-400", "bg-violet-400", "bg-rose-400", "bg-teal-400"];
+
+function formatUsage(totals: LLMUsageTotals): string {
+  const tokens = totals.inputTokens + totals.outputTokens;
+  const tokenLabel = tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+  const unpriced = totals.unpricedCalls > 0 ? ` (+${totals.unpricedCalls} unpriced)` : "";
+
+  return `${totals.calls} LLM calls · ${tokenLabel} tokens · $${totals.costUsd.toFixed(4)}${unpriced}`;
+}
+
+function CriteriaBar({ option, colorFor }: { option: DecisionOptionScore; colorFor: (criterionId: string) => string }) {
+  return (
+    <div
+      className={`mt-1 flex h-2 w-full overflow-hidden rounded-full bg-slate-800 ${option.eliminatedBy ? "opacity-40" : ""}`}
+    >
+      {option.criteria?.map((entry) => (
+        <div
+          key={entry.criterionId}
+          className={colorFor(entry.criterionId)}
+          style={{ width: `${entry.contribution * 100}%` }}
+          title={`${entry.label}: ${(entry.contribution * 100).toFixed(1)} pts (weight ${Math.round(
+            entry.weight * 100,
+          )}%, rated ${(entry.score * RATING_SCALE_MAX).toFixed(1)}/${RATING_SCALE_MAX})`}
+        />
+      ))}
+    </div>
+  );
+}
 
 export function RecommendationStep({
   results,
@@ -16,11 +67,21 @@ export function RecommendationStep({
   setShowFrameworkPanels,
   displayedFrameworkResults,
   frameworkOptions,
+  retryingFrameworkId,
+  providers,
+  onRetryFramework,
+  onCriteriaSaved,
 }: RecommendationViewProps) {
   const fallbackCount = results.frameworkResults.filter(
     (framework) => framework.generation?.mode === "fallback",
   ).length;
   const warnings = results.synthesis.warnings ?? [];
+  const [inspectedFramework, setInspectedFramework] = useState<FrameworkResult | null>(null);
+  const legend = recommendation?.optionScores.find((option) => option.criteria)?.criteria ?? [];
+  const colorFor = (criterionId: string) => {
+    const index = legend.findIndex((entry) => entry.criterionId === criterionId);
+    return CRITERION_COLORS[Math.max(index, 0) % CRITERION_COLORS.length];
+  };
 
   return (
     <motion.section
@@ -37,6 +98,9 @@ export function RecommendationStep({
             {results.model ? ` (${results.model})` : ""} · Run: {results.runId} · Frameworks analyzed:{" "}
             {results.frameworkResults.length}
           </p>
+          <p className="mt-1 text-xs text-slate-400">
+            This run: {formatUsage(results.usage.run)} · Decision total: {formatUsage(results.usage.decision)}
+          </p>
         </div>
         <div className="flex gap-2">
           {decisionId ? (
@@ -86,6 +150,9 @@ export function RecommendationStep({
               <p className="mt-3 text-sm font-medium text-emerald-100">
                 Confidence: {(recommendation.confidence * 100).toFixed(1)}%
               </p>
+              <p className="mt-1 text-xs text-emerald-200">
+                Scored by {METHOD_LABELS[recommendation.method ?? "heuristic"]}
+              </p>
             </div>
 
             <div className="rounded-2xl border border-slate-700/60 bg-slate-900/65 p-5">
@@ -101,6 +168,16 @@ export function RecommendationStep({
           <section className="grid gap-4 lg:grid-cols-[1fr_1fr]">
             <div className="rounded-2xl border border-slate-700/60 bg-slate-900/65 p-5">
               <h3 className="mb-2 text-sm font-semibold text-slate-100">Option Scores</h3>
+              {legend.length > 0 ? (
+                <ul className="mb-2 flex flex-wrap gap-3 text-[11px] text-slate-300">
+                  {legend.map((entry) => (
+                    <li key={entry.criterionId} className="flex items-center gap-1">
+                      <span className={`inline-block h-2 w-2 rounded-full ${colorFor(entry.criterionId)}`} />
+                      {entry.label} ({Math.round(entry.weight * 100)}%)
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
               <div className="overflow-x-auto">
                 <table className="w-full min-w-[420px] text-left text-xs text-slate-200">
                   <thead>
@@ -115,7 +192,11 @@ export function RecommendationStep({
                     {recommendation.optionScores.map((option) => (
                       <tr key={option.option} className="border-t border-slate-800">
                         <td className="py-2 pr-3 font-medium text-slate-100">{option.option}</td>
-                        <td className="py-2 pr-3">{(option.score * 100).toFixed(1)}%</td>
+                        <td className="py-2 pr-3">
+                          {(option.score * 100).toFixed(1)}%
+                          {option.eliminatedBy ? <span className="ml-1 text-rose-300">eliminated</span> : null}
+                          {option.criteria ? <CriteriaBar option={option} colorFor={colorFor} /> : null}
+                        </td>
                         <td className="py-2 pr-3">{(option.confidence * 100).toFixed(1)}%</td>
                         <td className="py-2 text-slate-300">{option.rationale}</td>
                       </tr>
@@ -134,6 +215,15 @@ export function RecommendationStep({
               </ul>
             </div>
           </section>
+
+          {results.sensitivity ? <SensitivityPanel analysis={results.sensitivity} /> : null}
+
+          <WhatIfPanel
+            key={results.runId}
+            decisionId={decisionId}
+            model={results.whatIfModel}
+            method={recommendation.method ?? "heuristic"}
+          />
         </>
       ) : (
         <section className="rounded-2xl border border-amber-500/40 bg-amber-500/10 p-5 text-sm text-amber-100">
@@ -142,6 +232,14 @@ export function RecommendationStep({
         </section>
       )}
 
+      {decisionId ? (
+        <>
+          <CriteriaMatrixPanel decisionId={decisionId} onSaved={onCriteriaSaved} />
+          <AhpPanel decisionId={decisionId} onSaved={onCriteriaSaved} />
+          <MonteCarloPanel decisionId={decisionId} onSaved={onCriteriaSaved} />
+        </>
+      ) : null}
+
       <section className="space-y-3 rounded-2xl border border-slate-700/60 bg-slate-900/65 p-4">
         <div className="flex flex-wrap items-center justify-between gap-2">
           <div>
@@ -223,10 +321,50 @@ export function RecommendationStep({
               className="space-y-3 rounded-2xl border border-slate-700/60 bg-slate-900/65 p-4"
             >
               <header className="space-y-1">
-                <h4 className="text-base font-semibold text-slate-100">{result.frameworkName}</h4>
+                <div className="flex items-start justify-between gap-2">
+                  <h4 className="text-base font-semibold text-slate-100">{result.frameworkName}</h4>
+                  {decisionId ? (
+                    <button
+                      type="button"
+                      onClick={() => setInspectedFramework(result)}
+                      className="shrink-0 rounded-full border border-slate-600 px-2.5 py-0.5 text-[11px] text-slate-300 hover:border-sky-400"
+                    >
+                      Show prompt
+                    </button>
+                  ) : null}
+                </div>
                 <p className="text-xs text-slate-400">
                   {result.frameworkId} · confidence {(result.confidence * 100).toFixed(1)}%
+                  {result.generation?.provider ? ` · ${result.generation.provider}` : ""}
+                  {result.generation?.prompt?.version ? ` · prompt v${result.generation.prompt.version}` : ""}
+                  {result.generation?.cacheHit ? " · cached" : ""}
+                  {result.route
+                    ? ` · route ${result.route.rule} → ${result.route.provider ? `${result.route.provider}/${result.route.model}` : "simulation"}`
+                    : ""}
+                  {result.uncertainty
+                    ? ` · ${result.uncertainty.samples} samples, dispersion ${(result.uncertainty.dispersion * 100).toFixed(0)}%`
+                    : ""}
+                  {result.generation?.mode === "fallback" ? " · fallback" : ""}
                 </p>
+                {result.generation?.mode === "fallback" ? (
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    {[...PROVIDER_TIERS, ...providers.map((provider) => provider.name)].map((preference) => (
+                      <button
+                        key={preference}
+                        type="button"
+                        onClick={() => void onRetryFramework(result.frameworkId, preference)}
+                        disabled={retryingFrameworkId !== null}
+                        className="rounded-full border border-amber-400/50 px-2.5 py-0.5 text-[11px] text-amber-100 disabled:opacity-60"
+                      >
+                        {retryingFrameworkId === result.frameworkId
+                          ? "Retrying..."
+                          : preference === "auto"
+                            ? "Retry"
+                            : `Retry on ${preference}`}
+                      </button>
+                    ))}
+                  </div>
+                ) : null}
               </header>
 
               <FrameworkVisualization result={result} />
@@ -263,6 +401,18 @@ export function RecommendationStep({
           ))}
         </div>
       </section>
+
+      {decisionId ? <RunHistoryPanel decisionId={decisionId} currentRunId={results.runId} /> : null}
+
+      {decisionId && inspectedFramework ? (
+        <LLMCallDrawer
+          decisionId={decisionId}
+          runId={results.runId}
+          frameworkId={inspectedFramework.frameworkId}
+          frameworkName={inspectedFramework.frameworkName}
+          onClose={() => setInspectedFramework(null)}
+        />
+      ) : null}
     </motion.section>
   );
 }
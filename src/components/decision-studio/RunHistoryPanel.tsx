@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+
+import { fetchJson } from "@/lib/client/api";
+import type { DecisionRunSummary, PropagatedMapEdge, RunComparison } from "@/lib/types";
+
+interface RunHistoryPanelProps {
+  decisionId: string;
+  currentRunId: string;
+}
+
+function formatDuration(durationMs: number | null): string {
+  if (durationMs === null) {
+    return "n/a";
+  }
+
+  return durationMs >= 60000
+    ? `${(durationMs / 60000).toFixed(1)}m`
+    : `${Math.round(durationMs / 1000)}s`;
+}
+
+function formatDelta(value: number | null): string {
+  if (value === null) {
+    return "—";
+  }
+
+  const points = Math.round(value * 1000) / 10;
+  return `${points > 0 ? "+" : ""}${points.toFixed(1)}`;
+}
+
+function deltaClass(value: number | null): string {
+  if (value === null || value === 0) {
+    return "text-slate-400";
+  }
+
+  return value > 0 ? "text-emerald-300" : "text-rose-300";
+}
+
+function EdgeList({ title, edges }: { title: string; edges: PropagatedMapEdge[] }) {
+  return (
+    <div>
+      <p className="mb-1 font-semibold text-slate-100">
+        {title} ({edges.length})
+      </p>
+      {edges.length === 0 ? (
+        <p className="text-slate-400">None</p>
+      ) : (
+        <ul className="space-y-1">
+          {edges.slice(0, 12).map((edge) => (
+            <li key={`${edge.source}-${edge.target}-${edge.relationType}`}>
+              {edge.source} ↔ {edge.target} · {edge.relationType}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function RunHistoryPanel({ decisionId, currentRunId }: RunHistoryPanelProps) {
+  const [runs, setRuns] = useState<DecisionRunSummary[]>([]);
+  const [baseRunId, setBaseRunId] = useState<string>("");
+  const [targetRunId, setTargetRunId] = useState<string>(currentRunId);
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void fetchJson<{ runs: DecisionRunSummary[] }>(`/api/decisions/${decisionId}/runs`)
+      .then((payload) => {
+        if (cancelled) {
+          return;
+        }
+
+        setRuns(payload.runs);
+        const previousComplete = payload.runs.find(
+          (run) => run.status === "complete" && run.runId !== currentRunId,
+        );
+        setBaseRunId(previousComplete?.runId ?? "");
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load run history");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentRunId, decisionId]);
+
+  const completeRuns = runs.filter((run) => run.status === "complete");
+
+  const onCompare = async () => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ base: baseRunId, target: targetRunId });
+      setComparison(
+        await fetchJson<RunComparison>(`/api/decisions/${decisionId}/runs/compare?${params.toString()}`),
+      );
+    } catch (compareError) {
+      setError(compareError instanceof Error ? compareError.message : "Failed to compare runs");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-slate-700/60 bg-slate-900/65 p-5">
+      <h3 className="text-lg font-semibold text-slate-100">Run History</h3>
+
+      <div className="max-h-[240px] overflow-auto rounded-xl border border-slate-700 bg-slate-950/60">
+        <table className="w-full text-left text-xs text-slate-200">
+          <thead className="text-[11px] uppercase tracking-wide text-slate-400">
+            <tr>
+              <th className="px-3 py-2">Started</th>
+              <th className="px-3 py-2">Status</th>
+              <th className="px-3 py-2">Brief</th>
+              <th className="px-3 py-2">Provider</th>
+              <th className="px-3 py-2">Frameworks</th>
+              <th className="px-3 py-2">Duration</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map((run) => (
+              <tr key={run.runId} className="border-t border-slate-800">
+                <td className="px-3 py-1.5">
+                  {new Date(run.createdAt).toLocaleString()}
+                  {run.runId === currentRunId ? (
+                    <span className="ml-2 text-[10px] text-sky-300">current</span>
+                  ) : null}
+                </td>
+                <td className="px-3 py-1.5">{run.status}</td>
+                <td className="px-3 py-1.5">{run.briefVersion === null ? "—" : `v${run.briefVersion}`}</td>
+                <td className="px-3 py-1.5">
+                  {run.provider}
+                  {run.model ? ` (${run.model})` : ""}
+                </td>
+                <td className="px-3 py-1.5">
+                  {run.completedFrameworkCount}/{run.frameworkCount}
+                </td>
+                <td className="px-3 py-1.5">{formatDuration(run.durationMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {completeRuns.length >= 2 ? (
+        <div className="flex flex-wrap items-end gap-2">
+          {(
+            [
+              ["Base run", baseRunId, setBaseRunId],
+              ["Compare with", targetRunId, setTargetRunId],
+            ] as const
+          ).map(([label, value, setValue]) => (
+            <label key={label} className="text-xs font-medium uppercase tracking-wide text-slate-300">
+              {label}
+              <select
+                className="mt-1 block rounded-xl border border-slate-700 bg-slate-950/70 px-3 py-2 text-xs normal-case text-slate-100"
+                value={value}
+                onChange={(event) => setValue(event.target.value)}
+              >
+                <option value="">Select a run</option>
+                {completeRuns.map((run) => (
+                  <option key={run.runId} value={run.runId}>
+                    {new Date(run.createdAt).toLocaleString()} · {run.provider}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <button
+            type="button"
+            onClick={() => void onCompare()}
+            disabled={busy || !baseRunId || !targetRunId || baseRunId === targetRunId}
+            className="rounded-xl border border-slate-500 px-4 py-2 text-xs text-slate-100 hover:border-sky-400 disabled:opacity-60"
+          >
+            {busy ? "Comparing..." : "Compare runs"}
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400">Complete at least two runs to compare them side by side.</p>
+      )}
+
+      {error ? <p className="text-xs text-rose-200">{error}</p> : null}
+
+      {comparison ? (
+        <div className="space-y-3 text-xs text-slate-200">
+          <p
+            className={`rounded-xl border px-3 py-2 ${
+              comparison.recommendation.changed
+                ? "border-amber-400/50 bg-amber-500/10 text-amber-100"
+                : "border-slate-700 bg-slate-950/60"
+            }`}
+          >
+            {comparison.recommendation.changed
+              ? `Recommended option changed: ${comparison.recommendation.base ?? "none"} → ${
+                  comparison.recommendation.target ?? "none"
+                }`
+              : `Recommended option unchanged: ${comparison.recommendation.target ?? "none"}`}{" "}
+            (confidence {formatDelta(comparison.recommendation.confidenceDelta)} pts)
+          </p>
+
+          <table className="w-full text-left">
+            <thead className="text-[11px] uppercase tracking-wide text-slate-400">
+              <tr>
+                <th className="py-1">Framework</th>
+                <th className="py-1">Applicability Δ</th>
+                <th className="py-1">Confidence Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.frameworkDeltas.map((entry) => (
+                <tr key={entry.frameworkId} className="border-t border-slate-800">
+                  <td className="py-1">
+                    {entry.frameworkName}
+                    {!entry.base ? <span className="ml-1 text-sky-300">(new)</span> : null}
+                    {!entry.target ? <span className="ml-1 text-slate-400">(dropped)</span> : null}
+                  </td>
+                  <td className={`py-1 ${deltaClass(entry.applicabilityDelta)}`}>
+                    {formatDelta(entry.applicabilityDelta)}
+                  </td>
+                  <td className={`py-1 ${deltaClass(entry.confidenceDelta)}`}>
+                    {formatDelta(entry.confidenceDelta)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="grid gap-3 md:grid-cols-2">
+            <EdgeList title="Edges added" edges={comparison.edgesAdded} />
+            <EdgeList title="Edges removed" edges={comparison.edgesRemoved} />
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,150 @@
+import * as d3 from "d3";
+
+import type { SensitivityAnalysis, SensitivityFactor } from "@/lib/types";
+
+const WIDTH = 640;
+const ROW_HEIGHT = 26;
+const PADDING = { top: 24, right: 64, bottom: 28, left: 190 };
+const MAX_FACTORS = 10;
+
+function formatPoints(margin: number): string {
+  return `${margin >= 0 ? "+" : ""}${(margin * 100).toFixed(1)}`;
+}
+
+function robustnessTone(robustness: number): string {
+  if (robustness >= 0.9) {
+    return "text-emerald-300";
+  }
+
+  return robustness >= 0.7 ? "text-amber-300" : "text-rose-300";
+}
+
+function describeBreakEven(factor: SensitivityFactor): string {
+  return factor.breakEven
+    ? `${factor.breakEven.leader} leads at ${factor.breakEven.label} (now ${factor.baseline.label})`
+    : "No flip anywhere in range";
+}
+
+function TornadoChart({ analysis, factors }: { analysis: SensitivityAnalysis; factors: SensitivityFactor[] }) {
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const height = PADDING.top + PADDING.bottom + factors.length * ROW_HEIGHT;
+  const extent = Math.max(
+    0.05,
+    Math.abs(analysis.baselineMargin),
+    ...factors.flatMap((factor) => [Math.abs(factor.low.margin), Math.abs(factor.high.margin)]),
+  );
+  const x = d3.scaleLinear().domain([-extent, extent]).range([0, innerWidth]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-full rounded-xl bg-slate-950/80"
+      role="img"
+      aria-label="Tornado chart of the recommendation's lead under each perturbed input"
+    >
+      <g transform={`translate(${PADDING.left},${PADDING.top})`}>
+        <rect x={0} y={-8} width={x(0)} height={factors.length * ROW_HEIGHT + 8} fill="rgba(244,63,94,0.06)" />
+        <text x={4} y={-10} fill="#fda4af" fontSize="10">
+          another option leads
+        </text>
+        <line
+          x1={x(analysis.baselineMargin)}
+          y1={-8}
+          x2={x(analysis.baselineMargin)}
+          y2={factors.length * ROW_HEIGHT}
+          stroke="rgba(148,163,184,0.6)"
+          strokeDasharray="4 4"
+        />
+        <line x1={x(0)} y1={-8} x2={x(0)} y2={factors.length * ROW_HEIGHT} stroke="rgba(244,63,94,0.7)" />
+
+        {factors.map((factor, index) => {
+          const left = Math.min(factor.low.margin, factor.high.margin);
+          const right = Math.max(factor.low.margin, factor.high.margin);
+          const flips = left < 0;
+          const y = index * ROW_HEIGHT;
+
+          return (
+            <g key={factor.id}>
+              <title>
+                {`${factor.label}: ${factor.low.label} → ${formatPoints(factor.low.margin)} pts, ${factor.high.label} → ${formatPoints(
+                  factor.high.margin,
+                )} pts. ${describeBreakEven(factor)}.`}
+              </title>
+              <text x={-8} y={y + 15} textAnchor="end" fill="#e2e8f0" fontSize="11">
+                {factor.label.length > 30 ? `${factor.label.slice(0, 30)}…` : factor.label}
+              </text>
+              <rect
+                x={x(left)}
+                y={y + 5}
+                width={Math.max(2, x(right) - x(left))}
+                height={ROW_HEIGHT - 10}
+                rx={3}
+                fill={flips ? "rgba(244,63,94,0.7)" : "rgba(56,189,248,0.7)"}
+              />
+              <text x={x(left) - 4} y={y + 15} textAnchor="end" fill="#94a3b8" fontSize="9">
+                {factor.low.margin <= factor.high.margin ? factor.low.label : factor.high.label}
+              </text>
+              <text x={x(right) + 4} y={y + 15} fill="#94a3b8" fontSize="9">
+                {factor.low.margin <= factor.high.margin ? factor.high.label : factor.low.label}
+              </text>
+            </g>
+          );
+        })}
+
+        <text x={innerWidth / 2} y={factors.length * ROW_HEIGHT + 20} textAnchor="middle" fill="#93c5fd" fontSize="11">
+          Lead of {analysis.recommendedOption} over the best alternative (score points)
+        </text>
+      </g>
+    </svg>
+  );
+}
+
+export function SensitivityPanel({ analysis }: { analysis: SensitivityAnalysis }) {
+  const factors = analysis.factors.slice(0, MAX_FACTORS);
+  const fragile = analysis.factors.filter((factor) => factor.holdShare < 1);
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-slate-700/60 bg-slate-900/65 p-5 text-xs text-slate-200">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-100">Sensitivity</h3>
+          <p className="text-slate-400">
+            Each bar moves one input while holding the rest, then re-scores the options. Bars crossing the red line
+            change the pick.
+          </p>
+        </div>
+        <div className="text-right">
+          <p className={`text-lg font-semibold ${robustnessTone(analysis.robustness)}`}>
+            {Math.round(analysis.robustness * 100)}% robust
+          </p>
+          <p className="text-slate-400">
+            Leads {analysis.runnerUp} by {formatPoints(analysis.baselineMargin)} pts
+          </p>
+        </div>
+      </div>
+
+      {factors.length > 0 ? (
+        <TornadoChart analysis={analysis} factors={factors} />
+      ) : (
+        <p className="text-slate-400">Add a second weighted criterion to test how weights affect the pick.</p>
+      )}
+
+      {fragile.length > 0 ? (
+        <div>
+          <p className="font-semibold text-slate-100">Break-even points</p>
+          <ul className="mt-1 space-y-0.5">
+            {fragile.map((factor) => (
+              <li key={factor.id}>
+                • {factor.label}: {describeBreakEven(factor)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-emerald-200">
+          {analysis.recommendedOption} stays on top across every tested perturbation.
+        </p>
+      )}
+    </section>
+  );
+}
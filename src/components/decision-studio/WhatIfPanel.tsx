@@ -0,0 +1,289 @@
+import { useEffect, useMemo, useState } from "react";
+
+import {
+  HEURISTIC_THEME_KEYS,
+  RISK_TOLERANCE_LEVELS,
+  THEME_KEYS,
+  applyWhatIf,
+  dominantTheme,
+  rankHeuristicOptions,
+} from "@/lib/analysis/heuristic";
+import { fetchJson } from "@/lib/client/api";
+import type {
+  DecisionBrief,
+  DecisionScenario,
+  HeuristicScoringModel,
+  RecommendationMethod,
+  ThemeVector,
+  WhatIfOverrides,
+} from "@/lib/types";
+
+interface WhatIfPanelProps {
+  decisionId: string | null;
+  /** The run's heuristic inputs; sliders start here and "Reset" returns here. */
+  model: HeuristicScoringModel;
+  method: RecommendationMethod;
+}
+
+const THEME_LABELS: Record<keyof ThemeVector, string> = {
+  risk: "Risk",
+  urgency: "Urgency",
+  opportunity: "Opportunity",
+  uncertainty: "Uncertainty",
+  resources: "Resources",
+  stakeholderImpact: "Stakeholder impact",
+};
+
+/** Sliders move in 0.05 steps, so smaller differences are rounding, not overrides. */
+const OVERRIDE_EPSILON = 0.001;
+
+function toOverrides(
+  model: HeuristicScoringModel,
+  themes: ThemeVector,
+  riskTolerance: DecisionBrief["riskTolerance"],
+): WhatIfOverrides {
+  return {
+    themes: Object.fromEntries(
+      THEME_KEYS.filter((key) => Math.abs(themes[key] - model.themes[key]) > OVERRIDE_EPSILON).map((key) => [
+        key,
+        themes[key],
+      ]),
+    ),
+    ...(riskTolerance !== model.riskTolerance ? { riskTolerance } : {}),
+  };
+}
+
+function describeOverrides(overrides: WhatIfOverrides): string {
+  const parts = [
+    ...Object.entries(overrides.themes).map(
+      ([key, value]) => `${THEME_LABELS[key as keyof ThemeVector]} ${Number(value).toFixed(2)}`,
+    ),
+    ...(overrides.riskTolerance ? [`${overrides.riskTolerance} risk tolerance`] : []),
+  ];
+
+  return parts.length > 0 ? parts.join(", ") : "No changes from the run";
+}
+
+function rankShift(baselineRank: number, rank: number): string {
+  if (baselineRank === rank) {
+    return "–";
+  }
+
+  return baselineRank > rank ? `↑${baselineRank - rank}` : `↓${rank - baselineRank}`;
+}
+
+export function WhatIfPanel({ decisionId, model, method }: WhatIfPanelProps) {
+  const [themes, setThemes] = useState<ThemeVector>(model.themes);
+  const [riskTolerance, setRiskTolerance] = useState(model.riskTolerance);
+  const [scenarios, setScenarios] = useState<DecisionScenario[]>([]);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!decisionId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    void fetchJson<{ scenarios: DecisionScenario[] }>(`/api/decisions/${decisionId}/scenarios`)
+      .then((payload) => {
+        if (!cancelled) {
+          setScenarios(payload.scenarios);
+        }
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load scenarios");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [decisionId]);
+
+  const overrides = useMemo(() => toOverrides(model, themes, riskTolerance), [model, themes, riskTolerance]);
+  const baseline = useMemo(() => rankHeuristicOptions(model), [model]);
+  const ranking = useMemo(() => rankHeuristicOptions(applyWhatIf(model, overrides)), [model, overrides]);
+
+  const applyScenario = (scenario: DecisionScenario) => {
+    setThemes({ ...model.themes, ...scenario.overrides.themes });
+    setRiskTolerance(scenario.overrides.riskTolerance ?? model.riskTolerance);
+  };
+
+  const onSave = async () => {
+    if (!decisionId) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const payload = await fetchJson<{ scenario: DecisionScenario }>(`/api/decisions/${decisionId}/scenarios`, {
+        method: "POST",
+        body: JSON.stringify({ name: name.trim(), overrides }),
+      });
+      setScenarios((previous) => [payload.scenario, ...previous]);
+      setName("");
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save scenario");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-slate-700/60 bg-slate-900/65 p-5 text-xs text-slate-200">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-100">What-if</h3>
+          <p className="text-slate-400">
+            Move the framework themes or risk tolerance and the options re-score instantly, without re-running
+            analysis.
+            {method === "heuristic"
+              ? ""
+              : " Your saved criteria drive the recommendation; this shows how the theme heuristic would rank the options."}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            setThemes(model.themes);
+            setRiskTolerance(model.riskTolerance);
+          }}
+          className="rounded-full border border-slate-600 px-3 py-1 text-slate-200"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_1fr]">
+        <div className="space-y-2">
+          {THEME_KEYS.map((key) => (
+            <label key={key} className="block">
+              <span className="flex justify-between text-slate-300">
+                <span>
+                  {THEME_LABELS[key]}
+                  {HEURISTIC_THEME_KEYS.includes(key) ? "" : <span className="text-slate-500"> · rationale only</span>}
+                </span>
+                <span>{themes[key].toFixed(2)}</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={themes[key]}
+                onChange={(event) => setThemes((previous) => ({ ...previous, [key]: Number(event.target.value) }))}
+                className="w-full accent-sky-400"
+              />
+            </label>
+          ))}
+          <label className="flex items-center justify-between gap-2 text-slate-300">
+            Risk tolerance
+            <select
+              className="rounded-lg border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100"
+              value={riskTolerance}
+              onChange={(event) => setRiskTolerance(event.target.value as DecisionBrief["riskTolerance"])}
+            >
+              {RISK_TOLERANCE_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {level}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-3">
+          <table className="w-full text-left">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="pb-1">Option</th>
+                <th className="pb-1">Score</th>
+                <th className="pb-1">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ranking.map((entry, rank) => {
+                const baselineRank = baseline.findIndex((candidate) => candidate.option === entry.option);
+                const delta = entry.score - (baseline[baselineRank]?.score ?? entry.score);
+
+                return (
+                  <tr key={entry.option} className="border-t border-slate-800">
+                    <td className="py-1 pr-2 font-medium text-slate-100">{entry.option}</td>
+                    <td className="py-1 pr-2">
+                      {(entry.score * 100).toFixed(1)}%
+                      {Math.abs(delta) >= 0.0005 ? (
+                        <span className={delta > 0 ? "ml-1 text-emerald-300" : "ml-1 text-rose-300"}>
+                          {delta > 0 ? "+" : ""}
+                          {(delta * 100).toFixed(1)}
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="py-1">{rankShift(baselineRank, rank)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-slate-400">
+            Dominant theme: {THEME_LABELS[dominantTheme(applyWhatIf(model, overrides).themes)]}
+          </p>
+
+          {decisionId ? (
+            <div className="flex gap-2">
+              <input
+                aria-label="Scenario name"
+                placeholder="Scenario name"
+                maxLength={120}
+                className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-950/70 px-2 py-1 text-xs text-slate-100"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+              />
+              <button
+                type="button"
+                onClick={() => void onSave()}
+                disabled={saving || name.trim().length === 0}
+                className="rounded-full bg-emerald-400 px-3 py-1 font-semibold text-slate-950 disabled:opacity-60"
+              >
+                {saving ? "Saving..." : "Save scenario"}
+              </button>
+            </div>
+          ) : null}
+        </div>
+      </div>
+
+      {scenarios.length > 0 ? (
+        <div>
+          <p className="font-semibold text-slate-100">Saved scenarios</p>
+          <ul className="mt-1 space-y-1">
+            {scenarios.map((scenario) => (
+              <li key={scenario.id} className="flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  <span className="font-medium text-slate-100">{scenario.name}</span>
+                  <span className="text-slate-400">
+                    {" "}
+                    · {describeOverrides(scenario.overrides)} · {scenario.ranking[0]?.option ?? "no options"} leads
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => applyScenario(scenario)}
+                  className="rounded-full border border-slate-600 px-2 py-0.5 text-slate-300"
+                >
+                  Apply
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {error ? <p className="text-rose-200">{error}</p> : null}
+    </section>
+  );
+}
@@ -1,26 +1,51 @@
 import type React from "react";
 
 import type {
+  BriefAuthor,
   CreateDecisionInput,
   DecisionBrief,
   DecisionRecommendation,
   DecisionRunStatus,
   FrameworkId,
   FrameworkResult,
+  HeuristicScoringModel,
+  MonteCarloResult,
   PropagatedDecisionMap,
   ProviderPreference,
+  ProviderSummary,
   RankedFrameworkFit,
+  SensitivityAnalysis,
   SynthesisSummary,
+  UsageSummary,
 } from "@/lib/types";
 
+export type RunControlAction = "pause" | "resume" | "cancel";
+
+export interface LiveFrameworkProgress {
+  frameworkId: FrameworkId;
+  state: "running" | "complete" | "fallback";
+  provider: string | null;
+  model: string | null;
+  result: FrameworkResult | null;
+  warning: string | null;
+}
+
 export interface ResultsPayload {
   brief: DecisionBrief;
   frameworkResults: FrameworkResult[];
   propagatedMap: PropagatedDecisionMap;
   synthesis: SynthesisSummary;
+  /** Null when fewer than two options are viable. */
+  sensitivity: SensitivityAnalysis | null;
+  /** Theme heuristic inputs the what-if panel re-scores locally. */
+  whatIfModel: HeuristicScoringModel;
+  /** The saved Monte Carlo model's run; null until one is saved. */
+  monteCarlo: MonteCarloResult | null;
   runId: string;
+  briefVersion: number | null;
   provider: string;
   model: string | null;
+  usage: UsageSummary;
 }
 
 export interface DecisionDetailPayload {
@@ -33,6 +58,8 @@ export interface DecisionDetailPayload {
   };
   brief: DecisionBrief | null;
   briefQualityScore: number | null;
+  briefVersion: number | null;
+  briefAuthor: BriefAuthor | null;
   clarifications: {
     generationId: string;
     questions: Array<{
@@ -50,8 +77,18 @@ export interface DecisionDetailPayload {
 export interface AnalysisStepProps {
   brief: DecisionBrief;
   briefQualityScore: number | null;
+  briefAuthor: BriefAuthor | null;
+  /** Saves the edited brief as a new version; resolves false when the save failed. */
+  onSaveBrief: (brief: DecisionBrief) => Promise<boolean>;
+  onRestoreBrief: (version: number) => Promise<void>;
   providerPreference: ProviderPreference;
   setProviderPreference: (value: ProviderPreference) => void;
+  /** Registered providers that can be picked by name; empty until loaded. */
+  providers: ProviderSummary[];
+  ensembleSamples: number;
+  setEnsembleSamples: (value: number) => void;
+  bypassCache: boolean;
+  setBypassCache: (value: boolean) => void;
   rankedFrameworkFits: RankedFrameworkFit[];
   selectedFrameworkIds: Set<FrameworkId>;
   setSelectedFrameworkIds: React.Dispatch<React.SetStateAction<Set<FrameworkId>>>;
@@ -61,7 +98,10 @@ export interface AnalysisStepProps {
   busy: string | null;
   decisionId: string | null;
   runStatus: DecisionRunStatus | null;
+  liveFrameworks: Record<string, LiveFrameworkProgress>;
+  liveWarnings: string[];
   onStartAnalysis: () => Promise<void>;
+  onRunControl: (action: RunControlAction) => Promise<void>;
 }
 
 export interface RecommendationViewProps {
@@ -76,4 +116,9 @@ export interface RecommendationViewProps {
   setShowFrameworkPanels: React.Dispatch<React.SetStateAction<boolean>>;
   displayedFrameworkResults: FrameworkResult[];
   frameworkOptions: Array<{ id: FrameworkId; name: string }>;
+  retryingFrameworkId: FrameworkId | null;
+  providers: ProviderSummary[];
+  onRetryFramework: (frameworkId: FrameworkId, providerPreference: ProviderPreference) => Promise<void>;
+  /** Reloads results after criteria or AHP judgments change, so option scores reflect them. */
+  onCriteriaSaved: () => Promise<void>;
 }
@@ -0,0 +1,9 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  // Resume analysis runs interrupted by a restart and keep sweeping for lapsed leases.
+  const { startAnalysisQueueSweeper } = await import("@/lib/analysis/runner");
+  startAnalysisQueueSweeper();
+}
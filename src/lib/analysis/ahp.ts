@@ -0,0 +1,291 @@
+import { listLabels, shortLabel, type RecommendationEvidence } from "@/lib/analysis/criteria";
+import type {
+  AhpConsistency,
+  AhpCriterion,
+  AhpModel,
+  AhpPriority,
+  AhpResult,
+  DecisionMatrix,
+  DecisionOptionScore,
+  DecisionRecommendation,
+  PairwiseJudgment,
+} from "@/lib/types";
+import { clamp, round } from "@/lib/utils/math";
+
+/** Saaty's fundamental scale, from "second is extremely preferred" to "first is extremely preferred". */
+export const SAATY_SCALE = [1 / 9, 1 / 7, 1 / 5, 1 / 3, 1, 3, 5, 7, 9] as const;
+
+/** Judgments with a consistency ratio above this should be revisited. */
+export const CONSISTENCY_THRESHOLD = 0.1;
+
+/** Saaty's pairwise matrices stay reliable up to about nine elements. */
+export const MAX_AHP_CRITERIA = 9;
+
+/** Saaty's random consistency index, indexed by matrix size. */
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49];
+
+/** Confidence multiplier applied when any comparison matrix is inconsistent. */
+const INCONSISTENCY_PENALTY = 0.7;
+
+/** Reciprocal comparison matrix over `ids`; pairs without a judgment are equal. */
+export function pairwiseMatrix(ids: string[], judgments: PairwiseJudgment[]): number[][] {
+  const indexOf = new Map(ids.map((id, index) => [id, index]));
+  const matrix = ids.map(() => ids.map(() => 1));
+
+  for (const judgment of judgments) {
+    const row = indexOf.get(judgment.first);
+    const column = indexOf.get(judgment.second);
+    if (row === undefined || column === undefined || row === column) {
+      continue;
+    }
+
+    matrix[row][column] = judgment.value;
+    matrix[column][row] = 1 / judgment.value;
+  }
+
+  return matrix;
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map((row) => row.reduce((sum, value, index) => sum + value * vector[index], 0));
+}
+
+/** Principal eigenvector by power iteration, normalized to sum to 1. */
+export function priorityVector(matrix: number[][]): number[] {
+  const size = matrix.length;
+  if (size === 0) {
+    return [];
+  }
+
+  let vector = Array.from({ length: size }, () => 1 / size);
+  for (let iteration = 0; iteration < 100; iteration += 1) {
+    const product = multiply(matrix, vector);
+    const total = product.reduce((sum, value) => sum + value, 0);
+    const next = product.map((value) => value / total);
+    const change = Math.max(...next.map((value, index) => Math.abs(value - vector[index])));
+    vector = next;
+    if (change < 1e-10) {
+      break;
+    }
+  }
+
+  return vector;
+}
+
+export function consistencyOf(matrix: number[][], priorities: number[]): AhpConsistency {
+  const size = matrix.length;
+  // Reciprocal matrices of size 1 and 2 are always consistent.
+  if (size <= 2) {
+    return { lambdaMax: size, consistencyIndex: 0, consistencyRatio: 0, consistent: true };
+  }
+
+  const product = multiply(matrix, priorities);
+  const lambdaMax = product.reduce((sum, value, index) => sum + value / priorities[index], 0) / size;
+  const consistencyIndex = Math.max(0, (lambdaMax - size) / (size - 1));
+  const consistencyRatio = consistencyIndex / RANDOM_INDEX[Math.min(size, RANDOM_INDEX.length - 1)];
+
+  return {
+    lambdaMax: round(lambdaMax, 4),
+    consistencyIndex: round(consistencyIndex, 4),
+    consistencyRatio: round(consistencyRatio, 4),
+    consistent: consistencyRatio <= CONSISTENCY_THRESHOLD,
+  };
+}
+
+function analyzeComparisons(
+  items: AhpPriority[],
+  judgments: PairwiseJudgment[],
+): { priorities: AhpPriority[]; consistency: AhpConsistency } {
+  const matrix = pairwiseMatrix(
+    items.map((item) => item.id),
+    judgments,
+  );
+  const vector = priorityVector(matrix);
+
+  return {
+    priorities: items.map((item, index) => ({ ...item, priority: round(vector[index], 4) })),
+    consistency: consistencyOf(matrix, vector),
+  };
+}
+
+export function computeAhp(model: AhpModel): AhpResult {
+  const criteria = analyzeComparisons(
+    model.criteria.map((criterion) => ({ id: criterion.id, label: criterion.label, priority: 0 })),
+    model.criteriaJudgments,
+  );
+  const optionItems = model.options.map((option) => ({ id: option, label: option, priority: 0 }));
+  const byCriterion = model.criteria.map((criterion) => {
+    const judgments =
+      model.alternativeJudgments.find((entry) => entry.criterionId === criterion.id)?.judgments ?? [];
+    return { criterionId: criterion.id, ...analyzeComparisons(optionItems, judgments) };
+  });
+
+  const options = model.options
+    .map((option, index) => ({
+      id: option,
+      label: option,
+      priority: round(
+        criteria.priorities.reduce(
+          (sum, criterion, criterionIndex) => sum + criterion.priority * byCriterion[criterionIndex].priorities[index].priority,
+          0,
+        ),
+        4,
+      ),
+    }))
+    .sort((a, b) => b.priority - a.priority);
+
+  return {
+    criteria: criteria.priorities,
+    criteriaConsistency: criteria.consistency,
+    byCriterion,
+    options,
+    consistent: criteria.consistency.consistent && byCriterion.every((entry) => entry.consistency.consistent),
+  };
+}
+
+/**
+ * AHP compares the decision matrix's weighted criteria; hard constraints stay
+ * pass/fail in the matrix. Nothing is judged yet, so every priority is equal.
+ */
+export function buildDefaultAhpModel(matrix: DecisionMatrix): AhpModel {
+  const criteria: AhpCriterion[] = matrix.criteria
+    .filter((criterion) => !criterion.hard)
+    .slice(0, MAX_AHP_CRITERIA)
+    .map((criterion) => ({ id: criterion.id, label: criterion.label }));
+
+  return {
+    criteria,
+    options: matrix.options,
+    criteriaJudgments: [],
+    alternativeJudgments: [],
+    updatedAt: null,
+  };
+}
+
+/** Points the model at the brief's current options, dropping judgments about options that no longer exist. */
+export function alignAhpModel(model: AhpModel, options: string[]): AhpModel {
+  const optionSet = new Set(options);
+
+  return {
+    ...model,
+    options,
+    alternativeJudgments: model.alternativeJudgments.map((entry) => ({
+      ...entry,
+      judgments: entry.judgments.filter(
+        (judgment) => optionSet.has(judgment.first) && optionSet.has(judgment.second),
+      ),
+    })),
+  };
+}
+
+/** A model replaces the matrix and heuristic recommendations once saved, with two options and a criterion. */
+export function isAhpModelUsable(model: AhpModel): boolean {
+  return model.updatedAt !== null && model.options.length >= 2 && model.criteria.length > 0;
+}
+
+function inconsistentComparisons(result: AhpResult): string[] {
+  const labels = new Map(result.criteria.map((criterion) => [criterion.id, criterion.label]));
+
+  return [
+    ...(result.criteriaConsistency.consistent
+      ? []
+      : [`criteria (CR ${result.criteriaConsistency.consistencyRatio.toFixed(2)})`]),
+    ...result.byCriterion
+      .filter((entry) => !entry.consistency.consistent)
+      .map(
+        (entry) =>
+          `options on ${shortLabel(labels.get(entry.criterionId) ?? entry.criterionId)} (CR ${entry.consistency.consistencyRatio.toFixed(2)})`,
+      ),
+  ];
+}
+
+/**
+ * AHP recommendation: option scores are global priorities, broken down by
+ * criterion priority × the option's local priority under that criterion.
+ * Options that fail a hard constraint in `eliminatedBy` score 0 and rank last.
+ */
+export function recommendFromAhp(
+  result: AhpResult,
+  evidence: RecommendationEvidence,
+  eliminatedBy: Record<string, string[]> = {},
+): DecisionRecommendation {
+  const optionConfidence = round(clamp(evidence.confidence * (result.consistent ? 1 : INCONSISTENCY_PENALTY)), 3);
+
+  const optionScores = result.options
+    .map((option): DecisionOptionScore => {
+      const criteria = result.criteria.map((criterion, criterionIndex) => {
+        const local =
+          result.byCriterion[criterionIndex].priorities.find((entry) => entry.id === option.id)?.priority ?? 0;
+        return {
+          criterionId: criterion.id,
+          label: criterion.label,
+          weight: criterion.priority,
+          score: local,
+          contribution: round(criterion.priority * local, 4),
+        };
+      });
+      const violated = eliminatedBy[option.id] ?? [];
+      const driver = criteria.reduce((top, entry) => (entry.contribution > top.contribution ? entry : top));
+
+      return {
+        option: option.id,
+        score: violated.length > 0 ? 0 : option.priority,
+        confidence: optionConfidence,
+        rationale:
+          violated.length > 0
+            ? `Eliminated: violates ${listLabels(violated)}.`
+            : `Global priority ${Math.round(option.priority * 100)}%, most of it from ${shortLabel(driver.label)}.`,
+        criteria,
+        ...(violated.length > 0 ? { eliminatedBy: violated } : {}),
+      };
+    })
+    // Priorities are already sorted; a stable sort moves eliminated options last.
+    .sort((a, b) => Number(Boolean(a.eliminatedBy)) - Number(Boolean(b.eliminatedBy)));
+
+  const viable = optionScores.filter((option) => !option.eliminatedBy);
+  const eliminated = optionScores.filter((option) => option.eliminatedBy);
+  const inconsistent = inconsistentComparisons(result);
+  const consistencyNote =
+    inconsistent.length > 0
+      ? [`Pairwise judgments are inconsistent for ${inconsistent.join(", ")}; revisit them before relying on the ranking.`]
+      : [];
+
+  if (viable.length === 0) {
+    const best = result.options[0];
+    return {
+      recommendedOption: best.id,
+      confidence: 0,
+      rationale: `Every option violates at least one hard constraint. ${best.id} has the highest AHP priority; relax a constraint or add an alternative before committing.`,
+      tradeoffs: [...eliminated.map((option) => `${option.option}: ${option.rationale}`).slice(0, 6), ...consistencyNote],
+      nextActions: evidence.nextActions.slice(0, 3),
+      optionScores,
+      method: "ahp",
+    };
+  }
+
+  const best = viable[0];
+  const second = viable[1] ?? null;
+  const topCriterion = result.criteria.reduce((top, entry) => (entry.priority > top.priority ? entry : top));
+  const support =
+    evidence.supportingFrameworks.length > 0
+      ? ` Framework evidence from ${evidence.supportingFrameworks.join(", ")} sets the confidence.`
+      : "";
+
+  return {
+    recommendedOption: best.option,
+    confidence: round(clamp(best.confidence * 0.65 + clamp(best.score - (second?.score ?? 0)) * 0.35), 3),
+    rationale: `${best.option} has the highest AHP priority (${Math.round(best.score * 100)}%) across ${
+      result.criteria.length
+    } pairwise-compared criteria; ${shortLabel(topCriterion.label)} carries the most weight (${Math.round(
+      topCriterion.priority * 100,
+    )}%).${support}`,
+    tradeoffs: [
+      ...(second ? [`${second.option} is the runner-up at ${Math.round(second.score * 100)}% priority.`] : []),
+      ...eliminated.map((option) => `${option.option} is ruled out: violates ${listLabels(option.eliminatedBy!)}.`),
+      ...consistencyNote,
+    ],
+    nextActions: evidence.nextActions.slice(0, 3),
+    optionScores,
+    method: "ahp",
+  };
+}
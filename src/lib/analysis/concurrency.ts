@@ -0,0 +1,51 @@
+export type ConcurrencyOutcome = "success" | "error" | "rate_limited";
+
+/**
+ * Additive-increase/multiplicative-decrease limit for a run's framework workers.
+ * Starts at the configured maximum; a provider error halves the limit, a rate
+ * limit drops it to 1, and each streak of `limit` successes raises it by one.
+ */
+export class AdaptiveConcurrencyLimiter {
+  private active = 0;
+  private successStreak = 0;
+  private readonly waiters: Array<() => void> = [];
+  private currentLimit: number;
+
+  constructor(private readonly maxLimit: number) {
+    this.currentLimit = Math.max(1, maxLimit);
+  }
+
+  get limit(): number {
+    return this.currentLimit;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.active < this.currentLimit) {
+      this.active += 1;
+      return;
+    }
+
+    // release() hands the slot over, so active is already counted for this waiter.
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+  }
+
+  release(outcome: ConcurrencyOutcome): void {
+    this.active -= 1;
+
+    if (outcome === "success") {
+      this.successStreak += 1;
+      if (this.successStreak >= this.currentLimit && this.currentLimit < this.maxLimit) {
+        this.currentLimit += 1;
+        this.successStreak = 0;
+      }
+    } else {
+      this.successStreak = 0;
+      this.currentLimit = outcome === "rate_limited" ? 1 : Math.max(1, Math.floor(this.currentLimit / 2));
+    }
+
+    while (this.waiters.length > 0 && this.active < this.currentLimit) {
+      this.active += 1;
+      this.waiters.shift()!();
+    }
+  }
+}
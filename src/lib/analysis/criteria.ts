@@ -0,0 +1,263 @@
+import type {
+  CriterionContribution,
+  CriterionRating,
+  DecisionBrief,
+  DecisionCriterion,
+  DecisionMatrix,
+  DecisionOptionScore,
+  DecisionRecommendation,
+} from "@/lib/types";
+import { clamp, round } from "@/lib/utils/math";
+
+export const RATING_SCALE_MAX = 10;
+
+/** Unrated cells count as the middle of the scale on weighted criteria, and as passing on hard constraints. */
+const NEUTRAL_RATING = RATING_SCALE_MAX / 2;
+
+export interface RecommendationEvidence {
+  /** Average framework confidence, already discounted for ensemble disagreement. */
+  confidence: number;
+  nextActions: string[];
+  supportingFrameworks: string[];
+}
+
+interface RankedOption {
+  score: DecisionOptionScore;
+  /** Weighted score before elimination, used to order options that all violate a constraint. */
+  weightedScore: number;
+}
+
+export function deriveDecisionOptions(brief: DecisionBrief): string[] {
+  const options = brief.alternatives
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+  if (options.length >= 2) {
+    return options.slice(0, 8);
+  }
+
+  return ["Conservative rollout", "Phased pilot", "Full-scale commitment"];
+}
+
+/**
+ * Success criteria become equally weighted criteria and constraints become
+ * hard constraints. Nothing is rated yet; the matrix only drives the
+ * recommendation once it has been saved.
+ */
+export function buildDefaultDecisionMatrix(brief: DecisionBrief): DecisionMatrix {
+  const criteria: DecisionCriterion[] = [
+    ...brief.successCriteria.map((label, index) => ({
+      id: `success_${index + 1}`,
+      label,
+      source: "success_criterion" as const,
+      weight: 1,
+      hard: false,
+    })),
+    ...brief.constraints.map((label, index) => ({
+      id: `constraint_${index + 1}`,
+      label,
+      source: "constraint" as const,
+      weight: 1,
+      hard: true,
+    })),
+  ];
+
+  return { options: deriveDecisionOptions(brief), criteria, ratings: [], updatedAt: null };
+}
+
+/** Points the matrix at the brief's current options, dropping ratings for options or criteria that no longer exist. */
+export function alignDecisionMatrix(matrix: DecisionMatrix, options: string[]): DecisionMatrix {
+  const optionSet = new Set(options);
+  const criterionIds = new Set(matrix.criteria.map((criterion) => criterion.id));
+
+  return {
+    ...matrix,
+    options,
+    ratings: matrix.ratings.filter(
+      (rating) => optionSet.has(rating.option) && criterionIds.has(rating.criterionId),
+    ),
+  };
+}
+
+function weightedCriteria(matrix: DecisionMatrix): DecisionCriterion[] {
+  return matrix.criteria.filter((criterion) => !criterion.hard && criterion.weight > 0);
+}
+
+/** A matrix replaces the heuristic recommendation once saved, with two options and a weighted criterion. */
+export function isDecisionMatrixUsable(matrix: DecisionMatrix): boolean {
+  return matrix.updatedAt !== null && matrix.options.length >= 2 && weightedCriteria(matrix).length > 0;
+}
+
+function ratingLookup(ratings: CriterionRating[]): (option: string, criterionId: string) => number | undefined {
+  const byCell = new Map(ratings.map((rating) => [`${rating.option}\u0000${rating.criterionId}`, rating.score]));
+  return (option, criterionId) => byCell.get(`${option}\u0000${criterionId}`);
+}
+
+/** Criterion labels come from the brief and can run long; prose quotes a shortened form. */
+export function shortLabel(label: string, maxLength = 80): string {
+  return label.length <= maxLength ? label : `${label.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+export function listLabels(labels: string[]): string {
+  const listed = labels.slice(0, 2).map((label) => shortLabel(label)).join("; ");
+  return labels.length > 2 ? `${listed} and ${labels.length - 2} more` : listed;
+}
+
+function formatRating(entry: CriterionContribution): string {
+  return `${round(entry.score * RATING_SCALE_MAX, 1)}/${RATING_SCALE_MAX}`;
+}
+
+function describeRatings(criteria: CriterionContribution[]): string {
+  if (criteria.length === 0) {
+    return "No weighted criteria to score against.";
+  }
+
+  const strongest = criteria.reduce((best, entry) => (entry.score > best.score ? entry : best));
+  const weakest = criteria.reduce((worst, entry) => (entry.score < worst.score ? entry : worst));
+
+  return strongest.score === weakest.score
+    ? `Rated ${formatRating(strongest)} across the weighted criteria.`
+    : `Strongest on ${shortLabel(strongest.label)} (${formatRating(strongest)}); weakest on ${shortLabel(
+        weakest.label,
+      )} (${formatRating(weakest)}).`;
+}
+
+/** Hard constraints each option fails, keyed by option; options that pass everything are omitted. */
+export function hardConstraintViolations(matrix: DecisionMatrix): Record<string, string[]> {
+  const rating = ratingLookup(matrix.ratings);
+  const hardConstraints = matrix.criteria.filter((criterion) => criterion.hard);
+
+  return Object.fromEntries(
+    matrix.options.flatMap((option) => {
+      const violated = hardConstraints
+        .filter((criterion) => rating(option, criterion.id) === 0)
+        .map((criterion) => criterion.label);
+      return violated.length > 0 ? [[option, violated]] : [];
+    }),
+  );
+}
+
+function rankOptions(matrix: DecisionMatrix, evidenceConfidence: number): RankedOption[] {
+  const rating = ratingLookup(matrix.ratings);
+  const weighted = weightedCriteria(matrix);
+  const totalWeight = weighted.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const violations = hardConstraintViolations(matrix);
+
+  const ranked = matrix.options.map((option): RankedOption => {
+    const criteria: CriterionContribution[] = weighted.map((criterion) => {
+      const weight = criterion.weight / totalWeight;
+      const score = (rating(option, criterion.id) ?? NEUTRAL_RATING) / RATING_SCALE_MAX;
+      return {
+        criterionId: criterion.id,
+        label: criterion.label,
+        weight: round(weight, 4),
+        score: round(score, 3),
+        contribution: round(weight * score, 4),
+      };
+    });
+    const weightedScore = clamp(criteria.reduce((sum, entry) => sum + entry.contribution, 0));
+    const eliminatedBy = violations[option] ?? [];
+    const ratedShare =
+      weighted.length === 0
+        ? 0
+        : weighted.filter((criterion) => rating(option, criterion.id) !== undefined).length / weighted.length;
+
+    return {
+      score: {
+        option,
+        score: eliminatedBy.length > 0 ? 0 : round(weightedScore, 3),
+        // Unrated cells are guesses, so they cost confidence.
+        confidence: round(clamp(evidenceConfidence * (0.6 + 0.4 * ratedShare)), 3),
+        rationale:
+          eliminatedBy.length > 0 ? `Eliminated: violates ${listLabels(eliminatedBy)}.` : describeRatings(criteria),
+        criteria,
+        ...(eliminatedBy.length > 0 ? { eliminatedBy } : {}),
+      },
+      weightedScore,
+    };
+  });
+
+  return ranked.sort(
+    (a, b) =>
+      Number(Boolean(a.score.eliminatedBy)) - Number(Boolean(b.score.eliminatedBy)) ||
+      b.weightedScore - a.weightedScore,
+  );
+}
+
+/** Options in ranked order with per-criterion breakdowns; eliminated options score 0 and rank last. */
+export function scoreDecisionMatrix(matrix: DecisionMatrix, evidenceConfidence = 1): DecisionOptionScore[] {
+  return rankOptions(matrix, evidenceConfidence).map((entry) => entry.score);
+}
+
+/** The criterion on which `challenger` beats `leader` by the largest weighted margin, if any. */
+function largestAdvantage(leader: DecisionOptionScore, challenger: DecisionOptionScore): string | null {
+  let best: { label: string; margin: number } | null = null;
+
+  for (const entry of challenger.criteria ?? []) {
+    const leaderEntry = leader.criteria?.find((candidate) => candidate.criterionId === entry.criterionId);
+    const margin = entry.contribution - (leaderEntry?.contribution ?? 0);
+    if (margin > 0 && (!best || margin > best.margin)) {
+      best = { label: entry.label, margin };
+    }
+  }
+
+  return best?.label ?? null;
+}
+
+/** Weighted multi-criteria recommendation: every score traces back to a rating and a weight. */
+export function recommendFromDecisionMatrix(
+  matrix: DecisionMatrix,
+  evidence: RecommendationEvidence,
+): DecisionRecommendation {
+  const optionScores = scoreDecisionMatrix(matrix, evidence.confidence);
+  const viable = optionScores.filter((option) => !option.eliminatedBy);
+  const eliminated = optionScores.filter((option) => option.eliminatedBy);
+  const criteriaCount = weightedCriteria(matrix).length;
+  const support =
+    evidence.supportingFrameworks.length > 0
+      ? ` Framework evidence from ${evidence.supportingFrameworks.join(", ")} sets the confidence.`
+      : "";
+
+  if (viable.length === 0) {
+    const best = optionScores[0];
+    return {
+      recommendedOption: best.option,
+      confidence: 0,
+      rationale: `Every option violates at least one hard constraint. ${best.option} ranks highest on the weighted criteria; relax a constraint or add an alternative before committing.`,
+      tradeoffs: eliminated.map((option) => `${option.option}: ${option.rationale}`).slice(0, 6),
+      nextActions: evidence.nextActions.slice(0, 3),
+      optionScores,
+      method: "weighted_criteria",
+    };
+  }
+
+  const best = viable[0];
+  const second = viable[1] ?? null;
+  const scoreGap = clamp(best.score - (second?.score ?? 0));
+  const leadingCriterion = best.criteria?.reduce((top, entry) =>
+    entry.contribution > top.contribution ? entry : top,
+  );
+  const challengerEdge = second ? largestAdvantage(best, second) : null;
+
+  return {
+    recommendedOption: best.option,
+    confidence: round(clamp(best.confidence * 0.65 + scoreGap * 0.35), 3),
+    rationale: `${best.option} scores ${Math.round(best.score * 100)}% across ${criteriaCount} weighted criteria${
+      leadingCriterion ? `, led by ${shortLabel(leadingCriterion.label)}` : ""
+    }.${support}`,
+    tradeoffs: [
+      ...(second
+        ? [
+            `${second.option} is the runner-up at ${Math.round(second.score * 100)}%${
+              challengerEdge ? ` and is stronger on ${shortLabel(challengerEdge)}` : ""
+            }.`,
+          ]
+        : []),
+      ...eliminated.map((option) => `${option.option} is ruled out: violates ${listLabels(option.eliminatedBy!)}.`),
+      "Adjust criterion weights to see whether the ranking holds.",
+    ],
+    nextActions: evidence.nextActions.slice(0, 3),
+    optionScores,
+    method: "weighted_criteria",
+  };
+}
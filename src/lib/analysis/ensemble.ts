@@ -0,0 +1,122 @@
+import { tokenOverlap } from "@/lib/frameworks/scoring";
+import type { FrameworkResult, FrameworkUncertainty, ThemeVector } from "@/lib/types";
+import { clamp, round } from "@/lib/utils/math";
+
+const THEME_KEYS: Array<keyof ThemeVector> = [
+  "risk",
+  "urgency",
+  "opportunity",
+  "uncertainty",
+  "resources",
+  "stakeholderImpact",
+];
+
+/** Lines at or above this token overlap are treated as the same point made twice. */
+const MERGE_OVERLAP = 0.6;
+
+type ListKey = "insights" | "actions" | "risks" | "assumptions";
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+/**
+ * Merges one list across samples. Items are visited rank by rank (every
+ * sample's first item, then every second item, ...), near-duplicates collapse
+ * into the first wording, and points raised by more samples sort first. The
+ * merged list is no longer than the longest sample's.
+ */
+function mergeList(samples: FrameworkResult[], key: ListKey): string[] {
+  const clusters: Array<{ text: string; support: number; order: number }> = [];
+  const longest = Math.max(...samples.map((sample) => sample[key].length));
+
+  for (let rank = 0; rank < longest; rank += 1) {
+    for (const sample of samples) {
+      const item = sample[key][rank];
+      if (!item) {
+        continue;
+      }
+
+      const match = clusters.find((cluster) => tokenOverlap(cluster.text, item) >= MERGE_OVERLAP);
+      if (match) {
+        match.support += 1;
+      } else {
+        clusters.push({ text: item, support: 1, order: clusters.length });
+      }
+    }
+  }
+
+  return clusters
+    .sort((a, b) => b.support - a.support || a.order - b.order)
+    .slice(0, longest)
+    .map((cluster) => cluster.text);
+}
+
+export function measureUncertainty(samples: FrameworkResult[]): FrameworkUncertainty {
+  // Scores live in [0,1], so a standard deviation never exceeds 0.5; doubling maps spreads onto [0,1].
+  const spread = (values: number[]) => round(clamp(standardDeviation(values) * 2), 3);
+  const applicabilitySpread = spread(samples.map((sample) => sample.applicabilityScore));
+  const confidenceSpread = spread(samples.map((sample) => sample.confidence));
+  const themeSpread = round(
+    THEME_KEYS.reduce((sum, key) => sum + spread(samples.map((sample) => sample.themes[key])), 0) /
+      THEME_KEYS.length,
+    3,
+  );
+
+  return {
+    samples: samples.length,
+    providers: [
+      ...new Set(samples.flatMap((sample) => (sample.generation?.provider ? [sample.generation.provider] : []))),
+    ],
+    applicabilitySpread,
+    confidenceSpread,
+    themeSpread,
+    dispersion: round(0.4 * applicabilitySpread + 0.2 * confidenceSpread + 0.4 * themeSpread, 3),
+  };
+}
+
+/**
+ * Self-consistency aggregate of several analyses of one framework: scores and
+ * themes are medians, lists are merged and deduplicated, and the visualization
+ * and generation metadata come from the sample closest to the median
+ * applicability.
+ */
+export function aggregateFrameworkSamples(samples: FrameworkResult[]): FrameworkResult {
+  if (samples.length === 0) {
+    throw new Error("Cannot aggregate an empty framework ensemble.");
+  }
+
+  const applicabilityScore = median(samples.map((sample) => sample.applicabilityScore));
+  const representative = samples.reduce((best, sample) =>
+    Math.abs(sample.applicabilityScore - applicabilityScore) < Math.abs(best.applicabilityScore - applicabilityScore)
+      ? sample
+      : best,
+  );
+
+  return {
+    ...representative,
+    applicabilityScore: round(applicabilityScore, 3),
+    confidence: round(median(samples.map((sample) => sample.confidence)), 3),
+    insights: mergeList(samples, "insights"),
+    actions: mergeList(samples, "actions"),
+    risks: mergeList(samples, "risks"),
+    assumptions: mergeList(samples, "assumptions"),
+    themes: THEME_KEYS.reduce(
+      (themes, key) => ({ ...themes, [key]: round(median(samples.map((sample) => sample.themes[key])), 3) }),
+      { ...representative.themes },
+    ),
+    uncertainty: measureUncertainty(samples),
+  };
+}
+
+/** Confidence discounted by ensemble disagreement; unchanged for single-sample results. */
+export function dispersionAdjustedConfidence(result: FrameworkResult): number {
+  return clamp(result.confidence * (1 - 0.5 * (result.uncertainty?.dispersion ?? 0)));
+}
@@ -0,0 +1,126 @@
+import type {
+  DecisionBrief,
+  HeuristicOption,
+  HeuristicScoringModel,
+  HeuristicScoringWeights,
+  ScenarioRankingEntry,
+  ThemeVector,
+  WhatIfOverrides,
+} from "@/lib/types";
+import { clamp, round } from "@/lib/utils/math";
+
+/*
+ * The deterministic part of the theme heuristic. It imports nothing
+ * server-only, so the what-if panel re-scores options in the browser; the
+ * per-option seeds are hashed on the server and shipped in the model.
+ */
+
+export const THEME_KEYS: Array<keyof ThemeVector> = [
+  "risk",
+  "urgency",
+  "opportunity",
+  "uncertainty",
+  "resources",
+  "stakeholderImpact",
+];
+
+export const HEURISTIC_SCORING_WEIGHTS: HeuristicScoringWeights = {
+  riskFit: 0.3,
+  opportunityFit: 0.22,
+  resourceFit: 0.18,
+  stakeholderFit: 0.2,
+  optionality: 0.1,
+  uncertaintyPenalty: 0.2,
+};
+
+/** Theme components the option score reads; risk and urgency only shape the rationale. */
+export const HEURISTIC_THEME_KEYS: Array<keyof ThemeVector> = [
+  "opportunity",
+  "resources",
+  "uncertainty",
+  "stakeholderImpact",
+];
+
+export const RISK_TOLERANCE_LEVELS: Array<DecisionBrief["riskTolerance"]> = ["low", "medium", "high"];
+
+export function dominantTheme(themes: ThemeVector): keyof ThemeVector {
+  return THEME_KEYS.reduce((best, key) => (themes[key] > themes[best] ? key : best), "risk");
+}
+
+export function aggressivenessScore(option: string): number {
+  const normalized = option.toLowerCase();
+
+  if (
+    normalized.includes("full") ||
+    normalized.includes("aggressive") ||
+    normalized.includes("all-in") ||
+    normalized.includes("commitment")
+  ) {
+    return 0.88;
+  }
+
+  if (
+    normalized.includes("pilot") ||
+    normalized.includes("phase") ||
+    normalized.includes("incremental") ||
+    normalized.includes("trial")
+  ) {
+    return 0.45;
+  }
+
+  if (normalized.includes("conservative") || normalized.includes("safe")) {
+    return 0.28;
+  }
+
+  return 0.62;
+}
+
+/** Theme heuristic score for one option. Pure, so it can be re-run with perturbed inputs. */
+export function heuristicOptionScore(
+  { option, seed }: HeuristicOption,
+  themes: ThemeVector,
+  riskTolerance: DecisionBrief["riskTolerance"],
+  weights: HeuristicScoringWeights = HEURISTIC_SCORING_WEIGHTS,
+): number {
+  const aggressiveness = aggressivenessScore(option);
+  const optionality = clamp(1 - aggressiveness * 0.7 + seed * 0.3);
+
+  const riskFit =
+    riskTolerance === "low"
+      ? 1 - aggressiveness * 0.9
+      : riskTolerance === "medium"
+        ? 1 - Math.abs(aggressiveness - 0.6)
+        : clamp(aggressiveness * 1.05);
+
+  const opportunityFit = clamp(themes.opportunity * (0.45 + aggressiveness * 0.65));
+  const resourceFit = clamp((1 - aggressiveness * 0.5) * (0.45 + themes.resources * 0.55));
+  const uncertaintyPenalty = themes.uncertainty * (0.3 + aggressiveness * 0.55);
+  const stakeholderFit = clamp(themes.stakeholderImpact * (0.65 + optionality * 0.35));
+
+  return clamp(
+    weights.riskFit * riskFit +
+      weights.opportunityFit * opportunityFit +
+      weights.resourceFit * resourceFit +
+      weights.stakeholderFit * stakeholderFit +
+      weights.optionality * optionality -
+      weights.uncertaintyPenalty * uncertaintyPenalty,
+  );
+}
+
+/** Options ranked the way the heuristic recommendation ranks them: by rounded score, ties in option order. */
+export function rankHeuristicOptions(model: HeuristicScoringModel): ScenarioRankingEntry[] {
+  return model.options
+    .map((entry) => ({
+      option: entry.option,
+      score: round(heuristicOptionScore(entry, model.themes, model.riskTolerance, model.weights), 3),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+export function applyWhatIf(model: HeuristicScoringModel, overrides: WhatIfOverrides): HeuristicScoringModel {
+  return {
+    ...model,
+    themes: { ...model.themes, ...overrides.themes },
+    riskTolerance: overrides.riskTolerance ?? model.riskTolerance,
+  };
+}
@@ -0,0 +1,129 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+
+import { prisma } from "@/lib/db";
+import { env } from "@/lib/env";
+import type { RunStatus } from "@/lib/types";
+
+// Runs in these states still need a worker. Anything else is terminal.
+export const ACTIVE_RUN_STATUSES: RunStatus[] = ["queued", "analyzing", "synthesizing"];
+
+export const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+function leaseDeadline(now: Date): Date {
+  return new Date(now.getTime() + env.ANALYSIS_LEASE_MS);
+}
+
+function heartbeatIntervalMs(): number {
+  return Math.max(1000, Math.floor(env.ANALYSIS_LEASE_MS / 3));
+}
+
+/**
+ * Atomically takes the lease on an active run and counts the attempt.
+ * Fails when another worker holds an unexpired lease.
+ */
+export async function claimRunLease(runId: string): Promise<boolean> {
+  const now = new Date();
+  const claimed = await prisma.analysisRun.updateMany({
+    where: {
+      id: runId,
+      status: { in: ACTIVE_RUN_STATUSES },
+      OR: [
+        { leaseOwner: null },
+        { leaseOwner: WORKER_ID },
+        { leaseExpiresAt: null },
+        { leaseExpiresAt: { lt: now } },
+      ],
+    },
+    data: {
+      leaseOwner: WORKER_ID,
+      leaseExpiresAt: leaseDeadline(now),
+      heartbeatAt: now,
+      attempts: { increment: 1 },
+    },
+  });
+
+  return claimed.count === 1;
+}
+
+/**
+ * Takes the lease on a completed run so only one framework retry rebuilds it at
+ * a time. Attempts are not counted: they belong to the original analysis.
+ */
+export async function claimCompletedRunLease(runId: string): Promise<boolean> {
+  const now = new Date();
+  const claimed = await prisma.analysisRun.updateMany({
+    where: {
+      id: runId,
+      status: "complete",
+      OR: [{ leaseOwner: null }, { leaseExpiresAt: null }, { leaseExpiresAt: { lt: now } }],
+    },
+    data: {
+      leaseOwner: WORKER_ID,
+      leaseExpiresAt: leaseDeadline(now),
+      heartbeatAt: now,
+    },
+  });
+
+  return claimed.count === 1;
+}
+
+/**
+ * Extends the lease while a run is being processed. Returns a stop function.
+ */
+export function startLeaseHeartbeat(runId: string): () => void {
+  const timer = setInterval(() => {
+    const now = new Date();
+    void prisma.analysisRun
+      .updateMany({
+        where: { id: runId, leaseOwner: WORKER_ID },
+        data: {
+          heartbeatAt: now,
+          leaseExpiresAt: leaseDeadline(now),
+        },
+      })
+      .catch(() => undefined);
+  }, heartbeatIntervalMs());
+  timer.unref?.();
+
+  return () => clearInterval(timer);
+}
+
+export async function releaseRunLease(runId: string): Promise<void> {
+  await prisma.analysisRun.updateMany({
+    where: { id: runId, leaseOwner: WORKER_ID },
+    data: {
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    },
+  });
+}
+
+export async function getRunAttempts(runId: string): Promise<number> {
+  const run = await prisma.analysisRun.findUnique({
+    where: { id: runId },
+    select: { attempts: true },
+  });
+
+  return run?.attempts ?? 0;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(30_000, 2000 * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Active runs with no live lease: left behind by a crashed or restarted worker,
+ * or queued while no worker was running. A run waiting out its retry backoff
+ * keeps a lease dated to the retry time and is not returned until then.
+ */
+export async function findOrphanedRuns(): Promise<Array<{ id: string; attempts: number }>> {
+  return prisma.analysisRun.findMany({
+    where: {
+      status: { in: ACTIVE_RUN_STATUSES },
+      OR: [{ leaseExpiresAt: null }, { leaseExpiresAt: { lt: new Date() } }],
+    },
+    select: { id: true, attempts: true },
+    orderBy: { createdAt: "asc" },
+  });
+}
@@ -0,0 +1,759 @@
+import { AppError } from "@/lib/errors";
+import {
+  MONTE_CARLO_MAX_DRAWS,
+  type FrameworkResult,
+  type MonteCarloAlternativeResult,
+  type MonteCarloDistribution,
+  type MonteCarloModel,
+  type MonteCarloResult,
+  type MonteCarloVizData,
+} from "@/lib/types";
+import { clamp, round } from "@/lib/utils/math";
+
+/*
+ * User-parameterised Monte Carlo simulation. Each option samples its own
+ * distributions for the variables the outcome formula reads. Variables with
+ * the same name share each trial's draw across options (common random
+ * numbers), so options are compared under the same states of the world and
+ * win probabilities are not blurred by sampling noise. Correlations are
+ * applied as a Gaussian copula: independent normal scores are mixed through
+ * the Cholesky factor of the correlation matrix, then mapped through each
+ * distribution's inverse CDF. Seeding is a pure string hash, so a model and
+ * seed always reproduce the same result.
+ */
+
+/** The export renderer draws at most 12 bars. */
+export const MONTE_CARLO_BINS = 12;
+
+const FORMULA_FUNCTIONS: Record<string, { arity: [number, number]; apply: (args: number[]) => number }> = {
+  abs: { arity: [1, 1], apply: ([value]) => Math.abs(value) },
+  sqrt: { arity: [1, 1], apply: ([value]) => Math.sqrt(value) },
+  exp: { arity: [1, 1], apply: ([value]) => Math.exp(value) },
+  log: { arity: [1, 1], apply: ([value]) => Math.log(value) },
+  min: { arity: [1, 20], apply: (args) => Math.min(...args) },
+  max: { arity: [1, 20], apply: (args) => Math.max(...args) },
+};
+
+type FormulaNode =
+  | { kind: "number"; value: number }
+  | { kind: "variable"; name: string }
+  | { kind: "negate"; operand: FormulaNode }
+  | { kind: "binary"; operator: "+" | "-" | "*" | "/" | "^"; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+interface FormulaToken {
+  type: "number" | "identifier" | "operator";
+  text: string;
+  position: number;
+}
+
+export interface CompiledFormula {
+  /** Variable names the formula reads, in order of first use. */
+  variables: string[];
+  evaluate: (values: Record<string, number>) => number;
+}
+
+function formulaError(message: string, position: number): AppError {
+  return new AppError({
+    code: "BAD_REQUEST",
+    status: 400,
+    message: `Outcome formula: ${message} at position ${position + 1}`,
+  });
+}
+
+function tokenizeFormula(formula: string): FormulaToken[] {
+  const tokens: FormulaToken[] = [];
+  const pattern = /(\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z_][A-Za-z0-9_]*)|([-+*/^(),])/y;
+  let position = 0;
+
+  while (position < formula.length) {
+    if (/\s/.test(formula[position])) {
+      position += 1;
+      continue;
+    }
+
+    pattern.lastIndex = position;
+    const match = pattern.exec(formula);
+    if (!match) {
+      throw formulaError(`unexpected character "${formula[position]}"`, position);
+    }
+
+    const type = match[1] !== undefined ? "number" : match[2] !== undefined ? "identifier" : "operator";
+    tokens.push({ type, text: match[0], position });
+    position = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+/** Recursive-descent parser: `+ -` bind loosest, then `* /`, then unary minus, then right-associative `^`. */
+function parseFormula(formula: string): FormulaNode {
+  const tokens = tokenizeFormula(formula);
+  let index = 0;
+
+  const peek = (): FormulaToken | undefined => tokens[index];
+  const expect = (text: string): void => {
+    const token = tokens[index];
+    if (token?.text !== text) {
+      throw formulaError(`expected "${text}"`, token?.position ?? formula.length);
+    }
+    index += 1;
+  };
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    while (peek()?.text === "+" || peek()?.text === "-") {
+      const operator = tokens[index].text as "+" | "-";
+      index += 1;
+      node = { kind: "binary", operator, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseUnary();
+    while (peek()?.text === "*" || peek()?.text === "/") {
+      const operator = tokens[index].text as "*" | "/";
+      index += 1;
+      node = { kind: "binary", operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (peek()?.text === "-") {
+      index += 1;
+      return { kind: "negate", operand: parseUnary() };
+    }
+    if (peek()?.text === "+") {
+      index += 1;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (peek()?.text === "^") {
+      index += 1;
+      return { kind: "binary", operator: "^", left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    if (!token) {
+      throw formulaError("unexpected end of formula", formula.length);
+    }
+    index += 1;
+
+    if (token.type === "number") {
+      return { kind: "number", value: Number(token.text) };
+    }
+
+    if (token.type === "identifier") {
+      if (peek()?.text !== "(") {
+        return { kind: "variable", name: token.text };
+      }
+
+      const fn = Object.hasOwn(FORMULA_FUNCTIONS, token.text) ? FORMULA_FUNCTIONS[token.text] : undefined;
+      if (!fn) {
+        throw formulaError(`unknown function "${token.text}"`, token.position);
+      }
+
+      index += 1;
+      const args: FormulaNode[] = [];
+      if (peek()?.text !== ")") {
+        args.push(parseExpression());
+        while (peek()?.text === ",") {
+          index += 1;
+          args.push(parseExpression());
+        }
+      }
+      expect(")");
+
+      const [fewest, most] = fn.arity;
+      if (args.length < fewest || args.length > most) {
+        const expected = fewest === most ? `${fewest}` : `${fewest} to ${most}`;
+        throw formulaError(`${token.text}() takes ${expected} argument(s)`, token.position);
+      }
+      return { kind: "call", name: token.text, args };
+    }
+
+    if (token.text === "(") {
+      const node = parseExpression();
+      expect(")");
+      return node;
+    }
+
+    throw formulaError(`unexpected "${token.text}"`, token.position);
+  };
+
+  const root = parseExpression();
+  if (index < tokens.length) {
+    throw formulaError(`unexpected "${tokens[index].text}"`, tokens[index].position);
+  }
+
+  return root;
+}
+
+function collectVariables(node: FormulaNode, into: string[]): string[] {
+  switch (node.kind) {
+    case "variable":
+      if (!into.includes(node.name)) {
+        into.push(node.name);
+      }
+      break;
+    case "negate":
+      collectVariables(node.operand, into);
+      break;
+    case "binary":
+      collectVariables(node.left, into);
+      collectVariables(node.right, into);
+      break;
+    case "call":
+      node.args.forEach((arg) => collectVariables(arg, into));
+      break;
+  }
+  return into;
+}
+
+function evaluateNode(node: FormulaNode, values: Record<string, number>): number {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "variable":
+      return values[node.name];
+    case "negate":
+      return -evaluateNode(node.operand, values);
+    case "call":
+      return FORMULA_FUNCTIONS[node.name].apply(node.args.map((arg) => evaluateNode(arg, values)));
+    case "binary": {
+      const left = evaluateNode(node.left, values);
+      const right = evaluateNode(node.right, values);
+      switch (node.operator) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        case "/":
+          return left / right;
+        case "^":
+          return left ** right;
+      }
+    }
+  }
+}
+
+/** Parses the outcome formula without `eval`; throws a 400 AppError pointing at the offending token. */
+export function compileFormula(formula: string): CompiledFormula {
+  const root = parseFormula(formula);
+  return {
+    variables: collectVariables(root, []),
+    evaluate: (values) => evaluateNode(root, values),
+  };
+}
+
+/** FNV-1a hash of the seed feeding mulberry32; uniform draws in [0, 1). */
+function seededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index += 1) {
+    state ^= seed.charCodeAt(index);
+    state = Math.imul(state, 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Box–Muller transform. */
+function standardNormal(random: () => number): number {
+  const u1 = 1 - random();
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/** Complementary error function (Numerical Recipes' erfcc, fractional error below 1.2e-7). */
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const value =
+    t *
+    Math.exp(
+      -z * z -
+        1.26551223 +
+        t *
+          (1.00002368 +
+            t *
+              (0.37409196 +
+                t *
+                  (0.09678418 +
+                    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))),
+    );
+  return x >= 0 ? value : 2 - value;
+}
+
+export function normalCdf(z: number): number {
+  return 0.5 * erfc(-z / Math.SQRT2);
+}
+
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+
+  const shifted = x - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((coefficient, index) => {
+    sum += coefficient / (shifted + index + 1);
+  });
+  const t = shifted + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/** Continued fraction for the incomplete beta function (modified Lentz). */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let h = d;
+
+  for (let m = 1; m <= 300; m += 1) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    d = 1 / (Math.abs(d) < tiny ? tiny : d);
+    c = 1 + aa / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    d = 1 / (Math.abs(d) < tiny ? tiny : d);
+    c = 1 + aa / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    const delta = d * c;
+    h *= delta;
+
+    if (Math.abs(delta - 1) < 1e-10) {
+      break;
+    }
+  }
+
+  return h;
+}
+
+/** Regularized incomplete beta I_x(a, b). */
+export function betaCdf(x: number, a: number, b: number): number {
+  if (x <= 0) {
+    return 0;
+  }
+  if (x >= 1) {
+    return 1;
+  }
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+const BETA_GRID_SIZE = 4096;
+const BETA_GRID_CACHE_LIMIT = 64;
+
+/** CDF values on an even grid over [0,1], keyed by shape; inverting it is a binary search per draw. */
+const betaCdfGrids = new Map<string, Float64Array>();
+
+function betaQuantile(u: number, a: number, b: number): number {
+  const key = `${a}|${b}`;
+  let grid = betaCdfGrids.get(key);
+  if (!grid) {
+    grid = new Float64Array(BETA_GRID_SIZE + 1);
+    for (let index = 0; index <= BETA_GRID_SIZE; index += 1) {
+      grid[index] = betaCdf(index / BETA_GRID_SIZE, a, b);
+    }
+    if (betaCdfGrids.size >= BETA_GRID_CACHE_LIMIT) {
+      betaCdfGrids.clear();
+    }
+    betaCdfGrids.set(key, grid);
+  }
+
+  let low = 0;
+  let high = BETA_GRID_SIZE;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (grid[middle] < u) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  const span = grid[high] - grid[low];
+  const fraction = span > 0 ? (u - grid[low]) / span : 0.5;
+  return (low + fraction) / BETA_GRID_SIZE;
+}
+
+/** Maps a standard normal score through the distribution's inverse CDF. */
+export function sampleDistribution(distribution: MonteCarloDistribution, z: number): number {
+  const uniform = () => clamp(normalCdf(z), 1e-12, 1 - 1e-12);
+
+  switch (distribution.type) {
+    case "normal":
+      return distribution.mean + distribution.sd * z;
+    case "lognormal":
+      return Math.exp(distribution.mu + distribution.sigma * z);
+    case "uniform":
+      return distribution.min + (distribution.max - distribution.min) * uniform();
+    case "triangular": {
+      const { min, mode, max } = distribution;
+      const u = uniform();
+      return u < (mode - min) / (max - min)
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case "beta":
+      return (
+        distribution.min +
+        (distribution.max - distribution.min) * betaQuantile(uniform(), distribution.alpha, distribution.beta)
+      );
+    case "discrete": {
+      const u = uniform();
+      const total = distribution.outcomes.reduce((sum, outcome) => sum + outcome.probability, 0);
+      let cumulative = 0;
+      for (const outcome of distribution.outcomes) {
+        cumulative += outcome.probability / total;
+        if (u <= cumulative) {
+          return outcome.value;
+        }
+      }
+      return distribution.outcomes[distribution.outcomes.length - 1].value;
+    }
+  }
+}
+
+/** Lower-triangular L with L·Lᵀ = matrix, or null when the matrix is not positive definite. */
+export function choleskyFactor(matrix: number[][]): number[][] | null {
+  const size = matrix.length;
+  const lower = matrix.map(() => new Array<number>(size).fill(0));
+
+  for (let row = 0; row < size; row += 1) {
+    for (let column = 0; column <= row; column += 1) {
+      let sum = matrix[row][column];
+      for (let k = 0; k < column; k += 1) {
+        sum -= lower[row][k] * lower[column][k];
+      }
+
+      if (row === column) {
+        if (sum <= 1e-10) {
+          return null;
+        }
+        lower[row][column] = Math.sqrt(sum);
+      } else {
+        lower[row][column] = sum / lower[column][column];
+      }
+    }
+  }
+
+  return lower;
+}
+
+/** Every variable name across the model's options, in order of first appearance. */
+function modelVariableNames(model: MonteCarloModel): string[] {
+  return [...new Set(model.alternatives.flatMap((entry) => entry.variables.map((variable) => variable.name)))];
+}
+
+function correlationMatrix(model: MonteCarloModel, names: string[]): number[][] {
+  const indexOf = new Map(names.map((name, index) => [name, index]));
+  const matrix = names.map((_, row) => names.map((__, column): number => (row === column ? 1 : 0)));
+
+  for (const correlation of model.correlations) {
+    const row = indexOf.get(correlation.first);
+    const column = indexOf.get(correlation.second);
+    if (row === undefined || column === undefined || row === column) {
+      continue;
+    }
+    matrix[row][column] = correlation.coefficient;
+    matrix[column][row] = correlation.coefficient;
+  }
+
+  return matrix;
+}
+
+/** Problems that stop the model from running, phrased for the person editing it. */
+export function validateMonteCarloModel(model: MonteCarloModel): string[] {
+  const issues: string[] = [];
+
+  if (model.alternatives.length === 0) {
+    issues.push("Model at least one option.");
+  }
+
+  try {
+    const { variables } = compileFormula(model.formula);
+    if (variables.length === 0) {
+      issues.push("The outcome formula must use at least one variable.");
+    }
+    for (const entry of model.alternatives) {
+      const defined = new Set(entry.variables.map((variable) => variable.name));
+      const missing = variables.filter((name) => !defined.has(name));
+      if (missing.length > 0) {
+        issues.push(`${entry.option} does not define ${missing.join(", ")}.`);
+      }
+    }
+  } catch (error) {
+    issues.push(error instanceof Error ? error.message : "The outcome formula could not be parsed.");
+  }
+
+  const names = modelVariableNames(model);
+  if (model.correlations.length > 0 && !choleskyFactor(correlationMatrix(model, names))) {
+    issues.push("The correlations contradict each other; weaken some so the correlation matrix is positive definite.");
+  }
+
+  return issues;
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  return sorted[Math.floor((sorted.length - 1) * p)];
+}
+
+function buildViz(
+  sorted: Float64Array,
+  range: { min: number; max: number },
+  model: MonteCarloModel,
+  distribution: string,
+  correlationMode: MonteCarloResult["correlationMode"],
+): MonteCarloVizData {
+  const width = range.max - range.min;
+  const position = (value: number) => round(clamp((value - range.min) / width), 4);
+  const counts = new Array<number>(MONTE_CARLO_BINS).fill(0);
+
+  for (const value of sorted) {
+    counts[Math.min(Math.floor(((value - range.min) / width) * MONTE_CARLO_BINS), MONTE_CARLO_BINS - 1)] += 1;
+  }
+
+  return {
+    kind: "monte_carlo_simulation",
+    bins: counts.map((count, index) => ({
+      binStart: round(index / MONTE_CARLO_BINS, 4),
+      binEnd: round((index + 1) / MONTE_CARLO_BINS, 4),
+      count,
+    })),
+    total: sorted.length,
+    p10: position(percentile(sorted, 0.1)),
+    p50: position(percentile(sorted, 0.5)),
+    p90: position(percentile(sorted, 0.9)),
+    metadata: {
+      trials: sorted.length,
+      distribution,
+      correlationMode,
+    },
+    outcome: { label: model.outcomeLabel, min: round(range.min, 4), max: round(range.max, 4) },
+  };
+}
+
+/**
+ * Runs the model. `overrides` reruns it with another seed or trial count without
+ * editing the saved model. Throws a 400 AppError listing any validation issues,
+ * when the run would exceed MONTE_CARLO_MAX_DRAWS, or when the formula yields a
+ * non-finite outcome.
+ */
+export function runMonteCarlo(
+  model: MonteCarloModel,
+  overrides: { seed?: string; trials?: number } = {},
+): MonteCarloResult {
+  const issues = validateMonteCarloModel(model);
+  if (issues.length > 0) {
+    throw new AppError({ code: "BAD_REQUEST", status: 400, message: issues[0], details: { issues } });
+  }
+
+  const seed = overrides.seed ?? model.seed;
+  const trials = overrides.trials ?? model.trials;
+  const draws = trials * model.alternatives.reduce((sum, entry) => sum + entry.variables.length, 0);
+  if (draws > MONTE_CARLO_MAX_DRAWS) {
+    throw new AppError({
+      code: "BAD_REQUEST",
+      status: 400,
+      message: `${trials.toLocaleString("en-US")} trials over ${draws / trials} variables exceeds the ${MONTE_CARLO_MAX_DRAWS.toLocaleString("en-US")}-draw limit; lower the trial count.`,
+    });
+  }
+  const formula = compileFormula(model.formula);
+  const names = modelVariableNames(model);
+  const lower = model.correlations.length > 0 ? choleskyFactor(correlationMatrix(model, names)) : null;
+  const correlationMode: MonteCarloResult["correlationMode"] = lower ? "gaussian_copula" : "independent";
+  const random = seededRandom(seed);
+  const outcomes = model.alternatives.map(() => new Float64Array(trials));
+  const wins = new Array<number>(model.alternatives.length).fill(0);
+  const independent = new Array<number>(names.length);
+  // Variable names are user input: null-prototype records keep "__proto__" or "constructor" ordinary keys.
+  const scores: Record<string, number> = Object.create(null);
+
+  for (let trial = 0; trial < trials; trial += 1) {
+    for (let index = 0; index < names.length; index += 1) {
+      independent[index] = standardNormal(random);
+    }
+    names.forEach((name, row) => {
+      scores[name] = lower
+        ? lower[row].reduce((sum, coefficient, column) => sum + coefficient * independent[column], 0)
+        : independent[row];
+    });
+
+    let best = -Infinity;
+    model.alternatives.forEach((entry, index) => {
+      const values: Record<string, number> = Object.create(null);
+      for (const variable of entry.variables) {
+        values[variable.name] = sampleDistribution(variable.distribution, scores[variable.name]);
+      }
+
+      const outcome = formula.evaluate(values);
+      if (!Number.isFinite(outcome)) {
+        throw new AppError({
+          code: "BAD_REQUEST",
+          status: 400,
+          message: `The outcome formula produced a non-finite value for ${entry.option}; check for division by zero or log of a non-positive value.`,
+        });
+      }
+      outcomes[index][trial] = outcome;
+      best = Math.max(best, outcome);
+    });
+
+    const leaders = outcomes.filter((series) => series[trial] === best).length;
+    outcomes.forEach((series, index) => {
+      if (series[trial] === best) {
+        wins[index] += 1 / leaders;
+      }
+    });
+  }
+
+  const sortedSeries = outcomes.map((series) => Float64Array.from(series).sort());
+  const low = Math.min(...sortedSeries.map((series) => series[0]));
+  const high = Math.max(...sortedSeries.map((series) => series[series.length - 1]));
+  // A constant outcome still needs a non-empty range to bin into.
+  const pad = high > low ? 0 : Math.max(Math.abs(low) * 0.05, 0.5);
+  const range = { min: low - pad, max: high + pad };
+
+  const alternatives: MonteCarloAlternativeResult[] = model.alternatives.map((entry, index) => {
+    const sorted = sortedSeries[index];
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / trials;
+    const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(trials - 1, 1);
+    const distribution = [...new Set(entry.variables.map((variable) => variable.distribution.type))].join(" + ");
+
+    return {
+      option: entry.option,
+      mean: round(mean, 4),
+      stdDev: round(Math.sqrt(variance), 4),
+      min: round(sorted[0], 4),
+      max: round(sorted[trials - 1], 4),
+      p10: round(percentile(sorted, 0.1), 4),
+      p50: round(percentile(sorted, 0.5), 4),
+      p90: round(percentile(sorted, 0.9), 4),
+      winProbability: round(wins[index] / trials, 4),
+      viz: buildViz(sorted, range, model, distribution, correlationMode),
+    };
+  });
+
+  return { outcomeLabel: model.outcomeLabel, trials, seed, correlationMode, alternatives };
+}
+
+/** Starter model for options that have none yet: benefit minus cost, identical for every option. */
+export function buildMonteCarloModelTemplate(options: string[], seed: string): MonteCarloModel {
+  return {
+    outcomeLabel: "Net value",
+    formula: "benefit - cost",
+    alternatives: options.map((option) => ({
+      option,
+      variables: [
+        { name: "benefit", distribution: { type: "triangular", min: 60, mode: 100, max: 160 } },
+        { name: "cost", distribution: { type: "normal", mean: 70, sd: 10 } },
+      ],
+    })),
+    correlations: [],
+    trials: 5000,
+    seed,
+    updatedAt: null,
+  };
+}
+
+/** Drops options no longer in the brief, so a stale model still runs against the ones that remain. */
+export function alignMonteCarloModel(model: MonteCarloModel, options: string[]): MonteCarloModel {
+  return { ...model, alternatives: model.alternatives.filter((entry) => options.includes(entry.option)) };
+}
+
+export function formatOutcome(value: number): string {
+  const magnitude = Math.abs(value);
+  if (magnitude >= 1e6) {
+    return `${round(value / 1e6, 2)}M`;
+  }
+  if (magnitude >= 1e4) {
+    return `${round(value / 1e3, 1)}k`;
+  }
+  return String(round(value, magnitude >= 100 ? 0 : 2));
+}
+
+/** Outcome value at a 0–1 histogram position; positions are the value itself when there is no real-unit range. */
+export function monteCarloOutcomeAt(data: MonteCarloVizData, position: number): number {
+  return data.outcome ? data.outcome.min + position * (data.outcome.max - data.outcome.min) : position;
+}
+
+/** Histogram bin label: outcome values for a user-defined simulation, otherwise a percentage range. */
+export function monteCarloBinLabel(data: MonteCarloVizData, bin: MonteCarloVizData["bins"][number]): string {
+  return data.outcome
+    ? `${formatOutcome(monteCarloOutcomeAt(data, bin.binStart))} to ${formatOutcome(monteCarloOutcomeAt(data, bin.binEnd))}`
+    : `${Math.round(bin.binStart * 100)}-${Math.round(bin.binEnd * 100)}%`;
+}
+
+/**
+ * Replaces the Monte Carlo framework's theme-based approximation with the
+ * simulation of the user's model. The histogram shows `focusOption` when it
+ * was simulated, otherwise the option with the best median.
+ */
+export function applyMonteCarloResult(
+  frameworkResults: FrameworkResult[],
+  result: MonteCarloResult,
+  focusOption?: string,
+): FrameworkResult[] {
+  if (result.alternatives.length === 0) {
+    return frameworkResults;
+  }
+
+  const focus =
+    result.alternatives.find((entry) => entry.option === focusOption) ??
+    result.alternatives.reduce((best, entry) => (entry.p50 > best.p50 ? entry : best));
+
+  return frameworkResults.map((framework) =>
+    framework.frameworkId !== "monte_carlo_simulation"
+      ? framework
+      : {
+          ...framework,
+          insights: result.alternatives.map(
+            (entry) =>
+              `${entry.option}: median ${result.outcomeLabel} ${formatOutcome(entry.p50)} (P10 ${formatOutcome(
+                entry.p10,
+              )}, P90 ${formatOutcome(entry.p90)}); best outcome in ${Math.round(entry.winProbability * 100)}% of ${
+                result.trials
+              } trials.`,
+          ),
+          vizPayload: {
+            type: "histogram",
+            title: `Monte Carlo Outcome Distribution: ${focus.option}`,
+            subtitle: `${result.trials} trials, seed ${result.seed}`,
+            xLabel: result.outcomeLabel,
+            yLabel: "Trials",
+            vizSchemaVersion: 2,
+            data: focus.viz,
+          },
+        },
+  );
+}
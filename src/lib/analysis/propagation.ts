@@ -1,29 +1,41 @@
+import { alignAhpModel, computeAhp, isAhpModelUsable, recommendFromAhp } from "@/lib/analysis/ahp";
+import {
+  alignDecisionMatrix,
+  deriveDecisionOptions,
+  hardConstraintViolations,
+  isDecisionMatrixUsable,
+  recommendFromDecisionMatrix,
+} from "@/lib/analysis/criteria";
+import { dispersionAdjustedConfidence } from "@/lib/analysis/ensemble";
+import {
+  HEURISTIC_SCORING_WEIGHTS,
+  RISK_TOLERANCE_LEVELS,
+  dominantTheme,
+  heuristicOptionScore,
+  rankHeuristicOptions,
+} from "@/lib/analysis/heuristic";
 import { hashStringToFloat } from "@/lib/utils/hash";
 import { clamp, cosineSimilarity, round } from "@/lib/utils/math";
 import type {
   DecisionBrief,
   DecisionOptionScore,
   DecisionRecommendation,
+  DecisionScoringInputs,
   FrameworkId,
   FrameworkResult,
+  HeuristicScoringModel,
   PropagatedDecisionMap,
   PropagatedMapEdge,
+  ScoringModel,
   SynthesisSummary,
   ThemeVector,
 } from "@/lib/types";
 
-const THEME_KEYS: Array<keyof ThemeVector> = [
-  "risk",
-  "urgency",
-  "opportunity",
-  "uncertainty",
-  "resources",
-  "stakeholderImpact",
-];
-
-function dominantTheme(themes: ThemeVector): keyof ThemeVector {
-  return THEME_KEYS.reduce((best, key) => (themes[key] > themes[best] ? key : best), "risk");
-}
+/** Ensemble dispersion at which a top framework gets its own validation checkpoint. */
+const UNSETTLED_DISPERSION = 0.2;
+
+/** How the synthesis ranks frameworks for its top list and recommended actions. */
+export const SYNTHESIS_COMPOSITE_WEIGHTS = { applicability: 0.6, confidence: 0.4 };
 
 function rationaleForEdge(
   source: FrameworkResult,
@@ -85,84 +97,45 @@ function averageThemes(frameworkResults: FrameworkResult[]): ThemeVector {
   };
 }
 
-function deriveOptions(brief: DecisionBrief): string[] {
-  const options = brief.alternatives
-    .map((option) => option.trim())
-    .filter(Boolean);
-
-  if (options.length >= 2) {
-    return options.slice(0, 8);
-  }
-
-  return ["Conservative rollout", "Phased pilot", "Full-scale commitment"];
+function averageFrameworkConfidence(frameworkResults: FrameworkResult[]): number {
+  return frameworkResults.length === 0
+    ? 0.58
+    : frameworkResults.reduce((sum, result) => sum + dispersionAdjustedConfidence(result), 0) /
+        frameworkResults.length;
 }
 
-function aggressivenessScore(option: string): number {
-  const normalized = option.toLowerCase();
-
-  if (
-    normalized.includes("full") ||
-    normalized.includes("aggressive") ||
-    normalized.includes("all-in") ||
-    normalized.includes("commitment")
-  ) {
-    return 0.88;
-  }
-
-  if (
-    normalized.includes("pilot") ||
-    normalized.includes("phase") ||
-    normalized.includes("incremental") ||
-    normalized.includes("trial")
-  ) {
-    return 0.45;
-  }
+function topFrameworkNames(frameworkResults: FrameworkResult[]): string[] {
+  return frameworkResults
+    .slice()
+    .sort((a, b) => b.applicabilityScore * b.confidence - a.applicabilityScore * a.confidence)
+    .slice(0, 3)
+    .map((result) => result.frameworkName);
+}
 
-  if (normalized.includes("conservative") || normalized.includes("safe")) {
-    return 0.28;
-  }
+function describeRiskToleranceShifts(
+  model: HeuristicScoringModel,
+  recommendedOption: string,
+): string {
+  const shifts = RISK_TOLERANCE_LEVELS.filter((level) => level !== model.riskTolerance).flatMap((level) => {
+    const leader = rankHeuristicOptions({ ...model, riskTolerance: level })[0].option;
+    return leader === recommendedOption ? [] : [`at ${level} risk tolerance ${leader} would lead instead`];
+  });
 
-  return 0.62;
+  return shifts.length === 0
+    ? `${recommendedOption} stays on top at every risk tolerance level.`
+    : `Risk tolerance matters: ${shifts.join("; ")}.`;
 }
 
 function scoreDecisionOptions(
-  brief: DecisionBrief,
+  model: HeuristicScoringModel,
   frameworkResults: FrameworkResult[],
   recommendedActions: string[],
 ): DecisionRecommendation {
-  const options = deriveOptions(brief);
-  const themes = averageThemes(frameworkResults);
-  const averageConfidence =
-    frameworkResults.length === 0
-      ? 0.58
-      : frameworkResults.reduce((sum, result) => sum + result.confidence, 0) / frameworkResults.length;
-
-  const optionScores: DecisionOptionScore[] = options.map((option, index) => {
-    const aggressiveness = aggressivenessScore(option);
-    const seed = hashStringToFloat(`${brief.title}:${option}`, `option-${index}`);
-    const optionality = clamp(1 - aggressiveness * 0.7 + seed * 0.3);
-
-    const riskFit =
-      brief.riskTolerance === "low"
-        ? 1 - aggressiveness * 0.9
-        : brief.riskTolerance === "medium"
-          ? 1 - Math.abs(aggressiveness - 0.6)
-          : clamp(aggressiveness * 1.05);
-
-    const opportunityFit = clamp(themes.opportunity * (0.45 + aggressiveness * 0.65));
-    const resourceFit = clamp((1 - aggressiveness * 0.5) * (0.45 + themes.resources * 0.55));
-    const uncertaintyPenalty = themes.uncertainty * (0.3 + aggressiveness * 0.55);
-    const stakeholderFit = clamp(themes.stakeholderImpact * (0.65 + optionality * 0.35));
-
-    const score = clamp(
-      0.3 * riskFit +
-        0.22 * opportunityFit +
-        0.18 * resourceFit +
-        0.2 * stakeholderFit +
-        0.1 * optionality -
-        0.2 * uncertaintyPenalty,
-    );
+  const averageConfidence = averageFrameworkConfidence(frameworkResults);
 
+  const optionScores: DecisionOptionScore[] = model.options.map((entry) => {
+    const { option, seed } = entry;
+    const score = heuristicOptionScore(entry, model.themes, model.riskTolerance, model.weights);
     const confidence = clamp(averageConfidence * 0.7 + (1 - Math.abs(score - 0.62)) * 0.2 + seed * 0.1);
 
     return {
@@ -170,9 +143,9 @@ function scoreDecisionOptions(
       score: round(score, 3),
       confidence: round(confidence, 3),
       rationale:
-        brief.riskTolerance === "low"
+        model.riskTolerance === "low"
           ? `${option} controls downside while maintaining execution momentum.`
-          : brief.riskTolerance === "high"
+          : model.riskTolerance === "high"
             ? `${option} maximizes upside potential with higher volatility tolerance.`
             : `${option} balances upside with manageable execution risk.`,
     };
@@ -183,25 +156,102 @@ function scoreDecisionOptions(
   const second = optionScores[1] ?? optionScores[0];
   const scoreGap = clamp(best.score - second.score);
 
-  const topFrameworkNames = frameworkResults
-    .slice()
-    .sort((a, b) => b.applicabilityScore * b.confidence - a.applicabilityScore * a.confidence)
-    .slice(0, 3)
-    .map((result) => result.frameworkName);
-
   return {
     recommendedOption: best.option,
     confidence: round(clamp(best.confidence * 0.65 + scoreGap * 0.35), 3),
     rationale: `${best.option} is currently the strongest choice based on score fit (${Math.round(
       best.score * 100,
-    )}%) and support from ${topFrameworkNames.join(", ")}.`,
+    )}%) and support from ${topFrameworkNames(frameworkResults).join(", ")}.`,
     tradeoffs: [
       `${second.option} remains a viable backup at ${Math.round(second.score * 100)}% score fit.`,
-      `Highest uncertainty impact is currently in ${dominantTheme(themes)}; monitor that metric early.`,
-      `If risk tolerance changes, re-run analysis to rebalance option scoring.`,
+      `Highest uncertainty impact is currently in ${dominantTheme(model.themes)}; monitor that metric early.`,
+      describeRiskToleranceShifts(model, best.option),
     ],
     nextActions: recommendedActions.slice(0, 3),
     optionScores,
+    method: "heuristic",
+  };
+}
+
+const NO_SCORING_INPUTS: DecisionScoringInputs = { matrix: null, ahp: null };
+
+/** The theme heuristic's inputs for a run; the what-if panel re-scores from these in the browser. */
+export function resolveHeuristicModel(brief: DecisionBrief, frameworkResults: FrameworkResult[]): HeuristicScoringModel {
+  return {
+    method: "heuristic",
+    options: deriveDecisionOptions(brief).map((option, index) => ({
+      option,
+      seed: hashStringToFloat(`${brief.title}:${option}`, `option-${index}`),
+    })),
+    themes: averageThemes(frameworkResults),
+    riskTolerance: brief.riskTolerance,
+    weights: HEURISTIC_SCORING_WEIGHTS,
+  };
+}
+
+/**
+ * Picks the most explicit scoring the user has saved: AHP judgments, then the
+ * weighted decision matrix, then the theme heuristic. The matrix's hard
+ * constraints still eliminate options under AHP.
+ */
+export function resolveScoringModel(
+  brief: DecisionBrief,
+  frameworkResults: FrameworkResult[],
+  inputs: DecisionScoringInputs = NO_SCORING_INPUTS,
+): ScoringModel {
+  const options = deriveDecisionOptions(brief);
+  const matrix = inputs.matrix ? alignDecisionMatrix(inputs.matrix, options) : null;
+  const ahp = inputs.ahp ? alignAhpModel(inputs.ahp, options) : null;
+
+  if (ahp && isAhpModelUsable(ahp)) {
+    return { method: "ahp", result: computeAhp(ahp), eliminatedBy: matrix ? hardConstraintViolations(matrix) : {} };
+  }
+
+  if (matrix && isDecisionMatrixUsable(matrix)) {
+    return { method: "weighted_criteria", matrix };
+  }
+
+  return resolveHeuristicModel(brief, frameworkResults);
+}
+
+export function recommendDecision(
+  brief: DecisionBrief,
+  frameworkResults: FrameworkResult[],
+  recommendedActions: string[],
+  inputs: DecisionScoringInputs = NO_SCORING_INPUTS,
+): DecisionRecommendation {
+  const model = resolveScoringModel(brief, frameworkResults, inputs);
+  const evidence = {
+    confidence: averageFrameworkConfidence(frameworkResults),
+    nextActions: recommendedActions,
+    supportingFrameworks: topFrameworkNames(frameworkResults),
+  };
+
+  if (model.method === "ahp") {
+    return recommendFromAhp(model.result, evidence, model.eliminatedBy);
+  }
+
+  if (model.method === "weighted_criteria") {
+    return recommendFromDecisionMatrix(model.matrix, evidence);
+  }
+
+  return scoreDecisionOptions(model, frameworkResults, recommendedActions);
+}
+
+/** Re-scores a stored synthesis against the current scoring inputs, so edits apply without re-running analysis. */
+export function rescoreSynthesis(
+  synthesis: SynthesisSummary,
+  brief: DecisionBrief,
+  frameworkResults: FrameworkResult[],
+  inputs: DecisionScoringInputs,
+): SynthesisSummary {
+  if (!inputs.matrix && !inputs.ahp) {
+    return synthesis;
+  }
+
+  return {
+    ...synthesis,
+    decisionRecommendation: recommendDecision(brief, frameworkResults, synthesis.recommendedActions, inputs),
   };
 }
 
@@ -279,11 +329,14 @@ export function buildSynthesisSummary(
   frameworkResults: FrameworkResult[],
   propagatedMap: PropagatedDecisionMap,
   warnings: string[] = [],
+  inputs: DecisionScoringInputs = NO_SCORING_INPUTS,
 ): SynthesisSummary {
   const ranked = frameworkResults
     .map((result) => ({
       ...result,
-      composite: result.applicabilityScore * 0.6 + result.confidence * 0.4,
+      composite:
+        result.applicabilityScore * SYNTHESIS_COMPOSITE_WEIGHTS.applicability +
+        dispersionAdjustedConfidence(result) * SYNTHESIS_COMPOSITE_WEIGHTS.confidence,
     }))
     .sort((a, b) => b.composite - a.composite)
     .slice(0, 5);
@@ -301,7 +354,13 @@ export function buildSynthesisSummary(
     "Track conflict edges with highest weight in weekly review.",
     "Update assumptions and rerun analysis when constraints change.",
   ];
-  const decisionRecommendation = scoreDecisionOptions(brief, frameworkResults, recommendedActions);
+  const unsettled = ranked.filter((item) => (item.uncertainty?.dispersion ?? 0) >= UNSETTLED_DISPERSION);
+  if (unsettled.length > 0) {
+    checkpoints.push(
+      `Ensemble samples disagreed on ${unsettled.map((item) => item.frameworkName).join(", ")}; validate their assumptions before committing.`,
+    );
+  }
+  const decisionRecommendation = recommendDecision(brief, frameworkResults, recommendedActions, inputs);
 
   return {
     topFrameworks: ranked.map((item) => ({
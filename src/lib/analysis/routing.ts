@@ -0,0 +1,90 @@
+import { z } from "zod";
+
+import { env } from "@/lib/env";
+import { getFrameworkDefinition } from "@/lib/frameworks/registry";
+import { getAdapterForRouteTarget, type ResolvedLLM } from "@/lib/llm/router";
+import { frameworkIdSchema } from "@/lib/schemas";
+import type { FrameworkDefinition, FrameworkId, FrameworkRoute } from "@/lib/types";
+
+/** "run" uses the run's provider, "simulation" skips the LLM, anything else names a preference or provider. */
+const routeTargetSchema = z.union([
+  z.string().trim().min(1).max(80),
+  z.object({
+    provider: z.string().trim().min(1).max(80),
+    model: z.string().trim().min(1).max(200).optional(),
+  }),
+]);
+
+const routingPolicySchema = z.object({
+  frameworks: z.partialRecord(frameworkIdSchema, routeTargetSchema).optional(),
+  categories: z.record(z.string().min(1), routeTargetSchema).optional(),
+  maturity: z.partialRecord(z.enum(["core", "exploratory"]), routeTargetSchema).optional(),
+  deep: routeTargetSchema.optional(),
+  default: routeTargetSchema.optional(),
+});
+
+type RouteTarget = z.infer<typeof routeTargetSchema>;
+export type AnalysisRoutingPolicy = z.infer<typeof routingPolicySchema>;
+
+/** ANALYSIS_ROUTING_POLICY is a JSON object; without it, ANALYSIS_LLM_SCOPE keeps its old meaning. */
+function loadRoutingPolicy(): AnalysisRoutingPolicy {
+  if (env.ANALYSIS_ROUTING_POLICY) {
+    return routingPolicySchema.parse(JSON.parse(env.ANALYSIS_ROUTING_POLICY));
+  }
+
+  return env.ANALYSIS_LLM_SCOPE === "all" ? { default: "run" } : { deep: "run", default: "simulation" };
+}
+
+const routingPolicy = loadRoutingPolicy();
+
+/** Most specific entry wins: framework id, then category, maturity, deep support, and the default. */
+function matchRoute(
+  framework: FrameworkDefinition,
+  policy: AnalysisRoutingPolicy,
+): { rule: string; target: RouteTarget } {
+  const candidates: Array<[string, RouteTarget | undefined]> = [
+    [`framework:${framework.id}`, policy.frameworks?.[framework.id]],
+    [`category:${framework.category}`, policy.categories?.[framework.category]],
+    [`maturity:${framework.maturity}`, policy.maturity?.[framework.maturity]],
+    ["deep", framework.deepSupported ? policy.deep : undefined],
+  ];
+  const matched = candidates.find(([, target]) => target !== undefined);
+
+  return matched ? { rule: matched[0], target: matched[1]! } : { rule: "default", target: policy.default ?? "run" };
+}
+
+export interface RoutedFramework {
+  route: FrameworkRoute;
+  /** Null when the framework is routed to deterministic simulation. */
+  llm: ResolvedLLM | null;
+  /** Set when the configured target is not registered and the run's provider was used instead. */
+  warning?: string;
+}
+
+export function routeFramework(
+  frameworkId: FrameworkId,
+  runLLM: ResolvedLLM,
+  policy: AnalysisRoutingPolicy = routingPolicy,
+): RoutedFramework {
+  const framework = getFrameworkDefinition(frameworkId);
+  const { rule, target } = matchRoute(framework, policy);
+  const name = typeof target === "string" ? target : target.provider;
+  const model = typeof target === "string" ? undefined : target.model;
+
+  if (name === "simulation") {
+    return { route: { rule, target: name, provider: null, model: null }, llm: null };
+  }
+
+  const resolved = name === "run" ? runLLM : getAdapterForRouteTarget(name, model);
+  const llm = resolved ?? runLLM;
+
+  return {
+    route: { rule, target: name, provider: llm.provider, model: llm.model },
+    llm,
+    ...(resolved
+      ? {}
+      : {
+          warning: `${framework.name} (${framework.id}) routing target "${name}" (${rule}) is not registered; used ${runLLM.provider} instead.`,
+        }),
+  };
+}
@@ -0,0 +1,108 @@
+import type {
+  FrameworkId,
+  FrameworkResult,
+  FrameworkScoreDelta,
+  PropagatedDecisionMap,
+  PropagatedMapEdge,
+  RunComparison,
+  SynthesisSummary,
+} from "@/lib/types";
+import { round } from "@/lib/utils/math";
+
+export interface ComparableRun {
+  runId: string;
+  frameworkResults: FrameworkResult[];
+  propagatedMap: PropagatedDecisionMap | null;
+  synthesis: SynthesisSummary | null;
+}
+
+function delta(base: number | undefined, target: number | undefined): number | null {
+  if (base === undefined || target === undefined) {
+    return null;
+  }
+
+  return round(target - base, 3);
+}
+
+// Edges are undirected for comparison purposes; the relation type is part of identity.
+function edgeKey(edge: PropagatedMapEdge): string {
+  const [first, second] = [edge.source, edge.target].sort();
+  return `${first}|${second}|${edge.relationType}`;
+}
+
+function diffEdges(
+  from: PropagatedMapEdge[],
+  to: PropagatedMapEdge[],
+): PropagatedMapEdge[] {
+  const fromKeys = new Set(from.map(edgeKey));
+  return to.filter((edge) => !fromKeys.has(edgeKey(edge)));
+}
+
+function compareFrameworkScores(
+  base: FrameworkResult[],
+  target: FrameworkResult[],
+): FrameworkScoreDelta[] {
+  const baseById = new Map(base.map((result) => [result.frameworkId, result]));
+  const targetById = new Map(target.map((result) => [result.frameworkId, result]));
+  const frameworkIds = [
+    ...new Set<FrameworkId>([
+      ...target.map((result) => result.frameworkId),
+      ...base.map((result) => result.frameworkId),
+    ]),
+  ];
+
+  const deltas = frameworkIds.map((frameworkId) => {
+    const baseResult = baseById.get(frameworkId);
+    const targetResult = targetById.get(frameworkId);
+
+    return {
+      frameworkId,
+      frameworkName: targetResult?.frameworkName ?? baseResult?.frameworkName ?? frameworkId,
+      base: baseResult
+        ? { applicabilityScore: baseResult.applicabilityScore, confidence: baseResult.confidence }
+        : null,
+      target: targetResult
+        ? { applicabilityScore: targetResult.applicabilityScore, confidence: targetResult.confidence }
+        : null,
+      applicabilityDelta: delta(baseResult?.applicabilityScore, targetResult?.applicabilityScore),
+      confidenceDelta: delta(baseResult?.confidence, targetResult?.confidence),
+    };
+  });
+
+  // Largest movements first; frameworks present in only one run go last.
+  return deltas.sort((left, right) => {
+    if (left.applicabilityDelta === null || right.applicabilityDelta === null) {
+      return Number(left.applicabilityDelta === null) - Number(right.applicabilityDelta === null);
+    }
+
+    return Math.abs(right.applicabilityDelta) - Math.abs(left.applicabilityDelta);
+  });
+}
+
+export function compareRuns(
+  decisionId: string,
+  base: ComparableRun,
+  target: ComparableRun,
+): RunComparison {
+  const baseRecommendation = base.synthesis?.decisionRecommendation ?? null;
+  const targetRecommendation = target.synthesis?.decisionRecommendation ?? null;
+  const baseEdges = base.propagatedMap?.edges ?? [];
+  const targetEdges = target.propagatedMap?.edges ?? [];
+
+  return {
+    decisionId,
+    baseRunId: base.runId,
+    targetRunId: target.runId,
+    frameworkDeltas: compareFrameworkScores(base.frameworkResults, target.frameworkResults),
+    recommendation: {
+      base: baseRecommendation?.recommendedOption ?? null,
+      target: targetRecommendation?.recommendedOption ?? null,
+      changed:
+        (baseRecommendation?.recommendedOption ?? null) !==
+        (targetRecommendation?.recommendedOption ?? null),
+      confidenceDelta: delta(baseRecommendation?.confidence, targetRecommendation?.confidence),
+    },
+    edgesAdded: diffEdges(baseEdges, targetEdges),
+    edgesRemoved: diffEdges(targetEdges, baseEdges),
+  };
+}
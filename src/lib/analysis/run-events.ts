@@ -0,0 +1,33 @@
+import { EventEmitter } from "node:events";
+
+import type { RunEvent } from "@/lib/types";
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type RunEventInput = DistributiveOmit<RunEvent, "runId" | "at">;
+
+// In-process fan-out only: subscribers on other processes catch up from the DB snapshot.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishRunEvent(runId: string, event: RunEventInput): void {
+  emitter.emit(runId, {
+    ...event,
+    runId,
+    at: new Date().toISOString(),
+  } as RunEvent);
+}
+
+export function subscribeToRunEvents(
+  runId: string,
+  listener: (event: RunEvent) => void,
+): () => void {
+  emitter.on(runId, listener);
+  return () => {
+    emitter.off(runId, listener);
+  };
+}
+
+export function formatServerSentEvent(event: { type: string }): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
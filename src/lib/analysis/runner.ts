@@ -1,14 +1,31 @@
 import type { Prisma } from "@prisma/client";
 
+import {
+  ACTIVE_RUN_STATUSES,
+  claimCompletedRunLease,
+  claimRunLease,
+  findOrphanedRuns,
+  getRunAttempts,
+  releaseRunLease,
+  retryDelayMs,
+  startLeaseHeartbeat,
+} from "@/lib/analysis/job-queue";
+import { AdaptiveConcurrencyLimiter, type ConcurrencyOutcome } from "@/lib/analysis/concurrency";
+import { aggregateFrameworkSamples } from "@/lib/analysis/ensemble";
 import { buildPropagatedDecisionMap, buildSynthesisSummary } from "@/lib/analysis/propagation";
+import { routeFramework, type RoutedFramework } from "@/lib/analysis/routing";
+import { publishRunEvent } from "@/lib/analysis/run-events";
 import { inferDecisionThemeVector } from "@/lib/analysis/theme";
 import { prisma } from "@/lib/db";
+import { parseScoringInputs } from "@/lib/decisions";
 import { env } from "@/lib/env";
 import {
   AppError,
   ModelOutputInvalidError,
   ModelTimeoutError,
+  OperationCancelledError,
   ProviderUnavailableError,
+  throwIfAborted,
 } from "@/lib/errors";
 import {
   analyzeFrameworkSimulation,
@@ -17,23 +34,44 @@ import {
   type LLMFrameworkAnalysisContext,
 } from "@/lib/frameworks/analyzers";
 import { getFrameworkDefinition, listFrameworkDefinitions } from "@/lib/frameworks/registry";
+import { isCircuitOpen, isProviderFailure, isRateLimitError, withCircuitBreaker } from "@/lib/llm/health";
+import { cacheLLM, type ResponseCacheOptions } from "@/lib/llm/response-cache";
 import {
   getAdapterForResolvedProvider,
+  getFailoverChain,
   resolveLLM,
   type ResolvedLLM,
 } from "@/lib/llm/router";
-import { decisionBriefSchema } from "@/lib/schemas";
+import { resolvePromptTemplate } from "@/lib/prompts/store";
+import {
+  analysisEnsembleConfigSchema,
+  decisionBriefSchema,
+  frameworkResultSchema,
+  synthesisSummarySchema,
+} from "@/lib/schemas";
 import type {
+  AnalysisEnsembleConfig,
   DecisionBrief,
+  DecisionRunStatus,
+  DecisionScoringInputs,
   FrameworkId,
   FrameworkResult,
   ProviderPreference,
-  ResolvedProvider,
   RunStatus,
+  SynthesisSummary,
   ThemeVector,
 } from "@/lib/types";
+import { meterLLM, type LLMCallScope } from "@/lib/usage-ledger";
 
 const runPromises = new Map<string, Promise<void>>();
+const runControllers = new Map<string, AbortController>();
+let queueSweeper: ReturnType<typeof setInterval> | null = null;
+
+/** Sampling temperature for ensemble members, high enough for samples to disagree. */
+const ENSEMBLE_TEMPERATURE = 0.7;
+
+/** Statuses set by a user; a worker's own status writes must never overwrite them. */
+const INTERRUPTED_RUN_STATUSES: RunStatus[] = ["paused", "cancelled"];
 
 function parseFrameworkIds(rawFrameworkIds: Prisma.JsonValue): FrameworkId[] {
   if (!Array.isArray(rawFrameworkIds)) {
@@ -43,6 +81,11 @@ function parseFrameworkIds(rawFrameworkIds: Prisma.JsonValue): FrameworkId[] {
   return rawFrameworkIds as FrameworkId[];
 }
 
+function parseEnsembleConfig(rawEnsemble: Prisma.JsonValue): AnalysisEnsembleConfig | null {
+  const parsed = analysisEnsembleConfigSchema.safeParse(rawEnsemble);
+  return parsed.success && parsed.data.samples > 1 ? parsed.data : null;
+}
+
 async function ensureFrameworkDefinitionsSeeded(): Promise<void> {
   const frameworks = listFrameworkDefinitions();
 
@@ -76,38 +119,73 @@ async function markRun(runId: string, status: RunStatus, error?: string): Promis
     data: {
       status,
       error: error ?? null,
-      ...(status === "analyzing" ? { startedAt: new Date() } : {}),
-      ...(status === "complete" || status === "failed" ? { endedAt: new Date() } : {}),
+      ...(status === "complete" || status === "failed" || status === "cancelled"
+        ? { endedAt: new Date() }
+        : {}),
     },
   });
+  publishRunEvent(runId, { type: "status", status, error: error ?? null });
 }
 
-function providerToPreference(provider: string): ProviderPreference {
-  if (provider === "local" || provider === "hosted") {
-    return provider;
+/**
+ * Moves a run this worker holds to its next status, unless a pause or cancel landed first.
+ * The status event is only published while this attempt is still live.
+ */
+async function advanceRun(
+  runId: string,
+  signal: AbortSignal,
+  data: { status: RunStatus; startedAt?: Date },
+): Promise<void> {
+  const advanced = await prisma.analysisRun.updateMany({
+    where: { id: runId, status: { notIn: INTERRUPTED_RUN_STATUSES } },
+    data: { ...data, error: null },
+  });
+  if (advanced.count === 0) {
+    throw new OperationCancelledError(`Analysis run ${runId} was interrupted`);
   }
 
-  return "auto";
+  throwIfAborted(signal, `Analysis run ${runId}`);
+  publishRunEvent(runId, { type: "status", status: data.status, error: null });
 }
 
-function isResolvedProvider(provider: string): provider is ResolvedProvider {
-  return provider === "local" || provider === "hosted";
-}
-
-async function resolveRunLLM(provider: string): Promise<ResolvedLLM> {
-  if (isResolvedProvider(provider)) {
-    return getAdapterForResolvedProvider(provider);
+/**
+ * Records how a failed or abandoned attempt ends, unless a pause or cancel landed
+ * first. Returns whether the write applied.
+ */
+async function settleRun(
+  runId: string,
+  data: Prisma.AnalysisRunUpdateManyMutationInput & { status: RunStatus; error: string },
+): Promise<boolean> {
+  const settled = await prisma.analysisRun.updateMany({
+    where: { id: runId, status: { notIn: INTERRUPTED_RUN_STATUSES } },
+    data,
+  });
+  if (settled.count === 0) {
+    return false;
   }
 
-  return resolveLLM(providerToPreference(provider));
+  publishRunEvent(runId, { type: "status", status: data.status, error: data.error });
+  return true;
 }
 
-function shouldUseLLMForFramework(frameworkId: FrameworkId): boolean {
-  if (env.ANALYSIS_LLM_SCOPE === "all") {
-    return true;
+/**
+ * Cooperative cancellation point: stops the worker when this process aborted the run
+ * or when another process paused or cancelled it in the database.
+ */
+async function assertRunNotInterrupted(runId: string, signal: AbortSignal): Promise<void> {
+  throwIfAborted(signal, `Analysis run ${runId}`);
+
+  const current = await prisma.analysisRun.findUnique({
+    where: { id: runId },
+    select: { status: true },
+  });
+  if (current?.status === "paused" || current?.status === "cancelled") {
+    throw new OperationCancelledError(`Analysis run ${runId} was ${current.status}`);
   }
+}
 
-  return getFrameworkDefinition(frameworkId).deepSupported;
+async function resolveRunLLM(provider: string): Promise<ResolvedLLM> {
+  return getAdapterForResolvedProvider(provider) ?? resolveLLM("auto");
 }
 
 function canFallbackToSimulation(error: unknown): boolean {
@@ -133,31 +211,45 @@ function extractErrorReason(error: unknown): string {
   return "Unknown LLM failure";
 }
 
-function alternateProviderPreference(provider: string): ProviderPreference | null {
-  if (provider === "local") {
-    return "hosted";
-  }
-  if (provider === "hosted") {
-    return "local";
+interface AnalyzedFramework {
+  result: FrameworkResult;
+  warning?: string;
+  /** How the framework's provider behaved, fed to the run's adaptive concurrency limit. */
+  outcome: ConcurrencyOutcome;
+}
+
+function providerOutcome(error: unknown): ConcurrencyOutcome {
+  if (isRateLimitError(error)) {
+    return "rate_limited";
   }
-  return null;
+
+  return isProviderFailure(error) ? "error" : "success";
 }
 
-async function analyzeFrameworkForRun(
+const OUTCOME_SEVERITY: Record<ConcurrencyOutcome, number> = { success: 0, error: 1, rate_limited: 2 };
+
+async function analyzeFrameworkSample(
   frameworkId: FrameworkId,
   brief: DecisionBrief,
   decisionThemes: ThemeVector,
   llm: LLMFrameworkAnalysisContext,
-): Promise<{ result: FrameworkResult; warning?: string }> {
-  if (!shouldUseLLMForFramework(frameworkId)) {
-    return {
-      result: analyzeFrameworkSimulation(frameworkId, brief, decisionThemes),
-    };
-  }
+  ledger: Pick<LLMCallScope, "decisionId" | "runId">,
+  cache: ResponseCacheOptions,
+): Promise<AnalyzedFramework> {
+  const usageScope: LLMCallScope = { ...ledger, operation: "framework_analysis", frameworkId };
+  const prompt = await resolvePromptTemplate("framework_analysis", {
+    frameworkId,
+    assignmentKey: ledger.runId ?? undefined,
+  });
 
   try {
-    const result = await analyzeFrameworkWithLLM(frameworkId, brief, decisionThemes, llm);
-    return { result };
+    const result = await analyzeFrameworkWithLLM(
+      frameworkId,
+      brief,
+      decisionThemes,
+      meterLLM(cacheLLM(withCircuitBreaker({ ...llm, prompt }), cache), usageScope),
+    );
+    return { result, outcome: "success" };
   } catch (error) {
     if (!canFallbackToSimulation(error)) {
       throw error;
@@ -165,41 +257,62 @@ async function analyzeFrameworkForRun(
 
     const framework = getFrameworkDefinition(frameworkId);
     const primaryReason = extractErrorReason(error);
-    const alternatePreference = alternateProviderPreference(llm.provider);
-    let alternateReason: string | null = null;
+    const outcome = providerOutcome(error);
+    const failoverReasons: string[] = [];
 
-    if (alternatePreference) {
+    for (const alternate of getFailoverChain(llm.provider)) {
       try {
-        const alternate = await resolveLLM(alternatePreference);
-        if (alternate.provider !== llm.provider) {
-          const alternateResult = await analyzeFrameworkWithLLM(frameworkId, brief, decisionThemes, {
-            adapter: alternate.adapter,
-            provider: alternate.provider,
-            model: alternate.model,
-          });
-
-          const warning = `${framework.name} (${framework.id}) recovered on ${alternate.provider} after ${llm.provider} failure: ${primaryReason}`;
-          return {
-            result: {
-              ...alternateResult,
-              generation: {
-                mode: "llm",
-                provider: alternate.provider,
-                model: alternate.model,
-                warning,
-              },
-            },
-            warning,
-          };
+        // An open circuit is skipped before the health check, which can itself hang on a struggling provider.
+        if (isCircuitOpen(alternate.provider)) {
+          failoverReasons.push(`${alternate.provider}: circuit open`);
+          continue;
         }
+        if (!(await alternate.adapter.isHealthy())) {
+          failoverReasons.push(`${alternate.provider}: unavailable`);
+          continue;
+        }
+
+        const alternateResult = await analyzeFrameworkWithLLM(
+          frameworkId,
+          brief,
+          decisionThemes,
+          meterLLM(
+            cacheLLM(
+              withCircuitBreaker({ ...alternate, signal: llm.signal, temperature: llm.temperature, prompt }),
+              cache,
+            ),
+            usageScope,
+          ),
+        );
+
+        const warning = `${framework.name} (${framework.id}) recovered on ${alternate.provider} after ${llm.provider} failure: ${primaryReason}`;
+        return {
+          result: {
+            ...alternateResult,
+            generation: {
+              mode: "llm",
+              provider: alternate.provider,
+              model: alternate.model,
+              warning,
+              prompt: alternateResult.generation?.prompt,
+              cacheHit: alternateResult.generation?.cacheHit,
+            },
+          },
+          warning,
+          outcome,
+        };
       } catch (failoverError) {
-        alternateReason = extractErrorReason(failoverError);
+        if (failoverError instanceof OperationCancelledError) {
+          throw failoverError;
+        }
+        failoverReasons.push(`${alternate.provider}: ${extractErrorReason(failoverError)}`);
       }
     }
 
-    const warning = alternateReason
-      ? `${framework.name} (${framework.id}) fell back to deterministic analysis after ${llm.provider} failure (${primaryReason}) and failover failure (${alternateReason}).`
-      : `${framework.name} (${framework.id}) fell back to deterministic analysis: ${primaryReason}`;
+    const warning =
+      failoverReasons.length > 0
+        ? `${framework.name} (${framework.id}) fell back to deterministic analysis after ${llm.provider} failure (${primaryReason}) and failover failure (${failoverReasons.join("; ")}).`
+        : `${framework.name} (${framework.id}) fell back to deterministic analysis: ${primaryReason}`;
     const fallbackResult = analyzeFrameworkSimulation(frameworkId, brief, decisionThemes, {
       provider: llm.provider,
       model: llm.model,
@@ -209,13 +322,137 @@ async function analyzeFrameworkForRun(
     return {
       result: fallbackResult,
       warning,
+      outcome,
+    };
+  }
+}
+
+/**
+ * Self-consistency mode: samples the framework several times, rotating through
+ * the configured providers, and aggregates the LLM samples. Samples that fell
+ * back to simulation are dropped; if every sample fell back, the last fallback
+ * is returned as-is.
+ */
+async function analyzeFrameworkEnsemble(
+  frameworkId: FrameworkId,
+  brief: DecisionBrief,
+  decisionThemes: ThemeVector,
+  llm: LLMFrameworkAnalysisContext,
+  ledger: Pick<LLMCallScope, "decisionId" | "runId">,
+  ensemble: AnalysisEnsembleConfig,
+  cache: ResponseCacheOptions,
+): Promise<AnalyzedFramework> {
+  const providers = ensemble.providers ?? [llm.provider];
+  const samples: FrameworkResult[] = [];
+  const warnings: string[] = [];
+  let outcome: ConcurrencyOutcome = "success";
+  let lastFallback: AnalyzedFramework | null = null;
+
+  for (let index = 0; index < ensemble.samples; index += 1) {
+    const provider = providers[index % providers.length];
+    const sampleLLM = (provider !== llm.provider && getAdapterForResolvedProvider(provider)) || llm;
+    const analyzed = await analyzeFrameworkSample(
+      frameworkId,
+      brief,
+      decisionThemes,
+      { ...sampleLLM, signal: llm.signal, temperature: ENSEMBLE_TEMPERATURE },
+      ledger,
+      // Each sample index caches separately, or every sample after the first would repeat it.
+      { ...cache, variant: `sample:${index}` },
+    );
+    if (OUTCOME_SEVERITY[analyzed.outcome] > OUTCOME_SEVERITY[outcome]) {
+      outcome = analyzed.outcome;
+    }
+
+    if (analyzed.result.generation?.mode === "fallback") {
+      lastFallback = analyzed;
+      continue;
+    }
+    samples.push(analyzed.result);
+    if (analyzed.warning && !warnings.includes(analyzed.warning)) {
+      warnings.push(analyzed.warning);
+    }
+  }
+
+  if (samples.length === 0 && lastFallback) {
+    return { ...lastFallback, outcome };
+  }
+
+  if (samples.length < ensemble.samples) {
+    const framework = getFrameworkDefinition(frameworkId);
+    warnings.push(
+      `${framework.name} (${framework.id}) ensemble kept ${samples.length} of ${ensemble.samples} samples; the rest fell back to deterministic analysis.`,
+    );
+  }
+
+  return {
+    result: aggregateFrameworkSamples(samples),
+    ...(warnings.length > 0 ? { warning: warnings.join(" ") } : {}),
+    outcome,
+  };
+}
+
+async function analyzeFrameworkForRun(
+  frameworkId: FrameworkId,
+  brief: DecisionBrief,
+  decisionThemes: ThemeVector,
+  routed: RoutedFramework,
+  ledger: Pick<LLMCallScope, "decisionId" | "runId">,
+  options: { signal?: AbortSignal; ensemble: AnalysisEnsembleConfig | null; bypassCache: boolean },
+): Promise<AnalyzedFramework> {
+  if (!routed.llm) {
+    return {
+      result: { ...analyzeFrameworkSimulation(frameworkId, brief, decisionThemes), route: routed.route },
+      outcome: "success",
     };
   }
+
+  const llm = { ...routed.llm, signal: options.signal };
+  const cache: ResponseCacheOptions = { bypass: options.bypassCache };
+  const analyzed = options.ensemble
+    ? await analyzeFrameworkEnsemble(frameworkId, brief, decisionThemes, llm, ledger, options.ensemble, cache)
+    : await analyzeFrameworkSample(frameworkId, brief, decisionThemes, llm, ledger, cache);
+  const warning = [routed.warning, analyzed.warning].filter(Boolean).join(" ");
+
+  return {
+    result: { ...analyzed.result, route: routed.route },
+    ...(warning ? { warning } : {}),
+    outcome: analyzed.outcome,
+  };
+}
+
+async function loadPersistedFrameworkResults(
+  runId: string,
+): Promise<Map<FrameworkId, FrameworkResult>> {
+  const records = await prisma.frameworkResultRecord.findMany({
+    where: { runId },
+  });
+  const persisted = new Map<FrameworkId, FrameworkResult>();
+
+  for (const record of records) {
+    const parsed = frameworkResultSchema.safeParse(record.resultJson);
+    if (parsed.success) {
+      persisted.set(parsed.data.frameworkId, parsed.data as FrameworkResult);
+    }
+  }
+
+  return persisted;
+}
+
+/** Runs analyze the brief version they recorded; runs from before versions were recorded use the latest. */
+function findRunBriefRecord<T extends { version: number }>(run: {
+  briefVersion: number | null;
+  decision: { briefs: T[] };
+}): T | undefined {
+  const { briefs } = run.decision;
+  return typeof run.briefVersion === "number"
+    ? briefs.find((brief) => brief.version === run.briefVersion)
+    : briefs[0];
 }
 
-async function processRun(runId: string): Promise<void> {
+async function processRun(runId: string, controller: AbortController): Promise<void> {
+  const { signal } = controller;
   await ensureFrameworkDefinitionsSeeded();
-  await markRun(runId, "analyzing");
 
   const run = await prisma.analysisRun.findUnique({
     where: { id: runId },
@@ -224,7 +461,6 @@ async function processRun(runId: string): Promise<void> {
         include: {
           briefs: {
             orderBy: { version: "desc" },
-            take: 1,
           },
         },
       },
@@ -235,13 +471,16 @@ async function processRun(runId: string): Promise<void> {
     throw new Error(`Analysis run ${runId} not found`);
   }
 
-  const latestBriefRecord = run.decision.briefs[0];
-  if (!latestBriefRecord) {
+  await advanceRun(runId, signal, { status: "analyzing", startedAt: run.startedAt ?? new Date() });
+
+  const briefRecord = findRunBriefRecord(run);
+  if (!briefRecord) {
     throw new Error("Decision brief not found. Run refinement first.");
   }
 
-  const brief = decisionBriefSchema.parse(latestBriefRecord.briefJson);
+  const brief = decisionBriefSchema.parse(briefRecord.briefJson);
   const selectedFrameworkIds = parseFrameworkIds(run.frameworkIds);
+  const ensemble = parseEnsembleConfig(run.ensemble);
 
   if (selectedFrameworkIds.length === 0) {
     throw new Error("No frameworks requested for analysis run.");
@@ -259,79 +498,173 @@ async function processRun(runId: string): Promise<void> {
   const decisionThemes = inferDecisionThemeVector(brief);
   const frameworkResults = new Array<FrameworkResult | undefined>(selectedFrameworkIds.length);
   const warnings: string[] = [];
+  const pendingIndexes: number[] = [];
+
+  // Resume an interrupted run: frameworks persisted by an earlier attempt are reused as-is.
+  const persistedResults = await loadPersistedFrameworkResults(runId);
+  selectedFrameworkIds.forEach((frameworkId, index) => {
+    const persisted = persistedResults.get(frameworkId);
+    if (!persisted) {
+      pendingIndexes.push(index);
+      return;
+    }
+
+    frameworkResults[index] = persisted;
+    if (persisted.generation?.warning) {
+      warnings.push(persisted.generation.warning);
+    }
+  });
+
   const maxConcurrency = Math.max(
     1,
-    Math.min(env.ANALYSIS_MAX_CONCURRENCY, selectedFrameworkIds.length),
+    Math.min(env.ANALYSIS_MAX_CONCURRENCY, pendingIndexes.length),
   );
+  // Workers beyond the adaptive limit wait for a slot, so provider errors slow the run down instead of piling up.
+  const limiter = new AdaptiveConcurrencyLimiter(maxConcurrency);
   let nextIndex = 0;
 
+  const analyzePending = async (index: number): Promise<ConcurrencyOutcome> => {
+    const frameworkId = selectedFrameworkIds[index];
+    await assertRunNotInterrupted(runId, signal);
+    const routed = routeFramework(frameworkId, resolvedLLM);
+    publishRunEvent(runId, {
+      type: "framework_started",
+      frameworkId,
+      provider: routed.route.provider ?? "simulation",
+      model: routed.route.model,
+    });
+    const analyzed = await analyzeFrameworkForRun(
+      frameworkId,
+      brief,
+      decisionThemes,
+      routed,
+      { decisionId: run.decisionId, runId },
+      { signal, ensemble, bypassCache: run.bypassCache },
+    );
+    const normalized = enforceFrameworkVisualizationIntegrity(
+      analyzed.result,
+      brief,
+      decisionThemes,
+    );
+
+    frameworkResults[index] = normalized.result;
+    if (analyzed.warning) {
+      warnings.push(analyzed.warning);
+      publishRunEvent(
+        runId,
+        normalized.result.generation?.mode === "fallback"
+          ? { type: "framework_fallback", frameworkId, warning: analyzed.warning }
+          : { type: "warning", message: analyzed.warning },
+      );
+    }
+    if (normalized.warning) {
+      warnings.push(normalized.warning);
+      publishRunEvent(runId, { type: "warning", message: normalized.warning });
+    }
+
+    // A sibling's failure aborts the attempt; a result that lands afterwards belongs to no attempt.
+    throwIfAborted(signal, `Analysis run ${runId}`);
+    await persistFrameworkResult(runId, frameworkId, normalized.result);
+    publishRunEvent(runId, { type: "framework_completed", frameworkId, result: normalized.result });
+    return analyzed.outcome;
+  };
+
+  // The first failure aborts the other workers' provider calls, and the attempt only ends once
+  // every worker has stopped, so a retry never overlaps with calls still running from this one.
+  const failures: unknown[] = [];
   await Promise.all(
     Array.from({ length: maxConcurrency }, async () => {
-      while (true) {
-        const index = nextIndex;
+      while (failures.length === 0) {
+        await limiter.acquire();
+        const cursor = nextIndex;
         nextIndex += 1;
-        if (index >= selectedFrameworkIds.length) {
+        if (failures.length > 0 || cursor >= pendingIndexes.length) {
+          limiter.release("success");
           return;
         }
 
-        const frameworkId = selectedFrameworkIds[index];
-        const analyzed = await analyzeFrameworkForRun(frameworkId, brief, decisionThemes, {
-          adapter: resolvedLLM.adapter,
-          provider: resolvedLLM.provider,
-          model: resolvedLLM.model,
-        });
-        const normalized = enforceFrameworkVisualizationIntegrity(
-          analyzed.result,
-          brief,
-          decisionThemes,
-        );
-
-        frameworkResults[index] = normalized.result;
-        if (analyzed.warning) {
-          warnings.push(analyzed.warning);
-        }
-        if (normalized.warning) {
-          warnings.push(normalized.warning);
+        // A thrown error fails the whole run, so it only frees the slot.
+        let outcome: ConcurrencyOutcome = "success";
+        try {
+          outcome = await analyzePending(pendingIndexes[cursor]);
+        } catch (error) {
+          failures.push(error);
+          controller.abort();
+        } finally {
+          const previousLimit = limiter.limit;
+          limiter.release(outcome);
+          if (limiter.limit < previousLimit) {
+            publishRunEvent(runId, {
+              type: "warning",
+              message: `Framework concurrency lowered to ${limiter.limit} after provider ${
+                outcome === "rate_limited" ? "rate limiting" : "errors"
+              }.`,
+            });
+          }
         }
-
-        await prisma.frameworkResultRecord.upsert({
-          where: {
-            runId_frameworkId: {
-              runId,
-              frameworkId,
-            },
-          },
-          update: {
-            resultJson: normalized.result as unknown as Prisma.InputJsonValue,
-            applicabilityScore: normalized.result.applicabilityScore,
-            confidence: normalized.result.confidence,
-          },
-          create: {
-            runId,
-            frameworkId,
-            resultJson: normalized.result as unknown as Prisma.InputJsonValue,
-            applicabilityScore: normalized.result.applicabilityScore,
-            confidence: normalized.result.confidence,
-          },
-        });
       }
     }),
   );
 
+  if (failures.length > 0) {
+    throw failures[0];
+  }
+
   if (frameworkResults.some((result) => !result)) {
     throw new Error("Analysis run completed with missing framework results.");
   }
 
   const completedFrameworkResults = frameworkResults as FrameworkResult[];
 
-  await markRun(runId, "synthesizing");
-  const propagatedMap = buildPropagatedDecisionMap(completedFrameworkResults);
-  const synthesis = buildSynthesisSummary(
+  await assertRunNotInterrupted(runId, signal);
+  await advanceRun(runId, signal, { status: "synthesizing" });
+  await persistRunSynthesis(
+    runId,
     brief,
     completedFrameworkResults,
-    propagatedMap,
     warnings,
+    parseScoringInputs(run.decision),
+    { signal },
   );
+}
+
+async function persistFrameworkResult(
+  runId: string,
+  frameworkId: FrameworkId,
+  result: FrameworkResult,
+): Promise<void> {
+  await prisma.frameworkResultRecord.upsert({
+    where: {
+      runId_frameworkId: {
+        runId,
+        frameworkId,
+      },
+    },
+    update: {
+      resultJson: result as unknown as Prisma.InputJsonValue,
+      applicabilityScore: result.applicabilityScore,
+      confidence: result.confidence,
+    },
+    create: {
+      runId,
+      frameworkId,
+      resultJson: result as unknown as Prisma.InputJsonValue,
+      applicabilityScore: result.applicabilityScore,
+      confidence: result.confidence,
+    },
+  });
+}
+
+async function persistRunSynthesis(
+  runId: string,
+  brief: DecisionBrief,
+  frameworkResults: FrameworkResult[],
+  warnings: string[],
+  scoringInputs: DecisionScoringInputs,
+  { signal, endedAt = new Date() }: { signal?: AbortSignal; endedAt?: Date } = {},
+): Promise<SynthesisSummary> {
+  const propagatedMap = buildPropagatedDecisionMap(frameworkResults);
+  const synthesis = buildSynthesisSummary(brief, frameworkResults, propagatedMap, warnings, scoringInputs);
 
   await prisma.$transaction(async (transaction) => {
     await transaction.mapEdgeRecord.deleteMany({ where: { runId } });
@@ -349,17 +682,77 @@ async function processRun(runId: string): Promise<void> {
       });
     }
 
-    await transaction.analysisRun.update({
-      where: { id: runId },
+    // A pause or cancel that landed during synthesis wins; throwing rolls back the map edges too.
+    const completed = await transaction.analysisRun.updateMany({
+      where: { id: runId, status: { notIn: INTERRUPTED_RUN_STATUSES } },
       data: {
         propagatedMap: propagatedMap as unknown as Prisma.InputJsonValue,
         synthesis: synthesis as unknown as Prisma.InputJsonValue,
         status: "complete",
-        endedAt: new Date(),
+        endedAt,
         error: null,
       },
     });
+    if (completed.count === 0) {
+      throw new OperationCancelledError(`Analysis run ${runId} was interrupted`);
+    }
   });
+
+  throwIfAborted(signal, `Analysis run ${runId}`);
+  publishRunEvent(runId, { type: "synthesis", synthesis });
+  publishRunEvent(runId, { type: "status", status: "complete", error: null });
+  return synthesis;
+}
+
+async function handleRunFailure(runId: string, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : "Unknown analysis failure";
+  const attempts = await getRunAttempts(runId);
+
+  if (attempts >= env.ANALYSIS_MAX_ATTEMPTS) {
+    await settleRun(runId, { status: "failed", error: `${message} (after ${attempts} attempts)`, endedAt: new Date() });
+    return;
+  }
+
+  // The lease stays dated until the retry is due, so orphan sweeps leave the run alone during backoff.
+  const delayMs = retryDelayMs(attempts);
+  const requeued = await settleRun(runId, {
+    status: "queued",
+    error: message,
+    leaseOwner: null,
+    leaseExpiresAt: new Date(Date.now() + delayMs),
+  });
+  if (!requeued) {
+    return;
+  }
+
+  const retryTimer = setTimeout(() => {
+    void enqueueAnalysisRun(runId);
+  }, delayMs);
+  retryTimer.unref?.();
+}
+
+async function executeLeasedRun(runId: string): Promise<void> {
+  if (!(await claimRunLease(runId))) {
+    return;
+  }
+
+  const controller = new AbortController();
+  runControllers.set(runId, controller);
+  const stopHeartbeat = startLeaseHeartbeat(runId);
+  try {
+    await processRun(runId, controller);
+  } catch (error) {
+    // Nothing from this attempt may keep calling providers once it is requeued or failed.
+    controller.abort();
+    // Paused or cancelled runs already carry their final status.
+    if (!(error instanceof OperationCancelledError)) {
+      await handleRunFailure(runId, error);
+    }
+  } finally {
+    runControllers.delete(runId);
+    stopHeartbeat();
+    await releaseRunLease(runId);
+  }
 }
 
 export async function enqueueAnalysisRun(runId: string): Promise<void> {
@@ -367,14 +760,8 @@ export async function enqueueAnalysisRun(runId: string): Promise<void> {
     return;
   }
 
-  const promise = processRun(runId)
-    .catch(async (error) => {
-      await markRun(
-        runId,
-        "failed",
-        error instanceof Error ? error.message : "Unknown analysis failure",
-      );
-    })
+  const promise = executeLeasedRun(runId)
+    .catch(() => undefined)
     .finally(() => {
       runPromises.delete(runId);
     });
@@ -383,7 +770,271 @@ export async function enqueueAnalysisRun(runId: string): Promise<void> {
   void promise;
 }
 
-export async function getRunStatusSnapshot(runId: string) {
+/**
+ * Re-enqueues active runs whose lease has lapsed, e.g. after a server restart.
+ * Runs that already used every attempt are marked failed instead.
+ */
+export async function recoverOrphanedRuns(): Promise<string[]> {
+  const orphaned = await findOrphanedRuns();
+  const resumed: string[] = [];
+
+  for (const run of orphaned) {
+    if (runPromises.has(run.id)) {
+      continue;
+    }
+
+    if (run.attempts >= env.ANALYSIS_MAX_ATTEMPTS) {
+      await settleRun(run.id, {
+        status: "failed",
+        error: `Analysis run abandoned after ${run.attempts} interrupted attempts.`,
+        endedAt: new Date(),
+      });
+      continue;
+    }
+
+    await enqueueAnalysisRun(run.id);
+    resumed.push(run.id);
+  }
+
+  return resumed;
+}
+
+export function startAnalysisQueueSweeper(): void {
+  if (queueSweeper) {
+    return;
+  }
+
+  void recoverOrphanedRuns().catch(() => undefined);
+  queueSweeper = setInterval(() => {
+    void recoverOrphanedRuns().catch(() => undefined);
+  }, env.ANALYSIS_LEASE_MS);
+  queueSweeper.unref?.();
+}
+
+async function requireRunStatus(runId: string): Promise<RunStatus> {
+  const run = await prisma.analysisRun.findUnique({
+    where: { id: runId },
+    select: { status: true },
+  });
+
+  if (!run) {
+    throw new AppError({
+      code: "NOT_FOUND",
+      status: 404,
+      message: `Run ${runId} not found`,
+    });
+  }
+
+  return run.status as RunStatus;
+}
+
+function invalidRunTransition(runId: string, status: RunStatus, action: string): AppError {
+  return new AppError({
+    code: "INVALID_STATE",
+    status: 409,
+    message: `Cannot ${action} run ${runId} while it is ${status}`,
+  });
+}
+
+export async function cancelAnalysisRun(runId: string) {
+  const status = await requireRunStatus(runId);
+  if (!ACTIVE_RUN_STATUSES.includes(status) && status !== "paused") {
+    throw invalidRunTransition(runId, status, "cancel");
+  }
+
+  await markRun(runId, "cancelled");
+  runControllers.get(runId)?.abort();
+  return getRunStatusSnapshot(runId);
+}
+
+export async function pauseAnalysisRun(runId: string) {
+  const status = await requireRunStatus(runId);
+  if (!ACTIVE_RUN_STATUSES.includes(status)) {
+    throw invalidRunTransition(runId, status, "pause");
+  }
+
+  await markRun(runId, "paused");
+  runControllers.get(runId)?.abort();
+  return getRunStatusSnapshot(runId);
+}
+
+export async function resumeAnalysisRun(runId: string) {
+  const status = await requireRunStatus(runId);
+  if (status !== "paused") {
+    throw invalidRunTransition(runId, status, "resume");
+  }
+
+  // A resume is a user decision, so the run gets a fresh attempt budget.
+  await prisma.analysisRun.update({
+    where: { id: runId },
+    data: {
+      status: "queued",
+      error: null,
+      attempts: 0,
+    },
+  });
+  publishRunEvent(runId, { type: "status", status: "queued", error: null });
+  await enqueueAnalysisRun(runId);
+  return getRunStatusSnapshot(runId);
+}
+
+function storedSynthesisWarnings(synthesis: Prisma.JsonValue): string[] {
+  const rawWarnings =
+    synthesis && typeof synthesis === "object" && !Array.isArray(synthesis)
+      ? synthesis.warnings
+      : undefined;
+  const parsed = synthesisSummarySchema.shape.warnings.safeParse(rawWarnings);
+
+  return parsed.success ? parsed.data ?? [] : [];
+}
+
+export interface FrameworkRetryResult {
+  result: FrameworkResult;
+  synthesis: SynthesisSummary;
+  warning: string | null;
+}
+
+/**
+ * Re-executes one framework of a completed run, replaces its stored result, and
+ * rebuilds the propagated map and synthesis from the full result set. Holds the
+ * run's lease throughout, so a concurrent retry of the same run is refused.
+ */
+export async function retryFrameworkInRun(
+  runId: string,
+  frameworkId: FrameworkId,
+  providerPreference?: ProviderPreference,
+): Promise<FrameworkRetryResult> {
+  const run = await prisma.analysisRun.findUnique({
+    where: { id: runId },
+    include: {
+      decision: {
+        include: {
+          briefs: {
+            orderBy: { version: "desc" },
+          },
+        },
+      },
+    },
+  });
+
+  if (!run) {
+    throw new AppError({
+      code: "NOT_FOUND",
+      status: 404,
+      message: `Run ${runId} not found`,
+    });
+  }
+
+  if (run.status !== "complete") {
+    throw invalidRunTransition(runId, run.status as RunStatus, "retry a framework in");
+  }
+
+  const selectedFrameworkIds = parseFrameworkIds(run.frameworkIds);
+  if (!selectedFrameworkIds.includes(frameworkId)) {
+    throw new AppError({
+      code: "BAD_REQUEST",
+      status: 400,
+      message: `Framework ${frameworkId} is not part of run ${runId}`,
+    });
+  }
+
+  const briefRecord = findRunBriefRecord(run);
+  if (!briefRecord) {
+    throw new AppError({
+      code: "INVALID_STATE",
+      status: 400,
+      message: "Decision brief not found. Run refinement first.",
+    });
+  }
+
+  const brief = decisionBriefSchema.parse(briefRecord.briefJson);
+
+  // Two retries on one run would race to rebuild the same synthesis.
+  if (!(await claimCompletedRunLease(runId))) {
+    throw new AppError({
+      code: "INVALID_STATE",
+      status: 409,
+      message: `Run ${runId} is already retrying a framework`,
+    });
+  }
+
+  const stopHeartbeat = startLeaseHeartbeat(runId);
+  try {
+    const decisionThemes = inferDecisionThemeVector(brief);
+    const resolvedLLM = providerPreference
+      ? await resolveLLM(providerPreference)
+      : await resolveRunLLM(run.provider);
+
+    // An explicit retry preference overrides the routing policy, except for frameworks routed to simulation.
+    const policyRoute = routeFramework(frameworkId, resolvedLLM);
+    const routed: RoutedFramework =
+      providerPreference && policyRoute.llm
+        ? {
+            route: { rule: "retry", target: providerPreference, provider: resolvedLLM.provider, model: resolvedLLM.model },
+            llm: resolvedLLM,
+          }
+        : policyRoute;
+
+    publishRunEvent(runId, {
+      type: "framework_started",
+      frameworkId,
+      provider: routed.route.provider ?? "simulation",
+      model: routed.route.model,
+    });
+    const analyzed = await analyzeFrameworkForRun(
+      frameworkId,
+      brief,
+      decisionThemes,
+      routed,
+      { decisionId: run.decisionId, runId },
+      // A retry asks for a fresh answer, so it never reuses a cached one.
+      { ensemble: parseEnsembleConfig(run.ensemble), bypassCache: true },
+    );
+    const normalized = enforceFrameworkVisualizationIntegrity(analyzed.result, brief, decisionThemes);
+    await persistFrameworkResult(runId, frameworkId, normalized.result);
+    publishRunEvent(runId, { type: "framework_completed", frameworkId, result: normalized.result });
+
+    const persistedResults = await loadPersistedFrameworkResults(runId);
+    const frameworkResults = selectedFrameworkIds
+      .map((id) => persistedResults.get(id))
+      .filter((result): result is FrameworkResult => Boolean(result));
+
+    // Warnings are tagged with "(frameworkId)", so the retried framework's old ones can be dropped.
+    const warnings = storedSynthesisWarnings(run.synthesis).filter(
+      (warning) => !warning.includes(`(${frameworkId})`),
+    );
+    const retryWarnings = [analyzed.warning, normalized.warning].filter(
+      (warning): warning is string => Boolean(warning),
+    );
+    retryWarnings.forEach((message) => publishRunEvent(runId, { type: "warning", message }));
+
+    const synthesis = await persistRunSynthesis(
+      runId,
+      brief,
+      frameworkResults,
+      [...warnings, ...retryWarnings],
+      parseScoringInputs(run.decision),
+      // The run finished when its analysis did; a retry does not move that.
+      { endedAt: run.endedAt ?? undefined },
+    );
+
+    return {
+      result: normalized.result,
+      synthesis,
+      warning: retryWarnings.length > 0 ? retryWarnings.join(" ") : null,
+    };
+  } finally {
+    stopHeartbeat();
+    await releaseRunLease(runId);
+  }
+}
+
+export async function listRunFrameworkResults(runId: string): Promise<FrameworkResult[]> {
+  const persisted = await loadPersistedFrameworkResults(runId);
+  return [...persisted.values()];
+}
+
+export async function getRunStatusSnapshot(runId: string): Promise<DecisionRunStatus | null> {
   const run = await prisma.analysisRun.findUnique({
     where: { id: runId },
     include: {
@@ -404,7 +1055,7 @@ export async function getRunStatusSnapshot(runId: string) {
     decisionId: run.decisionId,
     provider: run.provider,
     model: run.model ?? null,
-    status: run.status,
+    status: run.status as RunStatus,
     error: run.error,
     startedAt: run.startedAt?.toISOString() ?? null,
     endedAt: run.endedAt?.toISOString() ?? null,
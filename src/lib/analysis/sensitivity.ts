@@ -0,0 +1,405 @@
+import { scoreDecisionMatrix, shortLabel } from "@/lib/analysis/criteria";
+import { HEURISTIC_THEME_KEYS, RISK_TOLERANCE_LEVELS, rankHeuristicOptions } from "@/lib/analysis/heuristic";
+import { SYNTHESIS_COMPOSITE_WEIGHTS } from "@/lib/analysis/propagation";
+import type {
+  DecisionMatrix,
+  HeuristicScoringModel,
+  HeuristicScoringWeights,
+  ScoringModel,
+  SensitivityAnalysis,
+  SensitivityFactor,
+  SensitivityFactorKind,
+  SensitivityPoint,
+  ThemeVector,
+} from "@/lib/types";
+import { clamp, round } from "@/lib/utils/math";
+
+/** How far each theme component is pushed either way for the tornado chart. */
+const THEME_PERTURBATION = 0.2;
+
+/** Relative change applied to scoring weights and criterion weights for the tornado chart. */
+const WEIGHT_PERTURBATION = 0.5;
+
+/** Points sampled across the low–high range when measuring how often the pick holds. */
+const HOLD_SAMPLES = 21;
+
+/** Coarse steps per direction when scanning for a break-even point, before bisecting. */
+const SCAN_STEPS = 50;
+const BISECTION_STEPS = 24;
+
+/**
+ * Viable options and their scores, at the precision the recommendation ranks
+ * them and in the order its stable sort breaks ties.
+ */
+type OptionScores = Array<{ option: string; score: number }>;
+
+interface FactorSpec {
+  id: string;
+  label: string;
+  kind: SensitivityFactorKind;
+  baseline: number;
+  /** Tornado range. */
+  low: number;
+  high: number;
+  /** Range searched for a break-even point. */
+  domain: [number, number];
+  /** Discrete factors are only evaluated at whole values, which index these labels. */
+  levels?: string[];
+  evaluate: (value: number) => OptionScores;
+}
+
+const THEME_LABELS: Record<keyof ThemeVector, string> = {
+  risk: "Risk theme",
+  urgency: "Urgency theme",
+  opportunity: "Opportunity theme",
+  uncertainty: "Uncertainty theme",
+  resources: "Resources theme",
+  stakeholderImpact: "Stakeholder impact theme",
+};
+
+const WEIGHT_LABELS: Record<keyof HeuristicScoringWeights, string> = {
+  riskFit: "Risk fit weight",
+  opportunityFit: "Opportunity fit weight",
+  resourceFit: "Resource fit weight",
+  stakeholderFit: "Stakeholder fit weight",
+  optionality: "Optionality weight",
+  uncertaintyPenalty: "Uncertainty penalty weight",
+};
+
+const COMPOSITE_WEIGHT_LABELS: Record<keyof typeof SYNTHESIS_COMPOSITE_WEIGHTS, string> = {
+  applicability: "Framework applicability weight",
+  confidence: "Framework confidence weight",
+};
+
+/** The first of the highest scores wins, as it does in the recommendation. */
+function leaderOf(scores: OptionScores): string {
+  return scores.reduce((best, entry) => (entry.score > best.score ? entry : best)).option;
+}
+
+function marginOf(scores: OptionScores, recommended: string): number {
+  const own = scores.find((entry) => entry.option === recommended)?.score ?? 0;
+  const rival = Math.max(...scores.filter((entry) => entry.option !== recommended).map((entry) => entry.score));
+  return round(own - rival, 4);
+}
+
+function formatValue(spec: FactorSpec, value: number): string {
+  if (spec.levels) {
+    return spec.levels[value];
+  }
+
+  return spec.kind === "criterion_weight" ? `${Math.round(value * 100)}%` : value.toFixed(2);
+}
+
+function pointAt(spec: FactorSpec, value: number, recommended: string): SensitivityPoint {
+  const scores = spec.evaluate(value);
+  return {
+    value: round(value, 4),
+    label: formatValue(spec, value),
+    leader: leaderOf(scores),
+    margin: marginOf(scores, recommended),
+  };
+}
+
+function holdShare(spec: FactorSpec, recommended: string): number {
+  const samples = spec.levels
+    ? spec.levels.map((_, index) => index)
+    : Array.from(
+        { length: HOLD_SAMPLES },
+        (_, index) => spec.low + ((spec.high - spec.low) * index) / (HOLD_SAMPLES - 1),
+      );
+  const held = samples.filter((value) => leaderOf(spec.evaluate(value)) === recommended).length;
+  return round(held / samples.length, 3);
+}
+
+function discreteBreakEven(spec: FactorSpec, recommended: string): SensitivityFactor["breakEven"] {
+  const flips = (spec.levels ?? [])
+    .map((label, index) => ({ value: index, label, leader: leaderOf(spec.evaluate(index)) }))
+    .filter((entry) => entry.leader !== recommended)
+    .sort((a, b) => Math.abs(a.value - spec.baseline) - Math.abs(b.value - spec.baseline));
+
+  return flips[0] ?? null;
+}
+
+/** Scans outward from the baseline in both directions, then bisects to the first value where the leader changes. */
+function findBreakEven(spec: FactorSpec, recommended: string): SensitivityFactor["breakEven"] {
+  if (spec.levels) {
+    return discreteBreakEven(spec, recommended);
+  }
+
+  const holds = (value: number) => leaderOf(spec.evaluate(value)) === recommended;
+  let nearest: number | null = null;
+
+  for (const edge of spec.domain) {
+    const distance = edge - spec.baseline;
+    let previous = spec.baseline;
+
+    for (let step = 1; step <= SCAN_STEPS && distance !== 0; step += 1) {
+      const value = spec.baseline + (distance * step) / SCAN_STEPS;
+      if (holds(value)) {
+        previous = value;
+        continue;
+      }
+
+      let held = previous;
+      let flipped = value;
+      for (let iteration = 0; iteration < BISECTION_STEPS; iteration += 1) {
+        const middle = (held + flipped) / 2;
+        if (holds(middle)) {
+          held = middle;
+        } else {
+          flipped = middle;
+        }
+      }
+
+      if (nearest === null || Math.abs(flipped - spec.baseline) < Math.abs(nearest - spec.baseline)) {
+        nearest = flipped;
+      }
+      break;
+    }
+  }
+
+  if (nearest === null) {
+    return null;
+  }
+
+  return {
+    value: round(nearest, 3),
+    label: formatValue(spec, nearest),
+    leader: leaderOf(spec.evaluate(nearest)),
+  };
+}
+
+function heuristicFactors(model: HeuristicScoringModel): FactorSpec[] {
+  const scoreWith = (
+    themes: ThemeVector,
+    riskTolerance = model.riskTolerance,
+    weights = model.weights,
+  ): OptionScores => rankHeuristicOptions({ ...model, themes, riskTolerance, weights });
+
+  const themeFactors = HEURISTIC_THEME_KEYS.map((key): FactorSpec => {
+    const baseline = model.themes[key];
+    return {
+      id: `theme.${key}`,
+      label: THEME_LABELS[key],
+      kind: "theme",
+      baseline,
+      low: clamp(baseline - THEME_PERTURBATION),
+      high: clamp(baseline + THEME_PERTURBATION),
+      domain: [0, 1],
+      evaluate: (value) => scoreWith({ ...model.themes, [key]: value }),
+    };
+  });
+
+  const riskLevels = RISK_TOLERANCE_LEVELS.map(String);
+  const riskFactor: FactorSpec = {
+    id: "risk_tolerance",
+    label: "Risk tolerance",
+    kind: "risk_tolerance",
+    baseline: RISK_TOLERANCE_LEVELS.indexOf(model.riskTolerance),
+    low: 0,
+    high: riskLevels.length - 1,
+    domain: [0, riskLevels.length - 1],
+    levels: riskLevels,
+    evaluate: (value) => scoreWith(model.themes, RISK_TOLERANCE_LEVELS[value]),
+  };
+
+  const weightFactors = (Object.keys(model.weights) as Array<keyof HeuristicScoringWeights>).map(
+    (key): FactorSpec => {
+      const baseline = model.weights[key];
+      return {
+        id: `weight.${key}`,
+        label: WEIGHT_LABELS[key],
+        kind: "scoring_weight",
+        baseline,
+        low: baseline * (1 - WEIGHT_PERTURBATION),
+        high: baseline * (1 + WEIGHT_PERTURBATION),
+        domain: [0, 1],
+        evaluate: (value) => scoreWith(model.themes, model.riskTolerance, { ...model.weights, [key]: value }),
+      };
+    },
+  );
+
+  return [...themeFactors, riskFactor, ...weightFactors];
+}
+
+/**
+ * Moves one criterion's share of the total weight to `share` and scales the
+ * others proportionally, so the shares still sum to 1.
+ */
+function withShare(shares: number[], index: number, share: number): number[] {
+  const rest = 1 - shares[index];
+  return shares.map((value, position) => (position === index ? share : (value * (1 - share)) / rest));
+}
+
+function criterionFactor(
+  id: string,
+  label: string,
+  baseline: number,
+  evaluate: (value: number) => OptionScores,
+): FactorSpec {
+  return {
+    id: `criterion.${id}`,
+    label: `${shortLabel(label, 60)} weight`,
+    kind: "criterion_weight",
+    baseline,
+    low: baseline * (1 - WEIGHT_PERTURBATION),
+    high: clamp(baseline * (1 + WEIGHT_PERTURBATION)),
+    domain: [0, 1],
+    evaluate,
+  };
+}
+
+function matrixFactors(matrix: DecisionMatrix): FactorSpec[] {
+  const weighted = matrix.criteria.filter((criterion) => !criterion.hard && criterion.weight > 0);
+  const totalWeight = weighted.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const shares = weighted.map((criterion) => criterion.weight / totalWeight);
+
+  // With a single weighted criterion its share is fixed at 100%.
+  if (weighted.length < 2) {
+    return [];
+  }
+
+  return weighted.map((criterion, index) =>
+    criterionFactor(criterion.id, criterion.label, shares[index], (value) => {
+      const adjusted = withShare(shares, index, value);
+      const weights = new Map(weighted.map((entry, position) => [entry.id, adjusted[position]]));
+
+      return scoreDecisionMatrix({
+        ...matrix,
+        criteria: matrix.criteria.map((entry) =>
+          weights.has(entry.id) ? { ...entry, weight: weights.get(entry.id)! } : entry,
+        ),
+      })
+        .filter((option) => !option.eliminatedBy)
+        .map((option) => ({ option: option.option, score: option.score }));
+    }),
+  );
+}
+
+function ahpFactors(model: Extract<ScoringModel, { method: "ahp" }>): FactorSpec[] {
+  const { result, eliminatedBy } = model;
+  const shares = result.criteria.map((criterion) => criterion.priority);
+
+  if (shares.length < 2) {
+    return [];
+  }
+
+  // Local priorities keep the options' original order, which is how computeAhp breaks ties.
+  const viable = result.byCriterion[0].priorities.filter((option) => !eliminatedBy[option.id]);
+
+  return result.criteria.map((criterion, index) =>
+    criterionFactor(criterion.id, criterion.label, shares[index], (value) => {
+      const adjusted = withShare(shares, index, value);
+      return viable
+        .map((option) => ({
+          option: option.id,
+          score: round(
+            result.byCriterion.reduce(
+              (sum, entry, position) =>
+                sum + adjusted[position] * (entry.priorities.find((local) => local.id === option.id)?.priority ?? 0),
+              0,
+            ),
+            4,
+          ),
+        }))
+        .sort((a, b) => b.score - a.score);
+    }),
+  );
+}
+
+/**
+ * The synthesis composite weights only rank frameworks for the top list and its
+ * recommended actions. No scoring method reads them, so these bars stay flat and
+ * show that the pick does not depend on how frameworks are ranked.
+ */
+function compositeWeightFactors(baseline: OptionScores): FactorSpec[] {
+  return (Object.keys(SYNTHESIS_COMPOSITE_WEIGHTS) as Array<keyof typeof SYNTHESIS_COMPOSITE_WEIGHTS>).map(
+    (key): FactorSpec => {
+      const weight = SYNTHESIS_COMPOSITE_WEIGHTS[key];
+      return {
+        id: `composite.${key}`,
+        label: COMPOSITE_WEIGHT_LABELS[key],
+        kind: "composite_weight",
+        baseline: weight,
+        low: weight * (1 - WEIGHT_PERTURBATION),
+        high: clamp(weight * (1 + WEIGHT_PERTURBATION)),
+        domain: [0, 1],
+        evaluate: () => baseline,
+      };
+    },
+  );
+}
+
+function factorSpecs(model: ScoringModel): FactorSpec[] {
+  if (model.method === "ahp") {
+    return ahpFactors(model);
+  }
+
+  if (model.method === "weighted_criteria") {
+    return matrixFactors(model.matrix);
+  }
+
+  return heuristicFactors(model);
+}
+
+function baselineScores(model: ScoringModel): OptionScores {
+  if (model.method === "ahp") {
+    return model.result.options
+      .filter((option) => !model.eliminatedBy[option.id])
+      .map((option) => ({ option: option.id, score: option.priority }));
+  }
+
+  if (model.method === "weighted_criteria") {
+    return scoreDecisionMatrix(model.matrix)
+      .filter((option) => !option.eliminatedBy)
+      .map((option) => ({ option: option.option, score: option.score }));
+  }
+
+  return rankHeuristicOptions(model);
+}
+
+/**
+ * Perturbs each input of the active scoring method one at a time and re-scores
+ * the options, without new LLM calls. Returns null when fewer than two options
+ * are still viable, since nothing could take the lead.
+ */
+export function analyzeSensitivity(model: ScoringModel): SensitivityAnalysis | null {
+  const baseline = baselineScores(model);
+  if (baseline.length < 2) {
+    return null;
+  }
+
+  const recommendedOption = leaderOf(baseline);
+  const runnerUp = leaderOf(baseline.filter((entry) => entry.option !== recommendedOption));
+
+  const factors = [...factorSpecs(model), ...compositeWeightFactors(baseline)]
+    .map((spec): SensitivityFactor => {
+      const low = pointAt(spec, spec.low, recommendedOption);
+      const high = pointAt(spec, spec.high, recommendedOption);
+
+      return {
+        id: spec.id,
+        label: spec.label,
+        kind: spec.kind,
+        baseline: { value: round(spec.baseline, 4), label: formatValue(spec, spec.baseline) },
+        low,
+        high,
+        swing: round(Math.abs(high.margin - low.margin), 4),
+        breakEven: findBreakEven(spec, recommendedOption),
+        holdShare: holdShare(spec, recommendedOption),
+      };
+    })
+    .sort((a, b) => b.swing - a.swing);
+
+  return {
+    method: model.method,
+    recommendedOption,
+    runnerUp,
+    baselineMargin: marginOf(baseline, recommendedOption),
+    robustness:
+      factors.length === 0
+        ? 1
+        : round(factors.reduce((sum, factor) => sum + factor.holdShare, 0) / factors.length, 3),
+    factors,
+  };
+}
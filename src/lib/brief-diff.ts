@@ -0,0 +1,69 @@
+import type {
+  BriefDiff,
+  BriefListChange,
+  BriefListField,
+  BriefScalarChange,
+  BriefScalarField,
+  DecisionBriefVersion,
+} from "@/lib/types";
+import { round } from "@/lib/utils/math";
+
+const SCALAR_FIELDS: BriefScalarField[] = [
+  "title",
+  "decisionStatement",
+  "context",
+  "deadline",
+  "riskTolerance",
+  "budget",
+  "timeLimit",
+];
+
+const LIST_FIELDS: BriefListField[] = [
+  "alternatives",
+  "constraints",
+  "stakeholders",
+  "successCriteria",
+  "assumptions",
+  "openQuestions",
+  "executionSteps",
+];
+
+// Whitespace-only edits are not changes; a reworded item shows as one removed and one added.
+function normalize(value: string | null): string | null {
+  return value === null ? null : value.trim();
+}
+
+function diffList(field: BriefListField, from: string[], to: string[]): BriefListChange | null {
+  const fromItems = new Set(from.map((item) => item.trim()));
+  const toItems = new Set(to.map((item) => item.trim()));
+  const added = [...toItems].filter((item) => !fromItems.has(item));
+  const removed = [...fromItems].filter((item) => !toItems.has(item));
+
+  return added.length > 0 || removed.length > 0 ? { field, added, removed } : null;
+}
+
+export function diffBriefVersions(
+  decisionId: string,
+  from: DecisionBriefVersion,
+  to: DecisionBriefVersion,
+): BriefDiff {
+  const scalarChanges = SCALAR_FIELDS.flatMap((field): BriefScalarChange[] => {
+    const before = normalize(from.brief[field]);
+    const after = normalize(to.brief[field]);
+    return before === after ? [] : [{ field, from: before, to: after }];
+  });
+  const listChanges = LIST_FIELDS.flatMap((field) => {
+    const change = diffList(field, from.brief[field], to.brief[field]);
+    return change ? [change] : [];
+  });
+
+  return {
+    decisionId,
+    fromVersion: from.version,
+    toVersion: to.version,
+    scalarChanges,
+    listChanges,
+    qualityScoreDelta:
+      from.qualityScore === null || to.qualityScore === null ? null : round(to.qualityScore - from.qualityScore, 3),
+  };
+}
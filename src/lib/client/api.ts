@@ -14,6 +14,18 @@ export class ApiError extends Error {
   }
 }
 
+async function toApiError(response: Response): Promise<ApiError> {
+  const data = await response
+    .json()
+    .catch(() => ({ error: `Request failed: ${response.status}` }));
+  return new ApiError(
+    data.error ?? `Request failed: ${response.status}`,
+    response.status,
+    data.code,
+    data.details,
+  );
+}
+
 export async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
   const response = await fetch(url, {
     ...init,
@@ -24,16 +36,60 @@ export async function fetchJson<T>(url: string, init?: RequestInit): Promise<T>
   });
 
   if (!response.ok) {
-    const data = await response
-      .json()
-      .catch(() => ({ error: `Request failed: ${response.status}` }));
-    throw new ApiError(
-      data.error ?? `Request failed: ${response.status}`,
-      response.status,
-      data.code,
-      data.details,
-    );
+    throw await toApiError(response);
   }
 
   return response.json() as Promise<T>;
 }
+
+/**
+ * Sends a JSON request whose response is a server-sent event stream and calls
+ * onEvent with each event's parsed data. EventSource cannot POST, so the body
+ * is read directly. Resolves when the server closes the stream.
+ */
+export async function fetchEventStream<T>(
+  url: string,
+  init: RequestInit,
+  onEvent: (event: T) => void,
+): Promise<void> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      "content-type": "application/json",
+      accept: "text/event-stream",
+      ...(init.headers ?? {}),
+    },
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  if (!response.body) {
+    throw new ApiError("Streaming is not supported by this browser.", response.status);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += value ?? "";
+
+    const frames = buffer.split("\n\n");
+    buffer = done ? "" : (frames.pop() ?? "");
+    for (const frame of frames) {
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) {
+        onEvent(JSON.parse(data) as T);
+      }
+    }
+
+    if (done) {
+      return;
+    }
+  }
+}
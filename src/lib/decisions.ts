@@ -2,15 +2,41 @@ import crypto from "node:crypto";
 
 import type { Prisma } from "@prisma/client";
 
+import { alignMonteCarloModel, runMonteCarlo } from "@/lib/analysis/monte-carlo";
+import type { ComparableRun } from "@/lib/analysis/run-comparison";
 import { prisma } from "@/lib/db";
 import { AppError } from "@/lib/errors";
+import {
+  ahpModelSchema,
+  decisionBriefSchema,
+  decisionMatrixSchema,
+  frameworkResultSchema,
+  monteCarloModelSchema,
+  scenarioRankingSchema,
+  synthesisSummarySchema,
+  whatIfOverridesSchema,
+  type DecisionLibraryQuery,
+} from "@/lib/schemas";
 import type {
+  AhpModel,
+  BriefAuthor,
   ClarificationAnswer,
   ClarificationGenerationSnapshot,
   ClarificationQuestion,
   CreateDecisionInput,
   DecisionBrief,
+  DecisionBriefVersion,
+  DecisionLibraryItem,
+  DecisionLibraryPage,
+  DecisionMatrix,
   DecisionRunStatus,
+  DecisionRunSummary,
+  DecisionScenario,
+  DecisionScoringInputs,
+  MonteCarloModel,
+  MonteCarloResult,
+  PropagatedDecisionMap,
+  RunStatus,
 } from "@/lib/types";
 
 interface ClarificationRecordShape {
@@ -23,6 +49,10 @@ interface ClarificationRecordShape {
   status: string;
 }
 
+const LIBRARY_SCAN_BATCH_SIZE = 50;
+/** Bounds a filtered library request to 500 rows; a short page then carries a cursor to continue from. */
+const LIBRARY_MAX_SCAN_BATCHES = 10;
+
 interface SaveClarificationAnswersResult {
   qaPairs: Array<{ question: string; answer: string }>;
   unmatchedIds: string[];
@@ -142,11 +172,126 @@ export async function createDecision(input: CreateDecisionInput) {
   return prisma.decision.create({
     data: {
       title,
+      prompt: input.prompt.trim(),
       rawInput: input as unknown as Prisma.InputJsonValue,
     },
   });
 }
 
+function matchesLibraryFilters(item: DecisionLibraryItem, query: DecisionLibraryQuery): boolean {
+  if (query.status) {
+    const latestStatus = item.latestRun?.status ?? "none";
+    if (latestStatus !== query.status) {
+      return false;
+    }
+  }
+
+  if (typeof query.minQuality === "number" || typeof query.maxQuality === "number") {
+    const qualityScore = item.latestBrief?.qualityScore;
+    if (typeof qualityScore !== "number") {
+      return false;
+    }
+    if (typeof query.minQuality === "number" && qualityScore < query.minQuality) {
+      return false;
+    }
+    if (typeof query.maxQuality === "number" && qualityScore > query.maxQuality) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export async function listDecisions(query: DecisionLibraryQuery): Promise<DecisionLibraryPage> {
+  const where: Prisma.DecisionWhereInput = query.q
+    ? {
+        OR: [{ title: { contains: query.q } }, { prompt: { contains: query.q } }],
+      }
+    : {};
+  const orderBy: Prisma.DecisionOrderByWithRelationInput[] = [
+    { [query.sort]: query.order },
+    { id: query.order },
+  ];
+
+  // Run-status and quality filters target the latest run/brief, which Prisma cannot express as a
+  // relation filter, so candidate rows are scanned in batches until the page is filled or the
+  // scan budget runs out.
+  const matched: DecisionLibraryItem[] = [];
+  let cursor = query.cursor;
+  let exhausted = false;
+  let scannedBatches = 0;
+
+  while (!exhausted && matched.length <= query.limit && scannedBatches < LIBRARY_MAX_SCAN_BATCHES) {
+    scannedBatches += 1;
+    const batch = await prisma.decision.findMany({
+      where,
+      orderBy,
+      take: LIBRARY_SCAN_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      include: {
+        briefs: {
+          orderBy: { version: "desc" },
+          take: 1,
+          select: { version: true, qualityScore: true },
+        },
+        runs: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+        },
+      },
+    });
+
+    exhausted = batch.length < LIBRARY_SCAN_BATCH_SIZE;
+
+    for (const record of batch) {
+      cursor = record.id;
+      const latestBrief = record.briefs[0];
+      const latestRun = record.runs[0];
+      const item: DecisionLibraryItem = {
+        id: record.id,
+        title: record.title,
+        prompt: record.prompt,
+        createdAt: record.createdAt.toISOString(),
+        updatedAt: record.updatedAt.toISOString(),
+        latestBrief: latestBrief
+          ? { version: latestBrief.version, qualityScore: latestBrief.qualityScore ?? null }
+          : null,
+        latestRun: latestRun
+          ? {
+              runId: latestRun.id,
+              status: latestRun.status as RunStatus,
+              provider: latestRun.provider,
+              model: latestRun.model ?? null,
+              frameworkCount: Array.isArray(latestRun.frameworkIds) ? latestRun.frameworkIds.length : 0,
+              createdAt: latestRun.createdAt.toISOString(),
+              endedAt: latestRun.endedAt?.toISOString() ?? null,
+            }
+          : null,
+      };
+
+      if (!matchesLibraryFilters(item, query)) {
+        continue;
+      }
+
+      matched.push(item);
+      if (matched.length > query.limit) {
+        break;
+      }
+    }
+  }
+
+  const items = matched.slice(0, query.limit);
+  let nextCursor: string | null = null;
+  if (matched.length > query.limit) {
+    nextCursor = items.at(-1)?.id ?? null;
+  } else if (!exhausted) {
+    // The scan budget ran out first: resume after the last row scanned, not the last row matched.
+    nextCursor = cursor ?? null;
+  }
+
+  return { items, nextCursor };
+}
+
 export async function getDecisionWithLatestBrief(decisionId: string) {
   return prisma.decision.findUnique({
     where: { id: decisionId },
@@ -369,6 +514,8 @@ export async function saveDecisionBrief(
   decisionId: string,
   brief: DecisionBrief,
   qualityScore: number,
+  author: BriefAuthor = "model",
+  restoredFromVersion: number | null = null,
 ) {
   const latest = await prisma.decisionBriefRecord.findFirst({
     where: { decisionId },
@@ -381,8 +528,207 @@ export async function saveDecisionBrief(
       version: (latest?.version ?? 0) + 1,
       briefJson: brief as unknown as Prisma.InputJsonValue,
       qualityScore,
+      author,
+      restoredFromVersion,
+    },
+  });
+}
+
+interface DecisionBriefRow {
+  version: number;
+  author: string;
+  qualityScore: number | null;
+  restoredFromVersion: number | null;
+  createdAt: Date;
+  briefJson: unknown;
+}
+
+/** Null when the stored brief no longer matches the schema, e.g. a row written by an older release. */
+function toDecisionBriefVersion(record: DecisionBriefRow): DecisionBriefVersion | null {
+  const brief = decisionBriefSchema.safeParse(record.briefJson);
+  if (!brief.success) {
+    return null;
+  }
+
+  return {
+    version: record.version,
+    author: record.author as BriefAuthor,
+    qualityScore: record.qualityScore,
+    restoredFromVersion: record.restoredFromVersion,
+    createdAt: record.createdAt.toISOString(),
+    brief: brief.data,
+  };
+}
+
+/** All readable brief versions, newest first. Versions whose stored brief no longer parses are left out. */
+export async function listDecisionBriefs(decisionId: string): Promise<DecisionBriefVersion[]> {
+  const records = await prisma.decisionBriefRecord.findMany({
+    where: { decisionId },
+    orderBy: { version: "desc" },
+  });
+
+  return records.flatMap((record) => toDecisionBriefVersion(record) ?? []);
+}
+
+export async function getDecisionBriefVersion(decisionId: string, version: number): Promise<DecisionBriefVersion> {
+  const record = await prisma.decisionBriefRecord.findUnique({
+    where: { decisionId_version: { decisionId, version } },
+  });
+
+  if (!record) {
+    throw new AppError({
+      code: "NOT_FOUND",
+      status: 404,
+      message: `Brief version ${version} not found for decision ${decisionId}`,
+    });
+  }
+
+  const parsed = toDecisionBriefVersion(record);
+  if (!parsed) {
+    throw new AppError({
+      code: "INVALID_STATE",
+      status: 409,
+      message: `Brief version ${version} of decision ${decisionId} is stored in a format that can no longer be read`,
+    });
+  }
+
+  return parsed;
+}
+
+/** A stored matrix that no longer parses is treated as absent, so scoring falls back to the heuristic. */
+export function parseStoredDecisionMatrix(value: unknown): DecisionMatrix | null {
+  const parsed = decisionMatrixSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+export function parseStoredAhpModel(value: unknown): AhpModel | null {
+  const parsed = ahpModelSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+export function parseScoringInputs(decision: { decisionMatrix: unknown; ahpModel: unknown }): DecisionScoringInputs {
+  return {
+    matrix: parseStoredDecisionMatrix(decision.decisionMatrix),
+    ahp: parseStoredAhpModel(decision.ahpModel),
+  };
+}
+
+export async function saveDecisionMatrix(decisionId: string, matrix: DecisionMatrix): Promise<DecisionMatrix> {
+  await prisma.decision.update({
+    where: { id: decisionId },
+    data: { decisionMatrix: matrix as unknown as Prisma.InputJsonValue },
+  });
+
+  return matrix;
+}
+
+export async function saveAhpModel(decisionId: string, model: AhpModel): Promise<AhpModel> {
+  await prisma.decision.update({
+    where: { id: decisionId },
+    data: { ahpModel: model as unknown as Prisma.InputJsonValue },
+  });
+
+  return model;
+}
+
+export function parseStoredMonteCarloModel(value: unknown): MonteCarloModel | null {
+  const parsed = monteCarloModelSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+const MONTE_CARLO_CACHE_SIZE = 32;
+
+// Process-wide: results and export read the same saved model over and over, and a run is fully determined by it.
+const monteCarloResults = new Map<string, MonteCarloResult | null>();
+
+/**
+ * Runs the saved model over the options still in the brief; null when none is
+ * saved, none of its options remain, or the aligned model no longer runs (for
+ * example, dropping an option produced a non-finite outcome). Results are
+ * cached by the aligned model, which includes its seed and trial count.
+ */
+export function simulateStoredMonteCarloModel(value: unknown, options: string[]): MonteCarloResult | null {
+  const stored = parseStoredMonteCarloModel(value);
+  const model = stored ? alignMonteCarloModel(stored, options) : null;
+  if (!model || model.alternatives.length === 0) {
+    return null;
+  }
+
+  const key = crypto.createHash("sha256").update(JSON.stringify(model)).digest("hex");
+  const cached = monteCarloResults.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let result: MonteCarloResult | null;
+  try {
+    result = runMonteCarlo(model);
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      throw error;
+    }
+    result = null;
+  }
+
+  if (monteCarloResults.size >= MONTE_CARLO_CACHE_SIZE) {
+    monteCarloResults.delete(monteCarloResults.keys().next().value!);
+  }
+  monteCarloResults.set(key, result);
+  return result;
+}
+
+export async function saveMonteCarloModel(decisionId: string, model: MonteCarloModel): Promise<MonteCarloModel> {
+  await prisma.decision.update({
+    where: { id: decisionId },
+    data: { monteCarloModel: model as unknown as Prisma.InputJsonValue },
+  });
+
+  return model;
+}
+
+function toDecisionScenario(record: {
+  id: string;
+  name: string;
+  runId: string | null;
+  overrides: unknown;
+  ranking: unknown;
+  createdAt: Date;
+}): DecisionScenario {
+  return {
+    id: record.id,
+    name: record.name,
+    runId: record.runId,
+    overrides: whatIfOverridesSchema.parse(record.overrides),
+    ranking: scenarioRankingSchema.parse(record.ranking),
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/** Saved what-if scenarios, newest first. */
+export async function listDecisionScenarios(decisionId: string): Promise<DecisionScenario[]> {
+  const records = await prisma.decisionScenarioRecord.findMany({
+    where: { decisionId },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return records.map(toDecisionScenario);
+}
+
+export async function createDecisionScenario(
+  decisionId: string,
+  scenario: Pick<DecisionScenario, "name" | "runId" | "overrides" | "ranking">,
+): Promise<DecisionScenario> {
+  const record = await prisma.decisionScenarioRecord.create({
+    data: {
+      decisionId,
+      runId: scenario.runId,
+      name: scenario.name,
+      overrides: scenario.overrides as unknown as Prisma.InputJsonValue,
+      ranking: scenario.ranking as unknown as Prisma.InputJsonValue,
     },
   });
+
+  return toDecisionScenario(record);
 }
 
 export async function getLatestCompleteRun(decisionId: string) {
@@ -405,3 +751,72 @@ export async function getLatestCompleteRun(decisionId: string) {
     },
   });
 }
+
+export async function listDecisionRuns(decisionId: string): Promise<DecisionRunSummary[]> {
+  const runs = await prisma.analysisRun.findMany({
+    where: { decisionId },
+    include: {
+      frameworkResults: {
+        select: { id: true },
+      },
+    },
+    orderBy: [{ createdAt: "desc" }],
+  });
+
+  return runs.map((run) => {
+    const frameworkIds = Array.isArray(run.frameworkIds) ? run.frameworkIds : [];
+
+    return {
+      runId: run.id,
+      decisionId: run.decisionId,
+      provider: run.provider,
+      model: run.model ?? null,
+      status: run.status as RunStatus,
+      error: run.error,
+      createdAt: run.createdAt.toISOString(),
+      startedAt: run.startedAt?.toISOString() ?? null,
+      endedAt: run.endedAt?.toISOString() ?? null,
+      durationMs:
+        run.startedAt && run.endedAt ? run.endedAt.getTime() - run.startedAt.getTime() : null,
+      frameworkCount: frameworkIds.length,
+      completedFrameworkCount: run.frameworkResults.length,
+      briefVersion: run.briefVersion ?? null,
+    };
+  });
+}
+
+export async function getComparableRun(decisionId: string, runId: string): Promise<ComparableRun> {
+  const run = await prisma.analysisRun.findFirst({
+    where: { id: runId, decisionId },
+    include: {
+      frameworkResults: {
+        orderBy: {
+          applicabilityScore: "desc",
+        },
+      },
+    },
+  });
+
+  if (!run) {
+    throw new AppError({
+      code: "NOT_FOUND",
+      status: 404,
+      message: `Run ${runId} not found for decision ${decisionId}`,
+    });
+  }
+
+  if (run.status !== "complete") {
+    throw new AppError({
+      code: "INVALID_STATE",
+      status: 400,
+      message: `Run ${runId} is ${run.status}; only complete runs can be compared`,
+    });
+  }
+
+  return {
+    runId: run.id,
+    frameworkResults: run.frameworkResults.map((record) => frameworkResultSchema.parse(record.resultJson)),
+    propagatedMap: (run.propagatedMap as unknown as PropagatedDecisionMap | null) ?? null,
+    synthesis: run.synthesis ? synthesisSummarySchema.parse(run.synthesis) : null,
+  };
+}
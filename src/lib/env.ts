@@ -6,9 +6,40 @@ const envSchema = z.object({
   ANTHROPIC_MODEL: z.string().default("claude-sonnet-4-5"),
   OLLAMA_BASE_URL: z.string().url().default("http://localhost:11434"),
   OLLAMA_MODEL: z.string().default("llama3.2"),
+  OPENAI_COMPAT_BASE_URL: z.string().url().optional(),
+  OPENAI_COMPAT_API_KEY: z.string().optional(),
+  OPENAI_COMPAT_MODEL: z.string().default(""),
+  OPENAI_COMPAT_ROLE: z.enum(["off", "local", "hosted"]).default("off"),
+  OPENAI_COMPAT_RESPONSE_FORMAT: z.enum(["json_schema", "json_object"]).default("json_schema"),
   LLM_AUTO_PRIORITY: z.enum(["local_first", "hosted_first"]).default("local_first"),
+  LLM_PROVIDER_ORDER: z.string().optional(),
+  // Parsed here so malformed JSON fails with the variable's name; the registry validates the entries.
+  LLM_PROVIDERS: z
+    .string()
+    .transform((value, context) => {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch (error) {
+        context.addIssue({
+          code: "custom",
+          message: `LLM_PROVIDERS must be a JSON array of providers: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        return z.NEVER;
+      }
+    })
+    .optional(),
+  LLM_PRICE_TABLE: z.string().optional(),
+  LLM_FIXTURE_MODE: z.enum(["off", "record", "replay"]).default("off"),
+  LLM_FIXTURE_DIR: z.string().min(1).default("tests/fixtures/llm"),
+  LLM_CIRCUIT_FAILURE_THRESHOLD: z.coerce.number().int().min(1).max(50).default(3),
+  LLM_CIRCUIT_COOLDOWN_MS: z.coerce.number().int().min(1000).max(3600000).default(30000),
+  LLM_CACHE_TTL_MS: z.coerce.number().int().min(0).max(7776000000).default(604800000),
+  LLM_CACHE_MAX_BYTES: z.coerce.number().int().min(1).default(50000000),
   ANALYSIS_MAX_CONCURRENCY: z.coerce.number().int().min(1).max(16).default(4),
   ANALYSIS_LLM_SCOPE: z.enum(["deep_only", "all"]).default("deep_only"),
+  ANALYSIS_ROUTING_POLICY: z.string().optional(),
+  ANALYSIS_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(10).default(3),
+  ANALYSIS_LEASE_MS: z.coerce.number().int().min(5000).max(600000).default(90000),
 });
 
 export const env = envSchema.parse({
@@ -17,7 +48,24 @@ export const env = envSchema.parse({
   ANTHROPIC_MODEL: process.env.ANTHROPIC_MODEL,
   OLLAMA_BASE_URL: process.env.OLLAMA_BASE_URL,
   OLLAMA_MODEL: process.env.OLLAMA_MODEL,
+  OPENAI_COMPAT_BASE_URL: process.env.OPENAI_COMPAT_BASE_URL || undefined,
+  OPENAI_COMPAT_API_KEY: process.env.OPENAI_COMPAT_API_KEY,
+  OPENAI_COMPAT_MODEL: process.env.OPENAI_COMPAT_MODEL,
+  OPENAI_COMPAT_ROLE: process.env.OPENAI_COMPAT_ROLE,
+  OPENAI_COMPAT_RESPONSE_FORMAT: process.env.OPENAI_COMPAT_RESPONSE_FORMAT,
   LLM_AUTO_PRIORITY: process.env.LLM_AUTO_PRIORITY,
+  LLM_PROVIDER_ORDER: process.env.LLM_PROVIDER_ORDER,
+  LLM_PROVIDERS: process.env.LLM_PROVIDERS || undefined,
+  LLM_PRICE_TABLE: process.env.LLM_PRICE_TABLE || undefined,
+  LLM_FIXTURE_MODE: process.env.LLM_FIXTURE_MODE,
+  LLM_FIXTURE_DIR: process.env.LLM_FIXTURE_DIR || undefined,
+  LLM_CIRCUIT_FAILURE_THRESHOLD: process.env.LLM_CIRCUIT_FAILURE_THRESHOLD,
+  LLM_CIRCUIT_COOLDOWN_MS: process.env.LLM_CIRCUIT_COOLDOWN_MS,
+  LLM_CACHE_TTL_MS: process.env.LLM_CACHE_TTL_MS,
+  LLM_CACHE_MAX_BYTES: process.env.LLM_CACHE_MAX_BYTES,
   ANALYSIS_MAX_CONCURRENCY: process.env.ANALYSIS_MAX_CONCURRENCY,
   ANALYSIS_LLM_SCOPE: process.env.ANALYSIS_LLM_SCOPE,
+  ANALYSIS_ROUTING_POLICY: process.env.ANALYSIS_ROUTING_POLICY || undefined,
+  ANALYSIS_MAX_ATTEMPTS: process.env.ANALYSIS_MAX_ATTEMPTS,
+  ANALYSIS_LEASE_MS: process.env.ANALYSIS_LEASE_MS,
 });
@@ -2,6 +2,7 @@ export type AppErrorCode =
   | "PROVIDER_UNAVAILABLE"
   | "MODEL_OUTPUT_INVALID"
   | "MODEL_TIMEOUT"
+  | "CANCELLED"
   | "INVALID_STATE"
   | "NOT_FOUND"
   | "BAD_REQUEST"
@@ -45,6 +46,14 @@ export class ProviderUnavailableError extends AppError {
   }
 }
 
+/** Raised without calling the provider while its circuit breaker is open. */
+export class CircuitOpenError extends ProviderUnavailableError {
+  constructor(message = "Provider is temporarily skipped after repeated failures", details?: unknown) {
+    super(message, details);
+    this.name = "CircuitOpenError";
+  }
+}
+
 export class ModelOutputInvalidError extends AppError {
   constructor(message = "Model response was invalid", details?: unknown) {
     super({
@@ -69,6 +78,24 @@ export class ModelTimeoutError extends AppError {
   }
 }
 
+export class OperationCancelledError extends AppError {
+  constructor(message = "Operation was cancelled", details?: unknown) {
+    super({
+      code: "CANCELLED",
+      message,
+      status: 409,
+      details,
+    });
+    this.name = "OperationCancelledError";
+  }
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined, context: string): void {
+  if (signal?.aborted) {
+    throw new OperationCancelledError(`${context} was cancelled`);
+  }
+}
+
 export function toAppError(error: unknown, fallbackMessage = "Internal server error"): AppError {
   if (error instanceof AppError) {
     return error;
@@ -95,19 +122,33 @@ export async function withTimeout<T>(
   task: Promise<T>,
   timeoutMs: number,
   context: string,
+  signal?: AbortSignal,
 ): Promise<T> {
   return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OperationCancelledError(`${context} was cancelled`));
+    };
     const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
       reject(new ModelTimeoutError(`${context} timed out after ${timeoutMs}ms`));
     }, timeoutMs);
 
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     task
       .then((value) => {
         clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
         resolve(value);
       })
       .catch((error) => {
         clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
         reject(error);
       });
   });
@@ -0,0 +1,299 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { z } from "zod";
+
+import { runTextChecks, TEXT_CHECK_IDS, type TextCheckId, type TextCheckResult } from "@/lib/evaluation/text-checks";
+import { analyzeFrameworkWithLLM, type LLMFrameworkAnalysisContext } from "@/lib/frameworks/analyzers";
+import { scoreTop12Representation, TOP12_RUBRIC_VERSION } from "@/lib/frameworks/representation-rubric";
+import { isTop12FrameworkId } from "@/lib/frameworks/visual-contracts";
+import { inferDecisionThemeVector } from "@/lib/analysis/theme";
+import { builtinPromptTemplate, type ResolvedPromptTemplate } from "@/lib/prompts/templates";
+import { decisionBriefSchema } from "@/lib/schemas";
+import type { FrameworkId, PromptTemplateRef, Top12VisualizationData } from "@/lib/types";
+import { round } from "@/lib/utils/math";
+
+export const EVALUATION_REPORT_VERSION = 1;
+
+const goldenBriefFixtureSchema = z.object({
+  id: z.string().trim().min(1).max(120),
+  description: z.string().optional(),
+  brief: decisionBriefSchema,
+});
+
+export type GoldenBriefFixture = z.infer<typeof goldenBriefFixtureSchema>;
+
+export interface EvaluationTarget {
+  provider: string;
+  llm: Omit<LLMFrameworkAnalysisContext, "prompt">;
+}
+
+export interface EvaluationCaseResult {
+  /** Stable across reports: `${briefId}:${frameworkId}:${provider}`. */
+  caseId: string;
+  briefId: string;
+  frameworkId: FrameworkId;
+  provider: string;
+  model: string;
+  status: "ok" | "error";
+  error?: string;
+  rubric: { score: number; passed: boolean } | null;
+  textChecks: TextCheckResult[];
+  /** Mean of the text checks, averaged 50/50 with the rubric score for top-12 frameworks. */
+  score: number;
+  latencyMs: number;
+}
+
+export interface EvaluationProviderSummary {
+  provider: string;
+  cases: number;
+  errors: number;
+  meanScore: number;
+  meanRubricScore: number | null;
+  meanTextChecks: Record<TextCheckId, number>;
+}
+
+export interface EvaluationReport {
+  reportVersion: number;
+  rubricVersion: number;
+  generatedAt: string;
+  prompt: PromptTemplateRef;
+  briefIds: string[];
+  frameworkIds: FrameworkId[];
+  cases: EvaluationCaseResult[];
+  summary: EvaluationProviderSummary[];
+}
+
+export interface EvaluationCaseDelta {
+  caseId: string;
+  baselineScore: number | null;
+  currentScore: number | null;
+  delta: number | null;
+}
+
+export interface EvaluationComparison {
+  baselineGeneratedAt: string;
+  baselinePrompt: PromptTemplateRef;
+  cases: EvaluationCaseDelta[];
+  meanDelta: number;
+  regressions: string[];
+}
+
+/** Score drops larger than this are reported as regressions. */
+const REGRESSION_THRESHOLD = 0.05;
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : round(values.reduce((sum, value) => sum + value, 0) / values.length, 3);
+}
+
+export async function loadGoldenBriefs(dir: string): Promise<GoldenBriefFixture[]> {
+  const files = (await readdir(dir)).filter((file) => file.endsWith(".json")).sort();
+
+  return Promise.all(
+    files.map(async (file) => {
+      const parsed = goldenBriefFixtureSchema.safeParse(JSON.parse(await readFile(path.join(dir, file), "utf8")));
+      if (!parsed.success) {
+        throw new Error(`Golden brief ${file} is invalid: ${parsed.error.message}`);
+      }
+      return parsed.data;
+    }),
+  );
+}
+
+async function evaluateCase(
+  fixture: GoldenBriefFixture,
+  frameworkId: FrameworkId,
+  target: EvaluationTarget,
+  prompt: ResolvedPromptTemplate,
+): Promise<EvaluationCaseResult> {
+  const base = {
+    caseId: `${fixture.id}:${frameworkId}:${target.provider}`,
+    briefId: fixture.id,
+    frameworkId,
+    provider: target.provider,
+    model: target.llm.model,
+  };
+  const startedAt = Date.now();
+
+  try {
+    const result = await analyzeFrameworkWithLLM(frameworkId, fixture.brief, inferDecisionThemeVector(fixture.brief), {
+      ...target.llm,
+      prompt,
+    });
+    const textChecks = runTextChecks(result, fixture.brief);
+    const textScore = mean(textChecks.map((check) => check.score));
+    const rubric = isTop12FrameworkId(frameworkId)
+      ? scoreTop12Representation(frameworkId, result.vizPayload.data as Top12VisualizationData)
+      : null;
+
+    return {
+      ...base,
+      status: "ok",
+      rubric: rubric ? { score: rubric.score, passed: rubric.passed } : null,
+      textChecks,
+      score: rubric ? round((rubric.score + textScore) / 2, 3) : textScore,
+      latencyMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      ...base,
+      status: "error",
+      error: error instanceof Error ? error.message : "Unknown evaluation failure",
+      rubric: null,
+      textChecks: [],
+      score: 0,
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+}
+
+function summarize(cases: EvaluationCaseResult[], providers: string[]): EvaluationProviderSummary[] {
+  return providers.map((provider) => {
+    const providerCases = cases.filter((entry) => entry.provider === provider);
+    const scored = providerCases.filter((entry) => entry.status === "ok");
+    const rubricScores = scored.flatMap((entry) => (entry.rubric ? [entry.rubric.score] : []));
+
+    return {
+      provider,
+      cases: providerCases.length,
+      errors: providerCases.length - scored.length,
+      meanScore: mean(providerCases.map((entry) => entry.score)),
+      meanRubricScore: rubricScores.length > 0 ? mean(rubricScores) : null,
+      meanTextChecks: Object.fromEntries(
+        TEXT_CHECK_IDS.map((id) => [
+          id,
+          mean(scored.flatMap((entry) => entry.textChecks.filter((check) => check.id === id).map((check) => check.score))),
+        ]),
+      ) as Record<TextCheckId, number>,
+    };
+  });
+}
+
+/**
+ * Runs every golden brief through analyzeFrameworkWithLLM for each framework and
+ * provider. Cases run sequentially so latency figures are comparable between
+ * reports; a failing case is scored 0 rather than aborting the suite.
+ */
+export async function runPromptEvaluation(options: {
+  briefs: GoldenBriefFixture[];
+  frameworkIds: FrameworkId[];
+  targets: EvaluationTarget[];
+  prompt?: ResolvedPromptTemplate;
+}): Promise<EvaluationReport> {
+  const prompt = options.prompt ?? builtinPromptTemplate("framework_analysis");
+  const cases: EvaluationCaseResult[] = [];
+
+  for (const fixture of options.briefs) {
+    for (const frameworkId of options.frameworkIds) {
+      for (const target of options.targets) {
+        cases.push(await evaluateCase(fixture, frameworkId, target, prompt));
+      }
+    }
+  }
+
+  return {
+    reportVersion: EVALUATION_REPORT_VERSION,
+    rubricVersion: TOP12_RUBRIC_VERSION,
+    generatedAt: new Date().toISOString(),
+    prompt: prompt.ref,
+    briefIds: options.briefs.map((fixture) => fixture.id),
+    frameworkIds: options.frameworkIds,
+    cases,
+    summary: summarize(
+      cases,
+      options.targets.map((target) => target.provider),
+    ),
+  };
+}
+
+export function compareEvaluationReports(
+  baseline: EvaluationReport,
+  current: EvaluationReport,
+): EvaluationComparison {
+  const baselineScores = new Map(baseline.cases.map((entry) => [entry.caseId, entry.score]));
+  const currentScores = new Map(current.cases.map((entry) => [entry.caseId, entry.score]));
+  const caseIds = [...new Set([...currentScores.keys(), ...baselineScores.keys()])];
+
+  const cases = caseIds.map((caseId) => {
+    const baselineScore = baselineScores.get(caseId) ?? null;
+    const currentScore = currentScores.get(caseId) ?? null;
+    return {
+      caseId,
+      baselineScore,
+      currentScore,
+      delta: baselineScore === null || currentScore === null ? null : round(currentScore - baselineScore, 3),
+    };
+  });
+  const deltas = cases.flatMap((entry) => (entry.delta === null ? [] : [entry.delta]));
+
+  return {
+    baselineGeneratedAt: baseline.generatedAt,
+    baselinePrompt: baseline.prompt,
+    cases,
+    meanDelta: mean(deltas),
+    regressions: cases
+      .filter((entry) => entry.delta !== null && entry.delta < -REGRESSION_THRESHOLD)
+      .map((entry) => entry.caseId),
+  };
+}
+
+function formatPromptRef(ref: PromptTemplateRef): string {
+  return `${ref.key}@${ref.scope} v${ref.version}`;
+}
+
+export function formatEvaluationReportMarkdown(
+  report: EvaluationReport,
+  comparison?: EvaluationComparison,
+): string {
+  const lines = [
+    "# Prompt Evaluation Report",
+    "",
+    `Generated: ${report.generatedAt}`,
+    `Prompt: ${formatPromptRef(report.prompt)} · Rubric v${report.rubricVersion}`,
+    `Briefs: ${report.briefIds.join(", ")}`,
+    `Frameworks: ${report.frameworkIds.join(", ")}`,
+    "",
+    "## Summary",
+    "",
+    `| Provider | Cases | Errors | Score | Rubric | ${TEXT_CHECK_IDS.join(" | ")} |`,
+    `| --- | --- | --- | --- | --- | ${TEXT_CHECK_IDS.map(() => "---").join(" | ")} |`,
+    ...report.summary.map(
+      (entry) =>
+        `| ${entry.provider} | ${entry.cases} | ${entry.errors} | ${entry.meanScore.toFixed(3)} | ${
+          entry.meanRubricScore === null ? "—" : entry.meanRubricScore.toFixed(3)
+        } | ${TEXT_CHECK_IDS.map((id) => entry.meanTextChecks[id].toFixed(3)).join(" | ")} |`,
+    ),
+    "",
+    "## Cases",
+    "",
+    "| Case | Model | Score | Rubric | Notes |",
+    "| --- | --- | --- | --- | --- |",
+    ...report.cases.map((entry) => {
+      const notes =
+        entry.status === "error"
+          ? `error: ${entry.error}`
+          : entry.textChecks
+              .filter((check) => check.score < 1)
+              .map((check) => `${check.id}: ${check.detail}`)
+              .join("<br>");
+      return `| ${entry.caseId} | ${entry.model} | ${entry.score.toFixed(3)} | ${
+        entry.rubric ? entry.rubric.score.toFixed(3) : "—"
+      } | ${notes.replaceAll("|", "\\|")} |`;
+    }),
+  ];
+
+  if (comparison) {
+    lines.push(
+      "",
+      "## Compared With Baseline",
+      "",
+      `Baseline: ${comparison.baselineGeneratedAt} (${formatPromptRef(comparison.baselinePrompt)})`,
+      `Mean delta: ${comparison.meanDelta >= 0 ? "+" : ""}${comparison.meanDelta.toFixed(3)}`,
+      `Regressions (> ${REGRESSION_THRESHOLD} drop): ${
+        comparison.regressions.length > 0 ? comparison.regressions.join(", ") : "none"
+      }`,
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
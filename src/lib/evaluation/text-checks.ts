@@ -0,0 +1,104 @@
+import { tokenOverlap } from "@/lib/frameworks/scoring";
+import type { DecisionBrief, FrameworkResult } from "@/lib/types";
+import { round } from "@/lib/utils/math";
+
+export const TEXT_CHECK_IDS = [
+  "specificity",
+  "alternatives_coverage",
+  "constraints_coverage",
+  "duplicate_insights",
+] as const;
+
+export type TextCheckId = (typeof TEXT_CHECK_IDS)[number];
+
+export interface TextCheckResult {
+  id: TextCheckId;
+  label: string;
+  /** 0..1, higher is better. */
+  score: number;
+  detail: string;
+}
+
+type AnalysisText = Pick<FrameworkResult, "insights" | "actions" | "risks" | "assumptions">;
+
+const SPECIFIC_OVERLAP = 0.2;
+const MENTION_OVERLAP = 0.5;
+const DUPLICATE_OVERLAP = 0.8;
+
+function outputItems(output: AnalysisText): string[] {
+  return [...output.insights, ...output.actions, ...output.risks];
+}
+
+// A line is specific when it quantifies something or reuses the brief's own vocabulary.
+function specificity(output: AnalysisText, brief: DecisionBrief): TextCheckResult {
+  const items = outputItems(output);
+  const vocabulary = [
+    brief.decisionStatement,
+    ...brief.alternatives,
+    ...brief.constraints,
+    ...brief.stakeholders,
+    ...brief.successCriteria,
+  ].join(" ");
+  const generic = items.filter(
+    (item) => !/\d/.test(item) && tokenOverlap(item, vocabulary) < SPECIFIC_OVERLAP,
+  );
+
+  return {
+    id: "specificity",
+    label: "Specificity",
+    score: items.length === 0 ? 0 : round(1 - generic.length / items.length, 3),
+    detail:
+      generic.length === 0
+        ? `All ${items.length} insights/actions/risks reference the brief or quantify.`
+        : `${generic.length}/${items.length} lines are generic, e.g. "${generic[0]}".`,
+  };
+}
+
+function coverage(
+  id: "alternatives_coverage" | "constraints_coverage",
+  label: string,
+  expected: string[],
+  output: AnalysisText,
+): TextCheckResult {
+  const corpus = [...outputItems(output), ...output.assumptions].join(" ");
+  const missing = expected.filter((entry) => tokenOverlap(entry, corpus) < MENTION_OVERLAP);
+
+  return {
+    id,
+    label,
+    score: expected.length === 0 ? 1 : round(1 - missing.length / expected.length, 3),
+    detail:
+      missing.length === 0
+        ? `All ${expected.length} mentioned.`
+        : `Not mentioned: ${missing.join("; ")}.`,
+  };
+}
+
+function duplicates(output: AnalysisText): TextCheckResult {
+  const items = outputItems(output);
+  const pairs: string[] = [];
+
+  for (let left = 0; left < items.length; left += 1) {
+    for (let right = left + 1; right < items.length; right += 1) {
+      if (tokenOverlap(items[left], items[right]) >= DUPLICATE_OVERLAP) {
+        pairs.push(`"${items[left]}" ≈ "${items[right]}"`);
+      }
+    }
+  }
+
+  return {
+    id: "duplicate_insights",
+    label: "No duplicate insights",
+    score: items.length === 0 ? 0 : round(Math.max(0, 1 - pairs.length / items.length), 3),
+    detail: pairs.length === 0 ? "No near-duplicate lines." : `${pairs.length} near-duplicate pair(s): ${pairs[0]}`,
+  };
+}
+
+export function runTextChecks(output: AnalysisText, brief: DecisionBrief): TextCheckResult[] {
+  return [
+    specificity(output, brief),
+    coverage("alternatives_coverage", "Mentions brief alternatives", brief.alternatives, output),
+    coverage("constraints_coverage", "Mentions brief constraints", brief.constraints, output),
+    duplicates(output),
+  ];
+}
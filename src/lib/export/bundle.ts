@@ -3,6 +3,7 @@ import { PassThrough } from "node:stream";
 import archiver from "archiver";
 import sharp from "sharp";
 
+import { monteCarloBinLabel } from "@/lib/analysis/monte-carlo";
 import { isTop12FrameworkId } from "@/lib/frameworks/visual-contracts";
 import { renderMarkdownReport } from "@/lib/export/markdown";
 import { sha1 } from "@/lib/utils/hash";
@@ -293,11 +294,12 @@ function renderTop12FrameworkSvg(result: FrameworkResult): string | null {
 
   if (kind === "monte_carlo_simulation") {
     const typed = data as unknown as MonteCarloVizData;
-    const rows = typed.bins.map((bin) => ({
-      label: `${Math.round(bin.binStart * 100)}-${Math.round(bin.binEnd * 100)}%`,
-      value: bin.count,
-    }));
-    return frameSvg(result.frameworkName, "Outcome Distribution", barBody(rows, "Probability Bin", "Frequency"));
+    const rows = typed.bins.map((bin) => ({ label: monteCarloBinLabel(typed, bin), value: bin.count }));
+    return frameSvg(
+      result.frameworkName,
+      "Outcome Distribution",
+      barBody(rows, typed.outcome?.label ?? "Probability Bin", "Frequency"),
+    );
   }
 
   if (kind === "consequences_model") {
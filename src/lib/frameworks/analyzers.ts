@@ -1,15 +1,20 @@
 import { getFrameworkDefinition } from "@/lib/frameworks/registry";
 import { computeThemeFitScore } from "@/lib/frameworks/fit-ranking";
-import { buildCanonicalVisualizationIfTop12 } from "@/lib/frameworks/visual-builders";
+import {
+  buildCanonicalTop12Visualization,
+  buildCanonicalVisualizationIfTop12,
+} from "@/lib/frameworks/visual-builders";
 import { isTop12FrameworkId, validateFrameworkViz } from "@/lib/frameworks/visual-contracts";
 import { blendThemeVectors, normalizeThemeVector } from "@/lib/analysis/theme";
 import type { LLMAdapter } from "@/lib/llm/base";
+import { builtinPromptTemplate, renderPromptTemplate, type ResolvedPromptTemplate } from "@/lib/prompts/templates";
 import { frameworkAnalysisLLMSchema } from "@/lib/schemas";
 import type {
   DecisionBrief,
   FrameworkDefinition,
   FrameworkId,
   FrameworkResult,
+  MonteCarloVizData,
   ThemeVector,
 } from "@/lib/types";
 import { TOP_12_DEEP_FRAMEWORKS } from "@/lib/types";
@@ -35,6 +40,11 @@ export interface LLMFrameworkAnalysisContext {
   adapter: LLMAdapter;
   provider: string;
   model: string;
+  signal?: AbortSignal;
+  /** Defaults to the built-in framework_analysis template. */
+  prompt?: ResolvedPromptTemplate;
+  /** Defaults to 0.15; ensemble samples run hotter so they can disagree. */
+  temperature?: number;
 }
 
 interface FrameworkSimulationOptions {
@@ -418,39 +428,23 @@ function deepChasm(context: AnalyzerContext, seed: string): AnalyzerResultParts
   };
 }
 
-function deepMonteCarlo(context: AnalyzerContext, seed: string): AnalyzerResultParts {
-  const simulations = 350;
-  const outcomes: number[] = [];
-
-  for (let index = 0; index < simulations; index += 1) {
-    const base = seededValue(seed, `mc-${index}`, 0.25, 0.85);
-    const noise = seededValue(seed, `noise-${index}`, -0.2, 0.2);
-    outcomes.push(clamp(base + noise));
-  }
-
-  outcomes.sort((a, b) => a - b);
-
-  const bins = 10;
-  const histogram = Array.from({ length: bins }, (_, index) => ({
-    binStart: round(index / bins, 2),
-    binEnd: round((index + 1) / bins, 2),
-    count: 0,
-  }));
-
-  for (const outcome of outcomes) {
-    const bucket = Math.min(Math.floor(outcome * bins), bins - 1);
-    histogram[bucket].count += 1;
-  }
-
-  const percentile = (p: number): number => outcomes[Math.floor((simulations - 1) * p)];
+/**
+ * Without a user-defined model there is nothing real to sample, so the insights read the
+ * theme-based approximation the canonical histogram draws. Saving a Monte Carlo model on the
+ * decision replaces both with a simulation of the user's own numbers when results are read.
+ */
+function deepMonteCarlo(context: AnalyzerContext): AnalyzerResultParts {
+  const vizPayload = buildCanonicalTop12Visualization("monte_carlo_simulation", context.brief, context.decisionThemes);
+  const data = vizPayload.data as MonteCarloVizData;
 
   return {
     insights: [
-      `P50 outcome estimate: ${Math.round(percentile(0.5) * 100)}%.`,
-      `P90 downside boundary: ${Math.round(percentile(0.1) * 100)}%.`,
+      `Theme-based P50 outcome estimate: ${Math.round(data.p50 * 100)}%.`,
+      `P10 downside boundary: ${Math.round(data.p10 * 100)}%.`,
       "Distribution spread indicates how robust the decision is under uncertainty.",
     ],
     actions: [
+      "Model each option's uncertain variables and an outcome formula to simulate your own numbers.",
       "Define contingency actions for the bottom 10% scenario.",
       "Use median scenario for base planning and P75 for stretch targets.",
       "Refresh simulation inputs after each major milestone.",
@@ -461,18 +455,7 @@ function deepMonteCarlo(context: AnalyzerContext, seed: string): AnalyzerResultP
       "Overconfidence in central estimate can mask tail risks.",
     ],
     assumptions: fallbackAssumptions(context.brief),
-    vizPayload: {
-      type: "histogram",
-      title: "Monte Carlo Outcome Distribution",
-      xLabel: "Outcome Probability",
-      yLabel: "Frequency",
-      data: {
-        bins: histogram,
-        p10: round(percentile(0.1), 3),
-        p50: round(percentile(0.5), 3),
-        p90: round(percentile(0.9), 3),
-      },
-    },
+    vizPayload,
   };
 }
 
@@ -710,31 +693,24 @@ export async function analyzeFrameworkWithLLM(
   const framework = getFrameworkDefinition(frameworkId);
   const fitScore = computeThemeFitScore(framework.themeWeights, decisionThemes);
 
-  const generated = await llm.adapter.generateJson({
-    systemPrompt: [
-      "You are a senior decision-analysis specialist.",
-      "Given a framework definition and a decision brief, return strict JSON matching the schema.",
-      "Keep outputs concise, specific, and execution-oriented.",
-      "Scores must be in [0,1].",
-      "Use visualization payloads that match the data shape and are readable by the UI.",
-      "For top-12 deep frameworks, visuals are canonicalized in code; focus your strongest quality on insights/actions/risks.",
-      "Keep list sizes minimal to preserve reliability: insights=3, actions=3, risks=2, assumptions=2.",
-      "Keep each sentence under 180 characters.",
-    ].join("\n"),
-    userPrompt: [
-      `Framework: ${framework.name} (${framework.id})`,
-      `Framework category: ${framework.category}`,
-      `Framework description: ${framework.description}`,
-      `Framework deep supported: ${framework.deepSupported}`,
-      `Framework theme weights: ${JSON.stringify(framework.themeWeights)}`,
-      `Decision themes: ${JSON.stringify(decisionThemes)}`,
-      `Decision brief compact: ${JSON.stringify(compactBriefForPrompt(brief))}`,
-      "Visualization data should include at most 6 points/items.",
-      "Return JSON only.",
-    ].join("\n"),
+  const prompt = llm.prompt ?? builtinPromptTemplate("framework_analysis");
+
+  const { data: generated, cacheHit } = await llm.adapter.generateJson({
+    ...renderPromptTemplate(prompt, {
+      frameworkName: framework.name,
+      frameworkId: framework.id,
+      frameworkCategory: framework.category,
+      frameworkDescription: framework.description,
+      frameworkDeepSupported: String(framework.deepSupported),
+      frameworkThemeWeights: JSON.stringify(framework.themeWeights),
+      decisionThemes: JSON.stringify(decisionThemes),
+      briefCompact: JSON.stringify(compactBriefForPrompt(brief)),
+    }),
     schema: frameworkAnalysisLLMSchema,
-    temperature: 0.15,
+    schemaName: "frameworkAnalysisLLMSchema",
+    temperature: llm.temperature ?? 0.15,
     maxTokens: 1600,
+    signal: llm.signal,
   });
 
   const blendedApplicability = clamp(generated.applicabilityScore * 0.8 + fitScore * 0.2);
@@ -757,6 +733,8 @@ export async function analyzeFrameworkWithLLM(
       mode: "llm",
       provider: llm.provider,
       model: llm.model,
+      prompt: prompt.ref,
+      ...(cacheHit ? { cacheHit } : {}),
     },
   };
 }
@@ -793,6 +771,8 @@ export function enforceFrameworkVisualizationIntegrity(
         warning: result.generation?.warning
           ? `${result.generation.warning} ${warning}`
           : warning,
+        prompt: result.generation?.prompt,
+        cacheHit: result.generation?.cacheHit,
       },
     },
     warning,
@@ -432,7 +432,6 @@ const seeds: RegistrySeed[] = [
 export const FRAMEWORK_REGISTRY: FrameworkDefinition[] = seeds.map((seed) => ({
   ...seed,
   deepSupported: TOP_12_DEEP_FRAMEWORKS.has(seed.id),
-  promptTemplate: `Apply ${seed.name} to the decision brief. Return structured insights, actions, risks, and assumptions.`,
 }));
 
 if (FRAMEWORK_REGISTRY.length !== FRAMEWORK_IDS.length) {
@@ -177,6 +177,14 @@ const monteCarloDataSchema = z
         correlationMode: z.string().min(1),
       })
       .optional(),
+    outcome: z
+      .object({
+        label: z.string().min(1),
+        min: z.number(),
+        max: z.number(),
+      })
+      .refine((outcome) => outcome.min < outcome.max, { message: "Outcome range must be non-empty" })
+      .optional(),
   })
   .strict();
 
@@ -63,3 +63,10 @@ export async function parseBody<T>(request: Request, schema: ZodSchema<T>): Prom
   const body = await request.json();
   return schema.parse(body);
 }
+
+export function parseSearchParams<T>(request: Request, schema: ZodSchema<T>): T {
+  const entries = [...new URL(request.url).searchParams.entries()].filter(
+    ([, value]) => value.trim().length > 0,
+  );
+  return schema.parse(Object.fromEntries(entries));
+}
@@ -0,0 +1,104 @@
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import type { LLMCallAttempt, LLMJsonRequest } from "@/lib/llm/base";
+import type { ResolvedLLM } from "@/lib/llm/router";
+import type { LLMCallScope } from "@/lib/usage-ledger";
+import type { FrameworkId, LLMCallLogEntry, LLMCallOperation } from "@/lib/types";
+
+export interface LLMCallLogFilter {
+  runId?: string;
+  frameworkId?: FrameworkId;
+  operation?: LLMCallOperation;
+}
+
+function toJsonInput(value: unknown): Prisma.InputJsonValue | undefined {
+  return value === null || value === undefined ? undefined : (value as Prisma.InputJsonValue);
+}
+
+/**
+ * Persists every pass of one generateJson call. A call that failed before any
+ * pass completed (timeout, provider outage) is stored as a single pass built
+ * from the caller's prompts with no raw output.
+ */
+export async function recordLLMCallAttempts<T>(
+  callId: string,
+  scope: LLMCallScope,
+  llm: Pick<ResolvedLLM, "provider" | "model">,
+  request: LLMJsonRequest<T>,
+  attempts: LLMCallAttempt[],
+  error?: unknown,
+): Promise<void> {
+  const passes: LLMCallAttempt[] =
+    attempts.length > 0
+      ? attempts
+      : [
+          {
+            pass: 1,
+            systemPrompt: request.systemPrompt,
+            userPrompt: request.userPrompt,
+            rawText: null,
+            repairedJson: null,
+            validationError: null,
+            latencyMs: 0,
+          },
+        ];
+  const errorMessage =
+    error === undefined ? null : error instanceof Error ? error.message : "Unknown LLM call failure";
+
+  await prisma.llmCallLog.createMany({
+    data: passes.map((attempt, index) => ({
+      decisionId: scope.decisionId,
+      runId: scope.runId ?? null,
+      callId,
+      operation: scope.operation,
+      frameworkId: scope.frameworkId ?? null,
+      provider: llm.provider,
+      model: llm.model,
+      schemaName: request.schemaName ?? null,
+      pass: attempt.pass,
+      systemPrompt: attempt.systemPrompt,
+      userPrompt: attempt.userPrompt,
+      rawText: attempt.rawText,
+      repairedJson: toJsonInput(attempt.repairedJson),
+      validationError: attempt.validationError,
+      error: index === passes.length - 1 ? errorMessage : null,
+      latencyMs: attempt.latencyMs,
+    })),
+  });
+}
+
+export async function listLLMCallLogs(
+  decisionId: string,
+  filter: LLMCallLogFilter = {},
+): Promise<LLMCallLogEntry[]> {
+  const records = await prisma.llmCallLog.findMany({
+    where: {
+      decisionId,
+      ...(filter.runId ? { runId: filter.runId } : {}),
+      ...(filter.frameworkId ? { frameworkId: filter.frameworkId } : {}),
+      ...(filter.operation ? { operation: filter.operation } : {}),
+    },
+    orderBy: [{ createdAt: "asc" }, { pass: "asc" }],
+  });
+
+  return records.map((record) => ({
+    id: record.id,
+    callId: record.callId,
+    runId: record.runId,
+    operation: record.operation as LLMCallOperation,
+    frameworkId: record.frameworkId as FrameworkId | null,
+    provider: record.provider,
+    model: record.model,
+    schemaName: record.schemaName,
+    pass: record.pass,
+    systemPrompt: record.systemPrompt,
+    userPrompt: record.userPrompt,
+    rawText: record.rawText,
+    repairedJson: record.repairedJson,
+    validationError: record.validationError,
+    error: record.error,
+    latencyMs: record.latencyMs,
+    createdAt: record.createdAt.toISOString(),
+  }));
+}
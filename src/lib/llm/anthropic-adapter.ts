@@ -1,25 +1,39 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { zodOutputFormat } from "@anthropic-ai/sdk/helpers/zod";
+import type { MessageStream } from "@anthropic-ai/sdk/lib/MessageStream";
+import type { ParsedMessage } from "@anthropic-ai/sdk/lib/parser";
 import { toJSONSchema, ZodError } from "zod";
 
 import { env } from "@/lib/env";
 import {
   ModelOutputInvalidError,
   ModelTimeoutError,
+  OperationCancelledError,
   ProviderUnavailableError,
   withTimeout,
 } from "@/lib/errors";
-import type { LLMAdapter, LLMJsonRequest } from "@/lib/llm/base";
-import { parseJsonFromText } from "@/lib/utils/json";
+import type { LLMAdapter, LLMJsonRequest, LLMJsonResult, LLMPrompt } from "@/lib/llm/base";
+import { PartialJsonStream } from "@/lib/llm/streaming";
+import { UsageMeter } from "@/lib/llm/usage";
+
+/** Overrides for a named Anthropic account from LLM_PROVIDERS; defaults come from ANTHROPIC_*. */
+export interface AnthropicConnection {
+  name?: string;
+  apiKey?: string;
+}
 
 export class AnthropicAdapter implements LLMAdapter {
-  readonly name = "anthropic";
-  readonly model = env.ANTHROPIC_MODEL;
-  private readonly apiKey = env.ANTHROPIC_API_KEY;
-  private readonly client =
-    this.apiKey && this.apiKey.trim().length > 0
-      ? new Anthropic({ apiKey: this.apiKey })
-      : null;
+  readonly name: string;
+  private readonly client: Anthropic | null;
+
+  constructor(
+    readonly model: string = env.ANTHROPIC_MODEL,
+    connection: AnthropicConnection = {},
+  ) {
+    const apiKey = connection.apiKey ?? env.ANTHROPIC_API_KEY;
+    this.name = connection.name ?? "anthropic";
+    this.client = apiKey && apiKey.trim().length > 0 ? new Anthropic({ apiKey }) : null;
+  }
 
   async isHealthy(): Promise<boolean> {
     return Boolean(this.client);
@@ -45,6 +59,22 @@ export class AnthropicAdapter implements LLMAdapter {
     return null;
   }
 
+  // Errors that must surface immediately instead of triggering another output-repair pass.
+  private isTerminalError(error: unknown): boolean {
+    return (
+      error instanceof ProviderUnavailableError ||
+      error instanceof ModelTimeoutError ||
+      error instanceof OperationCancelledError
+    );
+  }
+
+  private textOf(content: Array<{ type: string; text?: string }>): string {
+    return content
+      .map((block) => (block.type === "text" ? block.text ?? "" : ""))
+      .join("\n")
+      .trim();
+  }
+
   private timeoutForRequest(maxTokens: number | undefined, mode: "primary" | "retry"): number {
     if (mode === "retry") {
       return 45000;
@@ -53,8 +83,27 @@ export class AnthropicAdapter implements LLMAdapter {
     return Math.max(40000, Math.min(90000, Math.round((maxTokens ?? 1200) * 50)));
   }
 
+  /** Waits for a streamed message, reporting its text as partial JSON; a stream that times out is aborted. */
+  private async finishStream<ParsedT>(
+    stream: MessageStream<ParsedT>,
+    onPartial: (partial: unknown) => void,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<ParsedMessage<ParsedT>> {
+    const partials = new PartialJsonStream(onPartial);
+    stream.on("text", (delta) => partials.push(delta));
+
+    try {
+      return await withTimeout(stream.finalMessage(), timeoutMs, `Anthropic response (${this.model})`, signal);
+    } catch (error) {
+      stream.abort();
+      throw error;
+    }
+  }
+
   private async generateStructured<T>(
     request: LLMJsonRequest<T>,
+    meter: UsageMeter,
     mode: "primary" | "retry",
     retryReason?: string,
   ): Promise<T> {
@@ -66,53 +115,83 @@ export class AnthropicAdapter implements LLMAdapter {
     }
 
     const strictMode = mode === "retry";
-    const response = await withTimeout(
-      this.client.messages.parse({
-        model: this.model,
-        max_tokens: request.maxTokens ?? 1200,
-        temperature: strictMode ? 0 : request.temperature ?? 0.2,
-        system: strictMode
-          ? [
-              "You are a strict structured-output engine.",
-              "Return valid JSON that exactly matches the schema.",
-              "Do not include markdown, prose, or commentary.",
-            ].join("\n")
-          : `${request.systemPrompt}\nReturn valid JSON only.`,
-        messages: [
-          {
-            role: "user",
-            content: strictMode
-              ? [
-                  request.userPrompt,
-                  "Previous output failed structured parsing.",
-                  retryReason ? `Failure reason: ${retryReason}` : "",
-                  "Retry now and return only valid JSON matching the schema.",
-                ]
-                  .filter(Boolean)
-                  .join("\n\n")
-              : request.userPrompt,
-          },
-        ],
-        output_config: {
-          format: zodOutputFormat(request.schema),
-        },
-      }),
-      this.timeoutForRequest(request.maxTokens, mode),
-      `Anthropic response (${this.model})`,
-    );
+    const prompt: LLMPrompt = {
+      systemPrompt: strictMode
+        ? [
+            "You are a strict structured-output engine.",
+            "Return valid JSON that exactly matches the schema.",
+            "Do not include markdown, prose, or commentary.",
+          ].join("\n")
+        : `${request.systemPrompt}\nReturn valid JSON only.`,
+      userPrompt: strictMode
+        ? [
+            request.userPrompt,
+            "Previous output failed structured parsing.",
+            retryReason ? `Failure reason: ${retryReason}` : "",
+            "Retry now and return only valid JSON matching the schema.",
+          ]
+            .filter(Boolean)
+            .join("\n\n")
+        : request.userPrompt,
+    };
+    const body = {
+      model: this.model,
+      max_tokens: request.maxTokens ?? 1200,
+      temperature: strictMode ? 0 : request.temperature ?? 0.2,
+      system: prompt.systemPrompt,
+      messages: [{ role: "user" as const, content: prompt.userPrompt }],
+      output_config: {
+        format: zodOutputFormat(request.schema),
+      },
+    };
+    const timeoutMs = this.timeoutForRequest(request.maxTokens, mode);
+    const response = request.onPartial
+      ? await this.finishStream(
+          this.client.messages.stream(body, { signal: request.signal }),
+          request.onPartial,
+          timeoutMs,
+          request.signal,
+        )
+      : await withTimeout(
+          this.client.messages.parse(body, { signal: request.signal }),
+          timeoutMs,
+          `Anthropic response (${this.model})`,
+          request.signal,
+        );
+    meter.add(response.usage.input_tokens, response.usage.output_tokens);
+    const rawText = this.textOf(response.content);
 
     if (response.parsed_output == null) {
+      meter.attempt({
+        ...prompt,
+        rawText,
+        repairedJson: null,
+        validationError: "Anthropic returned empty structured output",
+      });
       throw new ModelOutputInvalidError("Anthropic returned empty structured output", {
         provider: this.name,
         model: this.model,
       });
     }
 
-    return request.schema.parse(response.parsed_output);
+    try {
+      const data = request.schema.parse(response.parsed_output);
+      meter.attempt({ ...prompt, rawText, repairedJson: response.parsed_output, validationError: null });
+      return data;
+    } catch (error) {
+      meter.attempt({
+        ...prompt,
+        rawText,
+        repairedJson: response.parsed_output,
+        validationError: error instanceof Error ? error.message : "Unknown validation failure",
+      });
+      throw error;
+    }
   }
 
   private async generateViaTextJson<T>(
     request: LLMJsonRequest<T>,
+    meter: UsageMeter,
     mode: "primary" | "retry",
     retryReason?: string,
   ): Promise<T> {
@@ -125,51 +204,57 @@ export class AnthropicAdapter implements LLMAdapter {
 
     const strictMode = mode === "retry";
     const schemaJson = JSON.stringify(toJSONSchema(request.schema));
-    const response = await withTimeout(
-      this.client.messages.create({
-        model: this.model,
-        max_tokens: request.maxTokens ?? 1200,
-        temperature: strictMode ? 0 : request.temperature ?? 0.2,
-        system: strictMode
-          ? [
-              "You are a strict JSON generator.",
-              "Return valid JSON only, no prose, no markdown, no code fences.",
-              "Output MUST match this JSON Schema exactly:",
-              schemaJson,
-            ].join("\n\n")
-          : [
-              request.systemPrompt,
-              "Return valid JSON only.",
-              "Output MUST match this JSON Schema exactly:",
-              schemaJson,
-            ].join("\n\n"),
-        messages: [
-          {
-            role: "user",
-            content: strictMode
-              ? [
-                  request.userPrompt,
-                  retryReason ? `Previous failure: ${retryReason}` : "",
-                  "Retry now and return only valid JSON matching the schema.",
-                ]
-                  .filter(Boolean)
-                  .join("\n\n")
-              : request.userPrompt,
-          },
-        ],
-      }),
-      this.timeoutForRequest(request.maxTokens, mode),
-      `Anthropic response (${this.model})`,
-    );
+    const prompt: LLMPrompt = {
+      systemPrompt: strictMode
+        ? [
+            "You are a strict JSON generator.",
+            "Return valid JSON only, no prose, no markdown, no code fences.",
+            "Output MUST match this JSON Schema exactly:",
+            schemaJson,
+          ].join("\n\n")
+        : [
+            request.systemPrompt,
+            "Return valid JSON only.",
+            "Output MUST match this JSON Schema exactly:",
+            schemaJson,
+          ].join("\n\n"),
+      userPrompt: strictMode
+        ? [
+            request.userPrompt,
+            retryReason ? `Previous failure: ${retryReason}` : "",
+            "Retry now and return only valid JSON matching the schema.",
+          ]
+            .filter(Boolean)
+            .join("\n\n")
+        : request.userPrompt,
+    };
+    const body = {
+      model: this.model,
+      max_tokens: request.maxTokens ?? 1200,
+      temperature: strictMode ? 0 : request.temperature ?? 0.2,
+      system: prompt.systemPrompt,
+      messages: [{ role: "user" as const, content: prompt.userPrompt }],
+    };
+    const timeoutMs = this.timeoutForRequest(request.maxTokens, mode);
+    const response = request.onPartial
+      ? await this.finishStream(
+          this.client.messages.stream(body, { signal: request.signal }),
+          request.onPartial,
+          timeoutMs,
+          request.signal,
+        )
+      : await withTimeout(
+          this.client.messages.create(body, { signal: request.signal }),
+          timeoutMs,
+          `Anthropic response (${this.model})`,
+          request.signal,
+        );
+    meter.add(response.usage.input_tokens, response.usage.output_tokens);
 
-    const textContent = response.content
-      .map((block) => (block.type === "text" ? block.text : ""))
-      .join("\n")
-      .trim();
+    const textContent = this.textOf(response.content);
 
     try {
-      const parsed = parseJsonFromText(textContent);
-      return request.schema.parse(parsed);
+      return meter.parse(request.schema, prompt, textContent);
     } catch (error) {
       throw new ModelOutputInvalidError(
         strictMode
@@ -194,7 +279,16 @@ export class AnthropicAdapter implements LLMAdapter {
     );
   }
 
-  async generateJson<T>(request: LLMJsonRequest<T>): Promise<T> {
+  async generateJson<T>(request: LLMJsonRequest<T>): Promise<LLMJsonResult<T>> {
+    const meter = new UsageMeter(request.onAttempt);
+    try {
+      return await this.generateMeteredJson(request, meter);
+    } catch (error) {
+      throw meter.failed(error);
+    }
+  }
+
+  private async generateMeteredJson<T>(request: LLMJsonRequest<T>, meter: UsageMeter): Promise<LLMJsonResult<T>> {
     if (!this.client) {
       throw new ProviderUnavailableError("Anthropic API key is not configured.", {
         provider: this.name,
@@ -206,9 +300,9 @@ export class AnthropicAdapter implements LLMAdapter {
 
     if (this.supportsNativeStructuredOutput(this.model)) {
       try {
-        return await this.generateStructured(request, "primary");
+        return meter.result(await this.generateStructured(request, meter, "primary"));
       } catch (primaryError) {
-        if (primaryError instanceof ProviderUnavailableError || primaryError instanceof ModelTimeoutError) {
+        if (this.isTerminalError(primaryError)) {
           throw primaryError;
         }
         const providerError = this.toProviderError(primaryError);
@@ -226,13 +320,16 @@ export class AnthropicAdapter implements LLMAdapter {
       }
 
       try {
-        return await this.generateStructured(
-          request,
-          "retry",
-          structuredFailures.at(-1) ?? "Unknown structured parse failure",
+        return meter.result(
+          await this.generateStructured(
+            request,
+            meter,
+            "retry",
+            structuredFailures.at(-1) ?? "Unknown structured parse failure",
+          ),
         );
       } catch (retryError) {
-        if (retryError instanceof ProviderUnavailableError || retryError instanceof ModelTimeoutError) {
+        if (this.isTerminalError(retryError)) {
           throw retryError;
         }
         const retryProviderError = this.toProviderError(retryError);
@@ -255,13 +352,16 @@ export class AnthropicAdapter implements LLMAdapter {
     }
 
     try {
-      return await this.generateViaTextJson(
-        request,
-        "primary",
-        structuredFailures.join(" | "),
+      return meter.result(
+        await this.generateViaTextJson(
+          request,
+          meter,
+          "primary",
+          structuredFailures.join(" | "),
+        ),
       );
     } catch (textPrimaryError) {
-      if (textPrimaryError instanceof ProviderUnavailableError || textPrimaryError instanceof ModelTimeoutError) {
+      if (this.isTerminalError(textPrimaryError)) {
         throw textPrimaryError;
       }
       const textProviderError = this.toProviderError(textPrimaryError);
@@ -274,13 +374,16 @@ export class AnthropicAdapter implements LLMAdapter {
       }
 
       try {
-        return await this.generateViaTextJson(
-          request,
-          "retry",
-          textPrimaryError instanceof Error ? textPrimaryError.message : "Unknown text JSON parse failure",
+        return meter.result(
+          await this.generateViaTextJson(
+            request,
+            meter,
+            "retry",
+            textPrimaryError instanceof Error ? textPrimaryError.message : "Unknown text JSON parse failure",
+          ),
         );
       } catch (textRetryError) {
-        if (textRetryError instanceof ProviderUnavailableError || textRetryError instanceof ModelTimeoutError) {
+        if (this.isTerminalError(textRetryError)) {
           throw textRetryError;
         }
         const textRetryProviderError = this.toProviderError(textRetryError);
@@ -1,16 +1,62 @@
 import type { ZodType } from "zod";
 
-export interface LLMJsonRequest<T> {
+import type { LLMCacheHit } from "@/lib/types";
+
+export interface LLMPrompt {
   systemPrompt: string;
   userPrompt: string;
+}
+
+/**
+ * One provider round-trip made while serving a generateJson call. Prompts are the
+ * exact text sent, including any schema or repair instructions the adapter appended.
+ */
+export interface LLMCallAttempt extends LLMPrompt {
+  /** 1-based; passes after the first are output-repair retries. */
+  pass: number;
+  rawText: string | null;
+  /** JSON recovered from rawText (or the provider's own parsed output) before schema validation. */
+  repairedJson: unknown;
+  validationError: string | null;
+  latencyMs: number;
+}
+
+export interface LLMJsonRequest<T> extends LLMPrompt {
   schema: ZodType<T>;
+  /** Label for the output schema in the call audit log. */
+  schemaName?: string;
   temperature?: number;
   maxTokens?: number;
+  /** Aborts the in-flight provider request, e.g. when the owning run is cancelled. */
+  signal?: AbortSignal;
+  /** Called after every pass, successful or not, so callers can audit prompts and raw output. */
+  onAttempt?: (attempt: LLMCallAttempt) => void;
+  /**
+   * Streams the response: called with the repaired partial JSON each time it
+   * grows, restarting from empty on a repair pass. Only a hint for live
+   * display; the resolved data is still the validated result. Adapters that
+   * cannot stream never call it.
+   */
+  onPartial?: (partial: unknown) => void;
+}
+
+/** Totals across every provider request made for one generateJson call, including repair retries. */
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+}
+
+export interface LLMJsonResult<T> {
+  data: T;
+  usage: LLMUsage;
+  /** Present when the response came from the response cache; usage is then zero. */
+  cacheHit?: LLMCacheHit;
 }
 
 export interface LLMAdapter {
   readonly name: string;
   readonly model: string;
   isHealthy(): Promise<boolean>;
-  generateJson<T>(request: LLMJsonRequest<T>): Promise<T>;
+  generateJson<T>(request: LLMJsonRequest<T>): Promise<LLMJsonResult<T>>;
 }
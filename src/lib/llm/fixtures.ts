@@ -0,0 +1,64 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { toJSONSchema } from "zod";
+
+import { env } from "@/lib/env";
+import type { LLMJsonRequest, LLMUsage } from "@/lib/llm/base";
+
+export interface LLMFixture {
+  key: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  request: {
+    systemPrompt: string;
+    userPrompt: string;
+    temperature?: number;
+    maxTokens?: number;
+  };
+  response: unknown;
+  usage?: LLMUsage;
+}
+
+/**
+ * Fixtures are keyed by prompt text and output schema only, so a recording made
+ * against one provider replays for any other.
+ */
+export function fixtureKey<T>(request: LLMJsonRequest<T>): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        systemPrompt: request.systemPrompt,
+        userPrompt: request.userPrompt,
+        schema: toJSONSchema(request.schema),
+      }),
+    )
+    .digest("hex")
+    .slice(0, 32);
+}
+
+export function resolveFixtureDir(dir: string = env.LLM_FIXTURE_DIR): string {
+  return path.resolve(process.cwd(), dir);
+}
+
+function fixturePath(dir: string, key: string): string {
+  return path.join(dir, `${key}.json`);
+}
+
+export async function readFixture(dir: string, key: string): Promise<LLMFixture | null> {
+  try {
+    return JSON.parse(await readFile(fixturePath(dir, key), "utf8")) as LLMFixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function writeFixture(dir: string, fixture: LLMFixture): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await writeFile(fixturePath(dir, fixture.key), `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+}
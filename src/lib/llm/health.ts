@@ -0,0 +1,202 @@
+import { env } from "@/lib/env";
+import {
+  AppError,
+  CircuitOpenError,
+  ModelTimeoutError,
+  OperationCancelledError,
+  ProviderUnavailableError,
+} from "@/lib/errors";
+import type { LLMAdapter, LLMJsonRequest, LLMJsonResult } from "@/lib/llm/base";
+import type { ResolvedLLM } from "@/lib/llm/router";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface ProviderHealthSnapshot {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailure: string | null;
+  openedAt: string | null;
+}
+
+interface ProviderCircuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailure: string | null;
+  openedAt: number | null;
+  probeInFlight: boolean;
+}
+
+// Process-wide, like the runner's in-flight run maps: every run shares what one run learned.
+const circuits = new Map<string, ProviderCircuit>();
+
+function circuitFor(provider: string): ProviderCircuit {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = { state: "closed", consecutiveFailures: 0, lastFailure: null, openedAt: null, probeInFlight: false };
+    circuits.set(provider, circuit);
+  }
+
+  return circuit;
+}
+
+function cooledDown(circuit: ProviderCircuit, now: number): boolean {
+  return circuit.openedAt !== null && now - circuit.openedAt >= env.LLM_CIRCUIT_COOLDOWN_MS;
+}
+
+/** Timeouts and unavailability count against a provider; invalid output means it answered. */
+export function isProviderFailure(error: unknown): boolean {
+  return (
+    (error instanceof ProviderUnavailableError && !(error instanceof CircuitOpenError)) ||
+    error instanceof ModelTimeoutError
+  );
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  if (!(error instanceof AppError)) {
+    return false;
+  }
+
+  const details = (typeof error.details === "object" && error.details !== null ? error.details : {}) as {
+    status?: unknown;
+    reason?: unknown;
+  };
+  return (
+    details.status === 429 ||
+    /\b429\b|rate.?limit/i.test(`${error.message} ${typeof details.reason === "string" ? details.reason : ""}`)
+  );
+}
+
+/** True while calls to the provider are being refused; does not claim the half-open probe. */
+export function isCircuitOpen(provider: string, now = Date.now()): boolean {
+  const circuit = circuits.get(provider);
+  if (!circuit || circuit.state === "closed") {
+    return false;
+  }
+
+  return circuit.state === "half_open" ? circuit.probeInFlight : !cooledDown(circuit, now);
+}
+
+/**
+ * Claims permission to call the provider. An open circuit refuses until its
+ * cooldown has passed, then turns half-open and lets exactly one probe through;
+ * the probe's outcome closes or re-opens it.
+ */
+export function acquireProviderCall(provider: string, now = Date.now()): boolean {
+  const circuit = circuitFor(provider);
+
+  if (circuit.state === "open") {
+    if (!cooledDown(circuit, now)) {
+      return false;
+    }
+    circuit.state = "half_open";
+    circuit.probeInFlight = false;
+  }
+
+  if (circuit.state === "half_open") {
+    if (circuit.probeInFlight) {
+      return false;
+    }
+    circuit.probeInFlight = true;
+  }
+
+  return true;
+}
+
+export function recordProviderSuccess(provider: string): void {
+  const circuit = circuitFor(provider);
+  circuit.state = "closed";
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.probeInFlight = false;
+}
+
+export function recordProviderFailure(provider: string, error: unknown, now = Date.now()): void {
+  const circuit = circuitFor(provider);
+  circuit.consecutiveFailures += 1;
+  circuit.lastFailure = error instanceof Error ? error.message : String(error);
+  circuit.probeInFlight = false;
+
+  if (circuit.state === "half_open" || circuit.consecutiveFailures >= env.LLM_CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.state = "open";
+    circuit.openedAt = now;
+  }
+}
+
+/**
+ * Runs one provider call behind its circuit breaker. A refused call fails fast
+ * with CircuitOpenError, a ProviderUnavailableError, so callers move on to
+ * failover immediately.
+ */
+export async function callWithCircuitBreaker<T>(provider: string, task: () => Promise<T>): Promise<T> {
+  if (!acquireProviderCall(provider)) {
+    const circuit = circuitFor(provider);
+    throw new CircuitOpenError(`${provider} is temporarily skipped after repeated failures.`, {
+      provider,
+      reason: `circuit open after ${circuit.consecutiveFailures} consecutive failures (last: ${circuit.lastFailure})`,
+    });
+  }
+
+  try {
+    const result = await task();
+    recordProviderSuccess(provider);
+    return result;
+  } catch (error) {
+    if (isProviderFailure(error)) {
+      recordProviderFailure(provider, error);
+    } else if (error instanceof OperationCancelledError) {
+      circuitFor(provider).probeInFlight = false;
+    } else {
+      recordProviderSuccess(provider);
+    }
+    throw error;
+  }
+}
+
+/** Puts only the adapter's provider calls behind the breaker, not work done around them. */
+class CircuitBreakerAdapter implements LLMAdapter {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(
+    private readonly inner: LLMAdapter,
+    private readonly provider: string,
+  ) {
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  isHealthy(): Promise<boolean> {
+    return this.inner.isHealthy();
+  }
+
+  generateJson<T>(request: LLMJsonRequest<T>): Promise<LLMJsonResult<T>> {
+    return callWithCircuitBreaker(this.provider, () => this.inner.generateJson(request));
+  }
+}
+
+/**
+ * Wrap inside cacheLLM so cache hits neither pass through nor count toward
+ * the breaker, and an open circuit still serves cached responses.
+ */
+export function withCircuitBreaker<T extends Pick<ResolvedLLM, "adapter" | "provider">>(llm: T): T {
+  return {
+    ...llm,
+    adapter: new CircuitBreakerAdapter(llm.adapter, llm.provider),
+  };
+}
+
+export function getProviderHealth(provider: string): ProviderHealthSnapshot {
+  const circuit = circuitFor(provider);
+  return {
+    provider,
+    state: circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    lastFailure: circuit.lastFailure,
+    openedAt: circuit.openedAt === null ? null : new Date(circuit.openedAt).toISOString(),
+  };
+}
+
+export function resetProviderHealth(): void {
+  circuits.clear();
+}
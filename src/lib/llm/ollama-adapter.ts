@@ -1,4 +1,4 @@
-import { Ollama } from "ollama";
+import { Ollama, type ChatRequest, type ChatResponse } from "ollama";
 import { toJSONSchema } from "zod";
 import { ZodError } from "zod";
 
@@ -6,38 +6,120 @@ import { env } from "@/lib/env";
 import {
   ModelOutputInvalidError,
   ModelTimeoutError,
+  OperationCancelledError,
   ProviderUnavailableError,
   withTimeout,
 } from "@/lib/errors";
-import type { LLMAdapter, LLMJsonRequest } from "@/lib/llm/base";
-import { parseJsonFromText } from "@/lib/utils/json";
+import type { LLMAdapter, LLMJsonRequest, LLMJsonResult, LLMPrompt } from "@/lib/llm/base";
+import { PartialJsonStream } from "@/lib/llm/streaming";
+import { UsageMeter } from "@/lib/llm/usage";
+
+type ChatOutput = Pick<ChatResponse, "prompt_eval_count" | "eval_count"> & { message: { content: string } };
+
+/** Overrides for a named Ollama server from LLM_PROVIDERS; defaults come from OLLAMA_*. */
+export interface OllamaConnection {
+  name?: string;
+  host?: string;
+}
 
 export class OllamaAdapter implements LLMAdapter {
-  readonly name = "ollama";
-  readonly model = env.OLLAMA_MODEL;
-  private readonly client = new Ollama({ host: env.OLLAMA_BASE_URL });
+  readonly name: string;
+  private readonly host: string;
+  private readonly client: Ollama;
+
+  constructor(
+    readonly model: string = env.OLLAMA_MODEL,
+    connection: OllamaConnection = {},
+  ) {
+    this.name = connection.name ?? "ollama";
+    this.host = connection.host ?? env.OLLAMA_BASE_URL;
+    this.client = new Ollama({ host: this.host });
+  }
+
+  // ollama-js can only abort every request on a client, so cancellable calls get their own client.
+  private clientFor(signal?: AbortSignal): Ollama {
+    if (!signal) {
+      return this.client;
+    }
+
+    return new Ollama({
+      host: this.host,
+      fetch: (input, init) =>
+        fetch(input, {
+          ...init,
+          signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal,
+        }),
+    });
+  }
+
+  private async streamChat(
+    request: ChatRequest,
+    signal: AbortSignal,
+    onPartial: (partial: unknown) => void,
+  ): Promise<ChatOutput> {
+    const stream = await this.clientFor(signal).chat({ ...request, stream: true });
+    const partials = new PartialJsonStream(onPartial);
+    let promptEvalCount = 0;
+    let evalCount = 0;
+
+    for await (const part of stream) {
+      partials.push(part.message.content);
+      if (part.done) {
+        promptEvalCount = part.prompt_eval_count;
+        evalCount = part.eval_count;
+      }
+    }
+
+    return { message: { content: partials.content }, prompt_eval_count: promptEvalCount, eval_count: evalCount };
+  }
 
   private async chat(
-    messages: Array<{ role: "system" | "user"; content: string }>,
+    prompt: LLMPrompt,
     temperature: number,
     format: object | "json",
     maxTokens?: number,
-  ) {
+    signal?: AbortSignal,
+    onPartial?: (partial: unknown) => void,
+  ): Promise<ChatOutput> {
     const timeoutMs = Math.max(30000, Math.min(90000, Math.round((maxTokens ?? 1000) * 45)));
-    return withTimeout(
-      this.client.chat({
-        model: this.model,
-        stream: false,
-        format,
-        options: {
-          temperature,
-          ...(maxTokens ? { num_predict: maxTokens } : {}),
-        },
-        messages,
-      }),
-      timeoutMs,
-      `Ollama response (${this.model})`,
-    );
+    const request: ChatRequest = {
+      model: this.model,
+      format,
+      options: {
+        temperature,
+        ...(maxTokens ? { num_predict: maxTokens } : {}),
+      },
+      messages: [
+        { role: "system", content: prompt.systemPrompt },
+        { role: "user", content: prompt.userPrompt },
+      ],
+    };
+
+    if (!onPartial) {
+      return withTimeout(
+        this.clientFor(signal).chat({ ...request, stream: false }),
+        timeoutMs,
+        `Ollama response (${this.model})`,
+        signal,
+      );
+    }
+
+    // A timed-out stream is aborted so it stops reporting partials while a retry or failover runs.
+    const streamController = new AbortController();
+    try {
+      return await withTimeout(
+        this.streamChat(
+          request,
+          signal ? AbortSignal.any([signal, streamController.signal]) : streamController.signal,
+          onPartial,
+        ),
+        timeoutMs,
+        `Ollama response (${this.model})`,
+        signal,
+      );
+    } finally {
+      streamController.abort();
+    }
   }
 
   async isHealthy(): Promise<boolean> {
@@ -49,7 +131,16 @@ export class OllamaAdapter implements LLMAdapter {
     }
   }
 
-  async generateJson<T>(request: LLMJsonRequest<T>): Promise<T> {
+  async generateJson<T>(request: LLMJsonRequest<T>): Promise<LLMJsonResult<T>> {
+    const meter = new UsageMeter(request.onAttempt);
+    try {
+      return await this.generateMeteredJson(request, meter);
+    } catch (error) {
+      throw meter.failed(error);
+    }
+  }
+
+  private async generateMeteredJson<T>(request: LLMJsonRequest<T>, meter: UsageMeter): Promise<LLMJsonResult<T>> {
     const baseTemperature = request.temperature ?? 0.2;
     const schemaFormat = toJSONSchema(request.schema);
     const schemaString = JSON.stringify(schemaFormat);
@@ -57,69 +148,64 @@ export class OllamaAdapter implements LLMAdapter {
     let firstOutputSnippet = "";
 
     try {
+      const primaryPrompt: LLMPrompt = {
+        systemPrompt: [
+          request.systemPrompt,
+          "Return ONLY valid JSON. Do not include markdown, prose, or code fences.",
+          "Follow this JSON Schema exactly:",
+          schemaString,
+        ].join("\n\n"),
+        userPrompt: [
+          request.userPrompt,
+          "Return strict JSON that validates against the schema.",
+        ].join("\n\n"),
+      };
       const primary = await this.chat(
-        [
-          {
-            role: "system",
-            content: [
-              request.systemPrompt,
-              "Return ONLY valid JSON. Do not include markdown, prose, or code fences.",
-              "Follow this JSON Schema exactly:",
-              schemaString,
-            ].join("\n\n"),
-          },
-          {
-            role: "user",
-            content: [
-              request.userPrompt,
-              "Return strict JSON that validates against the schema.",
-            ].join("\n\n"),
-          },
-        ],
+        primaryPrompt,
         baseTemperature,
         schemaFormat,
         request.maxTokens,
+        request.signal,
+        request.onPartial,
       );
 
+      meter.add(primary.prompt_eval_count, primary.eval_count);
       firstOutputSnippet = primary.message.content.slice(0, 800);
 
       try {
-        const parsed = parseJsonFromText(primary.message.content);
-        return request.schema.parse(parsed);
+        return meter.result(meter.parse(request.schema, primaryPrompt, primary.message.content));
       } catch (parseOrShapeError) {
         firstFailureReason =
           parseOrShapeError instanceof Error ? parseOrShapeError.message : "Unknown parse failure";
       }
 
+      const retryPrompt: LLMPrompt = {
+        systemPrompt: [
+          "You are a strict JSON generator.",
+          "Return valid JSON only, no markdown, no explanation, no code fences.",
+          "Follow this JSON Schema exactly:",
+          schemaString,
+        ].join("\n\n"),
+        userPrompt: [
+          request.userPrompt,
+          "Your previous output was invalid for strict JSON parsing.",
+          `Validation/parse failure: ${firstFailureReason}`,
+          "Retry and return only valid JSON that matches the requested structure.",
+        ].join("\n\n"),
+      };
       const retry = await this.chat(
-        [
-          {
-            role: "system",
-            content: [
-              "You are a strict JSON generator.",
-              "Return valid JSON only, no markdown, no explanation, no code fences.",
-              "Follow this JSON Schema exactly:",
-              schemaString,
-            ].join("\n\n"),
-          },
-          {
-            role: "user",
-            content: [
-              request.userPrompt,
-              "Your previous output was invalid for strict JSON parsing.",
-              `Validation/parse failure: ${firstFailureReason}`,
-              "Retry and return only valid JSON that matches the requested structure.",
-            ].join("\n\n"),
-          },
-        ],
+        retryPrompt,
         0,
         schemaFormat,
         request.maxTokens,
+        request.signal,
+        request.onPartial,
       );
 
+      meter.add(retry.prompt_eval_count, retry.eval_count);
+
       try {
-        const parsedRetry = parseJsonFromText(retry.message.content);
-        return request.schema.parse(parsedRetry);
+        return meter.result(meter.parse(request.schema, retryPrompt, retry.message.content));
       } catch (retryError) {
         throw new ModelOutputInvalidError("Ollama returned invalid structured output after retry", {
           provider: this.name,
@@ -135,7 +221,7 @@ export class OllamaAdapter implements LLMAdapter {
         throw error;
       }
 
-      if (error instanceof ModelTimeoutError) {
+      if (error instanceof ModelTimeoutError || error instanceof OperationCancelledError) {
         throw error;
       }
 
@@ -0,0 +1,268 @@
+import { toJSONSchema } from "zod";
+
+import { env } from "@/lib/env";
+import {
+  ModelOutputInvalidError,
+  ModelTimeoutError,
+  OperationCancelledError,
+  ProviderUnavailableError,
+  withTimeout,
+} from "@/lib/errors";
+import type { LLMAdapter, LLMJsonRequest, LLMJsonResult, LLMPrompt } from "@/lib/llm/base";
+import { UsageMeter } from "@/lib/llm/usage";
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+export function normalizeOpenAIBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, "");
+  return trimmed.endsWith("/v1") ? trimmed : `${trimmed}/v1`;
+}
+
+/** Overrides for a named server from LLM_PROVIDERS; defaults come from OPENAI_COMPAT_*. */
+export interface OpenAICompatibleConnection {
+  name?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  responseFormat?: "json_schema" | "json_object";
+}
+
+/**
+ * Adapter for servers that speak the OpenAI `/v1/chat/completions` protocol
+ * (vLLM, LM Studio, llama.cpp server, and hosted gateways).
+ */
+export class OpenAICompatibleAdapter implements LLMAdapter {
+  readonly name: string;
+  private readonly configured: boolean;
+  private readonly baseUrl: string;
+  private readonly apiKey: string | undefined;
+  private readonly format: "json_schema" | "json_object";
+
+  constructor(
+    readonly model: string = env.OPENAI_COMPAT_MODEL,
+    connection: OpenAICompatibleConnection = {},
+  ) {
+    const baseUrl = connection.baseUrl ?? env.OPENAI_COMPAT_BASE_URL;
+    this.name = connection.name ?? "openai-compatible";
+    this.configured = Boolean(baseUrl);
+    this.baseUrl = normalizeOpenAIBaseUrl(baseUrl ?? "");
+    this.apiKey = connection.apiKey ?? env.OPENAI_COMPAT_API_KEY;
+    this.format = connection.responseFormat ?? env.OPENAI_COMPAT_RESPONSE_FORMAT;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+    };
+  }
+
+  private responseFormat(schema: object) {
+    if (this.format === "json_object") {
+      return { type: "json_object" };
+    }
+
+    return {
+      type: "json_schema",
+      json_schema: {
+        name: "structured_output",
+        // Strict mode requires every property, which rejects schemas with optional fields.
+        // The response is validated against the zod schema either way.
+        strict: false,
+        schema,
+      },
+    };
+  }
+
+  private async chat(
+    prompt: LLMPrompt,
+    temperature: number,
+    schema: object,
+    meter: UsageMeter,
+    maxTokens?: number,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const timeoutMs = Math.max(30000, Math.min(90000, Math.round((maxTokens ?? 1000) * 45)));
+    const response = await withTimeout(
+      fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify({
+          model: this.model,
+          messages: [
+            { role: "system", content: prompt.systemPrompt },
+            { role: "user", content: prompt.userPrompt },
+          ],
+          temperature,
+          ...(maxTokens ? { max_tokens: maxTokens } : {}),
+          response_format: this.responseFormat(schema),
+        }),
+        signal,
+      }),
+      timeoutMs,
+      `OpenAI-compatible response (${this.model})`,
+      signal,
+    );
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new ProviderUnavailableError("OpenAI-compatible server rejected the request.", {
+        provider: this.name,
+        model: this.model,
+        status: response.status,
+        reason: `HTTP ${response.status}: ${body.slice(0, 400)}`,
+      });
+    }
+
+    const payload = (await response.json()) as ChatCompletionResponse;
+    meter.add(payload.usage?.prompt_tokens, payload.usage?.completion_tokens);
+    return payload.choices?.[0]?.message?.content ?? "";
+  }
+
+  async isHealthy(): Promise<boolean> {
+    if (!this.configured) {
+      return false;
+    }
+
+    try {
+      const response = await withTimeout(
+        fetch(`${this.baseUrl}/models`, { headers: this.headers() }),
+        3500,
+        "OpenAI-compatible health check",
+      );
+      if (!response.ok) {
+        return false;
+      }
+
+      const payload = (await response.json()) as { data?: Array<{ id?: string }> };
+      return (payload.data ?? []).some((model) => model.id === this.model);
+    } catch {
+      return false;
+    }
+  }
+
+  async generateJson<T>(request: LLMJsonRequest<T>): Promise<LLMJsonResult<T>> {
+    const meter = new UsageMeter(request.onAttempt);
+    try {
+      return await this.generateMeteredJson(request, meter);
+    } catch (error) {
+      throw meter.failed(error);
+    }
+  }
+
+  private async generateMeteredJson<T>(request: LLMJsonRequest<T>, meter: UsageMeter): Promise<LLMJsonResult<T>> {
+    const baseTemperature = request.temperature ?? 0.2;
+    const schemaFormat = toJSONSchema(request.schema);
+    const schemaString = JSON.stringify(schemaFormat);
+    let firstFailureReason = "unknown";
+    let firstOutputSnippet = "";
+
+    try {
+      const primaryPrompt: LLMPrompt = {
+        systemPrompt: [
+          request.systemPrompt,
+          "Return ONLY valid JSON. Do not include markdown, prose, or code fences.",
+          "Follow this JSON Schema exactly:",
+          schemaString,
+        ].join("\n\n"),
+        userPrompt: [
+          request.userPrompt,
+          "Return strict JSON that validates against the schema.",
+        ].join("\n\n"),
+      };
+      const primary = await this.chat(
+        primaryPrompt,
+        baseTemperature,
+        schemaFormat,
+        meter,
+        request.maxTokens,
+        request.signal,
+      );
+
+      firstOutputSnippet = primary.slice(0, 800);
+
+      try {
+        return meter.result(meter.parse(request.schema, primaryPrompt, primary));
+      } catch (parseOrShapeError) {
+        firstFailureReason =
+          parseOrShapeError instanceof Error ? parseOrShapeError.message : "Unknown parse failure";
+      }
+
+      const retryPrompt: LLMPrompt = {
+        systemPrompt: [
+          "You are a strict JSON generator.",
+          "Return valid JSON only, no markdown, no explanation, no code fences.",
+          "Follow this JSON Schema exactly:",
+          schemaString,
+        ].join("\n\n"),
+        userPrompt: [
+          request.userPrompt,
+          "Your previous output was invalid for strict JSON parsing.",
+          `Validation/parse failure: ${firstFailureReason}`,
+          "Retry and return only valid JSON that matches the requested structure.",
+        ].join("\n\n"),
+      };
+      const retry = await this.chat(
+        retryPrompt,
+        0,
+        schemaFormat,
+        meter,
+        request.maxTokens,
+        request.signal,
+      );
+
+      try {
+        return meter.result(meter.parse(request.schema, retryPrompt, retry));
+      } catch (retryError) {
+        throw new ModelOutputInvalidError(
+          "OpenAI-compatible server returned invalid structured output after retry",
+          {
+            provider: this.name,
+            model: this.model,
+            reason: retryError instanceof Error ? retryError.message : "Unknown retry parse failure",
+            firstFailureReason,
+            firstOutputSnippet,
+            retryOutputSnippet: retry.slice(0, 800),
+          },
+        );
+      }
+    } catch (error) {
+      if (
+        error instanceof ModelOutputInvalidError ||
+        error instanceof ModelTimeoutError ||
+        error instanceof OperationCancelledError ||
+        error instanceof ProviderUnavailableError
+      ) {
+        throw error;
+      }
+
+      if (error instanceof Error && /connect|ECONN|socket|fetch/i.test(error.message)) {
+        throw new ProviderUnavailableError(
+          "OpenAI-compatible server is unavailable. Check OPENAI_COMPAT_BASE_URL and that the model is loaded.",
+          {
+            provider: this.name,
+            model: this.model,
+            reason: error.message,
+          },
+        );
+      }
+
+      throw new ModelOutputInvalidError("OpenAI-compatible server returned invalid structured output", {
+        provider: this.name,
+        model: this.model,
+        reason: error instanceof Error ? error.message : "Unknown failure",
+        firstFailureReason,
+        firstOutputSnippet,
+      });
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+import { env } from "@/lib/env";
+import type { LLMUsage } from "@/lib/llm/base";
+
+const modelPriceSchema = z.object({
+  inputPerMillion: z.number().min(0),
+  outputPerMillion: z.number().min(0),
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+const priceTableSchema = z.record(z.string().min(1), modelPriceSchema);
+
+// USD per million tokens. Keys match a model id prefix, or a provider name as a catch-all.
+const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  "claude-opus-4-5": { inputPerMillion: 5, outputPerMillion: 25 },
+  "claude-sonnet-4-5": { inputPerMillion: 3, outputPerMillion: 15 },
+  "claude-haiku-4-5": { inputPerMillion: 1, outputPerMillion: 5 },
+  ollama: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+/** LLM_PRICE_TABLE is a JSON object in the same shape; its entries override the defaults. */
+function loadPriceTable(): Record<string, ModelPrice> {
+  if (!env.LLM_PRICE_TABLE) {
+    return DEFAULT_PRICE_TABLE;
+  }
+
+  return {
+    ...DEFAULT_PRICE_TABLE,
+    ...priceTableSchema.parse(JSON.parse(env.LLM_PRICE_TABLE)),
+  };
+}
+
+const priceTable = loadPriceTable();
+
+export function getModelPrice(provider: string, model: string): ModelPrice | null {
+  const modelKey = Object.keys(priceTable)
+    .filter((key) => model.startsWith(key))
+    .sort((left, right) => right.length - left.length)[0];
+
+  return priceTable[modelKey ?? provider] ?? null;
+}
+
+/** Returns null when neither the model nor the provider has a configured price. */
+export function estimateCostUsd(provider: string, model: string, usage: LLMUsage): number | null {
+  const price = getModelPrice(provider, model);
+  if (!price) {
+    return null;
+  }
+
+  const cost =
+    (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+  return Number(cost.toFixed(6));
+}
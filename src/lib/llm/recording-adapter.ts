@@ -0,0 +1,44 @@
+import type { LLMAdapter, LLMJsonRequest, LLMJsonResult } from "@/lib/llm/base";
+import { fixtureKey, resolveFixtureDir, writeFixture } from "@/lib/llm/fixtures";
+
+/**
+ * Wraps a real adapter and saves every successful structured response as a
+ * fixture for ReplayAdapter.
+ */
+export class RecordingAdapter implements LLMAdapter {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(
+    private readonly inner: LLMAdapter,
+    private readonly fixtureDir: string = resolveFixtureDir(),
+  ) {
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  isHealthy(): Promise<boolean> {
+    return this.inner.isHealthy();
+  }
+
+  async generateJson<T>(request: LLMJsonRequest<T>): Promise<LLMJsonResult<T>> {
+    const result = await this.inner.generateJson(request);
+
+    await writeFixture(this.fixtureDir, {
+      key: fixtureKey(request),
+      provider: this.name,
+      model: this.model,
+      recordedAt: new Date().toISOString(),
+      request: {
+        systemPrompt: request.systemPrompt,
+        userPrompt: request.userPrompt,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+      },
+      response: result.data,
+      usage: result.usage,
+    });
+
+    return result;
+  }
+}
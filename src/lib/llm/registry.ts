@@ -0,0 +1,247 @@
+import { z } from "zod";
+
+import { env } from "@/lib/env";
+import { AnthropicAdapter } from "@/lib/llm/anthropic-adapter";
+import type { LLMAdapter } from "@/lib/llm/base";
+import { OllamaAdapter } from "@/lib/llm/ollama-adapter";
+import { OpenAICompatibleAdapter } from "@/lib/llm/openai-compatible-adapter";
+import { RecordingAdapter } from "@/lib/llm/recording-adapter";
+import { ReplayAdapter } from "@/lib/llm/replay-adapter";
+import {
+  PROVIDER_TIERS,
+  type ProviderCapability,
+  type ProviderPreference,
+  type ProviderSummary,
+  type ProviderTier,
+} from "@/lib/types";
+
+export interface ProviderRegistration {
+  name: string;
+  adapter: LLMAdapter;
+  model: string;
+  /** Lower values are tried first. */
+  priority: number;
+  capabilities: ProviderCapability[];
+}
+
+interface ProviderSeed {
+  adapter: LLMAdapter;
+  capabilities: ProviderCapability[];
+  /** Builds the same provider for another model. */
+  withModel: (model: string) => LLMAdapter;
+}
+
+/** Names a routing target or preference already means something else by. */
+const RESERVED_PROVIDER_NAMES = ["ollama", "anthropic", "openai-compatible", "run", "simulation", ...PROVIDER_TIERS];
+
+const namedProviderSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9][a-z0-9_.-]{0,39}$/, "Use 1-40 lowercase letters, digits, '.', '_' or '-'")
+    .refine((name) => !RESERVED_PROVIDER_NAMES.includes(name), "Name is reserved"),
+  type: z.enum(["openai-compatible", "ollama", "anthropic"]),
+  model: z.string().trim().min(1).max(200),
+  baseUrl: z.string().url().optional(),
+  /** Environment variable holding the API key, so keys stay out of the provider list. */
+  apiKeyEnv: z.string().regex(/^[A-Z_][A-Z0-9_]*$/).optional(),
+  /** "local" providers carry the offline capability and join the local tier. */
+  role: z.enum(["local", "hosted"]).default("hosted"),
+  responseFormat: z.enum(["json_schema", "json_object"]).optional(),
+});
+
+const namedProvidersSchema = z.array(namedProviderSchema).superRefine((providers, context) => {
+  const seen = new Set<string>();
+  providers.forEach((provider, index) => {
+    if (seen.has(provider.name)) {
+      context.addIssue({ code: "custom", path: [index, "name"], message: `Duplicate provider "${provider.name}"` });
+    }
+    seen.add(provider.name);
+  });
+});
+
+type NamedProvider = z.infer<typeof namedProviderSchema>;
+
+function namedProviderSeed(provider: NamedProvider): ProviderSeed {
+  const apiKey = provider.apiKeyEnv ? process.env[provider.apiKeyEnv] : undefined;
+  const offline = provider.role === "local" ? (["offline"] as const) : [];
+  const build = (model: string): LLMAdapter => {
+    switch (provider.type) {
+      case "openai-compatible":
+        return new OpenAICompatibleAdapter(model, {
+          name: provider.name,
+          baseUrl: provider.baseUrl,
+          apiKey,
+          responseFormat: provider.responseFormat,
+        });
+      case "ollama":
+        return new OllamaAdapter(model, { name: provider.name, host: provider.baseUrl });
+      case "anthropic":
+        return new AnthropicAdapter(model, { name: provider.name, apiKey });
+    }
+  };
+  const jsonSchema =
+    provider.type !== "openai-compatible" || (provider.responseFormat ?? "json_schema") === "json_schema";
+
+  return {
+    adapter: build(provider.model),
+    withModel: build,
+    capabilities: [...(jsonSchema ? (["json_schema"] as const) : []), ...offline],
+  };
+}
+
+/** LLM_PROVIDERS is a JSON array of extra named providers, registered after the built-in ones. */
+function loadNamedProviders(): NamedProvider[] {
+  if (env.LLM_PROVIDERS === undefined) {
+    return [];
+  }
+
+  const parsed = namedProvidersSchema.safeParse(env.LLM_PROVIDERS);
+  if (!parsed.success) {
+    throw new Error(`Invalid LLM_PROVIDERS:\n${z.prettifyError(parsed.error)}`);
+  }
+
+  return parsed.data;
+}
+
+function providerSeeds(): ProviderSeed[] {
+  const seeds: ProviderSeed[] = [];
+
+  // Listed before Ollama/Anthropic so it wins within its tier, matching OPENAI_COMPAT_ROLE.
+  if (env.OPENAI_COMPAT_ROLE !== "off" && env.OPENAI_COMPAT_BASE_URL) {
+    seeds.push({
+      adapter: new OpenAICompatibleAdapter(),
+      withModel: (model) => new OpenAICompatibleAdapter(model),
+      capabilities: [
+        ...(env.OPENAI_COMPAT_RESPONSE_FORMAT === "json_schema" ? (["json_schema"] as const) : []),
+        ...(env.OPENAI_COMPAT_ROLE === "local" ? (["offline"] as const) : []),
+      ],
+    });
+  }
+
+  seeds.push(
+    {
+      adapter: new OllamaAdapter(),
+      withModel: (model) => new OllamaAdapter(model),
+      capabilities: ["json_schema", "offline"],
+    },
+    {
+      adapter: new AnthropicAdapter(),
+      withModel: (model) => new AnthropicAdapter(model),
+      capabilities: ["json_schema"],
+    },
+    ...loadNamedProviders().map(namedProviderSeed),
+  );
+
+  return seeds;
+}
+
+/** LLM_FIXTURE_MODE records real responses to fixtures or replays them offline. */
+function withFixtureMode(adapter: LLMAdapter): LLMAdapter {
+  if (env.LLM_FIXTURE_MODE === "record") {
+    return new RecordingAdapter(adapter);
+  }
+  if (env.LLM_FIXTURE_MODE === "replay") {
+    return new ReplayAdapter(adapter);
+  }
+
+  return adapter;
+}
+
+function parseProviderOrder(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+}
+
+/**
+ * LLM_PROVIDER_ORDER pins listed providers to the front of the chain. Everything
+ * else is ordered by LLM_AUTO_PRIORITY tier, then by registration order.
+ */
+function defaultPriority(seed: ProviderSeed, index: number): number {
+  const offline = seed.capabilities.includes("offline");
+  const tierFirst = env.LLM_AUTO_PRIORITY === "hosted_first" ? !offline : offline;
+  return (tierFirst ? 100 : 200) + index;
+}
+
+function buildRegistry(seeds: ProviderSeed[]): ProviderRegistration[] {
+  const explicitOrder = parseProviderOrder(env.LLM_PROVIDER_ORDER);
+
+  return seeds
+    .map((seed, index) => {
+      const pinned = explicitOrder.indexOf(seed.adapter.name);
+      return {
+        name: seed.adapter.name,
+        adapter: withFixtureMode(seed.adapter),
+        model: seed.adapter.model,
+        priority: pinned >= 0 ? pinned : defaultPriority(seed, index),
+        capabilities: seed.capabilities,
+      };
+    })
+    .sort((left, right) => left.priority - right.priority);
+}
+
+const seeds = providerSeeds();
+const registrations = buildRegistry(seeds);
+const modelVariants = new Map<string, ProviderRegistration>();
+
+export function listProviderRegistrations(): ProviderRegistration[] {
+  return [...registrations];
+}
+
+export function getProviderRegistration(name: string): ProviderRegistration | null {
+  return registrations.find((registration) => registration.name === name) ?? null;
+}
+
+/**
+ * A registered provider serving a different model than its configured one, e.g.
+ * a small local model picked by the analysis routing policy. Variants share the
+ * provider's priority and capabilities and are built once per model.
+ */
+export function getProviderModelVariant(name: string, model: string): ProviderRegistration | null {
+  const registration = getProviderRegistration(name);
+  if (!registration || registration.model === model) {
+    return registration;
+  }
+
+  const key = `${name}:${model}`;
+  const cached = modelVariants.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const seed = seeds.find((entry) => entry.adapter.name === name);
+  if (!seed) {
+    return null;
+  }
+
+  const variant = { ...registration, adapter: withFixtureMode(seed.withModel(model)), model };
+  modelVariants.set(key, variant);
+  return variant;
+}
+
+export function isProviderTier(preference: ProviderPreference): preference is ProviderTier {
+  return (PROVIDER_TIERS as readonly string[]).includes(preference);
+}
+
+export function listProviderSummaries(): ProviderSummary[] {
+  return registrations.map(({ name, model, capabilities }) => ({ name, model, capabilities }));
+}
+
+/**
+ * "local" and "hosted" preferences select providers with and without the offline
+ * capability. Any other preference names a single provider; unknown names select none.
+ */
+export function providersForPreference(preference: ProviderPreference): ProviderRegistration[] {
+  if (preference === "auto") {
+    return listProviderRegistrations();
+  }
+  if (!isProviderTier(preference)) {
+    const registration = getProviderRegistration(preference);
+    return registration ? [registration] : [];
+  }
+
+  const offline = preference === "local";
+  return registrations.filter((registration) => registration.capabilities.includes("offline") === offline);
+}
@@ -0,0 +1,69 @@
+import { ModelOutputInvalidError, ProviderUnavailableError, throwIfAborted } from "@/lib/errors";
+import type { LLMAdapter, LLMJsonRequest, LLMJsonResult } from "@/lib/llm/base";
+import { fixtureKey, readFixture, resolveFixtureDir } from "@/lib/llm/fixtures";
+
+/**
+ * Serves responses captured by RecordingAdapter without contacting any provider.
+ * A request with no fixture behaves like an unavailable provider.
+ */
+export class ReplayAdapter implements LLMAdapter {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(
+    source: Pick<LLMAdapter, "name" | "model">,
+    private readonly fixtureDir: string = resolveFixtureDir(),
+  ) {
+    this.name = source.name;
+    this.model = source.model;
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return true;
+  }
+
+  async generateJson<T>(request: LLMJsonRequest<T>): Promise<LLMJsonResult<T>> {
+    throwIfAborted(request.signal, `Replay (${this.name})`);
+
+    const key = fixtureKey(request);
+    const fixture = await readFixture(this.fixtureDir, key);
+    if (!fixture) {
+      throw new ProviderUnavailableError("No recorded LLM fixture matches this request.", {
+        provider: this.name,
+        model: this.model,
+        fixtureKey: key,
+        fixtureDir: this.fixtureDir,
+        reason: `missing fixture ${key}`,
+      });
+    }
+
+    const parsed = request.schema.safeParse(fixture.response);
+    request.onAttempt?.({
+      pass: 1,
+      systemPrompt: fixture.request.systemPrompt,
+      userPrompt: fixture.request.userPrompt,
+      rawText: JSON.stringify(fixture.response),
+      repairedJson: fixture.response,
+      validationError: parsed.success ? null : parsed.error.message,
+      latencyMs: 0,
+    });
+    if (!parsed.success) {
+      throw new ModelOutputInvalidError("Recorded LLM fixture no longer matches the requested schema.", {
+        provider: this.name,
+        model: this.model,
+        fixtureKey: key,
+        reason: parsed.error.message,
+      });
+    }
+
+    // Recorded token counts keep replayed runs' cost estimates realistic; nothing was waited on.
+    return {
+      data: parsed.data,
+      usage: {
+        inputTokens: fixture.usage?.inputTokens ?? 0,
+        outputTokens: fixture.usage?.outputTokens ?? 0,
+        latencyMs: 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,183 @@
+import { createHash } from "node:crypto";
+
+import type { Prisma } from "@prisma/client";
+import { toJSONSchema } from "zod";
+
+import { prisma } from "@/lib/db";
+import { env } from "@/lib/env";
+import type { LLMAdapter, LLMJsonRequest, LLMJsonResult } from "@/lib/llm/base";
+import type { ResolvedLLM } from "@/lib/llm/router";
+
+export interface ResponseCacheOptions {
+  /** Skip cached responses; a fresh response still replaces the cached one. */
+  bypass?: boolean;
+  /** Separates otherwise identical requests that must not share an answer, e.g. ensemble samples. */
+  variant?: string;
+}
+
+/**
+ * Unlike fixture keys, cache keys include the provider, model and temperature:
+ * a cached answer is only reused for the exact request that produced it.
+ */
+export function responseCacheKey<T>(
+  adapter: Pick<LLMAdapter, "name" | "model">,
+  request: LLMJsonRequest<T>,
+  variant?: string,
+): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        provider: adapter.name,
+        model: adapter.model,
+        systemPrompt: request.systemPrompt,
+        userPrompt: request.userPrompt,
+        schema: toJSONSchema(request.schema),
+        temperature: request.temperature ?? null,
+        variant: variant ?? null,
+      }),
+    )
+    .digest("hex");
+}
+
+/** Size eviction sums the table, so each process runs it at most this often. */
+const SIZE_EVICTION_INTERVAL_MS = 60_000;
+const EVICTION_BATCH_SIZE = 100;
+
+let lastSizeEvictionAt = 0;
+
+/**
+ * Drops expired entries, then evicts the least recently used ones until the
+ * cache fits LLM_CACHE_MAX_BYTES.
+ */
+export async function pruneResponseCache(now = new Date()): Promise<void> {
+  await prisma.llmResponseCache.deleteMany({ where: { expiresAt: { lte: now } } });
+  lastSizeEvictionAt = now.getTime();
+
+  const { _sum } = await prisma.llmResponseCache.aggregate({ _sum: { sizeBytes: true } });
+  let excess = (_sum.sizeBytes ?? 0) - env.LLM_CACHE_MAX_BYTES;
+
+  while (excess > 0) {
+    const oldest = await prisma.llmResponseCache.findMany({
+      select: { key: true, sizeBytes: true },
+      orderBy: { lastUsedAt: "asc" },
+      take: EVICTION_BATCH_SIZE,
+    });
+    const evicted: string[] = [];
+    for (const entry of oldest) {
+      if (excess <= 0) {
+        break;
+      }
+      evicted.push(entry.key);
+      excess -= entry.sizeBytes;
+    }
+
+    if (evicted.length === 0) {
+      return;
+    }
+    await prisma.llmResponseCache.deleteMany({ where: { key: { in: evicted } } });
+  }
+}
+
+/** Expired entries go on every write; the size check waits for its interval. */
+async function pruneAfterWrite(now: Date): Promise<void> {
+  if (now.getTime() - lastSizeEvictionAt < SIZE_EVICTION_INTERVAL_MS) {
+    await prisma.llmResponseCache.deleteMany({ where: { expiresAt: { lte: now } } });
+    return;
+  }
+
+  await pruneResponseCache(now);
+}
+
+/**
+ * Serves repeated structured requests from SQLite. Hits are revalidated
+ * against the request schema, so a schema change is a miss rather than an
+ * error. Cache reads and writes never fail the call itself.
+ */
+class CachingAdapter implements LLMAdapter {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(
+    private readonly inner: LLMAdapter,
+    private readonly options: ResponseCacheOptions,
+  ) {
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  isHealthy(): Promise<boolean> {
+    return this.inner.isHealthy();
+  }
+
+  private async read<T>(key: string, request: LLMJsonRequest<T>): Promise<LLMJsonResult<T> | null> {
+    const startedAt = Date.now();
+    const entry = await prisma.llmResponseCache.findUnique({ where: { key } });
+    if (!entry || entry.expiresAt.getTime() <= startedAt) {
+      return null;
+    }
+
+    const parsed = request.schema.safeParse(entry.response);
+    if (!parsed.success) {
+      return null;
+    }
+
+    await prisma.llmResponseCache.update({
+      where: { key },
+      data: { hits: { increment: 1 }, lastUsedAt: new Date() },
+    });
+
+    return {
+      data: parsed.data,
+      usage: { inputTokens: 0, outputTokens: 0, latencyMs: Date.now() - startedAt },
+      cacheHit: { key, storedAt: entry.createdAt.toISOString() },
+    };
+  }
+
+  private async write<T>(key: string, request: LLMJsonRequest<T>, result: LLMJsonResult<T>): Promise<void> {
+    const response = result.data as unknown as Prisma.InputJsonValue;
+    const now = new Date();
+    const entry = {
+      provider: this.name,
+      model: this.model,
+      schemaName: request.schemaName ?? null,
+      response,
+      inputTokens: result.usage.inputTokens,
+      outputTokens: result.usage.outputTokens,
+      sizeBytes: Buffer.byteLength(JSON.stringify(response)),
+      hits: 0,
+      createdAt: now,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + env.LLM_CACHE_TTL_MS),
+    };
+
+    await prisma.llmResponseCache.upsert({ where: { key }, create: { key, ...entry }, update: entry });
+    await pruneAfterWrite(now);
+  }
+
+  async generateJson<T>(request: LLMJsonRequest<T>): Promise<LLMJsonResult<T>> {
+    const key = responseCacheKey(this, request, this.options.variant);
+
+    if (!this.options.bypass) {
+      const cached = await this.read(key, request).catch(() => null);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const result = await this.inner.generateJson(request);
+    await this.write(key, request, result).catch(() => undefined);
+    return result;
+  }
+}
+
+/** Wraps the adapter in the response cache; a no-op when LLM_CACHE_TTL_MS is 0. */
+export function cacheLLM<T extends Pick<ResolvedLLM, "adapter">>(llm: T, options: ResponseCacheOptions = {}): T {
+  if (env.LLM_CACHE_TTL_MS === 0) {
+    return llm;
+  }
+
+  return {
+    ...llm,
+    adapter: new CachingAdapter(llm.adapter, options),
+  };
+}
@@ -1,103 +1,107 @@
 import type { LLMAdapter } from "@/lib/llm/base";
 import { env } from "@/lib/env";
 import { ProviderUnavailableError } from "@/lib/errors";
-import { AnthropicAdapter } from "@/lib/llm/anthropic-adapter";
-import { OllamaAdapter } from "@/lib/llm/ollama-adapter";
+import { isCircuitOpen } from "@/lib/llm/health";
+import {
+  getProviderModelVariant,
+  getProviderRegistration,
+  isProviderTier,
+  providersForPreference,
+  type ProviderRegistration,
+} from "@/lib/llm/registry";
 import type { ProviderPreference, ResolvedProvider } from "@/lib/types";
 
-const ollamaAdapter = new OllamaAdapter();
-const anthropicAdapter = new AnthropicAdapter();
-
 export interface ResolvedLLM {
   provider: ResolvedProvider;
   adapter: LLMAdapter;
   model: string;
 }
 
-export function getAdapterForResolvedProvider(provider: ResolvedProvider): ResolvedLLM {
-  if (provider === "local") {
-    return {
-      provider,
-      adapter: ollamaAdapter,
-      model: ollamaAdapter.model,
-    };
-  }
-
+function toResolvedLLM(registration: ProviderRegistration): ResolvedLLM {
   return {
-    provider,
-    adapter: anthropicAdapter,
-    model: anthropicAdapter.model,
+    provider: registration.name,
+    adapter: registration.adapter,
+    model: registration.model,
   };
 }
 
-async function resolveLocal(): Promise<ResolvedLLM | null> {
-  if (await ollamaAdapter.isHealthy()) {
-    return {
-      provider: "local",
-      adapter: ollamaAdapter,
-      model: ollamaAdapter.model,
-    };
-  }
+/**
+ * Maps a stored provider name back to its adapter without a health check.
+ * Runs created before the registry stored "local"/"hosted"; those map to the
+ * first provider of that tier.
+ */
+export function getAdapterForResolvedProvider(provider: ResolvedProvider): ResolvedLLM | null {
+  const registration =
+    provider === "local" || provider === "hosted"
+      ? providersForPreference(provider)[0]
+      : getProviderRegistration(provider);
 
-  return null;
+  return registration ? toResolvedLLM(registration) : null;
 }
 
-async function resolveHosted(): Promise<ResolvedLLM | null> {
-  if (await anthropicAdapter.isHealthy()) {
-    return {
-      provider: "hosted",
-      adapter: anthropicAdapter,
-      model: anthropicAdapter.model,
-    };
+/**
+ * Maps an analysis routing target to an adapter without a health check. A
+ * preference picks the first provider of that tier; `model` selects another
+ * model of the same provider.
+ */
+export function getAdapterForRouteTarget(target: string, model?: string): ResolvedLLM | null {
+  const registration = isProviderTier(target)
+    ? providersForPreference(target)[0]
+    : getProviderRegistration(target);
+  if (!registration) {
+    return null;
   }
 
-  return null;
+  return toResolvedLLM((model && getProviderModelVariant(registration.name, model)) || registration);
 }
 
-export async function resolveLLM(preference: ProviderPreference): Promise<ResolvedLLM> {
-  if (preference === "local") {
-    const local = await resolveLocal();
-    if (!local) {
-      throw new ProviderUnavailableError(
-        "Local provider requested, but Ollama is unavailable. Start Ollama and pull the configured model.",
-        { preference: "local", baseUrl: process.env.OLLAMA_BASE_URL, model: process.env.OLLAMA_MODEL },
-      );
-    }
+/**
+ * Ordered failover chain for a provider that just failed: every other provider
+ * matching the preference, by priority.
+ */
+export function getFailoverChain(
+  provider: ResolvedProvider,
+  preference: ProviderPreference = "auto",
+): ResolvedLLM[] {
+  return providersForPreference(preference)
+    .filter((registration) => registration.name !== provider)
+    .map(toResolvedLLM);
+}
 
-    return local;
-  }
+function unavailableMessage(preference: ProviderPreference, candidates: ProviderRegistration[]): string {
+  const names = candidates.map((candidate) => candidate.name).join(", ") || "none registered";
 
+  if (preference === "local") {
+    return `Local provider requested, but no local provider is available (${names}). Start Ollama and pull the configured model, or check OPENAI_COMPAT_BASE_URL.`;
+  }
   if (preference === "hosted") {
-    const hosted = await resolveHosted();
-    if (!hosted) {
-      throw new ProviderUnavailableError(
-        "Hosted provider requested, but Anthropic is unavailable. Check API key and model configuration.",
-        { preference: "hosted", model: process.env.ANTHROPIC_MODEL },
-      );
-    }
-
-    return hosted;
+    return `Hosted provider requested, but no hosted provider is available (${names}). Check API key and model configuration.`;
+  }
+  if (!isProviderTier(preference)) {
+    return candidates.length > 0
+      ? `Provider "${preference}" is unavailable. Check its LLM_PROVIDERS entry and that the model is served.`
+      : `Provider "${preference}" is not registered. Add it to LLM_PROVIDERS or pick a registered provider.`;
   }
 
-  const resolverOrder =
-    env.LLM_AUTO_PRIORITY === "hosted_first"
-      ? [resolveHosted, resolveLocal]
-      : [resolveLocal, resolveHosted];
+  return `No healthy LLM provider available (${names}). Configure ANTHROPIC_API_KEY or run Ollama locally.`;
+}
+
+/** First healthy provider for the preference; providers with an open circuit breaker are skipped. */
+export async function resolveLLM(preference: ProviderPreference): Promise<ResolvedLLM> {
+  const candidates = providersForPreference(preference);
 
-  for (const resolveProvider of resolverOrder) {
-    const resolved = await resolveProvider();
-    if (resolved) {
-      return resolved;
+  for (const candidate of candidates) {
+    if (isCircuitOpen(candidate.name)) {
+      continue;
+    }
+    if (await candidate.adapter.isHealthy()) {
+      return toResolvedLLM(candidate);
     }
   }
 
-  throw new ProviderUnavailableError(
-    "No healthy LLM provider available. Configure ANTHROPIC_API_KEY or run Ollama locally.",
-    {
-      preference,
-      autoPriority: env.LLM_AUTO_PRIORITY,
-      localModel: process.env.OLLAMA_MODEL,
-      hostedModel: process.env.ANTHROPIC_MODEL,
-    },
-  );
+  throw new ProviderUnavailableError(unavailableMessage(preference, candidates), {
+    preference,
+    autoPriority: env.LLM_AUTO_PRIORITY,
+    providers: candidates.map((candidate) => ({ name: candidate.name, model: candidate.model })),
+  });
 }
@@ -0,0 +1,34 @@
+import { parsePartialJson } from "@/lib/utils/json";
+
+/**
+ * Accumulates streamed text for one provider pass and reports the partial
+ * JSON it parses to, skipping chunks that do not change it.
+ */
+export class PartialJsonStream {
+  private text = "";
+  private lastSerialized = "";
+
+  constructor(private readonly onPartial?: (partial: unknown) => void) {}
+
+  get content(): string {
+    return this.text;
+  }
+
+  push(delta: string): void {
+    this.text += delta;
+    if (!this.onPartial) {
+      return;
+    }
+
+    const partial = parsePartialJson(this.text);
+    if (partial === undefined) {
+      return;
+    }
+
+    const serialized = JSON.stringify(partial);
+    if (serialized !== this.lastSerialized) {
+      this.lastSerialized = serialized;
+      this.onPartial(partial);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import type { ZodType } from "zod";
+
+import type { LLMCallAttempt, LLMJsonResult, LLMPrompt, LLMUsage } from "@/lib/llm/base";
+import { parseJsonFromText } from "@/lib/utils/json";
+
+const usageByError = new WeakMap<object, LLMUsage>();
+
+/** Tokens a failed generateJson call spent before it threw, if any were metered. */
+export function usageFromError(error: unknown): LLMUsage | undefined {
+  return typeof error === "object" && error !== null ? usageByError.get(error) : undefined;
+}
+
+/**
+ * Accumulates token counts across the passes of a single generateJson call,
+ * measures its wall-clock latency, and reports each pass to the request's
+ * onAttempt hook.
+ */
+export class UsageMeter {
+  private readonly startedAt = Date.now();
+  private passStartedAt = this.startedAt;
+  private passes = 0;
+  private inputTokens = 0;
+  private outputTokens = 0;
+
+  constructor(private readonly onAttempt?: (attempt: LLMCallAttempt) => void) {}
+
+  add(inputTokens: number | null | undefined, outputTokens: number | null | undefined): void {
+    this.inputTokens += inputTokens ?? 0;
+    this.outputTokens += outputTokens ?? 0;
+  }
+
+  attempt(details: Omit<LLMCallAttempt, "pass" | "latencyMs">): void {
+    const now = Date.now();
+    this.passes += 1;
+    this.onAttempt?.({ ...details, pass: this.passes, latencyMs: now - this.passStartedAt });
+    this.passStartedAt = now;
+  }
+
+  /** Repairs and validates raw model text, recording the pass whether or not it succeeds. */
+  parse<T>(schema: ZodType<T>, prompt: LLMPrompt, rawText: string): T {
+    let repairedJson: unknown = null;
+
+    try {
+      repairedJson = parseJsonFromText(rawText);
+      const data = schema.parse(repairedJson);
+      this.attempt({ ...prompt, rawText, repairedJson, validationError: null });
+      return data;
+    } catch (error) {
+      this.attempt({
+        ...prompt,
+        rawText,
+        repairedJson,
+        validationError: error instanceof Error ? error.message : "Unknown parse failure",
+      });
+      throw error;
+    }
+  }
+
+  result<T>(data: T): LLMJsonResult<T> {
+    return { data, usage: this.usage() };
+  }
+
+  /** Attaches the tokens spent so far to an error so callers can still bill a failed call. */
+  failed(error: unknown): unknown {
+    if (typeof error === "object" && error !== null && this.inputTokens + this.outputTokens > 0) {
+      usageByError.set(error, this.usage());
+    }
+    return error;
+  }
+
+  private usage(): LLMUsage {
+    return {
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      latencyMs: Date.now() - this.startedAt,
+    };
+  }
+}
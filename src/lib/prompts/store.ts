@@ -0,0 +1,172 @@
+import { createHash } from "node:crypto";
+
+import type { PromptTemplateVersion as PromptTemplateVersionRecord } from "@prisma/client";
+
+import { prisma } from "@/lib/db";
+import { AppError } from "@/lib/errors";
+import {
+  builtinPromptTemplate,
+  PROMPT_TEMPLATE_VARIABLES,
+  type ResolvedPromptTemplate,
+  unknownTemplateVariables,
+} from "@/lib/prompts/templates";
+import type { CreatePromptTemplateVersionInput, UpdatePromptTemplateVersionInput } from "@/lib/schemas";
+import {
+  PROMPT_GLOBAL_SCOPE,
+  type FrameworkId,
+  type PromptTemplateKey,
+  type PromptTemplateStatus,
+  type PromptTemplateVersion,
+} from "@/lib/types";
+
+function toPromptTemplateVersion(record: PromptTemplateVersionRecord): PromptTemplateVersion {
+  return {
+    id: record.id,
+    key: record.key as PromptTemplateKey,
+    scope: record.scope,
+    version: record.version,
+    systemTemplate: record.systemTemplate,
+    userTemplate: record.userTemplate,
+    status: record.status as PromptTemplateStatus,
+    weight: record.weight,
+    note: record.note,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Weighted pick among active variants. A stable assignment key (the run id,
+ * or the decision id for refinement) keeps every call in one run on the same
+ * variant so A/B results compare whole runs.
+ */
+function pickVariant<T extends { weight: number }>(variants: T[], assignmentKey?: string): T {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const unit = assignmentKey
+    ? Number.parseInt(createHash("sha256").update(assignmentKey).digest("hex").slice(0, 8), 16) / 0x100000000
+    : Math.random();
+  let cursor = unit * totalWeight;
+
+  for (const variant of variants) {
+    cursor -= variant.weight;
+    if (cursor < 0) {
+      return variant;
+    }
+  }
+
+  return variants[variants.length - 1];
+}
+
+/**
+ * Resolves the template for one LLM call: active framework-scoped versions win
+ * over active global versions, which win over the built-in default.
+ */
+export async function resolvePromptTemplate(
+  key: PromptTemplateKey,
+  options: { frameworkId?: FrameworkId; assignmentKey?: string } = {},
+): Promise<ResolvedPromptTemplate> {
+  const scopes = options.frameworkId ? [options.frameworkId, PROMPT_GLOBAL_SCOPE] : [PROMPT_GLOBAL_SCOPE];
+
+  let records: PromptTemplateVersionRecord[];
+  try {
+    records = await prisma.promptTemplateVersion.findMany({
+      where: { key, status: "active", scope: { in: scopes }, weight: { gt: 0 } },
+      orderBy: { version: "asc" },
+    });
+  } catch {
+    // An unreadable template store must not block analysis; the built-ins are always valid.
+    return builtinPromptTemplate(key);
+  }
+
+  for (const scope of scopes) {
+    const variants = records.filter((record) => record.scope === scope);
+    if (variants.length > 0) {
+      const chosen = pickVariant(variants, options.assignmentKey);
+      return {
+        systemTemplate: chosen.systemTemplate,
+        userTemplate: chosen.userTemplate,
+        ref: { key, scope, version: chosen.version },
+      };
+    }
+  }
+
+  return builtinPromptTemplate(key);
+}
+
+export async function listPromptTemplateVersions(
+  filter: { key?: PromptTemplateKey; scope?: string } = {},
+): Promise<PromptTemplateVersion[]> {
+  const records = await prisma.promptTemplateVersion.findMany({
+    where: {
+      ...(filter.key ? { key: filter.key } : {}),
+      ...(filter.scope ? { scope: filter.scope } : {}),
+    },
+    orderBy: [{ key: "asc" }, { scope: "asc" }, { version: "desc" }],
+  });
+
+  return records.map(toPromptTemplateVersion);
+}
+
+export async function getPromptTemplateVersion(id: string): Promise<PromptTemplateVersion> {
+  const record = await prisma.promptTemplateVersion.findUnique({ where: { id } });
+  if (!record) {
+    throw new AppError({
+      code: "NOT_FOUND",
+      status: 404,
+      message: `Prompt template version ${id} not found`,
+    });
+  }
+
+  return toPromptTemplateVersion(record);
+}
+
+export async function createPromptTemplateVersion(
+  input: CreatePromptTemplateVersionInput,
+): Promise<PromptTemplateVersion> {
+  const unknownVariables = unknownTemplateVariables(input.key, input);
+  if (unknownVariables.length > 0) {
+    throw new AppError({
+      code: "BAD_REQUEST",
+      status: 400,
+      message: `Prompt template uses unknown variables: ${unknownVariables.join(", ")}`,
+      details: { unknownVariables, allowedVariables: PROMPT_TEMPLATE_VARIABLES[input.key] },
+    });
+  }
+
+  const record = await prisma.$transaction(async (transaction) => {
+    const latest = await transaction.promptTemplateVersion.findFirst({
+      where: { key: input.key, scope: input.scope },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    return transaction.promptTemplateVersion.create({
+      data: {
+        key: input.key,
+        scope: input.scope,
+        version: (latest?.version ?? 0) + 1,
+        systemTemplate: input.systemTemplate,
+        userTemplate: input.userTemplate,
+        status: input.status,
+        weight: input.weight,
+        note: input.note ?? null,
+      },
+    });
+  });
+
+  return toPromptTemplateVersion(record);
+}
+
+export async function updatePromptTemplateVersion(
+  id: string,
+  patch: UpdatePromptTemplateVersionInput,
+): Promise<PromptTemplateVersion> {
+  await getPromptTemplateVersion(id);
+
+  const record = await prisma.promptTemplateVersion.update({
+    where: { id },
+    data: patch,
+  });
+
+  return toPromptTemplateVersion(record);
+}
@@ -0,0 +1,147 @@
+import type { LLMPrompt } from "@/lib/llm/base";
+import { PROMPT_GLOBAL_SCOPE, type PromptTemplateKey, type PromptTemplateRef } from "@/lib/types";
+
+export interface PromptTemplateSource {
+  systemTemplate: string;
+  userTemplate: string;
+}
+
+export interface ResolvedPromptTemplate extends PromptTemplateSource {
+  ref: PromptTemplateRef;
+}
+
+/** Variables each template may reference as `{{name}}`; callers always supply all of them. */
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateKey, readonly string[]> = {
+  clarification_questions: ["intake", "retryNote"],
+  clarification_suggestions: ["intake", "questions"],
+  decision_brief: ["intake", "clarifications"],
+  criteria_scoring: ["brief", "options", "criteria"],
+  framework_analysis: [
+    "frameworkName",
+    "frameworkId",
+    "frameworkCategory",
+    "frameworkDescription",
+    "frameworkDeepSupported",
+    "frameworkThemeWeights",
+    "decisionThemes",
+    "briefCompact",
+  ],
+};
+
+/**
+ * Version 0 of every template. These render to exactly the prompts the app
+ * shipped before templates were editable, so recorded fixtures keep replaying.
+ */
+export const BUILTIN_PROMPT_TEMPLATES: Record<PromptTemplateKey, PromptTemplateSource> = {
+  clarification_questions: {
+    systemTemplate:
+      "You are a decision architect. Ask concise clarification questions that close execution gaps.",
+    userTemplate: [
+      "Generate up to 6 clarification questions.",
+      "Each question must include: id, question, rationale.",
+      "Focus on concrete options, constraints, timeline, stakeholders, success criteria, risk, and resources.",
+      "Output JSON only; no prose.",
+      // retryNote carries its own trailing newline so the first pass has no blank line.
+      "{{retryNote}}Decision intake JSON: {{intake}}",
+    ].join("\n"),
+  },
+  clarification_suggestions: {
+    systemTemplate:
+      "You are a pragmatic decision advisor. Provide practical, forward-moving draft answers to clarification questions.",
+    userTemplate: [
+      "Return JSON array: [{id, answer}] with one answer per question id.",
+      "Answers must be concise (1-2 sentences), actionable, and include assumptions when data is missing.",
+      "Do not copy input fields verbatim; synthesize them into sensible guidance.",
+      "Decision intake JSON: {{intake}}",
+      "Questions: {{questions}}",
+    ].join("\n"),
+  },
+  decision_brief: {
+    systemTemplate:
+      "You are a senior strategy advisor. Convert raw decision context into a structured execution-ready brief.",
+    userTemplate: [
+      "Return a JSON object that follows the required schema.",
+      "Do not use markdown.",
+      "Include an alternatives array with at least 2 concrete options.",
+      "Intake: {{intake}}",
+      "Clarifications: {{clarifications}}",
+    ].join("\n"),
+  },
+  criteria_scoring: {
+    systemTemplate:
+      "You are a decision analyst. Rate each option against each criterion using only the evidence in the brief.",
+    userTemplate: [
+      "Return JSON: {ratings: [{option, criterionId, score, rationale}]} with one rating per option and criterion.",
+      "Scores run from 0 (fails the criterion) to 10 (fully meets it).",
+      "For hard constraints, score 0 only if the option clearly violates the constraint; otherwise score 10.",
+      "Keep each rationale to one sentence.",
+      "Decision brief JSON: {{brief}}",
+      "Options: {{options}}",
+      "Criteria: {{criteria}}",
+    ].join("\n"),
+  },
+  framework_analysis: {
+    systemTemplate: [
+      "You are a senior decision-analysis specialist.",
+      "Given a framework definition and a decision brief, return strict JSON matching the schema.",
+      "Keep outputs concise, specific, and execution-oriented.",
+      "Scores must be in [0,1].",
+      "Use visualization payloads that match the data shape and are readable by the UI.",
+      "For top-12 deep frameworks, visuals are canonicalized in code; focus your strongest quality on insights/actions/risks.",
+      "Keep list sizes minimal to preserve reliability: insights=3, actions=3, risks=2, assumptions=2.",
+      "Keep each sentence under 180 characters.",
+    ].join("\n"),
+    userTemplate: [
+      "Framework: {{frameworkName}} ({{frameworkId}})",
+      "Framework category: {{frameworkCategory}}",
+      "Framework description: {{frameworkDescription}}",
+      "Framework deep supported: {{frameworkDeepSupported}}",
+      "Framework theme weights: {{frameworkThemeWeights}}",
+      "Decision themes: {{decisionThemes}}",
+      "Decision brief compact: {{briefCompact}}",
+      "Visualization data should include at most 6 points/items.",
+      "Return JSON only.",
+    ].join("\n"),
+  },
+};
+
+export function builtinPromptTemplate(key: PromptTemplateKey): ResolvedPromptTemplate {
+  return {
+    ...BUILTIN_PROMPT_TEMPLATES[key],
+    ref: { key, scope: PROMPT_GLOBAL_SCOPE, version: 0 },
+  };
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+export function templateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]))];
+}
+
+/** Placeholders a template uses that its key never supplies. */
+export function unknownTemplateVariables(key: PromptTemplateKey, source: PromptTemplateSource): string[] {
+  const allowed = new Set(PROMPT_TEMPLATE_VARIABLES[key]);
+  return [
+    ...new Set([...templateVariables(source.systemTemplate), ...templateVariables(source.userTemplate)]),
+  ].filter((name) => !allowed.has(name));
+}
+
+function interpolate(template: string, variables: Record<string, string>): string {
+  return template.replaceAll(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(`Prompt template variable "${name}" was not provided`);
+    }
+    return value;
+  });
+}
+
+export function renderPromptTemplate(
+  source: PromptTemplateSource,
+  variables: Record<string, string>,
+): LLMPrompt {
+  return {
+    systemPrompt: interpolate(source.systemTemplate, variables),
+    userPrompt: interpolate(source.userTemplate, variables),
+  };
+}
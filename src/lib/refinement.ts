@@ -7,14 +7,21 @@ import {
   decisionBriefSchema,
   parseDelimited,
 } from "@/lib/schemas";
-import { resolveLLM } from "@/lib/llm/router";
+import type { LLMAdapter } from "@/lib/llm/base";
+import { getFailoverChain, resolveLLM } from "@/lib/llm/router";
+import { resolvePromptTemplate } from "@/lib/prompts/store";
+import { renderPromptTemplate, type ResolvedPromptTemplate } from "@/lib/prompts/templates";
 import type {
   ClarificationAnswer,
   ClarificationQuestion,
   CreateDecisionInput,
+  CriterionRating,
   DecisionBrief,
+  DecisionCriterion,
+  LLMCallOperation,
   ProviderPreference,
 } from "@/lib/types";
+import { meterLLM } from "@/lib/usage-ledger";
 
 interface QaPair {
   question: string;
@@ -38,6 +45,22 @@ const rawClarificationResponseSchema = z.union([
 
 type RawClarificationResponse = z.infer<typeof rawClarificationResponseSchema>;
 
+const rawCriterionRatingsSchema = z.object({
+  ratings: z
+    .array(
+      z.object({
+        option: z.string().trim().min(1).max(200),
+        criterionId: z.string().trim().min(1).max(80),
+        score: z.number().min(0).max(10),
+        rationale: z.string().trim().max(600).optional(),
+      }),
+    )
+    .min(1)
+    .max(600),
+});
+
+type RawCriterionRatings = z.infer<typeof rawCriterionRatingsSchema>;
+
 function shortSummary(value: string, maxLength = 180): string {
   if (value.length <= maxLength) {
     return value;
@@ -349,6 +372,15 @@ function normalizeClarificationQuestions(
   return normalized;
 }
 
+// Refinement calls are only metered when the caller names the owning decision.
+function withUsageLedger(
+  llm: ResolvedLLM,
+  decisionId: string | undefined,
+  operation: LLMCallOperation,
+): ResolvedLLM {
+  return decisionId ? meterLLM(llm, { decisionId, operation }) : llm;
+}
+
 function isStructuredRecoveryError(error: unknown): boolean {
   return error instanceof ModelOutputInvalidError || error instanceof ModelTimeoutError;
 }
@@ -361,42 +393,35 @@ async function resolveAlternateLLM(
     return null;
   }
 
-  const alternatePreference =
-    currentProvider === "local"
-      ? "hosted"
-      : currentProvider === "hosted"
-        ? "local"
-        : null;
-
-  if (!alternatePreference) {
-    return null;
-  }
-
-  try {
-    const alternate = await resolveLLM(alternatePreference);
-    if (alternate.provider === currentProvider) {
-      return null;
+  for (const alternate of getFailoverChain(currentProvider)) {
+    try {
+      if (await alternate.adapter.isHealthy()) {
+        return alternate;
+      }
+    } catch {
+      // Try the next provider in the chain.
     }
-    return alternate;
-  } catch {
-    return null;
   }
+
+  return null;
 }
 
 async function generateClarificationQuestionsWithProvider(
   input: CreateDecisionInput,
   llm: ResolvedLLM,
+  prompt: ResolvedPromptTemplate,
 ): Promise<ClarificationQuestion[]> {
+  const generate = llm.adapter.generateJson.bind(llm.adapter);
   let questions: ClarificationQuestion[] = [];
 
   try {
-    questions = await requestClarificationQuestions(input, llm.adapter.generateJson.bind(llm.adapter), "first");
+    questions = await requestClarificationQuestions(input, generate, prompt, "first");
   } catch (error) {
     if (!(error instanceof ModelOutputInvalidError)) {
       throw error;
     }
 
-    questions = await requestClarificationQuestions(input, llm.adapter.generateJson.bind(llm.adapter), "retry");
+    questions = await requestClarificationQuestions(input, generate, prompt, "retry");
   }
 
   return clarificationQuestionSchema.array().min(3).max(6).parse(questions);
@@ -404,34 +429,19 @@ async function generateClarificationQuestionsWithProvider(
 
 async function requestClarificationQuestions(
   input: CreateDecisionInput,
-  generate: <T>(request: {
-    systemPrompt: string;
-    userPrompt: string;
-    schema: z.ZodType<T>;
-    temperature?: number;
-    maxTokens?: number;
-  }) => Promise<T>,
+  generate: LLMAdapter["generateJson"],
+  prompt: ResolvedPromptTemplate,
   pass: "first" | "retry",
 ): Promise<ClarificationQuestion[]> {
   const retryNote =
     pass === "retry"
-      ? "Retry mode: output EXACTLY 4-6 unique question objects and include rationale for each."
+      ? "Retry mode: output EXACTLY 4-6 unique question objects and include rationale for each.\n"
       : "";
 
-  const raw = await generate({
-    systemPrompt:
-      "You are a decision architect. Ask concise clarification questions that close execution gaps.",
-    userPrompt: [
-      "Generate up to 6 clarification questions.",
-      "Each question must include: id, question, rationale.",
-      "Focus on concrete options, constraints, timeline, stakeholders, success criteria, risk, and resources.",
-      "Output JSON only; no prose.",
-      retryNote,
-      `Decision intake JSON: ${JSON.stringify(input)}`,
-    ]
-      .filter(Boolean)
-      .join("\n"),
+  const { data: raw } = await generate({
+    ...renderPromptTemplate(prompt, { intake: JSON.stringify(input), retryNote }),
     schema: rawClarificationResponseSchema,
+    schemaName: "rawClarificationResponseSchema",
     temperature: pass === "retry" ? 0 : 0.1,
     maxTokens: 1000,
   });
@@ -525,10 +535,12 @@ export function scoreDecisionBriefQuality(brief: DecisionBrief): number {
 export async function generateClarificationQuestions(
   input: CreateDecisionInput,
   preference: ProviderPreference = "auto",
+  decisionId?: string,
 ): Promise<{ questions: ClarificationQuestion[]; provider: string; fallback: boolean; model: string }> {
-  const primaryLLM = await resolveLLM(preference);
+  const primaryLLM = withUsageLedger(await resolveLLM(preference), decisionId, "clarification_questions");
+  const prompt = await resolvePromptTemplate("clarification_questions", { assignmentKey: decisionId });
   try {
-    const questions = await generateClarificationQuestionsWithProvider(input, primaryLLM);
+    const questions = await generateClarificationQuestionsWithProvider(input, primaryLLM, prompt);
 
     return {
       questions,
@@ -544,7 +556,11 @@ export async function generateClarificationQuestions(
     const alternateLLM = await resolveAlternateLLM(preference, primaryLLM.provider);
     if (alternateLLM) {
       try {
-        const alternateQuestions = await generateClarificationQuestionsWithProvider(input, alternateLLM);
+        const alternateQuestions = await generateClarificationQuestionsWithProvider(
+          input,
+          withUsageLedger(alternateLLM, decisionId, "clarification_questions"),
+          prompt,
+        );
         return {
           questions: alternateQuestions,
           provider: alternateLLM.provider,
@@ -579,24 +595,34 @@ export async function generateDecisionBrief(
   input: CreateDecisionInput,
   qaPairs: QaPair[],
   preference: ProviderPreference = "auto",
+  decisionId?: string,
+  onPartial?: (brief: Partial<DecisionBrief>, provider: string) => void,
 ): Promise<{ decisionBrief: DecisionBrief; provider: string; fallback: boolean; model: string }> {
   const primaryLLM = await resolveLLM(preference);
-
-  const buildBrief = async (llm: ResolvedLLM) =>
-    llm.adapter.generateJson({
-      systemPrompt:
-        "You are a senior strategy advisor. Convert raw decision context into a structured execution-ready brief.",
-      userPrompt: [
-        "Return a JSON object that follows the required schema.",
-        "Do not use markdown.",
-        "Include an alternatives array with at least 2 concrete options.",
-        `Intake: ${JSON.stringify(input)}`,
-        `Clarifications: ${JSON.stringify(qaPairs)}`,
-      ].join("\n"),
+  const prompt = await resolvePromptTemplate("decision_brief", { assignmentKey: decisionId });
+
+  const buildBrief = async (llm: ResolvedLLM) => {
+    const { data } = await withUsageLedger(llm, decisionId, "decision_brief").adapter.generateJson({
+      ...renderPromptTemplate(prompt, {
+        intake: JSON.stringify(input),
+        clarifications: JSON.stringify(qaPairs),
+      }),
       schema: decisionBriefSchema,
+      schemaName: "decisionBriefSchema",
       temperature: 0.1,
       maxTokens: 1800,
+      ...(onPartial
+        ? {
+            onPartial: (partial: unknown) => {
+              if (typeof partial === "object" && partial !== null && !Array.isArray(partial)) {
+                onPartial(partial as Partial<DecisionBrief>, llm.provider);
+              }
+            },
+          }
+        : {}),
     });
+    return data;
+  };
 
   try {
     const decisionBrief = await buildBrief(primaryLLM);
@@ -630,24 +656,24 @@ export async function suggestClarificationAnswers(
   input: CreateDecisionInput,
   questions: ClarificationQuestion[],
   preference: ProviderPreference = "auto",
+  decisionId?: string,
 ): Promise<{ suggestions: ClarificationAnswer[]; provider: string; fallback: boolean; model: string }> {
   const primaryLLM = await resolveLLM(preference);
-
-  const suggestWithProvider = async (llm: ResolvedLLM) =>
-    llm.adapter.generateJson({
-      systemPrompt:
-        "You are a pragmatic decision advisor. Provide practical, forward-moving draft answers to clarification questions.",
-      userPrompt: [
-        "Return JSON array: [{id, answer}] with one answer per question id.",
-        "Answers must be concise (1-2 sentences), actionable, and include assumptions when data is missing.",
-        "Do not copy input fields verbatim; synthesize them into sensible guidance.",
-        `Decision intake JSON: ${JSON.stringify(input)}`,
-        `Questions: ${JSON.stringify(questions)}`,
-      ].join("\n"),
+  const prompt = await resolvePromptTemplate("clarification_suggestions", { assignmentKey: decisionId });
+
+  const suggestWithProvider = async (llm: ResolvedLLM) => {
+    const { data } = await withUsageLedger(llm, decisionId, "clarification_suggestions").adapter.generateJson({
+      ...renderPromptTemplate(prompt, {
+        intake: JSON.stringify(input),
+        questions: JSON.stringify(questions),
+      }),
       schema: clarificationAnswerSchema.array().min(questions.length).max(questions.length),
+      schemaName: "clarificationAnswerSchema[]",
       temperature: 0.2,
       maxTokens: 1200,
     });
+    return data;
+  };
 
   try {
     const llmSuggestions = await suggestWithProvider(primaryLLM);
@@ -689,6 +715,111 @@ export async function suggestClarificationAnswers(
   }
 }
 
+/**
+ * Keeps one rating per known option and criterion. Hard constraints are
+ * pass/fail, so their ratings snap to 0 or 10.
+ */
+function normalizeCriterionRatings(
+  options: string[],
+  criteria: DecisionCriterion[],
+  raw: RawCriterionRatings,
+): CriterionRating[] {
+  const optionSet = new Set(options);
+  const criteriaById = new Map(criteria.map((criterion) => [criterion.id, criterion]));
+  const seen = new Set<string>();
+  const ratings: CriterionRating[] = [];
+
+  for (const row of raw.ratings) {
+    const criterion = criteriaById.get(row.criterionId);
+    const key = `${row.option}\u0000${row.criterionId}`;
+    if (!criterion || !optionSet.has(row.option) || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const rationale = row.rationale ? shortSummary(row.rationale, 400) : "";
+    ratings.push({
+      option: row.option,
+      criterionId: row.criterionId,
+      score: criterion.hard ? (row.score < 5 ? 0 : 10) : Math.round(row.score * 10) / 10,
+      ...(rationale ? { rationale } : {}),
+    });
+  }
+
+  if (ratings.length === 0) {
+    throw new ModelOutputInvalidError("Model returned no ratings for the listed options and criteria.", {
+      returnedCount: raw.ratings.length,
+    });
+  }
+
+  return ratings;
+}
+
+/** Draft ratings for the decision matrix. Without a usable model response the user rates by hand. */
+export async function suggestCriterionRatings(
+  brief: DecisionBrief,
+  options: string[],
+  criteria: DecisionCriterion[],
+  preference: ProviderPreference = "auto",
+  decisionId?: string,
+): Promise<{ ratings: CriterionRating[]; provider: string; fallback: boolean; model: string }> {
+  const primaryLLM = await resolveLLM(preference);
+  const prompt = await resolvePromptTemplate("criteria_scoring", { assignmentKey: decisionId });
+
+  const rateWithProvider = async (llm: ResolvedLLM) => {
+    const { data } = await withUsageLedger(llm, decisionId, "criteria_scoring").adapter.generateJson({
+      ...renderPromptTemplate(prompt, {
+        brief: JSON.stringify(brief),
+        options: JSON.stringify(options),
+        criteria: JSON.stringify(
+          criteria.map((criterion) => ({ id: criterion.id, label: criterion.label, hard: criterion.hard })),
+        ),
+      }),
+      schema: rawCriterionRatingsSchema,
+      schemaName: "rawCriterionRatingsSchema",
+      temperature: 0.1,
+      maxTokens: 2400,
+    });
+    return normalizeCriterionRatings(options, criteria, data);
+  };
+
+  try {
+    return {
+      ratings: await rateWithProvider(primaryLLM),
+      provider: primaryLLM.provider,
+      fallback: false,
+      model: primaryLLM.model,
+    };
+  } catch (primaryError) {
+    if (!isStructuredRecoveryError(primaryError)) {
+      throw primaryError;
+    }
+
+    const alternateLLM = await resolveAlternateLLM(preference, primaryLLM.provider);
+    if (alternateLLM) {
+      try {
+        return {
+          ratings: await rateWithProvider(alternateLLM),
+          provider: alternateLLM.provider,
+          fallback: false,
+          model: alternateLLM.model,
+        };
+      } catch (alternateError) {
+        if (!isStructuredRecoveryError(alternateError)) {
+          throw alternateError;
+        }
+      }
+    }
+
+    return {
+      ratings: [],
+      provider: "heuristic_recovery",
+      fallback: true,
+      model: primaryLLM.model,
+    };
+  }
+}
+
 export function generateClarificationQuestionsSimulation(
   input: CreateDecisionInput,
 ): { questions: ClarificationQuestion[]; provider: string; fallback: boolean } {
@@ -1,6 +1,15 @@
 import { z } from "zod";
 
-import { FRAMEWORK_IDS } from "@/lib/types";
+import {
+  FRAMEWORK_IDS,
+  LLM_CALL_OPERATIONS,
+  MONTE_CARLO_MAX_DRAWS,
+  PROMPT_GLOBAL_SCOPE,
+  PROMPT_TEMPLATE_KEYS,
+  PROMPT_TEMPLATE_STATUSES,
+  RECOMMENDATION_METHODS,
+  RUN_STATUSES,
+} from "@/lib/types";
 
 export const frameworkIdSchema = z.enum(FRAMEWORK_IDS);
 
@@ -48,6 +57,10 @@ export const refineRequestSchema = z.discriminatedUnion("mode", [
   }),
 ]);
 
+export const briefStreamRequestSchema = z.object({
+  answers: z.array(clarificationAnswerSchema).min(1),
+});
+
 export const decisionBriefSchema = z.object({
   title: z.string().min(1).max(180),
   decisionStatement: z.string().min(10).max(5000),
@@ -65,11 +78,335 @@ export const decisionBriefSchema = z.object({
   executionSteps: z.array(z.string().min(1).max(400)).max(30),
 });
 
+/** A tier ("auto", "local", "hosted") or a registered provider name; unknown names fail at resolution. */
+const providerPreferenceSchema = z.string().trim().min(1).max(80);
+
+export const analysisEnsembleConfigSchema = z.object({
+  samples: z.number().int().min(1).max(7),
+  providers: z.array(z.string().trim().min(1).max(80)).min(1).max(7).optional(),
+});
+
 export const analyzeRequestSchema = z.object({
   frameworkIds: z.array(frameworkIdSchema).min(1).max(FRAMEWORK_IDS.length).optional(),
-  providerPreference: z.enum(["local", "hosted", "auto"]).default("auto"),
+  providerPreference: providerPreferenceSchema.default("auto"),
+  ensemble: analysisEnsembleConfigSchema.optional(),
+  /** Skips cached responses for this run; fresh responses still refresh the cache. */
+  bypassCache: z.boolean().default(false),
+});
+
+export const frameworkRetryRequestSchema = z.object({
+  providerPreference: providerPreferenceSchema.optional(),
+});
+
+export const runComparisonQuerySchema = z.object({
+  base: z.string().trim().min(1).max(64),
+  target: z.string().trim().min(1).max(64),
+});
+
+export const briefVersionSchema = z.coerce.number().int().min(1);
+
+export const briefDiffQuerySchema = z.object({
+  from: briefVersionSchema,
+  to: briefVersionSchema,
+});
+
+export const decisionCriterionSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .min(1)
+    .max(80)
+    .regex(/^[a-z0-9_]+$/, "Criterion ids use lowercase letters, digits and underscores"),
+  label: z.string().trim().min(1).max(400),
+  source: z.enum(["success_criterion", "constraint", "custom"]),
+  weight: z.number().min(0).max(100),
+  hard: z.boolean(),
+});
+
+export const criterionRatingSchema = z.object({
+  option: z.string().trim().min(1).max(200),
+  criterionId: z.string().trim().min(1).max(80),
+  score: z.number().min(0).max(10),
+  rationale: z.string().trim().min(1).max(400).optional(),
+});
+
+const criteriaListSchema = z
+  .array(decisionCriterionSchema)
+  .min(1)
+  .max(30)
+  .refine((criteria) => new Set(criteria.map((criterion) => criterion.id)).size === criteria.length, {
+    message: "Criterion ids must be unique",
+  });
+
+export const decisionMatrixInputSchema = z
+  .object({
+    criteria: criteriaListSchema,
+    ratings: z.array(criterionRatingSchema).max(600).default([]),
+  })
+  .refine(
+    (value) => {
+      const ids = new Set(value.criteria.map((criterion) => criterion.id));
+      return value.ratings.every((rating) => ids.has(rating.criterionId));
+    },
+    { message: "Ratings must reference a listed criterion", path: ["ratings"] },
+  )
+  .refine(
+    (value) =>
+      new Set(value.ratings.map((rating) => `${rating.option}\u0000${rating.criterionId}`)).size ===
+      value.ratings.length,
+    { message: "Each option can be rated once per criterion", path: ["ratings"] },
+  );
+
+/** Shape of the matrix stored on the decision row. */
+export const decisionMatrixSchema = z.object({
+  options: z.array(z.string().min(1).max(200)).max(20),
+  criteria: z.array(decisionCriterionSchema).max(30),
+  ratings: z.array(criterionRatingSchema).max(600),
+  updatedAt: z.string().nullable(),
+});
+
+export const criteriaSuggestRequestSchema = z.object({
+  criteria: criteriaListSchema,
+  providerPreference: providerPreferenceSchema.default("auto"),
+});
+
+export const pairwiseJudgmentSchema = z
+  .object({
+    first: z.string().trim().min(1).max(200),
+    second: z.string().trim().min(1).max(200),
+    value: z
+      .number()
+      .min(1 / 9)
+      .max(9),
+  })
+  .refine((judgment) => judgment.first !== judgment.second, { message: "A judgment compares two different items" });
+
+const ahpCriterionSchema = decisionCriterionSchema.pick({ id: true, label: true });
+
+function pairKey(judgment: { first: string; second: string }): string {
+  return [judgment.first, judgment.second].sort().join("\u0000");
+}
+
+function hasUniquePairs(judgments: Array<{ first: string; second: string }>): boolean {
+  return new Set(judgments.map(pairKey)).size === judgments.length;
+}
+
+const ahpAlternativeJudgmentsSchema = z.object({
+  criterionId: z.string().trim().min(1).max(80),
+  judgments: z.array(pairwiseJudgmentSchema).max(28).refine(hasUniquePairs, {
+    message: "Each pair of options can be judged once per criterion",
+  }),
+});
+
+export const ahpModelInputSchema = z
+  .object({
+    criteria: z
+      .array(ahpCriterionSchema)
+      .min(1)
+      .max(9)
+      .refine((criteria) => new Set(criteria.map((criterion) => criterion.id)).size === criteria.length, {
+        message: "Criterion ids must be unique",
+      }),
+    criteriaJudgments: z.array(pairwiseJudgmentSchema).max(36).refine(hasUniquePairs, {
+      message: "Each pair of criteria can be judged once",
+    }),
+    alternativeJudgments: z.array(ahpAlternativeJudgmentsSchema).max(9).default([]),
+  })
+  .refine(
+    (value) => {
+      const ids = new Set(value.criteria.map((criterion) => criterion.id));
+      return value.criteriaJudgments.every((judgment) => ids.has(judgment.first) && ids.has(judgment.second));
+    },
+    { message: "Criteria judgments must compare listed criteria", path: ["criteriaJudgments"] },
+  )
+  .refine(
+    (value) => {
+      const ids = new Set(value.criteria.map((criterion) => criterion.id));
+      const judged = value.alternativeJudgments.map((entry) => entry.criterionId);
+      return judged.every((id) => ids.has(id)) && new Set(judged).size === judged.length;
+    },
+    { message: "Option judgments must reference each listed criterion at most once", path: ["alternativeJudgments"] },
+  );
+
+/** Shape of the AHP model stored on the decision row. */
+export const ahpModelSchema = z.object({
+  criteria: z.array(ahpCriterionSchema).max(9),
+  options: z.array(z.string().min(1).max(200)).max(20),
+  criteriaJudgments: z.array(pairwiseJudgmentSchema).max(36),
+  alternativeJudgments: z.array(ahpAlternativeJudgmentsSchema).max(9),
+  updatedAt: z.string().nullable(),
+});
+
+const monteCarloDistributionSchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("triangular"), min: z.number(), mode: z.number(), max: z.number() }),
+    z.object({ type: z.literal("normal"), mean: z.number(), sd: z.number().positive() }),
+    z.object({ type: z.literal("lognormal"), mu: z.number().min(-50).max(50), sigma: z.number().positive().max(10) }),
+    z.object({ type: z.literal("uniform"), min: z.number(), max: z.number() }),
+    z.object({
+      type: z.literal("beta"),
+      alpha: z.number().positive().max(1000),
+      beta: z.number().positive().max(1000),
+      min: z.number().default(0),
+      max: z.number().default(1),
+    }),
+    z.object({
+      type: z.literal("discrete"),
+      outcomes: z
+        .array(z.object({ value: z.number(), probability: z.number().min(0).max(1) }))
+        .min(1)
+        .max(50),
+    }),
+  ])
+  .refine(
+    (distribution) =>
+      distribution.type === "triangular"
+        ? distribution.min <= distribution.mode && distribution.mode <= distribution.max && distribution.min < distribution.max
+        : distribution.type === "uniform" || distribution.type === "beta"
+          ? distribution.min < distribution.max
+          : true,
+    { message: "Distribution bounds must satisfy min < max (and min <= mode <= max)" },
+  )
+  .refine(
+    (distribution) =>
+      distribution.type !== "discrete" ||
+      Math.abs(distribution.outcomes.reduce((sum, outcome) => sum + outcome.probability, 0) - 1) <= 0.001,
+    { message: "Discrete probabilities must sum to 1" },
+  );
+
+const monteCarloVariableNameSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]{0,39}$/, "Variable names must be identifiers of at most 40 characters");
+
+const monteCarloAlternativeSchema = z.object({
+  option: z.string().trim().min(1).max(200),
+  variables: z
+    .array(z.object({ name: monteCarloVariableNameSchema, distribution: monteCarloDistributionSchema }))
+    .min(1)
+    .max(20)
+    .refine((variables) => new Set(variables.map((variable) => variable.name)).size === variables.length, {
+      message: "Variable names must be unique per option",
+    }),
 });
 
+const monteCarloCorrelationSchema = z
+  .object({
+    first: monteCarloVariableNameSchema,
+    second: monteCarloVariableNameSchema,
+    coefficient: z.number().min(-0.99).max(0.99),
+  })
+  .refine((correlation) => correlation.first !== correlation.second, {
+    message: "A correlation links two different variables",
+  });
+
+const monteCarloTrialsSchema = z.number().int().min(500).max(20000);
+
+const monteCarloSeedSchema = z.string().trim().min(1).max(64);
+
+export const monteCarloModelInputSchema = z
+  .object({
+    outcomeLabel: z.string().trim().min(1).max(80),
+    formula: z.string().trim().min(1).max(500),
+    alternatives: z
+      .array(monteCarloAlternativeSchema)
+      .min(1)
+      .max(8)
+      .refine((alternatives) => new Set(alternatives.map((entry) => entry.option)).size === alternatives.length, {
+        message: "Each option can be modelled once",
+      }),
+    correlations: z
+      .array(monteCarloCorrelationSchema)
+      .max(45)
+      .refine(hasUniquePairs, { message: "Each pair of variables can be correlated once" })
+      .default([]),
+    trials: monteCarloTrialsSchema.default(5000),
+    seed: monteCarloSeedSchema.optional(),
+  })
+  .refine(
+    (value) => {
+      const names = new Set(value.alternatives.flatMap((entry) => entry.variables.map((variable) => variable.name)));
+      return value.correlations.every((correlation) => names.has(correlation.first) && names.has(correlation.second));
+    },
+    { message: "Correlations must reference defined variables", path: ["correlations"] },
+  )
+  .refine(
+    (value) =>
+      value.trials * value.alternatives.reduce((sum, entry) => sum + entry.variables.length, 0) <=
+      MONTE_CARLO_MAX_DRAWS,
+    {
+      message: `Trials times variables across all options must not exceed ${MONTE_CARLO_MAX_DRAWS.toLocaleString("en-US")}`,
+      path: ["trials"],
+    },
+  );
+
+/** Shape of the Monte Carlo model stored on the decision row. */
+export const monteCarloModelSchema = z.object({
+  outcomeLabel: z.string().min(1).max(80),
+  formula: z.string().min(1).max(500),
+  alternatives: z.array(monteCarloAlternativeSchema).max(8),
+  correlations: z.array(monteCarloCorrelationSchema).max(45),
+  trials: monteCarloTrialsSchema,
+  seed: monteCarloSeedSchema,
+  updatedAt: z.string().nullable(),
+});
+
+/** Reruns the saved model; omitted fields keep the saved seed and trial count. */
+export const monteCarloRunRequestSchema = z.object({
+  seed: monteCarloSeedSchema.optional(),
+  trials: monteCarloTrialsSchema.optional(),
+});
+
+export const llmCallLogQuerySchema = z.object({
+  runId: z.string().trim().min(1).max(64).optional(),
+  frameworkId: frameworkIdSchema.optional(),
+  operation: z.enum(LLM_CALL_OPERATIONS).optional(),
+});
+
+export const createPromptTemplateVersionSchema = z
+  .object({
+    key: z.enum(PROMPT_TEMPLATE_KEYS),
+    scope: z.union([z.literal(PROMPT_GLOBAL_SCOPE), frameworkIdSchema]).default(PROMPT_GLOBAL_SCOPE),
+    systemTemplate: z.string().trim().min(1).max(20000),
+    userTemplate: z.string().trim().min(1).max(20000),
+    status: z.enum(PROMPT_TEMPLATE_STATUSES).default("draft"),
+    weight: z.number().int().min(0).max(1000).default(100),
+    note: z.string().trim().max(500).optional(),
+  })
+  .refine((value) => value.scope === PROMPT_GLOBAL_SCOPE || value.key === "framework_analysis", {
+    message: "Only framework_analysis templates can be scoped to a framework",
+    path: ["scope"],
+  });
+
+export const updatePromptTemplateVersionSchema = z
+  .object({
+    status: z.enum(PROMPT_TEMPLATE_STATUSES).optional(),
+    weight: z.number().int().min(0).max(1000).optional(),
+    note: z.string().trim().max(500).optional(),
+  })
+  .refine((value) => Object.keys(value).length > 0, { message: "Nothing to update" });
+
+export const promptTemplateQuerySchema = z.object({
+  key: z.enum(PROMPT_TEMPLATE_KEYS).optional(),
+  scope: z.string().trim().min(1).max(120).optional(),
+});
+
+export type CreatePromptTemplateVersionInput = z.infer<typeof createPromptTemplateVersionSchema>;
+export type UpdatePromptTemplateVersionInput = z.infer<typeof updatePromptTemplateVersionSchema>;
+
+export const decisionLibraryQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200).optional(),
+  cursor: z.string().trim().min(1).max(64).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum([...RUN_STATUSES, "none"]).optional(),
+  minQuality: z.coerce.number().min(0).max(1).optional(),
+  maxQuality: z.coerce.number().min(0).max(1).optional(),
+  sort: z.enum(["createdAt", "updatedAt"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export type DecisionLibraryQuery = z.infer<typeof decisionLibraryQuerySchema>;
+
 export const exportQuerySchema = z.object({
   format: z.enum(["md", "zip"]).default("md"),
 });
@@ -105,6 +442,23 @@ export const themeVectorSchema = z.object({
   stakeholderImpact: z.number().min(0).max(1),
 });
 
+export const whatIfOverridesSchema = z.object({
+  themes: themeVectorSchema.partial().strict().default({}),
+  riskTolerance: z.enum(["low", "medium", "high"]).optional(),
+});
+
+export const scenarioCreateRequestSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  overrides: whatIfOverridesSchema,
+});
+
+export const scenarioRankingSchema = z.array(
+  z.object({
+    option: z.string().min(1).max(200),
+    score: z.number().min(0).max(1),
+  }),
+);
+
 export const frameworkAnalysisLLMSchema = z.object({
   applicabilityScore: z.number().min(0).max(1),
   confidence: z.number().min(0).max(1),
@@ -134,6 +488,37 @@ export const frameworkResultSchema = z.object({
       provider: z.string().min(1).max(160).optional(),
       model: z.string().min(1).max(200).optional(),
       warning: z.string().min(1).max(800).optional(),
+      prompt: z
+        .object({
+          key: z.enum(PROMPT_TEMPLATE_KEYS),
+          scope: z.string().min(1).max(120),
+          version: z.number().int().min(0),
+        })
+        .optional(),
+      cacheHit: z
+        .object({
+          key: z.string().min(1).max(128),
+          storedAt: z.string().min(1).max(64),
+        })
+        .optional(),
+    })
+    .optional(),
+  uncertainty: z
+    .object({
+      samples: z.number().int().min(1),
+      providers: z.array(z.string().min(1).max(160)),
+      applicabilitySpread: z.number().min(0).max(1),
+      confidenceSpread: z.number().min(0).max(1),
+      themeSpread: z.number().min(0).max(1),
+      dispersion: z.number().min(0).max(1),
+    })
+    .optional(),
+  route: z
+    .object({
+      rule: z.string().min(1).max(160),
+      target: z.string().min(1).max(160),
+      provider: z.string().min(1).max(160).nullable(),
+      model: z.string().min(1).max(200).nullable(),
     })
     .optional(),
 });
@@ -143,6 +528,19 @@ const decisionOptionScoreSchema = z.object({
   score: z.number().min(0).max(1),
   confidence: z.number().min(0).max(1),
   rationale: z.string().min(1).max(600),
+  criteria: z
+    .array(
+      z.object({
+        criterionId: z.string().min(1).max(80),
+        label: z.string().min(1).max(400),
+        weight: z.number().min(0).max(1),
+        score: z.number().min(0).max(1),
+        contribution: z.number().min(0).max(1),
+      }),
+    )
+    .max(30)
+    .optional(),
+  eliminatedBy: z.array(z.string().min(1).max(400)).max(30).optional(),
 });
 
 const decisionRecommendationSchema = z.object({
@@ -152,6 +550,7 @@ const decisionRecommendationSchema = z.object({
   tradeoffs: z.array(z.string().min(1).max(500)).max(20),
   nextActions: z.array(z.string().min(1).max(500)).max(20),
   optionScores: z.array(decisionOptionScoreSchema).min(1).max(20),
+  method: z.enum(RECOMMENDATION_METHODS).optional(),
 });
 
 export const synthesisSummarySchema = z.object({
@@ -72,16 +72,37 @@ export type Top12DeepFrameworkId = (typeof TOP_12_DEEP_FRAMEWORK_IDS)[number];
 
 export const TOP_12_DEEP_FRAMEWORKS = new Set<FrameworkId>(TOP_12_DEEP_FRAMEWORK_IDS);
 
-export type ProviderPreference = "local" | "hosted" | "auto";
-export type ResolvedProvider = "local" | "hosted";
+/** Name of a registered LLM provider. Runs created before the registry store "local" or "hosted". */
+export type ResolvedProvider = string;
 
-export type RunStatus =
-  | "queued"
-  | "clarifying"
-  | "analyzing"
-  | "synthesizing"
-  | "complete"
-  | "failed";
+export const PROVIDER_TIERS = ["auto", "local", "hosted"] as const;
+/** "auto" walks the whole priority chain; "local" and "hosted" keep to providers with or without the offline capability. */
+export type ProviderTier = (typeof PROVIDER_TIERS)[number];
+/** A tier, or the name of one registered provider to use as the primary. */
+export type ProviderPreference = ProviderTier | ResolvedProvider;
+
+export const PROVIDER_CAPABILITIES = ["json_schema", "offline"] as const;
+export type ProviderCapability = (typeof PROVIDER_CAPABILITIES)[number];
+
+/** A registered provider as listed to clients; adapters and credentials stay on the server. */
+export interface ProviderSummary {
+  name: string;
+  model: string;
+  capabilities: ProviderCapability[];
+}
+
+export const RUN_STATUSES = [
+  "queued",
+  "clarifying",
+  "analyzing",
+  "synthesizing",
+  "complete",
+  "failed",
+  "paused",
+  "cancelled",
+] as const;
+
+export type RunStatus = (typeof RUN_STATUSES)[number];
 
 export interface CreateDecisionInput {
   title?: string;
@@ -113,6 +134,47 @@ export interface DecisionBrief {
   executionSteps: string[];
 }
 
+/** Who wrote a saved brief version: generated from clarifications, or edited by the user. */
+export type BriefAuthor = "model" | "human";
+
+export interface DecisionBriefVersion {
+  version: number;
+  author: BriefAuthor;
+  qualityScore: number | null;
+  /** Set when this version was created by restoring an earlier one. */
+  restoredFromVersion: number | null;
+  createdAt: string;
+  brief: DecisionBrief;
+}
+
+export type BriefListField = {
+  [K in keyof DecisionBrief]: DecisionBrief[K] extends string[] ? K : never;
+}[keyof DecisionBrief];
+
+export type BriefScalarField = Exclude<keyof DecisionBrief, BriefListField>;
+
+export interface BriefScalarChange {
+  field: BriefScalarField;
+  from: string | null;
+  to: string | null;
+}
+
+export interface BriefListChange {
+  field: BriefListField;
+  added: string[];
+  removed: string[];
+}
+
+export interface BriefDiff {
+  decisionId: string;
+  fromVersion: number;
+  toVersion: number;
+  scalarChanges: BriefScalarChange[];
+  listChanges: BriefListChange[];
+  /** Null when either version has no quality score. */
+  qualityScoreDelta: number | null;
+}
+
 export interface ClarificationQuestion {
   id: string;
   question: string;
@@ -261,6 +323,15 @@ export interface MonteCarloVizData {
     distribution: string;
     correlationMode: string;
   };
+  /**
+   * Real-unit range of a user-defined simulation. Bins and percentiles are then positions
+   * within [min, max]; absent when outcomes are already on a 0–1 scale.
+   */
+  outcome?: {
+    label: string;
+    min: number;
+    max: number;
+  };
 }
 
 export interface ConsequencesVizData {
@@ -342,11 +413,47 @@ export interface CanonicalTop12VisualizationSpec extends VisualizationSpec {
   data: Top12VisualizationData;
 }
 
+/** Set when a response was served from the LLM response cache instead of the provider. */
+export interface LLMCacheHit {
+  key: string;
+  storedAt: string;
+}
+
 export interface FrameworkGenerationMetadata {
   mode: "llm" | "fallback";
   provider?: string;
   model?: string;
   warning?: string;
+  prompt?: PromptTemplateRef;
+  cacheHit?: LLMCacheHit;
+}
+
+export interface AnalysisEnsembleConfig {
+  /** LLM samples per framework; 1 disables ensembling. */
+  samples: number;
+  /** Providers assigned to samples round-robin; defaults to the run's provider. */
+  providers?: string[];
+}
+
+/** Inter-sample spread of an ensembled framework result, 0 when every sample agrees. */
+export interface FrameworkUncertainty {
+  samples: number;
+  providers: string[];
+  applicabilitySpread: number;
+  confidenceSpread: number;
+  themeSpread: number;
+  /** 0..1 summary of the three spreads; discounts the result's confidence in synthesis. */
+  dispersion: number;
+}
+
+export interface FrameworkRoute {
+  /** Routing policy entry that matched: "framework:<id>", "category:<name>", "maturity:<level>", "deep", "default" or "retry". */
+  rule: string;
+  /** Configured target: "run", "simulation", a provider preference or a provider name. */
+  target: string;
+  /** Provider and model the framework was sent to; null when routed to simulation. */
+  provider: string | null;
+  model: string | null;
 }
 
 export interface FrameworkResult {
@@ -362,6 +469,8 @@ export interface FrameworkResult {
   vizPayload: VisualizationSpec;
   deepSupported: boolean;
   generation?: FrameworkGenerationMetadata;
+  uncertainty?: FrameworkUncertainty;
+  route?: FrameworkRoute;
 }
 
 export interface PropagatedMapNode {
@@ -408,11 +517,290 @@ export interface SynthesisSummary {
   warnings?: string[];
 }
 
+export type CriterionSource = "success_criterion" | "constraint" | "custom";
+
+export interface DecisionCriterion {
+  id: string;
+  label: string;
+  source: CriterionSource;
+  /** Relative importance, normalized across the weighted criteria when scoring. Ignored when hard. */
+  weight: number;
+  /** Hard constraints are pass/fail: an option rated 0 on one is eliminated instead of weighed. */
+  hard: boolean;
+}
+
+export interface CriterionRating {
+  option: string;
+  criterionId: string;
+  /** 0–10. On a hard constraint, 0 means the option violates it. */
+  score: number;
+  rationale?: string;
+}
+
+/** Options × criteria scoring table for weighted multi-criteria analysis. Options mirror the brief's alternatives. */
+export interface DecisionMatrix {
+  options: string[];
+  criteria: DecisionCriterion[];
+  ratings: CriterionRating[];
+  updatedAt: string | null;
+}
+
+export interface CriterionContribution {
+  criterionId: string;
+  label: string;
+  /** Normalized weight; the weights of an option's breakdown sum to 1. */
+  weight: number;
+  /** The rating scaled to [0,1]. */
+  score: number;
+  /** weight × score; contributions sum to the option's score. */
+  contribution: number;
+}
+
 export interface DecisionOptionScore {
   option: string;
   score: number;
   confidence: number;
   rationale: string;
+  /** Per-criterion breakdown, present when the option was scored against a decision matrix. */
+  criteria?: CriterionContribution[];
+  /** Labels of the hard constraints the option violates; eliminated options score 0 and rank last. */
+  eliminatedBy?: string[];
+}
+
+/** One pairwise judgment on Saaty's 1/9–9 scale: how strongly `first` is preferred to `second`. */
+export interface PairwiseJudgment {
+  first: string;
+  second: string;
+  value: number;
+}
+
+export interface AhpCriterion {
+  id: string;
+  label: string;
+}
+
+export interface AhpAlternativeJudgments {
+  criterionId: string;
+  judgments: PairwiseJudgment[];
+}
+
+/** Analytic Hierarchy Process inputs. Unjudged pairs count as equal (1). */
+export interface AhpModel {
+  criteria: AhpCriterion[];
+  options: string[];
+  /** Pairs of criterion ids. */
+  criteriaJudgments: PairwiseJudgment[];
+  /** Pairs of options, one set per criterion. */
+  alternativeJudgments: AhpAlternativeJudgments[];
+  updatedAt: string | null;
+}
+
+export interface AhpConsistency {
+  /** Principal eigenvalue of the comparison matrix. */
+  lambdaMax: number;
+  consistencyIndex: number;
+  /** CI divided by Saaty's random index; judgments above 0.1 should be revisited. */
+  consistencyRatio: number;
+  consistent: boolean;
+}
+
+export interface AhpPriority {
+  id: string;
+  label: string;
+  priority: number;
+}
+
+export interface AhpCriterionBreakdown {
+  criterionId: string;
+  /** Option priorities under this criterion alone; they sum to 1. */
+  priorities: AhpPriority[];
+  consistency: AhpConsistency;
+}
+
+export interface AhpResult {
+  criteria: AhpPriority[];
+  criteriaConsistency: AhpConsistency;
+  byCriterion: AhpCriterionBreakdown[];
+  /** Global option priorities, highest first; they sum to 1. */
+  options: AhpPriority[];
+  consistent: boolean;
+}
+
+/** User-provided scoring inputs stored on the decision. */
+export interface DecisionScoringInputs {
+  matrix: DecisionMatrix | null;
+  ahp: AhpModel | null;
+}
+
+export const RECOMMENDATION_METHODS = ["heuristic", "weighted_criteria", "ahp"] as const;
+
+export type RecommendationMethod = (typeof RECOMMENDATION_METHODS)[number];
+
+/** Coefficients of the theme heuristic's option score; the uncertainty penalty is subtracted. */
+export interface HeuristicScoringWeights {
+  riskFit: number;
+  opportunityFit: number;
+  resourceFit: number;
+  stakeholderFit: number;
+  optionality: number;
+  uncertaintyPenalty: number;
+}
+
+export interface HeuristicOption {
+  option: string;
+  /** Deterministic per-option jitter in [0, 1], derived from the brief title and option. */
+  seed: number;
+}
+
+export interface HeuristicScoringModel {
+  method: "heuristic";
+  options: HeuristicOption[];
+  /** Framework themes averaged across the run. */
+  themes: ThemeVector;
+  riskTolerance: DecisionBrief["riskTolerance"];
+  weights: HeuristicScoringWeights;
+}
+
+/** Everything needed to re-score options without the brief or new LLM calls. */
+export type ScoringModel =
+  | HeuristicScoringModel
+  | { method: "weighted_criteria"; matrix: DecisionMatrix }
+  | { method: "ahp"; result: AhpResult; eliminatedBy: Record<string, string[]> };
+
+/** What-if inputs that differ from the run; anything absent keeps the run's value. */
+export interface WhatIfOverrides {
+  themes: Partial<ThemeVector>;
+  riskTolerance?: DecisionBrief["riskTolerance"];
+}
+
+export interface ScenarioRankingEntry {
+  option: string;
+  score: number;
+}
+
+export interface DecisionScenario {
+  id: string;
+  name: string;
+  /** The run whose themes the overrides were applied to. */
+  runId: string | null;
+  overrides: WhatIfOverrides;
+  /** Heuristic option scores under the overrides, highest first. */
+  ranking: ScenarioRankingEntry[];
+  createdAt: string;
+}
+
+export type SensitivityFactorKind =
+  | "theme"
+  | "risk_tolerance"
+  | "scoring_weight"
+  | "criterion_weight"
+  | "composite_weight";
+
+export interface SensitivityPoint {
+  value: number;
+  /** Display form of the value: a number, or a risk tolerance level. */
+  label: string;
+  leader: string;
+  /** The recommended option's score minus the best alternative's; negative once another option leads. */
+  margin: number;
+}
+
+export interface SensitivityFactor {
+  id: string;
+  label: string;
+  kind: SensitivityFactorKind;
+  baseline: { value: number; label: string };
+  low: SensitivityPoint;
+  high: SensitivityPoint;
+  /** Margin range between the low and high points; tornado bars are sorted by it. */
+  swing: number;
+  /** Nearest input value at which another option takes the lead, anywhere in the factor's domain. */
+  breakEven: { value: number; label: string; leader: string } | null;
+  /** Share of the low–high range over which the recommended option stays on top. */
+  holdShare: number;
+}
+
+export interface SensitivityAnalysis {
+  method: RecommendationMethod;
+  recommendedOption: string;
+  runnerUp: string;
+  baselineMargin: number;
+  /** Mean hold share across factors: 1 means no tested perturbation changes the pick. */
+  robustness: number;
+  factors: SensitivityFactor[];
+}
+
+export const MONTE_CARLO_DISTRIBUTIONS = ["triangular", "normal", "lognormal", "uniform", "beta", "discrete"] as const;
+
+export type MonteCarloDistributionType = (typeof MONTE_CARLO_DISTRIBUTIONS)[number];
+
+export type MonteCarloDistribution =
+  | { type: "triangular"; min: number; mode: number; max: number }
+  | { type: "normal"; mean: number; sd: number }
+  /** Parameters of the underlying normal, so the median is e^mu. */
+  | { type: "lognormal"; mu: number; sigma: number }
+  | { type: "uniform"; min: number; max: number }
+  /** Beta(alpha, beta) stretched from [0,1] onto [min, max]. */
+  | { type: "beta"; alpha: number; beta: number; min: number; max: number }
+  | { type: "discrete"; outcomes: Array<{ value: number; probability: number }> };
+
+export interface MonteCarloVariable {
+  /** Identifier the outcome formula refers to. */
+  name: string;
+  distribution: MonteCarloDistribution;
+}
+
+export interface MonteCarloAlternative {
+  option: string;
+  variables: MonteCarloVariable[];
+}
+
+/** Correlation between the normal scores behind two variables (a Gaussian copula), applied to every option. */
+export interface MonteCarloCorrelation {
+  first: string;
+  second: string;
+  coefficient: number;
+}
+
+/**
+ * Ceiling on trials × variables summed over options. Results and export rerun
+ * the saved model on every request, so one run must stay well under a second.
+ */
+export const MONTE_CARLO_MAX_DRAWS = 250_000;
+
+/** User-defined simulation: one outcome formula evaluated over each option's uncertain variables. */
+export interface MonteCarloModel {
+  outcomeLabel: string;
+  formula: string;
+  alternatives: MonteCarloAlternative[];
+  correlations: MonteCarloCorrelation[];
+  trials: number;
+  seed: string;
+  updatedAt: string | null;
+}
+
+export interface MonteCarloAlternativeResult {
+  option: string;
+  /** Outcome statistics in the formula's own units. */
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  /** Share of trials in which this option produced the highest outcome; ties split evenly. */
+  winProbability: number;
+  viz: MonteCarloVizData;
+}
+
+export interface MonteCarloResult {
+  outcomeLabel: string;
+  trials: number;
+  seed: string;
+  correlationMode: "independent" | "gaussian_copula";
+  /** Ordered as in the model. */
+  alternatives: MonteCarloAlternativeResult[];
 }
 
 export interface DecisionRecommendation {
@@ -422,6 +810,8 @@ export interface DecisionRecommendation {
   tradeoffs: string[];
   nextActions: string[];
   optionScores: DecisionOptionScore[];
+  /** Absent on recommendations stored before scoring methods were recorded, which were heuristic. */
+  method?: RecommendationMethod;
 }
 
 export interface DecisionRunStatus {
@@ -437,6 +827,193 @@ export interface DecisionRunStatus {
   completedFrameworkCount: number;
 }
 
+export interface DecisionRunSummary extends DecisionRunStatus {
+  createdAt: string;
+  durationMs: number | null;
+  /** Brief version the run analyzed; null for runs created before versions were recorded. */
+  briefVersion: number | null;
+}
+
+export interface FrameworkScoreSnapshot {
+  applicabilityScore: number;
+  confidence: number;
+}
+
+export interface FrameworkScoreDelta {
+  frameworkId: FrameworkId;
+  frameworkName: string;
+  base: FrameworkScoreSnapshot | null;
+  target: FrameworkScoreSnapshot | null;
+  applicabilityDelta: number | null;
+  confidenceDelta: number | null;
+}
+
+export interface RunComparison {
+  decisionId: string;
+  baseRunId: string;
+  targetRunId: string;
+  frameworkDeltas: FrameworkScoreDelta[];
+  recommendation: {
+    base: string | null;
+    target: string | null;
+    changed: boolean;
+    confidenceDelta: number | null;
+  };
+  edgesAdded: PropagatedMapEdge[];
+  edgesRemoved: PropagatedMapEdge[];
+}
+
+export const LLM_CALL_OPERATIONS = [
+  "clarification_questions",
+  "clarification_suggestions",
+  "decision_brief",
+  "framework_analysis",
+  "criteria_scoring",
+] as const;
+
+export type LLMCallOperation = (typeof LLM_CALL_OPERATIONS)[number];
+
+export const PROMPT_TEMPLATE_KEYS = [
+  "clarification_questions",
+  "clarification_suggestions",
+  "decision_brief",
+  "framework_analysis",
+  "criteria_scoring",
+] as const;
+
+export type PromptTemplateKey = (typeof PROMPT_TEMPLATE_KEYS)[number];
+
+export const PROMPT_TEMPLATE_STATUSES = ["draft", "active", "archived"] as const;
+
+export type PromptTemplateStatus = (typeof PROMPT_TEMPLATE_STATUSES)[number];
+
+/** Template scope that applies to every framework; other scopes are framework ids. */
+export const PROMPT_GLOBAL_SCOPE = "global";
+
+/** Identifies the template a prompt was rendered from. Version 0 is the built-in default. */
+export interface PromptTemplateRef {
+  key: PromptTemplateKey;
+  scope: string;
+  version: number;
+}
+
+export interface PromptTemplateVersion {
+  id: string;
+  key: PromptTemplateKey;
+  scope: string;
+  version: number;
+  systemTemplate: string;
+  userTemplate: string;
+  status: PromptTemplateStatus;
+  /** Relative share of traffic among active versions of the same key and scope. */
+  weight: number;
+  note: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  /** Sum over priced calls only; see unpricedCalls. */
+  costUsd: number;
+  unpricedCalls: number;
+}
+
+export interface UsageSummary {
+  run: LLMUsageTotals;
+  decision: LLMUsageTotals;
+}
+
+/** One audited pass of a generateJson call, as returned by the llm-calls API. */
+export interface LLMCallLogEntry {
+  id: string;
+  callId: string;
+  runId: string | null;
+  operation: LLMCallOperation;
+  frameworkId: FrameworkId | null;
+  provider: string;
+  model: string;
+  schemaName: string | null;
+  pass: number;
+  systemPrompt: string;
+  userPrompt: string;
+  rawText: string | null;
+  repairedJson: unknown;
+  validationError: string | null;
+  /** Why the call as a whole failed; set on its last recorded pass. */
+  error: string | null;
+  latencyMs: number;
+  createdAt: string;
+}
+
+interface RunEventBase {
+  runId: string;
+  at: string;
+}
+
+export type RunEvent =
+  | (RunEventBase & {
+      type: "snapshot";
+      run: DecisionRunStatus;
+      frameworkResults: FrameworkResult[];
+    })
+  | (RunEventBase & { type: "status"; status: RunStatus; error: string | null })
+  | (RunEventBase & {
+      type: "framework_started";
+      frameworkId: FrameworkId;
+      provider: string;
+      model: string | null;
+    })
+  | (RunEventBase & { type: "framework_completed"; frameworkId: FrameworkId; result: FrameworkResult })
+  | (RunEventBase & { type: "framework_fallback"; frameworkId: FrameworkId; warning: string })
+  | (RunEventBase & { type: "warning"; message: string })
+  | (RunEventBase & { type: "synthesis"; synthesis: SynthesisSummary });
+
+export type RunEventType = RunEvent["type"];
+
+/** Events streamed by POST /api/decisions/:id/refine/stream while the brief is written. */
+export type BriefStreamEvent =
+  | { type: "partial"; brief: Partial<DecisionBrief>; provider: string }
+  | {
+      type: "complete";
+      decisionBrief: DecisionBrief;
+      qualityScore: number;
+      provider: string;
+      model: string;
+      fallback: boolean;
+      status: "brief_ready";
+    }
+  | { type: "error"; error: string; code: string; details?: unknown };
+
+export interface DecisionLibraryItem {
+  id: string;
+  title: string;
+  prompt: string;
+  createdAt: string;
+  updatedAt: string;
+  latestBrief: {
+    version: number;
+    qualityScore: number | null;
+  } | null;
+  latestRun: {
+    runId: string;
+    status: RunStatus;
+    provider: string;
+    model: string | null;
+    frameworkCount: number;
+    createdAt: string;
+    endedAt: string | null;
+  } | null;
+}
+
+export interface DecisionLibraryPage {
+  items: DecisionLibraryItem[];
+  nextCursor: string | null;
+}
+
 export interface ClarificationGenerationSnapshot {
   generationId: string;
   questions: Array<{
@@ -468,7 +1045,6 @@ export interface FrameworkDefinition {
   maturity: "core" | "exploratory";
   deepSupported: boolean;
   description: string;
-  promptTemplate: string;
   themeWeights: ThemeVector;
 }
 
@@ -0,0 +1,153 @@
+import { randomUUID } from "node:crypto";
+
+import { prisma } from "@/lib/db";
+import { recordLLMCallAttempts } from "@/lib/llm-audit";
+import type { LLMAdapter, LLMCallAttempt, LLMJsonRequest, LLMJsonResult, LLMUsage } from "@/lib/llm/base";
+import { estimateCostUsd } from "@/lib/llm/pricing";
+import type { ResolvedLLM } from "@/lib/llm/router";
+import { usageFromError } from "@/lib/llm/usage";
+import type { FrameworkId, LLMCallOperation, LLMUsageTotals, UsageSummary } from "@/lib/types";
+
+export interface LLMCallScope {
+  decisionId: string;
+  runId?: string | null;
+  operation: LLMCallOperation;
+  frameworkId?: FrameworkId | null;
+}
+
+export async function recordLLMCall(
+  scope: LLMCallScope,
+  llm: Pick<ResolvedLLM, "provider" | "model">,
+  usage: LLMUsage,
+): Promise<void> {
+  await prisma.llmCallRecord.create({
+    data: {
+      decisionId: scope.decisionId,
+      runId: scope.runId ?? null,
+      operation: scope.operation,
+      frameworkId: scope.frameworkId ?? null,
+      provider: llm.provider,
+      model: llm.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      latencyMs: usage.latencyMs,
+      costUsd: estimateCostUsd(llm.provider, llm.model, usage),
+    },
+  });
+}
+
+/**
+ * Writes a ledger row for every generateJson call that spent tokens, including
+ * failed calls whose adapter attached its usage, and an audit row for every
+ * pass. Cache hits cost nothing and make no provider passes, so they write
+ * neither. Ledger and audit failures never fail the analysis itself.
+ */
+class MeteredAdapter implements LLMAdapter {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(
+    private readonly llm: ResolvedLLM,
+    private readonly scope: LLMCallScope,
+  ) {
+    this.name = llm.adapter.name;
+    this.model = llm.adapter.model;
+  }
+
+  isHealthy(): Promise<boolean> {
+    return this.llm.adapter.isHealthy();
+  }
+
+  async generateJson<T>(request: LLMJsonRequest<T>): Promise<LLMJsonResult<T>> {
+    const callId = randomUUID();
+    const attempts: LLMCallAttempt[] = [];
+    const audited: LLMJsonRequest<T> = {
+      ...request,
+      onAttempt: (attempt) => {
+        attempts.push(attempt);
+        request.onAttempt?.(attempt);
+      },
+    };
+
+    let result: LLMJsonResult<T>;
+    try {
+      result = await this.llm.adapter.generateJson(audited);
+    } catch (error) {
+      const spent = usageFromError(error);
+      await Promise.all([
+        spent ? recordLLMCall(this.scope, this.llm, spent).catch(() => undefined) : undefined,
+        recordLLMCallAttempts(callId, this.scope, this.llm, request, attempts, error).catch(() => undefined),
+      ]);
+      throw error;
+    }
+
+    if (result.cacheHit) {
+      return result;
+    }
+
+    await Promise.all([
+      recordLLMCall(this.scope, this.llm, result.usage).catch(() => undefined),
+      recordLLMCallAttempts(callId, this.scope, this.llm, request, attempts).catch(() => undefined),
+    ]);
+    return result;
+  }
+}
+
+export function meterLLM<T extends ResolvedLLM>(llm: T, scope: LLMCallScope): T {
+  return {
+    ...llm,
+    adapter: new MeteredAdapter(llm, scope),
+  };
+}
+
+export function emptyUsageTotals(): LLMUsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    latencyMs: 0,
+    costUsd: 0,
+    unpricedCalls: 0,
+  };
+}
+
+export function summarizeUsage(
+  records: Array<Pick<LLMUsage, "inputTokens" | "outputTokens" | "latencyMs"> & { costUsd: number | null }>,
+): LLMUsageTotals {
+  const totals = records.reduce<LLMUsageTotals>((sum, record) => {
+    sum.calls += 1;
+    sum.inputTokens += record.inputTokens;
+    sum.outputTokens += record.outputTokens;
+    sum.latencyMs += record.latencyMs;
+    if (record.costUsd === null) {
+      sum.unpricedCalls += 1;
+    } else {
+      sum.costUsd += record.costUsd;
+    }
+    return sum;
+  }, emptyUsageTotals());
+
+  return {
+    ...totals,
+    costUsd: Number(totals.costUsd.toFixed(6)),
+  };
+}
+
+/** Run totals cover framework analysis; decision totals add refinement calls and every other run. */
+export async function getUsageSummary(decisionId: string, runId: string): Promise<UsageSummary> {
+  const records = await prisma.llmCallRecord.findMany({
+    where: { decisionId },
+    select: {
+      runId: true,
+      inputTokens: true,
+      outputTokens: true,
+      latencyMs: true,
+      costUsd: true,
+    },
+  });
+
+  return {
+    run: summarizeUsage(records.filter((record) => record.runId === runId)),
+    decision: summarizeUsage(records),
+  };
+}
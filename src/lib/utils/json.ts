@@ -200,3 +200,78 @@ export function parseJsonFromText(input: string): unknown {
 
   throw new Error("Failed to parse JSON from model response");
 }
+
+/** Cut-back attempts per call, so text that never parses costs a bounded amount per streamed chunk. */
+const MAX_PARTIAL_CUTS = 8;
+
+/** Offsets, outside strings, where a truncated document can be cut back to its last complete member. */
+function partialCutPoints(candidate: string): number[] {
+  const cuts: number[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < candidate.length; i += 1) {
+    const char = candidate[i];
+    if (escaped) {
+      escaped = false;
+      continue;
+    }
+
+    if (char === "\\") {
+      escaped = true;
+      continue;
+    }
+
+    if (char === "\"") {
+      inString = !inString;
+      continue;
+    }
+
+    if (inString) {
+      continue;
+    }
+
+    if (char === ",") {
+      cuts.push(i);
+    } else if (char === "{" || char === "[") {
+      cuts.push(i + 1);
+    }
+  }
+
+  return cuts;
+}
+
+/**
+ * Best-effort parse of JSON that is still being streamed. Open strings and
+ * containers are closed with the same repair pass as parseJsonFromText; when
+ * the text ends mid-key or mid-literal, it is cut back to the last complete
+ * member. Returns undefined until the text holds any parseable JSON.
+ */
+export function parsePartialJson(input: string): unknown {
+  const trimmed = normalizePotentialJson(input);
+  const startObject = trimmed.indexOf("{");
+  const startArray = trimmed.indexOf("[");
+  const start =
+    startObject === -1
+      ? startArray
+      : startArray === -1
+        ? startObject
+        : Math.min(startObject, startArray);
+
+  if (start === -1) {
+    return undefined;
+  }
+
+  const candidate = trimmed.slice(start);
+  const cuts = [candidate.length, ...partialCutPoints(candidate).reverse()].slice(0, MAX_PARTIAL_CUTS);
+
+  for (const cut of cuts) {
+    try {
+      return JSON.parse(sanitizeJsonLike(repairIncompleteJsonCandidate(candidate.slice(0, cut))));
+    } catch {
+      // Cut back further.
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const getDecisionWithLatestBrief = vi.fn();
+const saveAhpModel = vi.fn();
+
+vi.mock("@/lib/decisions", () => ({
+  getDecisionWithLatestBrief,
+  saveAhpModel,
+  parseStoredAhpModel: (value: unknown) => value ?? null,
+  parseStoredDecisionMatrix: (value: unknown) => value ?? null,
+}));
+
+const briefJson = {
+  title: "Decision",
+  decisionStatement: "Choose how to deliver the analytics platform this year.",
+  context: "Context text for the decision.",
+  alternatives: ["Build", "Buy"],
+  constraints: ["Keep data on-premises"],
+  deadline: null,
+  stakeholders: ["Ops"],
+  successCriteria: ["Cost", "Speed"],
+  riskTolerance: "medium",
+  budget: null,
+  timeLimit: null,
+  assumptions: [],
+  openQuestions: [],
+  executionSteps: [],
+};
+
+const criteria = [
+  { id: "success_1", label: "Cost" },
+  { id: "success_2", label: "Speed" },
+];
+
+const params = { params: Promise.resolve({ id: "decision-1" }) };
+
+function put(body: unknown) {
+  return new Request("http://localhost/api/decisions/decision-1/ahp", { method: "PUT", body: JSON.stringify(body) });
+}
+
+describe("/api/decisions/:id/ahp", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getDecisionWithLatestBrief.mockResolvedValue({
+      id: "decision-1",
+      briefs: [{ briefJson }],
+      decisionMatrix: null,
+      ahpModel: null,
+    });
+    saveAhpModel.mockImplementation(async (_id: string, model: unknown) => model);
+  });
+
+  it("returns an unsaved model over the weighted criteria with equal priorities", async () => {
+    const { GET } = await import("@/app/api/decisions/[id]/ahp/route");
+    const response = await GET(new Request("http://localhost"), params);
+
+    expect(response.status).toBe(200);
+    const { model, result } = await response.json();
+    expect(model).toMatchObject({ criteria, options: ["Build", "Buy"], updatedAt: null });
+    expect(result.options.map((option: { priority: number }) => option.priority)).toEqual([0.5, 0.5]);
+  });
+
+  it("saves judgments and returns the derived priorities", async () => {
+    const { PUT } = await import("@/app/api/decisions/[id]/ahp/route");
+    const response = await PUT(
+      put({
+        criteria,
+        criteriaJudgments: [{ first: "success_1", second: "success_2", value: 3 }],
+        alternativeJudgments: [
+          { criterionId: "success_1", judgments: [{ first: "Buy", second: "Build", value: 5 }] },
+        ],
+      }),
+      params,
+    );
+
+    expect(response.status).toBe(200);
+    const { model, result } = await response.json();
+    expect(typeof model.updatedAt).toBe("string");
+    expect(result.criteria.map((criterion: { priority: number }) => criterion.priority)).toEqual([0.75, 0.25]);
+    expect(result.options[0].id).toBe("Buy");
+    expect(saveAhpModel).toHaveBeenCalledWith("decision-1", expect.objectContaining({ options: ["Build", "Buy"] }));
+  });
+
+  it("rejects judgments about unknown criteria or options", async () => {
+    const { PUT } = await import("@/app/api/decisions/[id]/ahp/route");
+
+    const unknownCriterion = await PUT(
+      put({ criteria, criteriaJudgments: [{ first: "success_1", second: "success_9", value: 3 }] }),
+      params,
+    );
+    expect(unknownCriterion.status).toBe(400);
+
+    const unknownOption = await PUT(
+      put({
+        criteria,
+        criteriaJudgments: [],
+        alternativeJudgments: [
+          { criterionId: "success_1", judgments: [{ first: "Partner", second: "Build", value: 3 }] },
+        ],
+      }),
+      params,
+    );
+    expect(unknownOption.status).toBe(400);
+    expect((await unknownOption.json()).details).toEqual({ unknownOptions: ["Partner"] });
+    expect(saveAhpModel).not.toHaveBeenCalled();
+  });
+});
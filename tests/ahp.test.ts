@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  alignAhpModel,
+  buildDefaultAhpModel,
+  computeAhp,
+  consistencyOf,
+  pairwiseMatrix,
+  priorityVector,
+  recommendFromAhp,
+} from "@/lib/analysis/ahp";
+import type { AhpModel, DecisionMatrix } from "@/lib/types";
+
+const model: AhpModel = {
+  criteria: [
+    { id: "cost", label: "Cost" },
+    { id: "speed", label: "Speed" },
+  ],
+  options: ["Build", "Buy"],
+  criteriaJudgments: [{ first: "cost", second: "speed", value: 3 }],
+  alternativeJudgments: [
+    { criterionId: "cost", judgments: [{ first: "Buy", second: "Build", value: 5 }] },
+    { criterionId: "speed", judgments: [{ first: "Build", second: "Buy", value: 7 }] },
+  ],
+  updatedAt: "2026-03-26T09:00:00.000Z",
+};
+
+const evidence = { confidence: 0.8, nextActions: ["Get vendor quotes"], supportingFrameworks: [] };
+
+describe("AHP engine", () => {
+  it("derives the principal eigenvector and Saaty's consistency ratio", () => {
+    const matrix = pairwiseMatrix(
+      ["a", "b", "c"],
+      [
+        { first: "a", second: "b", value: 3 },
+        { first: "a", second: "c", value: 5 },
+        { first: "b", second: "c", value: 3 },
+      ],
+    );
+    const priorities = priorityVector(matrix);
+
+    expect(matrix[1][0]).toBeCloseTo(1 / 3);
+    expect(priorities[0]).toBeCloseTo(0.637, 3);
+    expect(priorities[1]).toBeCloseTo(0.258, 3);
+    expect(priorities[2]).toBeCloseTo(0.105, 3);
+    expect(consistencyOf(matrix, priorities)).toMatchObject({ consistencyRatio: 0.0332, consistent: true });
+  });
+
+  it("flags circular judgments as inconsistent", () => {
+    const matrix = pairwiseMatrix(
+      ["a", "b", "c"],
+      [
+        { first: "a", second: "b", value: 9 },
+        { first: "b", second: "c", value: 9 },
+        { first: "c", second: "a", value: 9 },
+      ],
+    );
+
+    expect(consistencyOf(matrix, priorityVector(matrix)).consistent).toBe(false);
+  });
+
+  it("combines criterion priorities with local option priorities", () => {
+    const result = computeAhp(model);
+
+    expect(result.criteria.map((criterion) => criterion.priority)).toEqual([0.75, 0.25]);
+    // Buy: 0.75 × 5/6 + 0.25 × 1/8.
+    expect(result.options).toEqual([
+      { id: "Buy", label: "Buy", priority: 0.6562 },
+      { id: "Build", label: "Build", priority: 0.3438 },
+    ]);
+    expect(result.consistent).toBe(true);
+  });
+
+  it("recommends the highest priority option that passes the hard constraints", () => {
+    const recommendation = recommendFromAhp(computeAhp(model), evidence);
+
+    expect(recommendation).toMatchObject({ method: "ahp", recommendedOption: "Buy" });
+    expect(recommendation.rationale).toContain("Cost carries the most weight (75%)");
+    expect(
+      recommendation.optionScores[0].criteria?.reduce((sum, entry) => sum + entry.contribution, 0),
+    ).toBeCloseTo(0.6562, 3);
+
+    const constrained = recommendFromAhp(computeAhp(model), evidence, { Buy: ["Keep data on-premises"] });
+    expect(constrained.recommendedOption).toBe("Build");
+    expect(constrained.optionScores[1]).toMatchObject({ option: "Buy", score: 0, eliminatedBy: ["Keep data on-premises"] });
+  });
+
+  it("lowers confidence and warns when judgments are inconsistent", () => {
+    const inconsistent: AhpModel = {
+      ...model,
+      criteria: [...model.criteria, { id: "risk", label: "Risk" }],
+      criteriaJudgments: [
+        { first: "cost", second: "speed", value: 9 },
+        { first: "speed", second: "risk", value: 9 },
+        { first: "risk", second: "cost", value: 9 },
+      ],
+    };
+
+    const consistent = recommendFromAhp(computeAhp(model), evidence);
+    const recommendation = recommendFromAhp(computeAhp(inconsistent), evidence);
+
+    expect(recommendation.optionScores[0].confidence).toBeLessThan(consistent.optionScores[0].confidence);
+    expect(recommendation.tradeoffs.some((tradeoff) => tradeoff.includes("inconsistent for criteria"))).toBe(true);
+  });
+
+  it("seeds criteria from the weighted decision matrix and follows the brief's options", () => {
+    const matrix: DecisionMatrix = {
+      options: ["Build", "Buy"],
+      criteria: [
+        { id: "success_1", label: "Cost", source: "success_criterion", weight: 1, hard: false },
+        { id: "constraint_1", label: "On-premises", source: "constraint", weight: 1, hard: true },
+      ],
+      ratings: [],
+      updatedAt: null,
+    };
+
+    expect(buildDefaultAhpModel(matrix).criteria).toEqual([{ id: "success_1", label: "Cost" }]);
+
+    const aligned = alignAhpModel(model, ["Build", "Partner"]);
+    expect(aligned.options).toEqual(["Build", "Partner"]);
+    expect(aligned.alternativeJudgments.every((entry) => entry.judgments.length === 0)).toBe(true);
+  });
+});
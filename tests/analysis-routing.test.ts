@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { ResolvedLLM } from "@/lib/llm/router";
+
+const runLLM = {
+  provider: "ollama",
+  model: "llama3.2",
+  adapter: { name: "ollama", model: "llama3.2", isHealthy: async () => true, generateJson: vi.fn() },
+} as ResolvedLLM;
+
+describe("analysis routing policy", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    delete process.env.ANALYSIS_ROUTING_POLICY;
+  });
+
+  it("keeps the ANALYSIS_LLM_SCOPE behaviour when no policy is configured", async () => {
+    process.env.ANALYSIS_LLM_SCOPE = "deep_only";
+    const { routeFramework } = await import("@/lib/analysis/routing");
+
+    expect(routeFramework("swot_analysis", runLLM)).toMatchObject({
+      route: { rule: "deep", target: "run", provider: "ollama", model: "llama3.2" },
+      llm: runLLM,
+    });
+    expect(routeFramework("john_whitmore_model", runLLM)).toEqual({
+      route: { rule: "default", target: "simulation", provider: null, model: null },
+      llm: null,
+    });
+  });
+
+  it("prefers framework, then category, then maturity, then deep entries", async () => {
+    const { routeFramework } = await import("@/lib/analysis/routing");
+    const policy = {
+      frameworks: { pareto_principle: "simulation" },
+      categories: { coaching: "run" },
+      maturity: { exploratory: { provider: "ollama", model: "llama3.2:1b" } },
+      deep: "hosted",
+      default: "simulation",
+    };
+
+    expect(routeFramework("pareto_principle", runLLM, policy).route).toMatchObject({
+      rule: "framework:pareto_principle",
+      provider: null,
+    });
+    expect(routeFramework("john_whitmore_model", runLLM, policy).route.rule).toBe("category:coaching");
+    expect(routeFramework("swot_analysis", runLLM, policy).route).toEqual({
+      rule: "deep",
+      target: "hosted",
+      provider: "anthropic",
+      model: expect.any(String),
+    });
+
+    const exploratory = routeFramework("flow_model", runLLM, policy);
+    expect(exploratory.route).toEqual({
+      rule: "maturity:exploratory",
+      target: "ollama",
+      provider: "ollama",
+      model: "llama3.2:1b",
+    });
+    expect(exploratory.llm?.adapter.model).toBe("llama3.2:1b");
+    expect(routeFramework("flow_model", runLLM, policy).llm?.adapter).toBe(exploratory.llm?.adapter);
+  });
+
+  it("uses the run provider with a warning when a target is not registered", async () => {
+    process.env.ANALYSIS_ROUTING_POLICY = JSON.stringify({ default: "mystery-provider" });
+    const { routeFramework } = await import("@/lib/analysis/routing");
+
+    const routed = routeFramework("swot_analysis", runLLM);
+    expect(routed.route).toMatchObject({ rule: "default", target: "mystery-provider", provider: "ollama" });
+    expect(routed.warning).toContain('routing target "mystery-provider"');
+  });
+});
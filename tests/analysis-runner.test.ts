@@ -1,9 +1,14 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
 import type { FrameworkId, FrameworkResult } from "@/lib/types";
 
 const frameworkDefinitionUpsert = vi.fn();
 const findRunMock = vi.fn();
 const updateRunMock = vi.fn();
+const updateManyRunMock = vi.fn();
+const findManyRunMock = vi.fn();
+const findManyFrameworkResultMock = vi.fn();
 const upsertFrameworkResultMock = vi.fn();
 const deleteMapEdgeMock = vi.fn();
 const createMapEdgeMock = vi.fn();
@@ -15,6 +20,8 @@ const analyzeFrameworkSimulationMock = vi.fn();
 const enforceFrameworkVisualizationIntegrityMock = vi.fn();
 const resolveLLMMock = vi.fn();
 const getAdapterForResolvedProviderMock = vi.fn();
+const getFailoverChainMock = vi.fn();
+const getAdapterForRouteTargetMock = vi.fn();
 
 let frameworkDefinitions: Array<{
   id: FrameworkId;
@@ -34,8 +41,11 @@ vi.mock("@/lib/db", () => ({
     analysisRun: {
       findUnique: (...args: unknown[]) => findRunMock(...args),
       update: (...args: unknown[]) => updateRunMock(...args),
+      updateMany: (...args: unknown[]) => updateManyRunMock(...args),
+      findMany: (...args: unknown[]) => findManyRunMock(...args),
     },
     frameworkResultRecord: {
+      findMany: (...args: unknown[]) => findManyFrameworkResultMock(...args),
       upsert: (...args: unknown[]) => upsertFrameworkResultMock(...args),
     },
   },
@@ -58,7 +68,6 @@ vi.mock("@/lib/frameworks/registry", () => ({
 
     return {
       ...found,
-      promptTemplate: "",
       themeWeights: {
         risk: 0.6,
         urgency: 0.6,
@@ -75,6 +84,8 @@ vi.mock("@/lib/llm/router", () => ({
   resolveLLM: (...args: unknown[]) => resolveLLMMock(...args),
   getAdapterForResolvedProvider: (...args: unknown[]) =>
     getAdapterForResolvedProviderMock(...args),
+  getFailoverChain: (...args: unknown[]) => getFailoverChainMock(...args),
+  getAdapterForRouteTarget: (...args: unknown[]) => getAdapterForRouteTargetMock(...args),
 }));
 
 function validBrief() {
@@ -156,10 +167,13 @@ describe("analysis runner", () => {
     frameworkDefinitionUpsert.mockReset().mockResolvedValue(undefined);
     findRunMock.mockReset();
     updateRunMock.mockReset().mockResolvedValue(undefined);
+    updateManyRunMock.mockReset().mockResolvedValue({ count: 1 });
+    findManyRunMock.mockReset().mockResolvedValue([]);
+    findManyFrameworkResultMock.mockReset().mockResolvedValue([]);
     upsertFrameworkResultMock.mockReset().mockResolvedValue(undefined);
     deleteMapEdgeMock.mockReset().mockResolvedValue(undefined);
     createMapEdgeMock.mockReset().mockResolvedValue(undefined);
-    txRunUpdateMock.mockReset().mockResolvedValue(undefined);
+    txRunUpdateMock.mockReset().mockResolvedValue({ count: 1 });
     transactionMock.mockReset().mockImplementation(async (arg: unknown) => {
       if (Array.isArray(arg)) {
         return Promise.all(arg);
@@ -172,6 +186,7 @@ describe("analysis runner", () => {
           },
           analysisRun: {
             update: txRunUpdateMock,
+            updateMany: txRunUpdateMock,
           },
         });
       }
@@ -183,8 +198,11 @@ describe("analysis runner", () => {
       result,
     }));
     resolveLLMMock.mockReset();
+    getFailoverChainMock.mockReset().mockReturnValue([]);
+    getAdapterForRouteTargetMock.mockReset().mockReturnValue(null);
+    delete process.env.ANALYSIS_ROUTING_POLICY;
     getAdapterForResolvedProviderMock.mockReset().mockReturnValue({
-      provider: "local",
+      provider: "ollama",
       model: "ollama-test",
       adapter: { name: "ollama", model: "ollama-test", isHealthy: async () => true, generateJson: vi.fn() },
     });
@@ -246,6 +264,37 @@ describe("analysis runner", () => {
     expect(analyzeFrameworkSimulationMock).not.toHaveBeenCalled();
   });
 
+  it("analyzes the brief version recorded on the run rather than a newer edit", async () => {
+    process.env.ANALYSIS_LLM_SCOPE = "all";
+
+    frameworkDefinitions = [
+      { id: "swot_analysis", name: "SWOT", category: "strategy", maturity: "core", deepSupported: true, description: "desc" },
+    ];
+    findRunMock.mockResolvedValueOnce({
+      id: "run-1",
+      decisionId: "decision-1",
+      provider: "local",
+      model: "ollama-test",
+      frameworkIds: ["swot_analysis"],
+      briefVersion: 1,
+      decision: {
+        briefs: [
+          { version: 2, briefJson: { ...validBrief(), decisionStatement: "Edited after the run was queued." } },
+          { version: 1, briefJson: validBrief() },
+        ],
+      },
+    });
+    analyzeFrameworkWithLLMMock.mockImplementation(async (frameworkId: FrameworkId) => llmResult(frameworkId));
+
+    const { enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+    await enqueueAnalysisRun("run-1");
+    await waitForCondition(() =>
+      txRunUpdateMock.mock.calls.some((call) => call[0].data.status === "complete"),
+    );
+
+    expect(analyzeFrameworkWithLLMMock.mock.calls[0][1].decisionStatement).toBe(validBrief().decisionStatement);
+  });
+
   it("uses deep-only LLM scope by default and simulates non-deep frameworks", async () => {
     process.env.ANALYSIS_MAX_CONCURRENCY = "4";
     process.env.ANALYSIS_LLM_SCOPE = "deep_only";
@@ -293,6 +342,63 @@ describe("analysis runner", () => {
     );
   });
 
+  it("routes frameworks by policy and stores the route on each result", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "1";
+    process.env.ANALYSIS_ROUTING_POLICY = JSON.stringify({
+      deep: "hosted",
+      maturity: { exploratory: { provider: "ollama", model: "llama3.2:1b" } },
+      default: "simulation",
+    });
+
+    frameworkDefinitions = [
+      { id: "swot_analysis", name: "SWOT", category: "strategy", maturity: "core", deepSupported: true, description: "desc" },
+      { id: "flow_model", name: "Flow", category: "wellbeing", maturity: "exploratory", deepSupported: false, description: "desc" },
+      { id: "hype_cycle", name: "Hype Cycle", category: "innovation", maturity: "core", deepSupported: false, description: "desc" },
+    ];
+    findRunMock.mockResolvedValueOnce({
+      id: "run-1",
+      decisionId: "decision-1",
+      provider: "ollama",
+      model: "ollama-test",
+      frameworkIds: frameworkDefinitions.map((framework) => framework.id),
+      decision: {
+        briefs: [{ briefJson: validBrief() }],
+      },
+    });
+    getAdapterForRouteTargetMock.mockImplementation((target: string, model?: string) => {
+      const provider = target === "hosted" ? "anthropic" : target;
+      const resolvedModel = model ?? `${provider}-default`;
+      return {
+        provider,
+        model: resolvedModel,
+        adapter: { name: provider, model: resolvedModel, isHealthy: async () => true, generateJson: vi.fn() },
+      };
+    });
+    analyzeFrameworkWithLLMMock.mockImplementation(async (frameworkId: FrameworkId) => llmResult(frameworkId));
+    analyzeFrameworkSimulationMock.mockImplementation((frameworkId: FrameworkId) => fallbackResult(frameworkId));
+
+    const { enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+    await enqueueAnalysisRun("run-1");
+    await waitForCondition(() =>
+      txRunUpdateMock.mock.calls.some((call) => call[0].data.status === "complete"),
+    );
+
+    expect(analyzeFrameworkWithLLMMock.mock.calls.map((call) => [call[0], call[3].provider, call[3].model])).toEqual([
+      ["swot_analysis", "anthropic", "anthropic-default"],
+      ["flow_model", "ollama", "llama3.2:1b"],
+    ]);
+    expect(analyzeFrameworkSimulationMock).toHaveBeenCalledTimes(1);
+
+    const routes = Object.fromEntries(
+      upsertFrameworkResultMock.mock.calls.map((call) => [call[0].create.frameworkId, call[0].create.resultJson.route]),
+    );
+    expect(routes).toEqual({
+      swot_analysis: { rule: "deep", target: "hosted", provider: "anthropic", model: "anthropic-default" },
+      flow_model: { rule: "maturity:exploratory", target: "ollama", provider: "ollama", model: "llama3.2:1b" },
+      hype_cycle: { rule: "default", target: "simulation", provider: null, model: null },
+    });
+  });
+
   it("fails over to hosted provider before deterministic fallback", async () => {
     process.env.ANALYSIS_MAX_CONCURRENCY = "3";
     process.env.ANALYSIS_LLM_SCOPE = "all";
@@ -320,7 +426,7 @@ describe("analysis runner", () => {
         _themes: unknown,
         llm: { provider: string; model: string },
       ) => {
-        if (frameworkId === "swot_analysis" && llm.provider === "local") {
+        if (frameworkId === "swot_analysis" && llm.provider === "ollama") {
           throw new ModelOutputInvalidError("Invalid local JSON");
         }
 
@@ -334,17 +440,159 @@ describe("analysis runner", () => {
         };
       },
     );
-    resolveLLMMock.mockImplementation(async (preference: string) => {
-      if (preference === "hosted") {
+    getFailoverChainMock.mockReturnValue([
+      {
+        provider: "openai-compatible",
+        model: "vllm-test",
+        adapter: { name: "openai-compatible", model: "vllm-test", isHealthy: async () => false, generateJson: vi.fn() },
+      },
+      {
+        provider: "anthropic",
+        model: "claude-test",
+        adapter: { name: "anthropic", model: "claude-test", isHealthy: async () => true, generateJson: vi.fn() },
+      },
+    ]);
+
+    const { enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+    await enqueueAnalysisRun("run-1");
+    await waitForCondition(() =>
+      txRunUpdateMock.mock.calls.some((call) => call[0].data.status === "complete"),
+    );
+
+    expect(analyzeFrameworkSimulationMock).not.toHaveBeenCalled();
+    const finalUpdateCall = txRunUpdateMock.mock.calls.at(-1);
+    expect(finalUpdateCall?.[0].data.status).toBe("complete");
+    expect(finalUpdateCall?.[0].data.synthesis.warnings).toBeDefined();
+    expect(finalUpdateCall?.[0].data.synthesis.warnings[0]).toContain("recovered on anthropic");
+    expect(getFailoverChainMock).toHaveBeenCalledWith("ollama");
+  });
+
+  it("skips a provider whose circuit opened and lowers framework concurrency", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "2";
+    process.env.ANALYSIS_LLM_SCOPE = "all";
+    process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = "2";
+
+    frameworkDefinitions = [
+      { id: "swot_analysis", name: "SWOT", category: "strategy", maturity: "core", deepSupported: true, description: "desc" },
+      { id: "eisenhower_matrix", name: "Eisenhower", category: "prioritization", maturity: "core", deepSupported: true, description: "desc" },
+      { id: "bcg_matrix", name: "BCG", category: "portfolio", maturity: "core", deepSupported: true, description: "desc" },
+      { id: "pareto_principle", name: "Pareto", category: "strategy", maturity: "core", deepSupported: true, description: "desc" },
+    ];
+    findRunMock.mockResolvedValueOnce({
+      id: "run-1",
+      decisionId: "decision-1",
+      provider: "local",
+      model: "ollama-test",
+      frameworkIds: frameworkDefinitions.map((framework) => framework.id),
+      decision: {
+        briefs: [{ briefJson: validBrief() }],
+      },
+    });
+
+    const { ModelTimeoutError } = await import("@/lib/errors");
+    const ollamaGenerateJson = vi.fn().mockRejectedValue(new ModelTimeoutError("Ollama timed out"));
+    getAdapterForResolvedProviderMock.mockReturnValue({
+      provider: "ollama",
+      model: "ollama-test",
+      adapter: { name: "ollama", model: "ollama-test", isHealthy: async () => true, generateJson: ollamaGenerateJson },
+    });
+    analyzeFrameworkWithLLMMock.mockImplementation(
+      async (
+        frameworkId: FrameworkId,
+        _brief: unknown,
+        _themes: unknown,
+        llm: { provider: string; model: string; adapter: { generateJson: (request: unknown) => Promise<unknown> } },
+      ) => {
+        if (llm.provider === "ollama") {
+          await llm.adapter.generateJson({ systemPrompt: "s", userPrompt: frameworkId, schema: z.object({}) });
+        }
+
         return {
-          provider: "hosted",
-          model: "claude-test",
-          adapter: { name: "anthropic", model: "claude-test", isHealthy: async () => true, generateJson: vi.fn() },
+          ...llmResult(frameworkId),
+          generation: { mode: "llm", provider: llm.provider, model: llm.model },
         };
+      },
+    );
+    getFailoverChainMock.mockReturnValue([
+      {
+        provider: "anthropic",
+        model: "claude-test",
+        adapter: { name: "anthropic", model: "claude-test", isHealthy: async () => true, generateJson: vi.fn() },
+      },
+    ]);
+
+    const { subscribeToRunEvents } = await import("@/lib/analysis/run-events");
+    const warnings: string[] = [];
+    const unsubscribe = subscribeToRunEvents("run-1", (event) => {
+      if (event.type === "warning") {
+        warnings.push(event.message);
       }
+    });
 
-      throw new Error(`Unexpected preference ${preference}`);
+    try {
+      const { enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+      await enqueueAnalysisRun("run-1");
+      await waitForCondition(() =>
+        txRunUpdateMock.mock.calls.some((call) => call[0].data.status === "complete"),
+      );
+    } finally {
+      unsubscribe();
+      delete process.env.LLM_CIRCUIT_FAILURE_THRESHOLD;
+    }
+
+    // The breaker refuses the last two provider calls before they reach Ollama.
+    expect(ollamaGenerateJson).toHaveBeenCalledTimes(2);
+    expect(analyzeFrameworkSimulationMock).not.toHaveBeenCalled();
+    expect(warnings).toContain("Framework concurrency lowered to 1 after provider errors.");
+    expect(warnings.filter((message) => message.includes("circuit open after 2 consecutive failures"))).toHaveLength(2);
+  });
+
+  it("samples each framework across providers in ensemble mode and stores the median result", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "1";
+    process.env.ANALYSIS_LLM_SCOPE = "all";
+
+    frameworkDefinitions = [
+      { id: "swot_analysis", name: "SWOT", category: "strategy", maturity: "core", deepSupported: true, description: "desc" },
+    ];
+    findRunMock.mockResolvedValueOnce({
+      id: "run-1",
+      decisionId: "decision-1",
+      provider: "ollama",
+      model: "ollama-test",
+      frameworkIds: ["swot_analysis"],
+      ensemble: { samples: 3, providers: ["ollama", "anthropic"] },
+      decision: {
+        briefs: [{ briefJson: validBrief() }],
+      },
     });
+    getAdapterForResolvedProviderMock.mockImplementation((provider: string) => ({
+      provider,
+      model: `${provider}-test`,
+      adapter: { name: provider, model: `${provider}-test`, isHealthy: async () => true, generateJson: vi.fn() },
+    }));
+
+    const scores = [0.9, 0.5, 0.7];
+    const leadInsights = ["Churn risk rises in Q3", "Vendor lock-in worries procurement", "Churn risk rises during Q3"];
+    analyzeFrameworkWithLLMMock.mockImplementation(
+      async (
+        frameworkId: FrameworkId,
+        _brief: unknown,
+        _themes: unknown,
+        llm: { provider: string; model: string },
+      ) => {
+        const applicabilityScore = scores.shift()!;
+        return {
+          ...llmResult(frameworkId),
+          applicabilityScore,
+          insights: [
+            leadInsights.shift()!,
+            "Support agents need retraining",
+            "Budget headroom is limited",
+          ],
+          generation: { mode: "llm", provider: llm.provider, model: llm.model },
+        };
+      },
+    );
 
     const { enqueueAnalysisRun } = await import("@/lib/analysis/runner");
     await enqueueAnalysisRun("run-1");
@@ -352,11 +600,28 @@ describe("analysis runner", () => {
       txRunUpdateMock.mock.calls.some((call) => call[0].data.status === "complete"),
     );
 
-    expect(analyzeFrameworkSimulationMock).not.toHaveBeenCalled();
-    const finalUpdateCall = txRunUpdateMock.mock.calls.at(-1);
-    expect(finalUpdateCall?.[0].data.status).toBe("complete");
-    expect(finalUpdateCall?.[0].data.synthesis.warnings).toBeDefined();
-    expect(finalUpdateCall?.[0].data.synthesis.warnings[0]).toContain("recovered on hosted");
+    expect(analyzeFrameworkWithLLMMock.mock.calls.map((call) => [call[3].provider, call[3].temperature])).toEqual([
+      ["ollama", 0.7],
+      ["anthropic", 0.7],
+      ["ollama", 0.7],
+    ]);
+
+    const stored = upsertFrameworkResultMock.mock.calls[0][0].create;
+    expect(stored.applicabilityScore).toBe(0.7);
+    // Near-duplicates merge, and points more samples raised outrank one-off ones.
+    expect(stored.resultJson.insights).toEqual([
+      "Support agents need retraining",
+      "Budget headroom is limited",
+      "Churn risk rises in Q3",
+    ]);
+    expect(stored.resultJson.uncertainty).toMatchObject({
+      samples: 3,
+      providers: ["ollama", "anthropic"],
+      applicabilitySpread: 0.327,
+      confidenceSpread: 0,
+      themeSpread: 0,
+    });
+    expect(stored.resultJson.generation.provider).toBe("ollama");
   });
 
   it("falls back per framework on model-output failure and still completes run with warnings", async () => {
@@ -405,4 +670,465 @@ describe("analysis runner", () => {
       updateRunMock.mock.calls.some((call) => call[0].data.status === "failed"),
     ).toBe(false);
   });
+
+  it("resumes an interrupted run from persisted framework results", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "2";
+    process.env.ANALYSIS_LLM_SCOPE = "all";
+
+    frameworkDefinitions = [
+      { id: "swot_analysis", name: "SWOT", category: "strategy", maturity: "core", deepSupported: true, description: "desc" },
+      { id: "bcg_matrix", name: "BCG", category: "portfolio", maturity: "core", deepSupported: true, description: "desc" },
+    ];
+    findRunMock.mockResolvedValueOnce({
+      id: "run-1",
+      decisionId: "decision-1",
+      provider: "local",
+      model: "ollama-test",
+      status: "analyzing",
+      startedAt: new Date("2026-03-01T00:00:00Z"),
+      frameworkIds: frameworkDefinitions.map((framework) => framework.id),
+      decision: {
+        briefs: [{ briefJson: validBrief() }],
+      },
+    });
+    findManyFrameworkResultMock.mockResolvedValueOnce([
+      { frameworkId: "swot_analysis", resultJson: llmResult("swot_analysis") },
+    ]);
+    analyzeFrameworkWithLLMMock.mockImplementation(async (frameworkId: FrameworkId) =>
+      llmResult(frameworkId),
+    );
+
+    const { enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+    await enqueueAnalysisRun("run-1");
+    await waitForCondition(() =>
+      txRunUpdateMock.mock.calls.some((call) => call[0].data.status === "complete"),
+    );
+
+    expect(analyzeFrameworkWithLLMMock).toHaveBeenCalledTimes(1);
+    expect(analyzeFrameworkWithLLMMock).toHaveBeenCalledWith(
+      "bcg_matrix",
+      expect.any(Object),
+      expect.any(Object),
+      expect.any(Object),
+    );
+    expect(updateManyRunMock.mock.calls[0][0].data.attempts).toEqual({ increment: 1 });
+    expect(updateManyRunMock.mock.calls[1][0]).toMatchObject({
+      where: { id: "run-1", status: { notIn: ["paused", "cancelled"] } },
+      data: { status: "analyzing", startedAt: new Date("2026-03-01T00:00:00Z") },
+    });
+  });
+
+  it("skips runs whose lease is held by another worker", async () => {
+    updateManyRunMock.mockResolvedValueOnce({ count: 0 });
+
+    const { enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+    await enqueueAnalysisRun("run-1");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(findRunMock).not.toHaveBeenCalled();
+    expect(updateRunMock).not.toHaveBeenCalled();
+  });
+
+  it("requeues a failed attempt and marks the run failed only after max attempts", async () => {
+    process.env.ANALYSIS_MAX_ATTEMPTS = "2";
+
+    findRunMock
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ attempts: 1 })
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ attempts: 2 });
+
+    const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+
+    const { enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+    const requeuedAt = Date.now();
+    await enqueueAnalysisRun("run-1");
+    await waitForCondition(() =>
+      updateManyRunMock.mock.calls.some((call) => call[0].data.status === "queued"),
+    );
+    expect(
+      updateManyRunMock.mock.calls.some((call) => call[0].data.status === "failed"),
+    ).toBe(false);
+    const requeued = updateManyRunMock.mock.calls.find((call) => call[0].data.status === "queued");
+    expect(requeued?.[0].where).toEqual({ id: "run-1", status: { notIn: ["paused", "cancelled"] } });
+    expect(requeued?.[0].data.leaseOwner).toBeNull();
+    expect(requeued?.[0].data.leaseExpiresAt.getTime()).toBeGreaterThanOrEqual(requeuedAt + 2000);
+
+    const retryIndex = setTimeoutSpy.mock.calls.findIndex((call) => call[1] === 2000);
+    expect(retryIndex).toBeGreaterThanOrEqual(0);
+    const retry = setTimeoutSpy.mock.calls[retryIndex][0] as () => void;
+    clearTimeout(setTimeoutSpy.mock.results[retryIndex].value);
+    setTimeoutSpy.mockRestore();
+
+    // Lease released; fire the scheduled retry immediately.
+    await waitForCondition(() => updateManyRunMock.mock.calls.length >= 3);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    retry();
+    await waitForCondition(() =>
+      updateManyRunMock.mock.calls.some((call) => call[0].data.status === "failed"),
+    );
+    const failedCall = updateManyRunMock.mock.calls.find((call) => call[0].data.status === "failed");
+    expect(failedCall?.[0].data.error).toContain("after 2 attempts");
+    expect(failedCall?.[0].data.endedAt).toBeInstanceOf(Date);
+
+    delete process.env.ANALYSIS_MAX_ATTEMPTS;
+  });
+
+  it("does not requeue a failed attempt when the run was cancelled meanwhile", async () => {
+    findRunMock.mockResolvedValueOnce(null).mockResolvedValueOnce({ attempts: 1 });
+    updateManyRunMock
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+
+    const { enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+    await enqueueAnalysisRun("run-1");
+    await waitForCondition(() => updateManyRunMock.mock.calls.length >= 3);
+
+    const requeue = updateManyRunMock.mock.calls[1][0];
+    expect(requeue.where.status).toEqual({ notIn: ["paused", "cancelled"] });
+    expect(requeue.data.status).toBe("queued");
+    expect(setTimeoutSpy.mock.calls.some((call) => call[1] === 2000)).toBe(false);
+    setTimeoutSpy.mockRestore();
+  });
+
+  it("aborts sibling frameworks before requeueing an attempt that failed", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "2";
+    process.env.ANALYSIS_LLM_SCOPE = "all";
+
+    frameworkDefinitions = [
+      { id: "swot_analysis", name: "SWOT", category: "strategy", maturity: "core", deepSupported: true, description: "desc" },
+      { id: "bcg_matrix", name: "BCG", category: "portfolio", maturity: "core", deepSupported: true, description: "desc" },
+    ];
+    findRunMock
+      .mockResolvedValueOnce({
+        id: "run-1",
+        decisionId: "decision-1",
+        provider: "local",
+        model: "ollama-test",
+        frameworkIds: frameworkDefinitions.map((framework) => framework.id),
+        decision: {
+          briefs: [{ briefJson: validBrief() }],
+        },
+      })
+      .mockResolvedValue({ status: "analyzing", attempts: 1 });
+
+    const { OperationCancelledError } = await import("@/lib/errors");
+    let siblingSignal: AbortSignal | undefined;
+    let siblingSettled = false;
+    analyzeFrameworkWithLLMMock.mockImplementation(
+      (frameworkId: FrameworkId, _brief: unknown, _themes: unknown, llm: { signal?: AbortSignal }) => {
+        if (frameworkId === "swot_analysis") {
+          siblingSignal = llm.signal;
+          return new Promise((_resolve, reject) => {
+            llm.signal?.addEventListener("abort", () => {
+              siblingSettled = true;
+              reject(new OperationCancelledError("aborted"));
+            });
+          });
+        }
+        return new Promise((_resolve, reject) => {
+          setTimeout(() => reject(new Error("Unexpected analyzer crash")), 20);
+        });
+      },
+    );
+
+    let siblingSettledAtRequeue: boolean | undefined;
+    updateManyRunMock.mockImplementation(async (args: { data: { status?: string } }) => {
+      if (args.data.status === "queued") {
+        siblingSettledAtRequeue = siblingSettled;
+      }
+      return { count: 1 };
+    });
+
+    const { enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+    await enqueueAnalysisRun("run-1");
+    await waitForCondition(() => siblingSettledAtRequeue !== undefined);
+
+    expect(siblingSignal?.aborted).toBe(true);
+    expect(siblingSettledAtRequeue).toBe(true);
+    expect(upsertFrameworkResultMock).not.toHaveBeenCalled();
+    const requeued = updateManyRunMock.mock.calls.find((call) => call[0].data.status === "queued");
+    expect(requeued?.[0].data.error).toBe("Unexpected analyzer crash");
+  });
+
+  it("recovers orphaned runs on boot and abandons runs that exhausted their attempts", async () => {
+    process.env.ANALYSIS_MAX_ATTEMPTS = "3";
+    findManyRunMock.mockResolvedValueOnce([
+      { id: "run-orphan", attempts: 1 },
+      { id: "run-exhausted", attempts: 3 },
+    ]);
+    updateManyRunMock.mockResolvedValue({ count: 0 });
+
+    const { recoverOrphanedRuns } = await import("@/lib/analysis/runner");
+    const resumed = await recoverOrphanedRuns();
+
+    expect(resumed).toEqual(["run-orphan"]);
+    expect(updateManyRunMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "run-exhausted", status: { notIn: ["paused", "cancelled"] } },
+        data: expect.objectContaining({ status: "failed" }),
+      }),
+    );
+
+    delete process.env.ANALYSIS_MAX_ATTEMPTS;
+  });
+
+  it("cancels a running analysis and aborts the in-flight LLM call", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "1";
+    process.env.ANALYSIS_LLM_SCOPE = "all";
+
+    frameworkDefinitions = [
+      { id: "swot_analysis", name: "SWOT", category: "strategy", maturity: "core", deepSupported: true, description: "desc" },
+      { id: "bcg_matrix", name: "BCG", category: "portfolio", maturity: "core", deepSupported: true, description: "desc" },
+    ];
+    findRunMock.mockResolvedValueOnce({
+      id: "run-1",
+      decisionId: "decision-1",
+      provider: "local",
+      model: "ollama-test",
+      frameworkIds: frameworkDefinitions.map((framework) => framework.id),
+      decision: {
+        briefs: [{ briefJson: validBrief() }],
+      },
+    });
+
+    const { OperationCancelledError } = await import("@/lib/errors");
+    let capturedSignal: AbortSignal | undefined;
+    analyzeFrameworkWithLLMMock.mockImplementation(
+      (_frameworkId: FrameworkId, _brief: unknown, _themes: unknown, llm: { signal?: AbortSignal }) => {
+        capturedSignal = llm.signal;
+        return new Promise((_resolve, reject) => {
+          llm.signal?.addEventListener("abort", () => reject(new OperationCancelledError("aborted")));
+        });
+      },
+    );
+
+    const { cancelAnalysisRun, enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+    await enqueueAnalysisRun("run-1");
+    await waitForCondition(() => analyzeFrameworkWithLLMMock.mock.calls.length === 1);
+
+    findRunMock
+      .mockResolvedValueOnce({ status: "analyzing" })
+      .mockResolvedValueOnce({
+        id: "run-1",
+        decisionId: "decision-1",
+        provider: "local",
+        model: "ollama-test",
+        status: "cancelled",
+        error: null,
+        startedAt: null,
+        endedAt: null,
+        frameworkIds: ["swot_analysis", "bcg_matrix"],
+        frameworkResults: [],
+      });
+    const snapshot = await cancelAnalysisRun("run-1");
+    // Lease claim, the analyzing transition and the lease release.
+    await waitForCondition(() => updateManyRunMock.mock.calls.length >= 3);
+
+    expect(snapshot?.status).toBe("cancelled");
+    expect(capturedSignal?.aborted).toBe(true);
+    expect(analyzeFrameworkWithLLMMock).toHaveBeenCalledTimes(1);
+    expect(analyzeFrameworkSimulationMock).not.toHaveBeenCalled();
+    expect(txRunUpdateMock).not.toHaveBeenCalled();
+    expect(
+      updateRunMock.mock.calls.some((call) => call[0].data.status === "cancelled"),
+    ).toBe(true);
+    expect(
+      updateRunMock.mock.calls.some((call) => ["failed", "queued"].includes(call[0].data.status)),
+    ).toBe(false);
+  });
+
+  it("keeps a cancel that lands during synthesis instead of completing the run", async () => {
+    process.env.ANALYSIS_MAX_CONCURRENCY = "1";
+    process.env.ANALYSIS_LLM_SCOPE = "all";
+
+    frameworkDefinitions = [
+      { id: "swot_analysis", name: "SWOT", category: "strategy", maturity: "core", deepSupported: true, description: "desc" },
+    ];
+    findRunMock.mockResolvedValueOnce({
+      id: "run-1",
+      decisionId: "decision-1",
+      provider: "local",
+      model: "ollama-test",
+      frameworkIds: ["swot_analysis"],
+      decision: {
+        briefs: [{ briefJson: validBrief() }],
+      },
+    });
+    analyzeFrameworkWithLLMMock.mockImplementation(async (frameworkId: FrameworkId) => llmResult(frameworkId));
+
+    const { cancelAnalysisRun, enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+    const { subscribeToRunEvents } = await import("@/lib/analysis/run-events");
+    const statuses: string[] = [];
+    const unsubscribe = subscribeToRunEvents("run-1", (event) => {
+      if (event.type === "status") {
+        statuses.push(event.status);
+      }
+    });
+
+    // The cancel commits while synthesis is being built, so the completing write matches no row.
+    transactionMock.mockImplementation(async (work: unknown) => {
+      if (Array.isArray(work)) {
+        return Promise.all(work);
+      }
+      findRunMock
+        .mockResolvedValueOnce({ status: "synthesizing" })
+        .mockResolvedValueOnce({
+          id: "run-1",
+          decisionId: "decision-1",
+          provider: "local",
+          model: "ollama-test",
+          status: "cancelled",
+          error: null,
+          startedAt: null,
+          endedAt: null,
+          frameworkIds: ["swot_analysis"],
+          frameworkResults: [{ id: "result-1" }],
+        });
+      await cancelAnalysisRun("run-1");
+      txRunUpdateMock.mockResolvedValueOnce({ count: 0 });
+      return (work as (transaction: unknown) => Promise<unknown>)({
+        mapEdgeRecord: { deleteMany: deleteMapEdgeMock, createMany: createMapEdgeMock },
+        analysisRun: { updateMany: txRunUpdateMock },
+      });
+    });
+
+    await enqueueAnalysisRun("run-1");
+    await waitForCondition(() => updateManyRunMock.mock.calls.length >= 4);
+    unsubscribe();
+
+    expect(txRunUpdateMock.mock.calls[0][0].where).toEqual({
+      id: "run-1",
+      status: { notIn: ["paused", "cancelled"] },
+    });
+    expect(statuses).toEqual(["analyzing", "synthesizing", "cancelled"]);
+    expect(
+      updateRunMock.mock.calls.some((call) => ["failed", "queued"].includes(call[0].data.status)),
+    ).toBe(false);
+  });
+
+  it("does not overwrite a cancel that lands right after the lease is claimed", async () => {
+    updateManyRunMock
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const { enqueueAnalysisRun } = await import("@/lib/analysis/runner");
+    await enqueueAnalysisRun("run-1");
+    await waitForCondition(() => updateManyRunMock.mock.calls.length >= 3);
+
+    expect(updateManyRunMock.mock.calls[1][0].data.status).toBe("analyzing");
+    expect(analyzeFrameworkWithLLMMock).not.toHaveBeenCalled();
+    expect(updateRunMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects resuming a run that is not paused", async () => {
+    findRunMock.mockResolvedValueOnce({ status: "complete" });
+
+    const { resumeAnalysisRun } = await import("@/lib/analysis/runner");
+
+    await expect(resumeAnalysisRun("run-1")).rejects.toMatchObject({
+      code: "INVALID_STATE",
+      status: 409,
+    });
+    expect(updateRunMock).not.toHaveBeenCalled();
+  });
+
+  it("retries a single framework and rebuilds the synthesis from all stored results", async () => {
+    process.env.ANALYSIS_LLM_SCOPE = "all";
+
+    frameworkDefinitions = [
+      { id: "swot_analysis", name: "SWOT", category: "strategy", maturity: "core", deepSupported: true, description: "desc" },
+      { id: "bcg_matrix", name: "BCG", category: "portfolio", maturity: "core", deepSupported: true, description: "desc" },
+    ];
+    findRunMock.mockResolvedValueOnce({
+      id: "run-1",
+      decisionId: "decision-1",
+      provider: "local",
+      model: "ollama-test",
+      status: "complete",
+      endedAt: new Date("2026-01-05T10:00:00.000Z"),
+      frameworkIds: ["swot_analysis", "bcg_matrix"],
+      synthesis: {
+        warnings: [
+          "SWOT (swot_analysis) fell back to deterministic analysis: timeout",
+          "BCG (bcg_matrix) visualization payload was regenerated",
+        ],
+      },
+      decision: {
+        briefs: [{ briefJson: validBrief() }],
+      },
+    });
+    findManyFrameworkResultMock.mockResolvedValueOnce([
+      { frameworkId: "bcg_matrix", resultJson: llmResult("bcg_matrix") },
+      { frameworkId: "swot_analysis", resultJson: llmResult("swot_analysis") },
+    ]);
+    resolveLLMMock.mockResolvedValueOnce({
+      provider: "hosted",
+      model: "claude-test",
+      adapter: { name: "anthropic", model: "claude-test", isHealthy: async () => true, generateJson: vi.fn() },
+    });
+    analyzeFrameworkWithLLMMock.mockImplementation(async (frameworkId: FrameworkId) =>
+      llmResult(frameworkId),
+    );
+
+    const { retryFrameworkInRun } = await import("@/lib/analysis/runner");
+    const retried = await retryFrameworkInRun("run-1", "swot_analysis", "hosted");
+
+    expect(resolveLLMMock).toHaveBeenCalledWith("hosted");
+    expect(analyzeFrameworkWithLLMMock).toHaveBeenCalledTimes(1);
+    expect(analyzeFrameworkWithLLMMock.mock.calls[0][3]).toMatchObject({ provider: "hosted" });
+    expect(upsertFrameworkResultMock).toHaveBeenCalledTimes(1);
+    expect(upsertFrameworkResultMock.mock.calls[0][0].where.runId_frameworkId.frameworkId).toBe("swot_analysis");
+    expect(retried.warning).toBeNull();
+
+    const finalUpdateCall = txRunUpdateMock.mock.calls.at(-1);
+    expect(finalUpdateCall?.[0].data.status).toBe("complete");
+    expect(finalUpdateCall?.[0].data.synthesis.warnings).toEqual([
+      "BCG (bcg_matrix) visualization payload was regenerated",
+    ]);
+    expect(finalUpdateCall?.[0].data.endedAt).toEqual(new Date("2026-01-05T10:00:00.000Z"));
+
+    const claim = updateManyRunMock.mock.calls[0][0];
+    expect(claim.where).toMatchObject({ id: "run-1", status: "complete" });
+    expect(claim.data.attempts).toBeUndefined();
+    expect(updateManyRunMock.mock.calls.at(-1)?.[0].data).toEqual({ leaseOwner: null, leaseExpiresAt: null });
+  });
+
+  it("refuses a framework retry while another retry holds the run", async () => {
+    findRunMock.mockResolvedValueOnce({
+      id: "run-1",
+      status: "complete",
+      frameworkIds: ["swot_analysis"],
+      decision: { briefs: [{ briefJson: validBrief() }] },
+    });
+    updateManyRunMock.mockResolvedValueOnce({ count: 0 });
+
+    const { retryFrameworkInRun } = await import("@/lib/analysis/runner");
+
+    await expect(retryFrameworkInRun("run-1", "swot_analysis")).rejects.toMatchObject({
+      code: "INVALID_STATE",
+      status: 409,
+    });
+    expect(analyzeFrameworkWithLLMMock).not.toHaveBeenCalled();
+    expect(upsertFrameworkResultMock).not.toHaveBeenCalled();
+  });
+
+  it("refuses to retry frameworks while the run is still active", async () => {
+    findRunMock.mockResolvedValueOnce({
+      id: "run-1",
+      status: "analyzing",
+      frameworkIds: ["swot_analysis"],
+      decision: { briefs: [{ briefJson: validBrief() }] },
+    });
+
+    const { retryFrameworkInRun } = await import("@/lib/analysis/runner");
+
+    await expect(retryFrameworkInRun("run-1", "swot_analysis")).rejects.toMatchObject({
+      code: "INVALID_STATE",
+      status: 409,
+    });
+    expect(analyzeFrameworkWithLLMMock).not.toHaveBeenCalled();
+  });
 });
@@ -57,4 +57,33 @@ describe("POST /api/decisions/:id/analyze", () => {
     expect(body.code).toBe("PROVIDER_UNAVAILABLE");
     expect(createRun).not.toHaveBeenCalled();
   });
+
+  it("stores an ensemble config and rejects unknown ensemble providers", async () => {
+    resolveLLM.mockResolvedValue({ provider: "ollama", model: "llama3.2" });
+    createRun.mockResolvedValue({ id: "run-1", provider: "ollama", model: "llama3.2" });
+
+    const { POST } = await import("@/app/api/decisions/[id]/analyze/route");
+    const post = (ensemble: unknown) =>
+      POST(
+        new Request("http://localhost/api/decisions/decision-1/analyze", {
+          method: "POST",
+          body: JSON.stringify({ frameworkIds: ["swot_analysis"], ensemble }),
+        }),
+        { params: Promise.resolve({ id: "decision-1" }) },
+      );
+
+    const unknown = await post({ samples: 3, providers: ["ollama", "mystery"] });
+    expect(unknown.status).toBe(400);
+    await expect(unknown.json()).resolves.toMatchObject({
+      error: "Unknown ensemble provider(s): mystery",
+    });
+    expect(createRun).not.toHaveBeenCalled();
+
+    const response = await post({ samples: 3, providers: ["ollama"] });
+    expect(response.status).toBe(200);
+    expect(createRun).toHaveBeenCalledWith({
+      data: expect.objectContaining({ ensemble: { samples: 3, providers: ["ollama"] }, bypassCache: false }),
+    });
+    expect(enqueueAnalysisRun).toHaveBeenCalledWith("run-1");
+  });
 });
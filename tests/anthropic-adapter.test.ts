@@ -3,8 +3,11 @@ import { z } from "zod";
 
 const parseMock = vi.fn();
 const createMock = vi.fn();
-const AnthropicCtorMock = vi.fn(function AnthropicMock(this: { messages: { parse: typeof parseMock; create: typeof createMock } }) {
-  this.messages = { parse: parseMock, create: createMock };
+const streamMock = vi.fn();
+const AnthropicCtorMock = vi.fn(function AnthropicMock(
+  this: { messages: { parse: typeof parseMock; create: typeof createMock; stream: typeof streamMock } },
+) {
+  this.messages = { parse: parseMock, create: createMock, stream: streamMock };
 });
 const zodOutputFormatMock = vi.fn((schema: unknown) => ({ type: "json_schema", schema }));
 
@@ -21,6 +24,7 @@ describe("AnthropicAdapter", () => {
     vi.resetModules();
     parseMock.mockReset();
     createMock.mockReset();
+    streamMock.mockReset();
     AnthropicCtorMock.mockClear();
     zodOutputFormatMock.mockClear();
     delete process.env.ANTHROPIC_API_KEY;
@@ -30,8 +34,11 @@ describe("AnthropicAdapter", () => {
   it("returns parsed structured output", async () => {
     process.env.ANTHROPIC_API_KEY = "test-key";
     parseMock.mockResolvedValue({
+      content: [{ type: "text", text: "{\"ok\":true}" }],
       parsed_output: { ok: true },
+      usage: { input_tokens: 320, output_tokens: 18 },
     });
+    const onAttempt = vi.fn();
 
     const { AnthropicAdapter } = await import("@/lib/llm/anthropic-adapter");
     const adapter = new AnthropicAdapter();
@@ -39,9 +46,20 @@ describe("AnthropicAdapter", () => {
       systemPrompt: "Return object",
       userPrompt: "Return object",
       schema: z.object({ ok: z.boolean() }),
+      onAttempt,
     });
 
-    expect(result.ok).toBe(true);
+    expect(result.data.ok).toBe(true);
+    expect(onAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pass: 1,
+        userPrompt: "Return object",
+        rawText: "{\"ok\":true}",
+        repairedJson: { ok: true },
+        validationError: null,
+      }),
+    );
+    expect(result.usage).toMatchObject({ inputTokens: 320, outputTokens: 18 });
     expect(parseMock).toHaveBeenCalledTimes(1);
     expect(zodOutputFormatMock).toHaveBeenCalledTimes(1);
   });
@@ -51,7 +69,9 @@ describe("AnthropicAdapter", () => {
     parseMock
       .mockRejectedValueOnce(new Error("failed to parse output"))
       .mockResolvedValueOnce({
+        content: [{ type: "text", text: "{\"value\":42}" }],
         parsed_output: { value: 42 },
+        usage: { input_tokens: 300, output_tokens: 12 },
       });
 
     const { AnthropicAdapter } = await import("@/lib/llm/anthropic-adapter");
@@ -62,7 +82,7 @@ describe("AnthropicAdapter", () => {
       schema: z.object({ value: z.number() }),
     });
 
-    expect(result.value).toBe(42);
+    expect(result.data.value).toBe(42);
     expect(parseMock).toHaveBeenCalledTimes(2);
   });
 
@@ -110,6 +130,7 @@ describe("AnthropicAdapter", () => {
           text: JSON.stringify({ value: 42 }),
         },
       ],
+      usage: { input_tokens: 410, output_tokens: 9 },
     });
 
     const { AnthropicAdapter } = await import("@/lib/llm/anthropic-adapter");
@@ -120,8 +141,46 @@ describe("AnthropicAdapter", () => {
       schema: z.object({ value: z.number() }),
     });
 
-    expect(result.value).toBe(42);
+    expect(result.data.value).toBe(42);
     expect(parseMock).not.toHaveBeenCalled();
     expect(createMock).toHaveBeenCalledTimes(1);
   });
+
+  it("streams text deltas as partial JSON when the caller asks for it", async () => {
+    process.env.ANTHROPIC_API_KEY = "test-key";
+    streamMock.mockImplementation(() => {
+      let onText: (delta: string) => void = () => {};
+      return {
+        on(event: string, listener: (delta: string) => void) {
+          if (event === "text") {
+            onText = listener;
+          }
+          return this;
+        },
+        abort: vi.fn(),
+        async finalMessage() {
+          ['{"ok": tr', "ue, \"note\": \"Rea", 'dy"}'].forEach((delta) => onText(delta));
+          return {
+            content: [{ type: "text", text: '{"ok": true, "note": "Ready"}' }],
+            parsed_output: { ok: true, note: "Ready" },
+            usage: { input_tokens: 300, output_tokens: 12 },
+          };
+        },
+      };
+    });
+    const partials: unknown[] = [];
+
+    const { AnthropicAdapter } = await import("@/lib/llm/anthropic-adapter");
+    const result = await new AnthropicAdapter().generateJson({
+      systemPrompt: "Return an object",
+      userPrompt: "Object JSON",
+      schema: z.object({ ok: z.boolean(), note: z.string() }),
+      onPartial: (partial) => partials.push(partial),
+    });
+
+    expect(parseMock).not.toHaveBeenCalled();
+    expect(partials).toEqual([{}, { ok: true, note: "Rea" }, { ok: true, note: "Ready" }]);
+    expect(result.data).toEqual({ ok: true, note: "Ready" });
+    expect(result.usage).toMatchObject({ inputTokens: 300, outputTokens: 12 });
+  });
 });
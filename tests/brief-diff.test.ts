@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import { diffBriefVersions } from "@/lib/brief-diff";
+import type { DecisionBrief, DecisionBriefVersion } from "@/lib/types";
+
+const brief: DecisionBrief = {
+  title: "Pilot launch",
+  decisionStatement: "Decide whether to launch the support pilot this quarter.",
+  context: "Support volume doubled after the last release.",
+  alternatives: ["Pilot", "Delay"],
+  constraints: ["No downtime"],
+  deadline: "2026-09-30",
+  stakeholders: ["Ops", "Support"],
+  successCriteria: ["KPI lift"],
+  riskTolerance: "medium",
+  budget: "$100k",
+  timeLimit: "12 weeks",
+  assumptions: ["Assumption 1"],
+  openQuestions: [],
+  executionSteps: ["Step 1", "Step 2"],
+};
+
+function version(number: number, overrides: Partial<DecisionBrief>, qualityScore: number | null): DecisionBriefVersion {
+  return {
+    version: number,
+    author: number === 1 ? "model" : "human",
+    qualityScore,
+    restoredFromVersion: null,
+    createdAt: "2026-03-20T09:00:00.000Z",
+    brief: { ...brief, ...overrides },
+  };
+}
+
+describe("diffBriefVersions", () => {
+  it("reports changed scalars, added and removed list items, and the quality delta", () => {
+    const diff = diffBriefVersions(
+      "decision-1",
+      version(1, {}, 0.72),
+      version(
+        2,
+        {
+          riskTolerance: "low",
+          budget: null,
+          alternatives: ["Pilot", "Two-region pilot"],
+          constraints: ["No downtime ", "No new headcount"],
+        },
+        0.8,
+      ),
+    );
+
+    expect(diff).toEqual({
+      decisionId: "decision-1",
+      fromVersion: 1,
+      toVersion: 2,
+      scalarChanges: [
+        { field: "riskTolerance", from: "medium", to: "low" },
+        { field: "budget", from: "$100k", to: null },
+      ],
+      listChanges: [
+        { field: "alternatives", added: ["Two-region pilot"], removed: ["Delay"] },
+        { field: "constraints", added: ["No new headcount"], removed: [] },
+      ],
+      qualityScoreDelta: 0.08,
+    });
+  });
+
+  it("is empty for identical briefs and has no delta without both scores", () => {
+    const diff = diffBriefVersions("decision-1", version(3, {}, null), version(1, {}, 0.72));
+
+    expect(diff.scalarChanges).toEqual([]);
+    expect(diff.listChanges).toEqual([]);
+    expect(diff.qualityScoreDelta).toBeNull();
+  });
+});
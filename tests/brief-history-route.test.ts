@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { AppError } from "@/lib/errors";
+
+const getDecisionWithLatestBrief = vi.fn();
+const listDecisionBriefs = vi.fn();
+const getDecisionBriefVersion = vi.fn();
+const saveDecisionBrief = vi.fn();
+const scoreDecisionBriefQuality = vi.fn();
+
+vi.mock("@/lib/decisions", () => ({
+  getDecisionWithLatestBrief,
+  listDecisionBriefs,
+  getDecisionBriefVersion,
+  saveDecisionBrief,
+}));
+
+vi.mock("@/lib/refinement", () => ({
+  scoreDecisionBriefQuality,
+}));
+
+const brief = {
+  title: "Decision",
+  decisionStatement: "Launch the pilot with two regions this quarter.",
+  context: "Context text for the decision.",
+  alternatives: ["Two-region pilot", "Delay"],
+  constraints: ["No downtime"],
+  deadline: null,
+  stakeholders: ["Ops"],
+  successCriteria: ["Latency < 1s"],
+  riskTolerance: "medium",
+  budget: null,
+  timeLimit: null,
+  assumptions: ["Assumption 1"],
+  openQuestions: [],
+  executionSteps: ["Step 1"],
+};
+
+function briefVersion(version: number, overrides: Record<string, unknown> = {}) {
+  return {
+    version,
+    author: "model",
+    qualityScore: 0.7,
+    restoredFromVersion: null,
+    createdAt: "2026-03-20T09:00:00.000Z",
+    brief: { ...brief, ...overrides },
+  };
+}
+
+const params = (version?: string) => ({ params: Promise.resolve({ id: "decision-1", version: version ?? "" }) });
+
+describe("brief history routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getDecisionWithLatestBrief.mockResolvedValue({ id: "decision-1", briefs: [{ version: 3 }] });
+  });
+
+  it("lists every brief version", async () => {
+    listDecisionBriefs.mockResolvedValue([briefVersion(2), briefVersion(1)]);
+    const { GET } = await import("@/app/api/decisions/[id]/briefs/route");
+
+    const response = await GET(new Request("http://localhost/api/decisions/decision-1/briefs"), params());
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).versions.map((entry: { version: number }) => entry.version)).toEqual([2, 1]);
+  });
+
+  it("diffs two versions and validates the query", async () => {
+    getDecisionBriefVersion.mockImplementation(async (_id: string, version: number) =>
+      version === 1 ? briefVersion(1) : briefVersion(2, { riskTolerance: "low", constraints: [] }),
+    );
+    const { GET } = await import("@/app/api/decisions/[id]/briefs/diff/route");
+
+    const response = await GET(
+      new Request("http://localhost/api/decisions/decision-1/briefs/diff?from=1&to=2"),
+      params(),
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.scalarChanges).toEqual([{ field: "riskTolerance", from: "medium", to: "low" }]);
+    expect(body.listChanges).toEqual([{ field: "constraints", added: [], removed: ["No downtime"] }]);
+    expect(body.qualityScoreDelta).toBe(0);
+
+    const invalid = await GET(new Request("http://localhost/api/decisions/decision-1/briefs/diff?from=0"), params());
+    expect(invalid.status).toBe(400);
+  });
+
+  it("returns 404 when a diffed version does not exist", async () => {
+    getDecisionBriefVersion.mockRejectedValue(
+      new AppError({ code: "NOT_FOUND", status: 404, message: "Brief version 9 not found for decision decision-1" }),
+    );
+    const { GET } = await import("@/app/api/decisions/[id]/briefs/diff/route");
+
+    const response = await GET(
+      new Request("http://localhost/api/decisions/decision-1/briefs/diff?from=1&to=9"),
+      params(),
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("restores an old version as a new one and records its source", async () => {
+    getDecisionBriefVersion.mockResolvedValue({ ...briefVersion(1), author: "human" });
+    scoreDecisionBriefQuality.mockReturnValue(0.75);
+    saveDecisionBrief.mockResolvedValue({ version: 4 });
+    const { POST } = await import("@/app/api/decisions/[id]/briefs/[version]/restore/route");
+
+    const response = await POST(new Request("http://localhost", { method: "POST" }), params("1"));
+
+    expect(response.status).toBe(200);
+    expect(saveDecisionBrief).toHaveBeenCalledWith("decision-1", brief, 0.75, "human", 1);
+    await expect(response.json()).resolves.toEqual({
+      decisionBrief: brief,
+      qualityScore: 0.75,
+      version: 4,
+      author: "human",
+      restoredFromVersion: 1,
+    });
+  });
+
+  it("does not restore the current version", async () => {
+    const { POST } = await import("@/app/api/decisions/[id]/briefs/[version]/restore/route");
+
+    const response = await POST(new Request("http://localhost", { method: "POST" }), params("3"));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("INVALID_STATE");
+    expect(saveDecisionBrief).not.toHaveBeenCalled();
+  });
+});
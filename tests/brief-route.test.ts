@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const getDecisionWithLatestBrief = vi.fn();
+const saveDecisionBrief = vi.fn();
+const scoreDecisionBriefQuality = vi.fn();
+
+vi.mock("@/lib/decisions", () => ({
+  getDecisionWithLatestBrief,
+  saveDecisionBrief,
+}));
+
+vi.mock("@/lib/refinement", () => ({
+  scoreDecisionBriefQuality,
+}));
+
+const editedBrief = {
+  title: "Decision",
+  decisionStatement: "Launch the pilot with two regions this quarter.",
+  context: "Context text for the decision.",
+  alternatives: ["Two-region pilot", "Delay"],
+  constraints: ["No downtime", "No new headcount"],
+  deadline: "2026-12-01",
+  stakeholders: ["Ops"],
+  successCriteria: ["Latency < 1s"],
+  riskTolerance: "low",
+  budget: null,
+  timeLimit: "8 weeks",
+  assumptions: ["Assumption 1"],
+  openQuestions: [],
+  executionSteps: ["Step 1", "Step 2"],
+};
+
+function put(body: unknown) {
+  return new Request("http://localhost/api/decisions/decision-1/brief", {
+    method: "PUT",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("PUT /api/decisions/:id/brief", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getDecisionWithLatestBrief.mockResolvedValue({
+      id: "decision-1",
+      briefs: [{ version: 2, briefJson: {}, qualityScore: 0.7, author: "model" }],
+    });
+    saveDecisionBrief.mockResolvedValue({ version: 3 });
+    scoreDecisionBriefQuality.mockReturnValue(0.84);
+  });
+
+  it("saves the edited brief as a new human-authored version with a fresh quality score", async () => {
+    const { PUT } = await import("@/app/api/decisions/[id]/brief/route");
+
+    const response = await PUT(put(editedBrief), { params: Promise.resolve({ id: "decision-1" }) });
+
+    expect(response.status).toBe(200);
+    expect(scoreDecisionBriefQuality).toHaveBeenCalledWith(editedBrief);
+    expect(saveDecisionBrief).toHaveBeenCalledWith("decision-1", editedBrief, 0.84, "human");
+    await expect(response.json()).resolves.toEqual({
+      decisionBrief: editedBrief,
+      qualityScore: 0.84,
+      version: 3,
+      author: "human",
+    });
+  });
+
+  it("rejects a brief that fails schema validation", async () => {
+    const { PUT } = await import("@/app/api/decisions/[id]/brief/route");
+
+    const response = await PUT(put({ ...editedBrief, riskTolerance: "extreme", decisionStatement: "" }), {
+      params: Promise.resolve({ id: "decision-1" }),
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.code).toBe("BAD_REQUEST");
+    expect(Object.keys(body.details.fieldErrors)).toEqual(["decisionStatement", "riskTolerance"]);
+    expect(saveDecisionBrief).not.toHaveBeenCalled();
+  });
+
+  it("requires a generated brief before it can be edited", async () => {
+    getDecisionWithLatestBrief.mockResolvedValue({ id: "decision-1", briefs: [] });
+    const { PUT } = await import("@/app/api/decisions/[id]/brief/route");
+
+    const response = await PUT(put(editedBrief), { params: Promise.resolve({ id: "decision-1" }) });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("INVALID_STATE");
+  });
+});
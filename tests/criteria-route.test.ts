@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const getDecisionWithLatestBrief = vi.fn();
+const saveDecisionMatrix = vi.fn();
+const suggestCriterionRatings = vi.fn();
+
+vi.mock("@/lib/decisions", () => ({
+  getDecisionWithLatestBrief,
+  saveDecisionMatrix,
+  parseStoredDecisionMatrix: (value: unknown) => value ?? null,
+}));
+
+vi.mock("@/lib/refinement", () => ({
+  suggestCriterionRatings,
+}));
+
+const briefJson = {
+  title: "Decision",
+  decisionStatement: "Launch the pilot with two regions this quarter.",
+  context: "Context text for the decision.",
+  alternatives: ["Two-region pilot", "Delay"],
+  constraints: ["No downtime"],
+  deadline: null,
+  stakeholders: ["Ops"],
+  successCriteria: ["Latency < 1s"],
+  riskTolerance: "low",
+  budget: null,
+  timeLimit: null,
+  assumptions: [],
+  openQuestions: [],
+  executionSteps: [],
+};
+
+const criteria = [
+  { id: "success_1", label: "Latency < 1s", source: "success_criterion", weight: 2, hard: false },
+  { id: "constraint_1", label: "No downtime", source: "constraint", weight: 1, hard: true },
+];
+
+const params = { params: Promise.resolve({ id: "decision-1" }) };
+
+function request(method: string, body: unknown) {
+  return new Request("http://localhost/api/decisions/decision-1/criteria", {
+    method,
+    body: JSON.stringify(body),
+  });
+}
+
+describe("/api/decisions/:id/criteria", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getDecisionWithLatestBrief.mockResolvedValue({ id: "decision-1", briefs: [{ briefJson }], decisionMatrix: null });
+    saveDecisionMatrix.mockImplementation(async (_id: string, matrix: unknown) => matrix);
+  });
+
+  it("returns an unsaved default matrix built from the latest brief", async () => {
+    const { GET } = await import("@/app/api/decisions/[id]/criteria/route");
+    const response = await GET(new Request("http://localhost"), params);
+
+    expect(response.status).toBe(200);
+    const { matrix } = await response.json();
+    expect(matrix.options).toEqual(["Two-region pilot", "Delay"]);
+    expect(matrix.criteria.map((criterion: { id: string }) => criterion.id)).toEqual(["success_1", "constraint_1"]);
+    expect(matrix.updatedAt).toBeNull();
+  });
+
+  it("saves weights and ratings against the brief's options", async () => {
+    const { PUT } = await import("@/app/api/decisions/[id]/criteria/route");
+    const response = await PUT(
+      request("PUT", {
+        criteria,
+        ratings: [{ option: "Delay", criterionId: "success_1", score: 4 }],
+      }),
+      params,
+    );
+
+    expect(response.status).toBe(200);
+    const [decisionId, saved] = saveDecisionMatrix.mock.calls[0];
+    expect(decisionId).toBe("decision-1");
+    expect(saved).toMatchObject({ options: ["Two-region pilot", "Delay"], criteria });
+    expect(typeof saved.updatedAt).toBe("string");
+  });
+
+  it("rejects ratings for unknown options or criteria", async () => {
+    const { PUT } = await import("@/app/api/decisions/[id]/criteria/route");
+
+    const unknownOption = await PUT(
+      request("PUT", { criteria, ratings: [{ option: "Acquire", criterionId: "success_1", score: 4 }] }),
+      params,
+    );
+    expect(unknownOption.status).toBe(400);
+    expect((await unknownOption.json()).details).toEqual({ unknownOptions: ["Acquire"] });
+
+    const unknownCriterion = await PUT(
+      request("PUT", { criteria, ratings: [{ option: "Delay", criterionId: "success_9", score: 4 }] }),
+      params,
+    );
+    expect(unknownCriterion.status).toBe(400);
+    expect(saveDecisionMatrix).not.toHaveBeenCalled();
+  });
+
+  it("drafts ratings with the model without saving them", async () => {
+    suggestCriterionRatings.mockResolvedValue({
+      ratings: [{ option: "Delay", criterionId: "success_1", score: 3 }],
+      provider: "hosted",
+      model: "claude-test",
+      fallback: false,
+    });
+
+    const { POST } = await import("@/app/api/decisions/[id]/criteria/suggest/route");
+    const response = await POST(request("POST", { criteria }), params);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).ratings).toHaveLength(1);
+    expect(suggestCriterionRatings).toHaveBeenCalledWith(
+      expect.objectContaining({ title: "Decision" }),
+      ["Two-region pilot", "Delay"],
+      criteria,
+      "auto",
+      "decision-1",
+    );
+    expect(saveDecisionMatrix).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  alignDecisionMatrix,
+  buildDefaultDecisionMatrix,
+  isDecisionMatrixUsable,
+  recommendFromDecisionMatrix,
+  scoreDecisionMatrix,
+} from "@/lib/analysis/criteria";
+import type { DecisionBrief, DecisionMatrix } from "@/lib/types";
+
+const brief: DecisionBrief = {
+  title: "Warehouse expansion",
+  decisionStatement: "Decide how to add fulfilment capacity before peak season.",
+  context: "Current capacity runs at 95% utilization from October.",
+  alternatives: ["Lease a second site", "Add a night shift", "Outsource overflow"],
+  constraints: ["Capex under $2M"],
+  deadline: null,
+  stakeholders: ["Operations"],
+  successCriteria: ["Same-day dispatch rate", "Cost per order"],
+  riskTolerance: "medium",
+  budget: null,
+  timeLimit: null,
+  assumptions: [],
+  openQuestions: [],
+  executionSteps: [],
+};
+
+const evidence = { confidence: 0.8, nextActions: ["Price two sites"], supportingFrameworks: ["SWOT Analysis"] };
+
+function savedMatrix(overrides: Partial<DecisionMatrix> = {}): DecisionMatrix {
+  return {
+    ...buildDefaultDecisionMatrix(brief),
+    criteria: [
+      { id: "success_1", label: "Same-day dispatch rate", source: "success_criterion", weight: 3, hard: false },
+      { id: "success_2", label: "Cost per order", source: "success_criterion", weight: 1, hard: false },
+      { id: "constraint_1", label: "Capex under $2M", source: "constraint", weight: 1, hard: true },
+    ],
+    ratings: [
+      { option: "Lease a second site", criterionId: "success_1", score: 9 },
+      { option: "Lease a second site", criterionId: "success_2", score: 4 },
+      { option: "Lease a second site", criterionId: "constraint_1", score: 0 },
+      { option: "Add a night shift", criterionId: "success_1", score: 7 },
+      { option: "Add a night shift", criterionId: "success_2", score: 6 },
+      { option: "Outsource overflow", criterionId: "success_1", score: 5 },
+      { option: "Outsource overflow", criterionId: "success_2", score: 9 },
+    ],
+    updatedAt: "2026-03-24T09:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("decision criteria scoring", () => {
+  it("derives weighted criteria from success criteria and hard constraints from constraints", () => {
+    const matrix = buildDefaultDecisionMatrix(brief);
+
+    expect(matrix.options).toEqual(brief.alternatives);
+    expect(matrix.criteria.map((criterion) => [criterion.id, criterion.hard])).toEqual([
+      ["success_1", false],
+      ["success_2", false],
+      ["constraint_1", true],
+    ]);
+    expect(isDecisionMatrixUsable(matrix)).toBe(false);
+    expect(isDecisionMatrixUsable(savedMatrix())).toBe(true);
+  });
+
+  it("computes normalized weighted sums with a per-criterion breakdown", () => {
+    const [first, second, third] = scoreDecisionMatrix(savedMatrix());
+
+    // 0.75 × 0.7 + 0.25 × 0.6 = 0.675 beats 0.75 × 0.5 + 0.25 × 0.9 = 0.6.
+    expect(first).toMatchObject({ option: "Add a night shift", score: 0.675 });
+    expect(first.criteria?.map((entry) => entry.weight)).toEqual([0.75, 0.25]);
+    expect(first.criteria?.reduce((sum, entry) => sum + entry.contribution, 0)).toBeCloseTo(first.score);
+    expect(second).toMatchObject({ option: "Outsource overflow", score: 0.6 });
+    expect(third).toMatchObject({ option: "Lease a second site", score: 0, eliminatedBy: ["Capex under $2M"] });
+  });
+
+  it("explains the recommendation by criterion and lists eliminated options", () => {
+    const recommendation = recommendFromDecisionMatrix(savedMatrix(), evidence);
+
+    expect(recommendation.method).toBe("weighted_criteria");
+    expect(recommendation.recommendedOption).toBe("Add a night shift");
+    expect(recommendation.rationale).toContain("led by Same-day dispatch rate");
+    expect(recommendation.tradeoffs).toContain(
+      "Outsource overflow is the runner-up at 60% and is stronger on Cost per order.",
+    );
+    expect(recommendation.tradeoffs).toContain("Lease a second site is ruled out: violates Capex under $2M.");
+    expect(recommendation.nextActions).toEqual(["Price two sites"]);
+  });
+
+  it("treats unrated cells as neutral and discounts their confidence", () => {
+    const [rated, unrated] = scoreDecisionMatrix(
+      savedMatrix({ ratings: [{ option: "Add a night shift", criterionId: "success_1", score: 10 }] }),
+      0.8,
+    ).filter((option) => option.option !== "Lease a second site");
+
+    expect(rated).toMatchObject({ option: "Add a night shift", score: 0.875 });
+    expect(unrated.score).toBe(0.5);
+    expect(unrated.confidence).toBeLessThan(rated.confidence);
+  });
+
+  it("still ranks options when every option violates a hard constraint", () => {
+    const matrix = savedMatrix();
+    const recommendation = recommendFromDecisionMatrix(
+      {
+        ...matrix,
+        ratings: [
+          ...matrix.ratings,
+          { option: "Add a night shift", criterionId: "constraint_1", score: 0 },
+          { option: "Outsource overflow", criterionId: "constraint_1", score: 0 },
+        ],
+      },
+      evidence,
+    );
+
+    expect(recommendation.confidence).toBe(0);
+    expect(recommendation.recommendedOption).toBe("Lease a second site");
+    expect(recommendation.rationale).toContain("Every option violates at least one hard constraint");
+  });
+
+  it("drops ratings for options no longer in the brief", () => {
+    const aligned = alignDecisionMatrix(savedMatrix(), ["Add a night shift", "Outsource overflow"]);
+
+    expect(aligned.ratings.every((rating) => rating.option !== "Lease a second site")).toBe(true);
+    expect(scoreDecisionMatrix(aligned).map((option) => option.option)).toEqual([
+      "Add a night shift",
+      "Outsource overflow",
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const findManyDecisions = vi.fn();
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    decision: {
+      findMany: findManyDecisions,
+    },
+  },
+}));
+
+function decisionRow(
+  id: string,
+  options: { status?: string; qualityScore?: number | null } = {},
+) {
+  return {
+    id,
+    title: `Decision ${id}`,
+    prompt: `Prompt for ${id}`,
+    createdAt: new Date("2026-03-01T00:00:00Z"),
+    updatedAt: new Date("2026-03-02T00:00:00Z"),
+    briefs:
+      options.qualityScore === undefined
+        ? []
+        : [{ version: 2, qualityScore: options.qualityScore }],
+    runs: options.status
+      ? [
+          {
+            id: `run-${id}`,
+            status: options.status,
+            provider: "local",
+            model: "ollama-test",
+            frameworkIds: ["swot_analysis", "bcg_matrix"],
+            createdAt: new Date("2026-03-02T00:00:00Z"),
+            endedAt: null,
+          },
+        ]
+      : [],
+  };
+}
+
+describe("decision library listing", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    findManyDecisions.mockReset();
+  });
+
+  it("searches title and prompt and returns a cursor when more rows exist", async () => {
+    findManyDecisions.mockResolvedValueOnce([
+      decisionRow("d1", { status: "complete", qualityScore: 0.8 }),
+      decisionRow("d2"),
+      decisionRow("d3"),
+    ]);
+
+    const { listDecisions } = await import("@/lib/decisions");
+    const page = await listDecisions({
+      q: "pilot",
+      limit: 2,
+      sort: "updatedAt",
+      order: "desc",
+    });
+
+    expect(findManyDecisions.mock.calls[0][0].where).toEqual({
+      OR: [{ title: { contains: "pilot" } }, { prompt: { contains: "pilot" } }],
+    });
+    expect(findManyDecisions.mock.calls[0][0].orderBy).toEqual([{ updatedAt: "desc" }, { id: "desc" }]);
+    expect(page.items.map((item) => item.id)).toEqual(["d1", "d2"]);
+    expect(page.items[0].latestRun?.frameworkCount).toBe(2);
+    expect(page.nextCursor).toBe("d2");
+  });
+
+  it("filters by latest run status and brief quality across scan batches", async () => {
+    const firstBatch = Array.from({ length: 50 }, (_, index) =>
+      decisionRow(`a${index}`, { status: "failed", qualityScore: 0.9 }),
+    );
+    findManyDecisions
+      .mockResolvedValueOnce(firstBatch)
+      .mockResolvedValueOnce([
+        decisionRow("b1", { status: "complete", qualityScore: 0.5 }),
+        decisionRow("b2", { status: "complete", qualityScore: 0.9 }),
+      ]);
+
+    const { listDecisions } = await import("@/lib/decisions");
+    const page = await listDecisions({
+      status: "complete",
+      minQuality: 0.67,
+      limit: 10,
+      sort: "createdAt",
+      order: "desc",
+    });
+
+    expect(findManyDecisions).toHaveBeenCalledTimes(2);
+    expect(findManyDecisions.mock.calls[1][0].cursor).toEqual({ id: "a49" });
+    expect(page.items.map((item) => item.id)).toEqual(["b2"]);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it("stops a sparse filtered scan after its batch budget and returns a cursor to continue", async () => {
+    findManyDecisions.mockImplementation(async (args: { cursor?: { id: string } }) => {
+      const offset = args.cursor ? Number(args.cursor.id.slice(1)) + 1 : 0;
+      return Array.from({ length: 50 }, (_, index) =>
+        decisionRow(`r${offset + index}`, { status: "failed", qualityScore: 0.9 }),
+      );
+    });
+
+    const { listDecisions } = await import("@/lib/decisions");
+    const page = await listDecisions({
+      status: "complete",
+      limit: 10,
+      sort: "createdAt",
+      order: "desc",
+    });
+
+    expect(findManyDecisions).toHaveBeenCalledTimes(10);
+    expect(page.items).toEqual([]);
+    expect(page.nextCursor).toBe("r499");
+  });
+
+  it("rejects invalid library queries at the route", async () => {
+    const { GET } = await import("@/app/api/decisions/route");
+    const response = await GET(new Request("http://localhost/api/decisions?status=unknown"));
+
+    expect(response.status).toBe(400);
+    expect(findManyDecisions).not.toHaveBeenCalled();
+  });
+});
@@ -8,7 +8,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { DecisionStudio } from "@/components/DecisionStudio";
 import { rankFrameworkFitsForBrief } from "@/lib/frameworks/fit-ranking";
 import { listFrameworkDefinitions } from "@/lib/frameworks/registry";
-import type { DecisionBrief } from "@/lib/types";
+import type { BriefStreamEvent, DecisionBrief } from "@/lib/types";
 
 const replaceMock = vi.fn();
 
@@ -27,6 +27,14 @@ function jsonResponse(payload: unknown, status = 200): Response {
   });
 }
 
+function eventStreamResponse(events: BriefStreamEvent[]): Response {
+  return new Response(events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(""), {
+    headers: {
+      "content-type": "text/event-stream",
+    },
+  });
+}
+
 const briefA: DecisionBrief = {
   title: "Initial brief",
   decisionStatement:
@@ -258,9 +266,39 @@ describe("DecisionStudio flow", () => {
               ],
             },
           },
+          sensitivity: null,
+          monteCarlo: null,
+          whatIfModel: {
+            method: "heuristic",
+            options: [
+              { option: "Pilot", seed: 0.4 },
+              { option: "Delay", seed: 0.6 },
+            ],
+            themes: {
+              risk: 0.5,
+              urgency: 0.5,
+              opportunity: 0.5,
+              uncertainty: 0.5,
+              resources: 0.5,
+              stakeholderImpact: 0.5,
+            },
+            riskTolerance: "medium",
+            weights: {
+              riskFit: 0.3,
+              opportunityFit: 0.22,
+              resourceFit: 0.18,
+              stakeholderFit: 0.2,
+              optionality: 0.1,
+              uncertaintyPenalty: 0.2,
+            },
+          },
           runId: "run-1",
           provider: "hosted",
           model: "claude-test",
+          usage: {
+            run: { calls: 2, inputTokens: 2400, outputTokens: 600, latencyMs: 9000, costUsd: 0.0162, unpricedCalls: 0 },
+            decision: { calls: 5, inputTokens: 4000, outputTokens: 1000, latencyMs: 15000, costUsd: 0.027, unpricedCalls: 0 },
+          },
         });
       }
 
@@ -273,6 +311,11 @@ describe("DecisionStudio flow", () => {
       expect(runPolled).toBe(true);
       expect(screen.getByText("Decision Recommendation")).toBeInTheDocument();
     }, { timeout: 4500 });
+    expect(
+      screen.getByText(
+        "This run: 2 LLM calls · 3.0k tokens · $0.0162 · Decision total: 5 LLM calls · 5.0k tokens · $0.0270",
+      ),
+    ).toBeInTheDocument();
   });
 
   it("shows brief-building modal and recovers from gateway timeout by polling decision context", async () => {
@@ -295,15 +338,16 @@ describe("DecisionStudio flow", () => {
             ],
           });
         }
-        if (body.mode === "submit_answers") {
-          return jsonResponse(
-            {
-              error: "Gateway Timeout",
-              code: "GATEWAY_TIMEOUT",
-            },
-            504,
-          );
-        }
+      }
+
+      if (url.endsWith("/api/decisions/decision-3/refine/stream") && init?.method === "POST") {
+        return jsonResponse(
+          {
+            error: "Gateway Timeout",
+            code: "GATEWAY_TIMEOUT",
+          },
+          504,
+        );
       }
 
       if (url.endsWith("/api/decisions/decision-3")) {
@@ -459,6 +503,123 @@ describe("DecisionStudio flow", () => {
     expect(analyzeBodies[0].frameworkIds).toHaveLength(4);
   });
 
+  it("saves an inline brief edit as a new human-authored version", async () => {
+    const savedBodies: Array<typeof briefA> = [];
+
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = String(input);
+
+      if (url.endsWith("/api/decisions/decision-6/brief") && init?.method === "PUT") {
+        const body = JSON.parse(String(init.body)) as typeof briefA;
+        savedBodies.push(body);
+        return jsonResponse({ decisionBrief: body, qualityScore: 0.91, version: 2, author: "human" });
+      }
+
+      if (url.endsWith("/api/decisions/decision-6")) {
+        return jsonResponse({
+          decision: {
+            id: "decision-6",
+            title: "Decision",
+            createdAt: "2026-02-01T00:00:00.000Z",
+            updatedAt: "2026-02-02T00:00:00.000Z",
+            input: {
+              prompt: "Should we launch now?",
+            },
+          },
+          brief: briefA,
+          briefQualityScore: 0.8,
+          briefVersion: 1,
+          briefAuthor: "model",
+          clarifications: null,
+          latestRun: null,
+        });
+      }
+
+      return jsonResponse({ error: `Unexpected URL ${url}` }, 500);
+    });
+
+    render(<DecisionStudio initialDecisionId="decision-6" />);
+
+    await userEvent.click(await screen.findByRole("button", { name: "Edit brief" }));
+    await userEvent.click(screen.getByRole("button", { name: "Remove alternatives 3" }));
+    await userEvent.click(screen.getByRole("button", { name: "Add constraints" }));
+    await userEvent.type(screen.getByRole("textbox", { name: "Constraints 3" }), "No new headcount");
+    await userEvent.click(screen.getByRole("button", { name: "Add stakeholders" }));
+    await userEvent.click(screen.getByRole("button", { name: "Save brief" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("edited by you")).toBeInTheDocument();
+    });
+
+    expect(savedBodies).toHaveLength(1);
+    expect(savedBodies[0].alternatives).toEqual(briefA.alternatives.slice(0, 2));
+    expect(savedBodies[0].constraints).toEqual([...briefA.constraints, "No new headcount"]);
+    expect(savedBodies[0].stakeholders).toEqual(briefA.stakeholders);
+    expect(screen.getByText("Quality score: 91%")).toBeInTheDocument();
+  });
+
+  it("lists brief versions and restores an earlier one", async () => {
+    let restored = false;
+    const versions = () => [
+      ...(restored
+        ? [{ version: 3, author: "model", qualityScore: 0.8, restoredFromVersion: 1, createdAt: "2026-02-03T00:00:00.000Z", brief: briefA }]
+        : []),
+      { version: 2, author: "human", qualityScore: 0.9, restoredFromVersion: null, createdAt: "2026-02-02T00:00:00.000Z", brief: briefB },
+      { version: 1, author: "model", qualityScore: 0.8, restoredFromVersion: null, createdAt: "2026-02-01T00:00:00.000Z", brief: briefA },
+    ];
+
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = String(input);
+
+      if (url.endsWith("/api/decisions/decision-7/briefs")) {
+        return jsonResponse({ versions: versions() });
+      }
+
+      if (url.endsWith("/api/decisions/decision-7/briefs/1/restore") && init?.method === "POST") {
+        restored = true;
+        return jsonResponse({
+          decisionBrief: briefA,
+          qualityScore: 0.8,
+          version: 3,
+          author: "model",
+          restoredFromVersion: 1,
+        });
+      }
+
+      if (url.endsWith("/api/decisions/decision-7")) {
+        return jsonResponse({
+          decision: {
+            id: "decision-7",
+            title: "Decision",
+            createdAt: "2026-02-01T00:00:00.000Z",
+            updatedAt: "2026-02-02T00:00:00.000Z",
+            input: {
+              prompt: "Should we launch now?",
+            },
+          },
+          brief: briefB,
+          briefQualityScore: 0.9,
+          briefVersion: 2,
+          briefAuthor: "human",
+          clarifications: null,
+          latestRun: null,
+        });
+      }
+
+      return jsonResponse({ error: `Unexpected URL ${url}` }, 500);
+    });
+
+    render(<DecisionStudio initialDecisionId="decision-7" />);
+
+    await userEvent.click(await screen.findByRole("button", { name: "Restore v1" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("restored from v1")).toBeInTheDocument();
+    });
+    expect(screen.getAllByText(briefA.decisionStatement).length).toBeGreaterThan(0);
+    expect(screen.queryByText("edited by you")).not.toBeInTheDocument();
+  });
+
   it("reapplies ranked top-4 defaults when a new brief is built after manual framework changes", async () => {
     const expectedTop4AfterRefresh = rankFrameworkFitsForBrief(briefB, listFrameworkDefinitions())
       .slice(0, 4)
@@ -515,18 +676,19 @@ describe("DecisionStudio flow", () => {
         });
       }
 
-      if (url.endsWith("/api/decisions/decision-5/refine") && init?.method === "POST") {
-        const body = JSON.parse(String(init.body)) as { mode: string };
-        if (body.mode === "submit_answers") {
-          return jsonResponse({
+      if (url.endsWith("/api/decisions/decision-5/refine/stream") && init?.method === "POST") {
+        return eventStreamResponse([
+          { type: "partial", brief: { title: briefB.title }, provider: "hosted" },
+          {
+            type: "complete",
             decisionBrief: briefB,
             qualityScore: 0.82,
             provider: "hosted",
             model: "claude-test",
             fallback: false,
             status: "brief_ready",
-          });
-        }
+          },
+        ]);
       }
 
       if (url.endsWith("/api/decisions/decision-5/analyze") && init?.method === "POST") {
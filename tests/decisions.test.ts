@@ -1,6 +1,22 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 
-import { pairClarificationAnswers } from "@/lib/decisions";
+import {
+  getDecisionBriefVersion,
+  listDecisionBriefs,
+  pairClarificationAnswers,
+  simulateStoredMonteCarloModel,
+} from "@/lib/decisions";
+
+const { findManyBriefMock, findUniqueBriefMock } = vi.hoisted(() => ({
+  findManyBriefMock: vi.fn(),
+  findUniqueBriefMock: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    decisionBriefRecord: { findMany: findManyBriefMock, findUnique: findUniqueBriefMock },
+  },
+}));
 
 describe("clarification answer pairing", () => {
   it("pairs by question key and reports unmatched ids", () => {
@@ -40,3 +56,77 @@ describe("clarification answer pairing", () => {
     expect(result.unmatchedIds).toEqual(["missing"]);
   });
 });
+
+describe("stored Monte Carlo simulation", () => {
+  const stored = {
+    outcomeLabel: "NPV ($k)",
+    formula: "log(margin)",
+    alternatives: [
+      { option: "Build", variables: [{ name: "margin", distribution: { type: "uniform", min: 1, max: 2 } }] },
+      { option: "Buy", variables: [{ name: "margin", distribution: { type: "normal", mean: 0, sd: 1 } }] },
+    ],
+    correlations: [],
+    trials: 500,
+    seed: "stored-seed",
+    updatedAt: "2026-03-30T00:00:00.000Z",
+  };
+
+  it("reuses the result for the same model and options", () => {
+    const first = simulateStoredMonteCarloModel(stored, ["Build"]);
+
+    expect(first?.alternatives.map((entry) => entry.option)).toEqual(["Build"]);
+    expect(simulateStoredMonteCarloModel(stored, ["Build"])).toBe(first);
+  });
+
+  it("returns null instead of throwing when the aligned model no longer runs", () => {
+    expect(simulateStoredMonteCarloModel(stored, ["Build", "Buy"])).toBeNull();
+    expect(simulateStoredMonteCarloModel(stored, ["Partner"])).toBeNull();
+  });
+});
+
+describe("stored brief versions", () => {
+  const brief = {
+    title: "Decision",
+    decisionStatement: "Decide how far to roll out the new pricing model this quarter.",
+    context: "Pricing change affects every customer segment.",
+    alternatives: ["Pilot", "Full rollout"],
+    constraints: [],
+    deadline: null,
+    stakeholders: ["Sales"],
+    successCriteria: [],
+    riskTolerance: "medium",
+    budget: null,
+    timeLimit: null,
+    assumptions: [],
+    openQuestions: [],
+    executionSteps: [],
+  };
+
+  function row(version: number, briefJson: unknown) {
+    return {
+      version,
+      author: "model",
+      qualityScore: 0.7,
+      restoredFromVersion: null,
+      createdAt: new Date("2026-04-01T00:00:00.000Z"),
+      briefJson,
+    };
+  }
+
+  it("leaves out versions whose stored brief no longer parses", async () => {
+    findManyBriefMock.mockResolvedValueOnce([row(3, brief), row(2, { title: 42 }), row(1, brief)]);
+
+    const versions = await listDecisionBriefs("decision-1");
+
+    expect(versions.map((entry) => entry.version)).toEqual([3, 1]);
+  });
+
+  it("reports an unreadable version as a conflict rather than a server error", async () => {
+    findUniqueBriefMock.mockResolvedValueOnce(row(2, { title: 42 }));
+
+    await expect(getDecisionBriefVersion("decision-1", 2)).rejects.toMatchObject({
+      code: "INVALID_STATE",
+      status: 409,
+    });
+  });
+});
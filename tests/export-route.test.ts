@@ -10,6 +10,8 @@ const createMany = vi.fn();
 vi.mock("@/lib/decisions", () => ({
   getDecisionWithLatestBrief,
   getLatestCompleteRun,
+  parseScoringInputs: () => ({ matrix: null, ahp: null }),
+  simulateStoredMonteCarloModel: () => null,
 }));
 
 vi.mock("@/lib/export/bundle", () => ({
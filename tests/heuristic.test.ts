@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { applyWhatIf, rankHeuristicOptions } from "@/lib/analysis/heuristic";
+import { recommendDecision, resolveHeuristicModel } from "@/lib/analysis/propagation";
+import type { DecisionBrief } from "@/lib/types";
+
+const brief: DecisionBrief = {
+  title: "Decision",
+  decisionStatement: "Decide how far to roll out the new pricing model this quarter.",
+  context: "Pricing change affects every customer segment.",
+  alternatives: [],
+  constraints: [],
+  deadline: null,
+  stakeholders: ["Sales"],
+  successCriteria: [],
+  riskTolerance: "low",
+  budget: null,
+  timeLimit: null,
+  assumptions: [],
+  openQuestions: [],
+  executionSteps: [],
+};
+
+describe("client-side heuristic rescoring", () => {
+  it("ranks options exactly like the server-side recommendation", () => {
+    const ranking = rankHeuristicOptions(resolveHeuristicModel(brief, []));
+    const recommendation = recommendDecision(brief, [], []);
+
+    expect(ranking).toEqual(recommendation.optionScores.map(({ option, score }) => ({ option, score })));
+  });
+
+  it("applies theme and risk tolerance overrides on top of the run's inputs", () => {
+    const model = resolveHeuristicModel(brief, []);
+    const adjusted = applyWhatIf(model, { themes: { opportunity: 0.9 }, riskTolerance: "high" });
+
+    expect(adjusted.themes).toEqual({ ...model.themes, opportunity: 0.9 });
+    expect(adjusted.riskTolerance).toBe("high");
+    expect(rankHeuristicOptions(adjusted)[0].option).toBe("Full-scale commitment");
+    expect(rankHeuristicOptions(applyWhatIf(model, { themes: {} }))).toEqual(rankHeuristicOptions(model));
+  });
+});
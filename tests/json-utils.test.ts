@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { parseJsonFromText } from "@/lib/utils/json";
+import { parseJsonFromText, parsePartialJson } from "@/lib/utils/json";
 
 describe("parseJsonFromText", () => {
   it("parses fenced JSON with single quotes and trailing commas", () => {
@@ -27,3 +27,23 @@ describe("parseJsonFromText", () => {
     expect(parsed.questions[0].id).toBe("q1");
   });
 });
+
+describe("parsePartialJson", () => {
+  it("closes open strings and containers while a document is streamed", () => {
+    expect(parsePartialJson("")).toBeUndefined();
+    expect(parsePartialJson("```json\n{\"title\": \"Launch pi")).toEqual({ title: "Launch pi" });
+    expect(parsePartialJson('{"title": "Launch", "alternatives": ["Pilot", "Del')).toEqual({
+      title: "Launch",
+      alternatives: ["Pilot", "Del"],
+    });
+  });
+
+  it("cuts back to the last complete member when a key or literal is cut off", () => {
+    expect(parsePartialJson('{"title": "Launch", "decisionSta')).toEqual({ title: "Launch" });
+    expect(parsePartialJson('{"title": "Launch", "deadline": nu')).toEqual({ title: "Launch" });
+    expect(parsePartialJson('{"title": "Launch", "scores": {"risk": 0.4,')).toEqual({
+      title: "Launch",
+      scores: { risk: 0.4 },
+    });
+  });
+});
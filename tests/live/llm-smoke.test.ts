@@ -16,7 +16,7 @@ liveDescribe("live llm smoke", () => {
       return;
     }
 
-    const result = await adapter.generateJson({
+    const { data: result } = await adapter.generateJson({
       systemPrompt: "Return a JSON object with answer and source fields.",
       userPrompt: "What is 2 + 2?",
       schema: z.object({
@@ -38,7 +38,7 @@ liveDescribe("live llm smoke", () => {
       return;
     }
 
-    const result = await adapter.generateJson({
+    const { data: result } = await adapter.generateJson({
       systemPrompt: "Return a JSON object with answer and source fields.",
       userPrompt: "What is 2 + 2?",
       schema: z.object({
@@ -0,0 +1,105 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+import type { LLMAdapter } from "@/lib/llm/base";
+import { fixtureKey } from "@/lib/llm/fixtures";
+import { RecordingAdapter } from "@/lib/llm/recording-adapter";
+import { ReplayAdapter } from "@/lib/llm/replay-adapter";
+
+const answerSchema = z.object({
+  answer: z.number(),
+  source: z.string(),
+});
+
+const request = {
+  systemPrompt: "Return a JSON object with answer and source fields.",
+  userPrompt: "What is 2 + 2?",
+  schema: answerSchema,
+  temperature: 0,
+};
+
+const usage = { inputTokens: 180, outputTokens: 24, latencyMs: 900 };
+
+function fakeAdapter(generateJson = vi.fn()): LLMAdapter {
+  return {
+    name: "ollama",
+    model: "llama-test",
+    isHealthy: async () => true,
+    generateJson,
+  };
+}
+
+describe("LLM record and replay adapters", () => {
+  let fixtureDir: string;
+
+  beforeEach(async () => {
+    fixtureDir = await mkdtemp(path.join(tmpdir(), "llm-fixtures-"));
+  });
+
+  afterEach(async () => {
+    await rm(fixtureDir, { recursive: true, force: true });
+  });
+
+  it("keys fixtures by prompts and schema only", () => {
+    expect(fixtureKey(request)).toBe(fixtureKey({ ...request, temperature: 0.7, maxTokens: 50 }));
+    expect(fixtureKey(request)).not.toBe(fixtureKey({ ...request, userPrompt: "What is 3 + 3?" }));
+    expect(fixtureKey(request)).not.toBe(
+      fixtureKey({ ...request, schema: answerSchema.extend({ confidence: z.number() }) }),
+    );
+  });
+
+  it("replays recorded responses without calling the provider", async () => {
+    const generateJson = vi.fn().mockResolvedValue({ data: { answer: 4, source: "arithmetic" }, usage });
+    const recorder = new RecordingAdapter(fakeAdapter(generateJson), fixtureDir);
+
+    await expect(recorder.generateJson(request)).resolves.toEqual({
+      data: { answer: 4, source: "arithmetic" },
+      usage,
+    });
+    expect(await readdir(fixtureDir)).toEqual([`${fixtureKey(request)}.json`]);
+
+    const replay = new ReplayAdapter({ name: "anthropic", model: "claude-test" }, fixtureDir);
+
+    await expect(replay.isHealthy()).resolves.toBe(true);
+    await expect(replay.generateJson(request)).resolves.toEqual({
+      data: { answer: 4, source: "arithmetic" },
+      usage: { inputTokens: 180, outputTokens: 24, latencyMs: 0 },
+    });
+    expect(generateJson).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not record failed provider calls", async () => {
+    const recorder = new RecordingAdapter(
+      fakeAdapter(vi.fn().mockRejectedValue(new Error("connect ECONNREFUSED"))),
+      fixtureDir,
+    );
+
+    await expect(recorder.generateJson(request)).rejects.toThrow("ECONNREFUSED");
+    expect(await readdir(fixtureDir)).toEqual([]);
+  });
+
+  it("reports missing fixtures as an unavailable provider", async () => {
+    const replay = new ReplayAdapter(fakeAdapter(), fixtureDir);
+
+    await expect(replay.generateJson(request)).rejects.toMatchObject({ code: "PROVIDER_UNAVAILABLE" });
+  });
+
+  it("rejects fixtures that no longer satisfy the schema", async () => {
+    const recorder = new RecordingAdapter(
+      fakeAdapter(vi.fn().mockResolvedValue({ data: { answer: 4, source: "arithmetic" }, usage })),
+      fixtureDir,
+    );
+    await recorder.generateJson(request);
+
+    // Refinements are not part of the JSON Schema, so the key still matches.
+    const tightened = { ...request, schema: answerSchema.refine((value) => value.answer > 10) };
+    expect(fixtureKey(tightened)).toBe(fixtureKey(request));
+
+    const replay = new ReplayAdapter(fakeAdapter(), fixtureDir);
+    await expect(replay.generateJson(tightened)).rejects.toMatchObject({ code: "MODEL_OUTPUT_INVALID" });
+  });
+});
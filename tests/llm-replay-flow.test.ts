@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import type { FrameworkId, FrameworkResult } from "@/lib/types";
+
+const { createLlmCall, findPromptVersions } = vi.hoisted(() => ({
+  createLlmCall: vi.fn(async () => ({})),
+  findPromptVersions: vi.fn(async () => []),
+}));
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    llmCallRecord: { create: createLlmCall },
+    promptTemplateVersion: { findMany: findPromptVersions },
+  },
+}));
+
+const intake = {
+  title: "Enterprise support AI launch",
+  prompt:
+    "Should we launch our AI support assistant to all enterprise customers this quarter, run a phased pilot, or delay for reliability hardening?",
+  alternatives: "Full launch, phased pilot with 3 design partners, delay one quarter",
+  constraints: "SOC2 Type II compliance, no support headcount increase",
+  stakeholders: "Support, Security, Product, Customer Success",
+  successCriteria: "Cut average handle time by 20% without a CSAT drop over 5 points",
+  riskTolerance: "medium" as const,
+  budget: "$180k",
+  timeLimit: "12 weeks",
+};
+
+const answers = [
+  "CSAT may dip at most 5 points for two weeks; anything more triggers rollback.",
+  "Security must sign off on data retention before any customer sees the assistant.",
+  "Three design partners have already agreed to a six-week pilot.",
+  "Handle time and first-contact resolution are the metrics leadership reviews weekly.",
+  "Rollback must complete in under 24 hours.",
+  "Budget covers tooling and evaluation, not new hires.",
+];
+
+const frameworkIds: FrameworkId[] = ["swot_analysis", "pareto_principle", "eisenhower_matrix"];
+
+/**
+ * Runs refine → analyze → export against the fixtures in tests/fixtures/llm.
+ * Set LLM_FIXTURE_MODE=record with a provider configured to re-record them.
+ */
+describe("LLM replay flow", () => {
+  beforeAll(() => {
+    vi.resetModules();
+    process.env.LLM_FIXTURE_MODE = process.env.LLM_FIXTURE_MODE === "record" ? "record" : "replay";
+    delete process.env.LLM_FIXTURE_DIR;
+  });
+
+  afterAll(() => {
+    delete process.env.LLM_FIXTURE_MODE;
+  });
+
+  it("refines, analyzes and exports a decision from recorded responses", async () => {
+    const { generateClarificationQuestions, generateDecisionBrief } = await import("@/lib/refinement");
+    const { resolveLLM } = await import("@/lib/llm/router");
+    const { resolvePromptTemplate } = await import("@/lib/prompts/store");
+    const { analyzeFrameworkWithLLM, enforceFrameworkVisualizationIntegrity } = await import(
+      "@/lib/frameworks/analyzers"
+    );
+    const { inferDecisionThemeVector } = await import("@/lib/analysis/theme");
+    const { buildPropagatedDecisionMap, buildSynthesisSummary } = await import("@/lib/analysis/propagation");
+    const { buildMarkdownExport, buildZipExportBundle } = await import("@/lib/export/bundle");
+
+    const clarification = await generateClarificationQuestions(intake, "auto", "replay-decision");
+    expect(clarification.fallback).toBe(false);
+    expect(clarification.questions.length).toBeGreaterThanOrEqual(3);
+
+    const qaPairs = clarification.questions.map((question, index) => ({
+      question: question.question,
+      answer: answers[index % answers.length],
+    }));
+    const { decisionBrief: brief, fallback: briefFallback } = await generateDecisionBrief(
+      intake,
+      qaPairs,
+      "auto",
+      "replay-decision",
+    );
+    expect(briefFallback).toBe(false);
+    expect(brief.alternatives.length).toBeGreaterThanOrEqual(2);
+
+    const llm = await resolveLLM("auto");
+    const decisionThemes = inferDecisionThemeVector(brief);
+    const frameworkResults: FrameworkResult[] = [];
+    for (const frameworkId of frameworkIds) {
+      const analyzed = await analyzeFrameworkWithLLM(frameworkId, brief, decisionThemes, {
+        adapter: llm.adapter,
+        provider: llm.provider,
+        model: llm.model,
+        prompt: await resolvePromptTemplate("framework_analysis", { frameworkId }),
+      });
+      const normalized = enforceFrameworkVisualizationIntegrity(analyzed, brief, decisionThemes);
+      expect(normalized.result.generation?.mode).toBe("llm");
+      frameworkResults.push(normalized.result);
+    }
+
+    const propagatedMap = buildPropagatedDecisionMap(frameworkResults);
+    const synthesis = buildSynthesisSummary(brief, frameworkResults, propagatedMap);
+    expect(brief.alternatives).toContain(synthesis.decisionRecommendation?.recommendedOption);
+
+    const exportInput = {
+      decisionId: "replay-decision",
+      runId: "replay-run",
+      brief,
+      frameworkResults,
+      propagatedMap,
+      synthesis,
+    };
+    const { markdown } = buildMarkdownExport(exportInput);
+    expect(markdown).toContain(brief.title);
+    for (const result of frameworkResults) {
+      expect(markdown).toContain(result.frameworkName);
+    }
+
+    const bundle = await buildZipExportBundle(exportInput);
+    expect(bundle.zip.byteLength).toBeGreaterThan(0);
+    expect(bundle.artifacts.map((artifact) => artifact.type)).toContain("markdown");
+
+    // Refinement meters its own calls; the runner meters framework analysis.
+    expect(createLlmCall).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+import type { LLMAdapter } from "@/lib/llm/base";
+
+interface CacheRow {
+  key: string;
+  response: unknown;
+  sizeBytes: number;
+  hits: number;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+}
+
+const rows = new Map<string, CacheRow>();
+const createLlmCall = vi.fn();
+const aggregateCache = vi.fn(async () => ({
+  _sum: { sizeBytes: [...rows.values()].reduce((sum, row) => sum + row.sizeBytes, 0) },
+}));
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    llmResponseCache: {
+      findUnique: async ({ where }: { where: { key: string } }) => rows.get(where.key) ?? null,
+      update: async ({ where, data }: { where: { key: string }; data: { lastUsedAt: Date } }) => {
+        const row = rows.get(where.key)!;
+        row.hits += 1;
+        row.lastUsedAt = data.lastUsedAt;
+        return row;
+      },
+      upsert: async ({ where, create }: { where: { key: string }; create: CacheRow }) => {
+        rows.set(where.key, { ...create });
+        return create;
+      },
+      aggregate: aggregateCache,
+      findMany: async ({ take }: { take: number }) =>
+        [...rows.values()].sort((a, b) => a.lastUsedAt.getTime() - b.lastUsedAt.getTime()).slice(0, take),
+      deleteMany: async ({ where }: { where: { expiresAt?: { lte: Date }; key?: { in: string[] } } }) => {
+        for (const row of [...rows.values()]) {
+          if (
+            (where.expiresAt && row.expiresAt <= where.expiresAt.lte) ||
+            (where.key && where.key.in.includes(row.key))
+          ) {
+            rows.delete(row.key);
+          }
+        }
+        return { count: 0 };
+      },
+    },
+    llmCallRecord: {
+      create: createLlmCall,
+    },
+    llmCallLog: {
+      createMany: async () => ({ count: 0 }),
+    },
+  },
+}));
+
+const schema = z.object({ answer: z.string() });
+const usage = { inputTokens: 1200, outputTokens: 300, latencyMs: 900 };
+
+function resolved(generateJson: unknown) {
+  const adapter: LLMAdapter = {
+    name: "anthropic",
+    model: "claude-sonnet-4-5",
+    isHealthy: async () => true,
+    generateJson: generateJson as LLMAdapter["generateJson"],
+  };
+  return { provider: "anthropic", model: "claude-sonnet-4-5", adapter };
+}
+
+describe("LLM response cache", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    rows.clear();
+    createLlmCall.mockReset().mockResolvedValue({});
+    aggregateCache.mockClear();
+    delete process.env.LLM_CACHE_TTL_MS;
+    delete process.env.LLM_CACHE_MAX_BYTES;
+    delete process.env.LLM_CIRCUIT_FAILURE_THRESHOLD;
+  });
+
+  it("serves an identical request from the cache and marks the hit", async () => {
+    const generateJson = vi.fn().mockResolvedValue({ data: { answer: "launch" }, usage });
+    const { cacheLLM } = await import("@/lib/llm/response-cache");
+    const cached = cacheLLM(resolved(generateJson));
+    const request = { systemPrompt: "s", userPrompt: "u", schema, temperature: 0.15 };
+
+    await expect(cached.adapter.generateJson(request)).resolves.toEqual({ data: { answer: "launch" }, usage });
+    const hit = await cached.adapter.generateJson(request);
+
+    expect(generateJson).toHaveBeenCalledTimes(1);
+    expect(hit.data).toEqual({ answer: "launch" });
+    expect(hit.usage).toMatchObject({ inputTokens: 0, outputTokens: 0 });
+    expect(hit.cacheHit?.key).toMatch(/^[0-9a-f]{64}$/);
+    expect([...rows.values()][0].hits).toBe(1);
+
+    await cached.adapter.generateJson({ ...request, temperature: 0.7 });
+    await cacheLLM(resolved(generateJson), { variant: "sample:1" }).adapter.generateJson(request);
+    expect(generateJson).toHaveBeenCalledTimes(3);
+  });
+
+  it("bypasses, expires and revalidates cached entries", async () => {
+    const generateJson = vi.fn().mockResolvedValue({ data: { answer: "fresh" }, usage });
+    const { cacheLLM } = await import("@/lib/llm/response-cache");
+    const request = { systemPrompt: "s", userPrompt: "u", schema };
+
+    await cacheLLM(resolved(generateJson)).adapter.generateJson(request);
+    const bypassed = await cacheLLM(resolved(generateJson), { bypass: true }).adapter.generateJson(request);
+    expect(bypassed.cacheHit).toBeUndefined();
+    expect(generateJson).toHaveBeenCalledTimes(2);
+
+    const [row] = rows.values();
+    row.response = { verdict: "stale shape" };
+    await cacheLLM(resolved(generateJson)).adapter.generateJson(request);
+    expect(generateJson).toHaveBeenCalledTimes(3);
+
+    rows.get(row.key)!.expiresAt = new Date(Date.now() - 1000);
+    await cacheLLM(resolved(generateJson)).adapter.generateJson(request);
+    expect(generateJson).toHaveBeenCalledTimes(4);
+  });
+
+  it("evicts the least recently used entries beyond LLM_CACHE_MAX_BYTES", async () => {
+    process.env.LLM_CACHE_MAX_BYTES = "60";
+    const generateJson = vi.fn(async (request: { userPrompt: string }) => ({
+      data: { answer: `${request.userPrompt}-${"x".repeat(10)}` },
+      usage,
+    }));
+    const { cacheLLM, pruneResponseCache } = await import("@/lib/llm/response-cache");
+    const cached = cacheLLM(resolved(generateJson));
+
+    for (const userPrompt of ["first", "second", "third"]) {
+      await cached.adapter.generateJson({ systemPrompt: "s", userPrompt, schema });
+      await new Promise((resolve) => setTimeout(resolve, 2));
+    }
+
+    // Only the first write sums the table; later writes wait for the eviction interval.
+    expect(aggregateCache).toHaveBeenCalledTimes(1);
+    expect(rows.size).toBe(3);
+
+    await pruneResponseCache();
+    expect(rows.size).toBe(2);
+    expect([...rows.values()].map((row) => (row.response as { answer: string }).answer)).not.toContain(
+      "first-xxxxxxxxxx",
+    );
+  });
+
+  it("does not bill cache hits in the usage ledger", async () => {
+    const generateJson = vi.fn().mockResolvedValue({ data: { answer: "launch" }, usage });
+    const { cacheLLM } = await import("@/lib/llm/response-cache");
+    const { meterLLM } = await import("@/lib/usage-ledger");
+    const metered = meterLLM(cacheLLM(resolved(generateJson)), {
+      decisionId: "decision-1",
+      runId: "run-1",
+      operation: "framework_analysis",
+      frameworkId: "swot_analysis",
+    });
+    const request = { systemPrompt: "s", userPrompt: "u", schema };
+
+    await metered.adapter.generateJson(request);
+    await metered.adapter.generateJson(request);
+
+    expect(generateJson).toHaveBeenCalledTimes(1);
+    expect(createLlmCall).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves cached responses without passing through the provider's circuit breaker", async () => {
+    process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = "1";
+    const generateJson = vi.fn().mockResolvedValue({ data: { answer: "launch" }, usage });
+    const { cacheLLM } = await import("@/lib/llm/response-cache");
+    const { getProviderHealth, recordProviderFailure, withCircuitBreaker } = await import("@/lib/llm/health");
+    const { ProviderUnavailableError } = await import("@/lib/errors");
+    const guarded = cacheLLM(withCircuitBreaker(resolved(generateJson)));
+    const request = { systemPrompt: "s", userPrompt: "u", schema };
+
+    await guarded.adapter.generateJson(request);
+    recordProviderFailure("anthropic", new ProviderUnavailableError("overloaded"));
+    expect(getProviderHealth("anthropic").state).toBe("open");
+
+    const hit = await guarded.adapter.generateJson(request);
+    expect(hit.cacheHit).toBeDefined();
+    expect(getProviderHealth("anthropic").state).toBe("open");
+
+    await expect(guarded.adapter.generateJson({ ...request, userPrompt: "other" })).rejects.toMatchObject({
+      name: "CircuitOpenError",
+    });
+    expect(generateJson).toHaveBeenCalledTimes(1);
+  });
+
+  it("is disabled when LLM_CACHE_TTL_MS is 0", async () => {
+    process.env.LLM_CACHE_TTL_MS = "0";
+    const generateJson = vi.fn().mockResolvedValue({ data: { answer: "launch" }, usage });
+    const { cacheLLM } = await import("@/lib/llm/response-cache");
+    const llm = resolved(generateJson);
+
+    expect(cacheLLM(llm)).toBe(llm);
+  });
+});
@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 
 const localHealthy = vi.fn<() => Promise<boolean>>();
 const hostedHealthy = vi.fn<() => Promise<boolean>>();
+const compatHealthy = vi.fn<() => Promise<boolean>>();
 
 vi.mock("@/lib/llm/ollama-adapter", () => ({
   OllamaAdapter: class MockOllamaAdapter {
@@ -21,12 +22,33 @@ vi.mock("@/lib/llm/anthropic-adapter", () => ({
   },
 }));
 
+vi.mock("@/lib/llm/openai-compatible-adapter", () => ({
+  OpenAICompatibleAdapter: class MockOpenAICompatibleAdapter {
+    name = "openai-compatible";
+    model = "vllm-test";
+    isHealthy = compatHealthy;
+    generateJson = vi.fn();
+
+    constructor(model?: string, connection: { name?: string; baseUrl?: string; apiKey?: string } = {}) {
+      this.model = model ?? this.model;
+      this.name = connection.name ?? this.name;
+      Object.assign(this, { connection });
+    }
+  },
+}));
+
 describe("resolveLLM", () => {
   beforeEach(() => {
     vi.resetModules();
     localHealthy.mockReset();
     hostedHealthy.mockReset();
+    compatHealthy.mockReset();
     delete process.env.LLM_AUTO_PRIORITY;
+    delete process.env.OPENAI_COMPAT_ROLE;
+    delete process.env.OPENAI_COMPAT_BASE_URL;
+    delete process.env.LLM_PROVIDER_ORDER;
+    delete process.env.LLM_FIXTURE_MODE;
+    delete process.env.LLM_PROVIDERS;
   });
 
   it("prefers local when auto mode and local is healthy", async () => {
@@ -36,7 +58,7 @@ describe("resolveLLM", () => {
     const { resolveLLM } = await import("@/lib/llm/router");
     const resolved = await resolveLLM("auto");
 
-    expect(resolved.provider).toBe("local");
+    expect(resolved.provider).toBe("ollama");
     expect(resolved.model).toBe("ollama-test");
   });
 
@@ -47,7 +69,7 @@ describe("resolveLLM", () => {
     const { resolveLLM } = await import("@/lib/llm/router");
     const resolved = await resolveLLM("auto");
 
-    expect(resolved.provider).toBe("hosted");
+    expect(resolved.provider).toBe("anthropic");
     expect(resolved.model).toBe("claude-test");
   });
 
@@ -59,7 +81,7 @@ describe("resolveLLM", () => {
     const { resolveLLM } = await import("@/lib/llm/router");
     const resolved = await resolveLLM("auto");
 
-    expect(resolved.provider).toBe("hosted");
+    expect(resolved.provider).toBe("anthropic");
     expect(resolved.model).toBe("claude-test");
   });
 
@@ -71,7 +93,7 @@ describe("resolveLLM", () => {
     const { resolveLLM } = await import("@/lib/llm/router");
     const resolved = await resolveLLM("auto");
 
-    expect(resolved.provider).toBe("local");
+    expect(resolved.provider).toBe("ollama");
     expect(resolved.model).toBe("ollama-test");
   });
 
@@ -84,4 +106,126 @@ describe("resolveLLM", () => {
     await expect(resolveLLM("local")).rejects.toMatchObject({ code: "PROVIDER_UNAVAILABLE" });
     await expect(resolveLLM("hosted")).rejects.toMatchObject({ code: "PROVIDER_UNAVAILABLE" });
   });
+
+  it("routes the configured slot to the OpenAI-compatible server", async () => {
+    process.env.OPENAI_COMPAT_ROLE = "local";
+    process.env.OPENAI_COMPAT_BASE_URL = "http://localhost:8000/v1";
+    localHealthy.mockResolvedValue(true);
+    hostedHealthy.mockResolvedValue(true);
+    compatHealthy.mockResolvedValue(true);
+
+    const { resolveLLM } = await import("@/lib/llm/router");
+    const local = await resolveLLM("local");
+    const hosted = await resolveLLM("hosted");
+
+    expect(local.adapter.name).toBe("openai-compatible");
+    expect(local.model).toBe("vllm-test");
+    expect(localHealthy).not.toHaveBeenCalled();
+    expect(hosted.model).toBe("claude-test");
+  });
+
+  it("honours LLM_PROVIDER_ORDER ahead of the auto tier priority", async () => {
+    process.env.LLM_PROVIDER_ORDER = "anthropic";
+    localHealthy.mockResolvedValue(true);
+    hostedHealthy.mockResolvedValue(true);
+
+    const { resolveLLM } = await import("@/lib/llm/router");
+    const resolved = await resolveLLM("auto");
+
+    expect(resolved.provider).toBe("anthropic");
+    expect(localHealthy).not.toHaveBeenCalled();
+  });
+
+  it("builds an ordered failover chain without the failed provider", async () => {
+    process.env.OPENAI_COMPAT_ROLE = "local";
+    process.env.OPENAI_COMPAT_BASE_URL = "http://localhost:8000/v1";
+
+    const { getFailoverChain } = await import("@/lib/llm/router");
+
+    expect(getFailoverChain("openai-compatible").map((entry) => entry.provider)).toEqual([
+      "ollama",
+      "anthropic",
+    ]);
+    expect(getFailoverChain("anthropic", "local").map((entry) => entry.provider)).toEqual([
+      "openai-compatible",
+      "ollama",
+    ]);
+  });
+
+  it("maps stored provider names and legacy tier values back to adapters", async () => {
+    const { getAdapterForResolvedProvider } = await import("@/lib/llm/router");
+
+    expect(getAdapterForResolvedProvider("anthropic")?.model).toBe("claude-test");
+    expect(getAdapterForResolvedProvider("local")?.provider).toBe("ollama");
+    expect(getAdapterForResolvedProvider("hosted")?.provider).toBe("anthropic");
+    expect(getAdapterForResolvedProvider("retired-provider")).toBeNull();
+  });
+
+  it("serves providers from recorded fixtures in replay mode", async () => {
+    process.env.LLM_FIXTURE_MODE = "replay";
+    localHealthy.mockResolvedValue(false);
+    hostedHealthy.mockResolvedValue(false);
+
+    const { resolveLLM } = await import("@/lib/llm/router");
+    const { ReplayAdapter } = await import("@/lib/llm/replay-adapter");
+    const resolved = await resolveLLM("auto");
+
+    expect(resolved.provider).toBe("ollama");
+    expect(resolved.adapter).toBeInstanceOf(ReplayAdapter);
+    expect(localHealthy).not.toHaveBeenCalled();
+  });
+
+  it("registers named providers from LLM_PROVIDERS and resolves them by name", async () => {
+    process.env.LLM_PROVIDERS = JSON.stringify([
+      { name: "gpu-box", type: "openai-compatible", model: "qwen-32b", baseUrl: "http://gpu:8000", role: "local", apiKeyEnv: "GPU_BOX_KEY" },
+      { name: "gateway", type: "openai-compatible", model: "gpt-x", baseUrl: "https://gateway.example", responseFormat: "json_object" },
+    ]);
+    process.env.GPU_BOX_KEY = "secret";
+    localHealthy.mockResolvedValue(true);
+    compatHealthy.mockResolvedValue(true);
+
+    const { resolveLLM, getFailoverChain } = await import("@/lib/llm/router");
+    const { listProviderSummaries } = await import("@/lib/llm/registry");
+
+    expect(listProviderSummaries()).toEqual([
+      { name: "ollama", model: "ollama-test", capabilities: ["json_schema", "offline"] },
+      { name: "gpu-box", model: "qwen-32b", capabilities: ["json_schema", "offline"] },
+      { name: "anthropic", model: "claude-test", capabilities: ["json_schema"] },
+      { name: "gateway", model: "gpt-x", capabilities: [] },
+    ]);
+
+    const named = await resolveLLM("gpu-box");
+    expect(named.provider).toBe("gpu-box");
+    expect(named.model).toBe("qwen-32b");
+    expect(named.adapter).toMatchObject({
+      connection: { name: "gpu-box", baseUrl: "http://gpu:8000", apiKey: "secret" },
+    });
+    expect(localHealthy).not.toHaveBeenCalled();
+    expect(getFailoverChain("ollama", "local").map((entry) => entry.provider)).toEqual(["gpu-box"]);
+
+    await expect(resolveLLM("retired-box")).rejects.toMatchObject({
+      code: "PROVIDER_UNAVAILABLE",
+      message: expect.stringContaining('Provider "retired-box" is not registered'),
+    });
+
+    delete process.env.GPU_BOX_KEY;
+  });
+
+  it("rejects named providers that shadow a tier or another provider", async () => {
+    process.env.LLM_PROVIDERS = JSON.stringify([{ name: "local", type: "ollama", model: "llama3.2" }]);
+    await expect(import("@/lib/llm/router")).rejects.toThrow("Name is reserved");
+
+    vi.resetModules();
+    process.env.LLM_PROVIDERS = JSON.stringify([
+      { name: "twin", type: "ollama", model: "llama3.2" },
+      { name: "twin", type: "anthropic", model: "claude-test" },
+    ]);
+    await expect(import("@/lib/llm/router")).rejects.toThrow(/Duplicate provider .*twin/);
+  });
+
+  it("names LLM_PROVIDERS when it is not valid JSON", async () => {
+    process.env.LLM_PROVIDERS = '[{ name: "gpu-box" }]';
+
+    await expect(import("@/lib/llm/router")).rejects.toThrow("LLM_PROVIDERS must be a JSON array of providers");
+  });
 });
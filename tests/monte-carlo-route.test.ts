@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const getDecisionWithLatestBrief = vi.fn();
+const saveMonteCarloModel = vi.fn();
+
+vi.mock("@/lib/decisions", () => ({
+  getDecisionWithLatestBrief,
+  saveMonteCarloModel,
+  parseStoredMonteCarloModel: (value: unknown) => value ?? null,
+  simulateStoredMonteCarloModel: () => null,
+}));
+
+const briefJson = {
+  title: "Decision",
+  decisionStatement: "Choose how to deliver the analytics platform this year.",
+  context: "Context text for the decision.",
+  alternatives: ["Build", "Buy"],
+  constraints: [],
+  deadline: null,
+  stakeholders: ["Ops"],
+  successCriteria: [],
+  riskTolerance: "medium",
+  budget: null,
+  timeLimit: null,
+  assumptions: [],
+  openQuestions: [],
+  executionSteps: [],
+};
+
+const modelInput = {
+  outcomeLabel: "NPV ($k)",
+  formula: "revenue - cost",
+  alternatives: [
+    {
+      option: "Build",
+      variables: [
+        { name: "revenue", distribution: { type: "triangular", min: 80, mode: 120, max: 200 } },
+        { name: "cost", distribution: { type: "lognormal", mu: 4.5, sigma: 0.2 } },
+      ],
+    },
+    {
+      option: "Buy",
+      variables: [
+        { name: "revenue", distribution: { type: "beta", alpha: 2, beta: 3, min: 90, max: 150 } },
+        { name: "cost", distribution: { type: "uniform", min: 50, max: 70 } },
+      ],
+    },
+  ],
+  correlations: [{ first: "revenue", second: "cost", coefficient: 0.5 }],
+  trials: 1000,
+  seed: "route-seed",
+};
+
+const params = { params: Promise.resolve({ id: "decision-1" }) };
+
+function request(method: string, body: unknown) {
+  return new Request("http://localhost/api/decisions/decision-1/monte-carlo", {
+    method,
+    body: JSON.stringify(body),
+  });
+}
+
+describe("/api/decisions/:id/monte-carlo", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getDecisionWithLatestBrief.mockResolvedValue({ id: "decision-1", briefs: [{ briefJson }], monteCarloModel: null });
+    saveMonteCarloModel.mockImplementation(async (_id: string, model: unknown) => model);
+  });
+
+  it("returns an unsaved template over the brief's options", async () => {
+    const { GET } = await import("@/app/api/decisions/[id]/monte-carlo/route");
+    const response = await GET(new Request("http://localhost"), params);
+
+    expect(response.status).toBe(200);
+    const { model, result } = await response.json();
+    expect(model).toMatchObject({ formula: "benefit - cost", updatedAt: null });
+    expect(model.alternatives.map((entry: { option: string }) => entry.option)).toEqual(["Build", "Buy"]);
+    expect(result).toBeNull();
+  });
+
+  it("saves a model and returns its correlated run", async () => {
+    const { PUT } = await import("@/app/api/decisions/[id]/monte-carlo/route");
+    const response = await PUT(request("PUT", modelInput), params);
+
+    expect(response.status).toBe(200);
+    const { model, result } = await response.json();
+    expect(typeof model.updatedAt).toBe("string");
+    expect(result).toMatchObject({ trials: 1000, seed: "route-seed", correlationMode: "gaussian_copula" });
+    expect(result.alternatives.map((entry: { option: string }) => entry.option)).toEqual(["Build", "Buy"]);
+    expect(result.alternatives[1].viz.metadata.distribution).toBe("beta + uniform");
+    expect(saveMonteCarloModel).toHaveBeenCalledWith("decision-1", expect.objectContaining({ seed: "route-seed" }));
+  });
+
+  it("rejects unknown options and formulas that cannot run without saving", async () => {
+    const { PUT } = await import("@/app/api/decisions/[id]/monte-carlo/route");
+
+    const unknownOption = await PUT(
+      request("PUT", { ...modelInput, alternatives: [{ ...modelInput.alternatives[0], option: "Partner" }] }),
+      params,
+    );
+    expect(unknownOption.status).toBe(400);
+    expect((await unknownOption.json()).details).toEqual({ unknownOptions: ["Partner"] });
+
+    const badFormula = await PUT(request("PUT", { ...modelInput, formula: "revenue - cost * margin" }), params);
+    expect(badFormula.status).toBe(400);
+    expect(await badFormula.json()).toMatchObject({
+      error: "Build does not define margin.",
+      details: { issues: ["Build does not define margin.", "Buy does not define margin."] },
+    });
+
+    const badDistribution = await PUT(
+      request("PUT", {
+        ...modelInput,
+        alternatives: [
+          { option: "Build", variables: [{ name: "revenue", distribution: { type: "uniform", min: 5, max: 1 } }] },
+        ],
+      }),
+      params,
+    );
+    expect(badDistribution.status).toBe(400);
+
+    const tooManyDraws = await PUT(
+      request("PUT", {
+        ...modelInput,
+        trials: 20000,
+        alternatives: modelInput.alternatives.map((entry) => ({
+          ...entry,
+          variables: [
+            ...entry.variables,
+            ...Array.from({ length: 6 }, (_, index) => ({
+              name: `extra_${index}`,
+              distribution: { type: "normal", mean: 0, sd: 1 },
+            })),
+          ],
+        })),
+      }),
+      params,
+    );
+    expect(tooManyDraws.status).toBe(400);
+    expect((await tooManyDraws.json()).details.fieldErrors.trials[0]).toMatch(/must not exceed 250,000/);
+    expect(saveMonteCarloModel).not.toHaveBeenCalled();
+  });
+
+  it("reruns the saved model with another seed without saving", async () => {
+    getDecisionWithLatestBrief.mockResolvedValue({
+      id: "decision-1",
+      briefs: [{ briefJson }],
+      monteCarloModel: { ...modelInput, updatedAt: "2026-03-30T09:00:00.000Z" },
+    });
+
+    const { POST } = await import("@/app/api/decisions/[id]/monte-carlo/run/route");
+    const saved = await (await POST(request("POST", {}), params)).json();
+    const reseeded = await (await POST(request("POST", { seed: "another", trials: 2000 }), params)).json();
+
+    expect(saved.result.seed).toBe("route-seed");
+    expect(reseeded.result).toMatchObject({ seed: "another", trials: 2000 });
+    expect(reseeded.result.alternatives[0].mean).not.toBe(saved.result.alternatives[0].mean);
+    expect(reseeded.model.seed).toBe("route-seed");
+    expect(saveMonteCarloModel).not.toHaveBeenCalled();
+  });
+
+  it("refuses to rerun before a model is saved", async () => {
+    const { POST } = await import("@/app/api/decisions/[id]/monte-carlo/run/route");
+    const response = await POST(request("POST", {}), params);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("INVALID_STATE");
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  applyMonteCarloResult,
+  betaCdf,
+  compileFormula,
+  runMonteCarlo,
+  sampleDistribution,
+  validateMonteCarloModel,
+} from "@/lib/analysis/monte-carlo";
+import { validateFrameworkViz } from "@/lib/frameworks/visual-contracts";
+import type { FrameworkResult, MonteCarloModel } from "@/lib/types";
+
+function model(overrides: Partial<MonteCarloModel> = {}): MonteCarloModel {
+  return {
+    outcomeLabel: "NPV ($k)",
+    formula: "revenue - cost",
+    alternatives: [
+      {
+        option: "Build",
+        variables: [
+          { name: "revenue", distribution: { type: "triangular", min: 80, mode: 120, max: 200 } },
+          { name: "cost", distribution: { type: "normal", mean: 90, sd: 15 } },
+        ],
+      },
+      {
+        option: "Buy",
+        variables: [
+          { name: "revenue", distribution: { type: "uniform", min: 90, max: 130 } },
+          {
+            name: "cost",
+            distribution: {
+              type: "discrete",
+              outcomes: [
+                { value: 60, probability: 0.5 },
+                { value: 80, probability: 0.5 },
+              ],
+            },
+          },
+        ],
+      },
+    ],
+    correlations: [],
+    trials: 5000,
+    seed: "fixed-seed",
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+const frameworkResult: FrameworkResult = {
+  frameworkId: "monte_carlo_simulation",
+  frameworkName: "Monte Carlo Simulation",
+  applicabilityScore: 0.7,
+  confidence: 0.6,
+  insights: ["Theme-based estimate"],
+  actions: [],
+  risks: [],
+  assumptions: [],
+  themes: { risk: 0.5, urgency: 0.5, opportunity: 0.5, uncertainty: 0.5, resources: 0.5, stakeholderImpact: 0.5 },
+  vizPayload: { type: "histogram", title: "Monte Carlo Outcome Distribution", data: {} },
+  deepSupported: true,
+};
+
+describe("compileFormula", () => {
+  it("respects precedence, unary minus, right-associative powers and functions", () => {
+    const formula = compileFormula("-a ^ 2 + b * (c - 1) / 2 + max(a, 2 ^ 3 ^ 0) + log(exp(1))");
+
+    expect(formula.variables).toEqual(["a", "b", "c"]);
+    expect(formula.evaluate({ a: 3, b: 4, c: 2 })).toBeCloseTo(-9 + 2 + 3 + 1);
+  });
+
+  it("points at the offending token", () => {
+    expect(() => compileFormula("revenue - * cost")).toThrow(/unexpected "\*" at position 11/);
+    expect(() => compileFormula("npv(revenue)")).toThrow(/unknown function "npv"/);
+    expect(() => compileFormula("revenue $ cost")).toThrow(/unexpected character "\$"/);
+    expect(() => compileFormula("(revenue - cost")).toThrow(/expected "\)"/);
+  });
+});
+
+describe("sampleDistribution", () => {
+  it("inverts each CDF at the median score", () => {
+    expect(sampleDistribution({ type: "normal", mean: 10, sd: 2 }, 0)).toBe(10);
+    expect(sampleDistribution({ type: "lognormal", mu: Math.log(50), sigma: 0.4 }, 0)).toBeCloseTo(50);
+    expect(sampleDistribution({ type: "uniform", min: 0, max: 10 }, 0)).toBeCloseTo(5);
+    expect(sampleDistribution({ type: "triangular", min: 0, mode: 5, max: 10 }, 0)).toBeCloseTo(5);
+    expect(sampleDistribution({ type: "beta", alpha: 2, beta: 2, min: 0, max: 100 }, 0)).toBeCloseTo(50, 3);
+    expect(betaCdf(0.3, 2, 5)).toBeCloseTo(0.57983, 4);
+  });
+});
+
+describe("runMonteCarlo", () => {
+  it("reproduces a run from its seed and matches the analytic moments", () => {
+    const first = runMonteCarlo(model());
+    const second = runMonteCarlo(model());
+    const reseeded = runMonteCarlo(model(), { seed: "other-seed" });
+
+    expect(second).toEqual(first);
+    expect(reseeded.alternatives[0].mean).not.toBe(first.alternatives[0].mean);
+
+    const [build, buy] = first.alternatives;
+    // Triangular(80, 120, 200) has mean 133.3; cost has mean 90.
+    expect(build.mean).toBeCloseTo(43.3, 0);
+    // Uniform(90, 130) minus a fair coin between 60 and 80.
+    expect(buy.mean).toBeCloseTo(40, 0);
+    expect(build.p10).toBeLessThan(build.p50);
+    expect(build.p50).toBeLessThan(build.p90);
+    expect(build.winProbability + buy.winProbability).toBeCloseTo(1, 6);
+    expect(first.correlationMode).toBe("independent");
+
+    expect(build.viz.total).toBe(5000);
+    expect(build.viz.bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(5000);
+    expect(build.viz.metadata).toEqual({
+      trials: 5000,
+      distribution: "triangular + normal",
+      correlationMode: "independent",
+    });
+    expect(build.viz.outcome).toEqual({ label: "NPV ($k)", min: expect.any(Number), max: expect.any(Number) });
+    // Both options bin over the same outcome range so their histograms compare directly.
+    expect(buy.viz.outcome).toEqual(build.viz.outcome);
+  });
+
+  it("applies correlations through a Gaussian copula", () => {
+    const correlated = model({
+      formula: "revenue - cost",
+      alternatives: [
+        {
+          option: "Build",
+          variables: [
+            { name: "revenue", distribution: { type: "normal", mean: 100, sd: 10 } },
+            { name: "cost", distribution: { type: "normal", mean: 50, sd: 10 } },
+          ],
+        },
+      ],
+    });
+    const independent = runMonteCarlo(correlated).alternatives[0];
+    const positive = runMonteCarlo({
+      ...correlated,
+      correlations: [{ first: "revenue", second: "cost", coefficient: 0.8 }],
+    });
+
+    expect(positive.correlationMode).toBe("gaussian_copula");
+    // Var(R - C) = 2σ²(1 - ρ): √200 ≈ 14.1 when independent, √40 ≈ 6.3 at ρ = 0.8.
+    expect(independent.stdDev).toBeCloseTo(14.1, 0);
+    expect(positive.alternatives[0].stdDev).toBeCloseTo(6.3, 0);
+  });
+
+  it("rejects models that cannot run", () => {
+    const missing = model({ formula: "revenue - cost - tax" });
+    expect(validateMonteCarloModel(missing)).toEqual(["Build does not define tax.", "Buy does not define tax."]);
+    expect(() => runMonteCarlo(missing)).toThrow("Build does not define tax.");
+
+    const contradictory = model({
+      alternatives: [
+        {
+          option: "Build",
+          variables: [
+            { name: "a", distribution: { type: "normal", mean: 0, sd: 1 } },
+            { name: "b", distribution: { type: "normal", mean: 0, sd: 1 } },
+            { name: "c", distribution: { type: "normal", mean: 0, sd: 1 } },
+          ],
+        },
+      ],
+      formula: "a + b + c",
+      correlations: [
+        { first: "a", second: "b", coefficient: 0.9 },
+        { first: "b", second: "c", coefficient: 0.9 },
+        { first: "a", second: "c", coefficient: -0.9 },
+      ],
+    });
+    expect(validateMonteCarloModel(contradictory)[0]).toMatch(/positive definite/);
+
+    const divide = model({ formula: "revenue / (cost - cost)" });
+    expect(() => runMonteCarlo(divide)).toThrow(/non-finite value for Build/);
+  });
+
+  it("treats prototype property names as ordinary variables and functions as unknown", () => {
+    const renamed = model({
+      formula: "__proto__ - constructor",
+      alternatives: model().alternatives.map((entry) => ({
+        ...entry,
+        variables: entry.variables.map((variable) => ({
+          ...variable,
+          name: variable.name === "revenue" ? "__proto__" : "constructor",
+        })),
+      })),
+    });
+
+    expect(runMonteCarlo(renamed).alternatives.map((entry) => entry.mean)).toEqual(
+      runMonteCarlo(model()).alternatives.map((entry) => entry.mean),
+    );
+    expect(() => compileFormula("constructor(revenue)")).toThrow('unknown function "constructor"');
+  });
+
+  it("refuses runs beyond the draw limit, including trial overrides", () => {
+    // 4 variables across the two options: 62,500 trials is the most allowed.
+    expect(runMonteCarlo(model({ trials: 500 }), { trials: 62_500 }).trials).toBe(62_500);
+    expect(() => runMonteCarlo(model(), { trials: 62_501 })).toThrow(/250,000-draw limit/);
+  });
+});
+
+describe("applyMonteCarloResult", () => {
+  it("swaps the framework's approximation for a contract-valid simulated histogram", () => {
+    const result = runMonteCarlo(model());
+    const [applied] = applyMonteCarloResult([frameworkResult], result, "Buy");
+
+    expect(applied.vizPayload.title).toBe("Monte Carlo Outcome Distribution: Buy");
+    expect(applied.vizPayload.data).toEqual(result.alternatives[1].viz);
+    expect(applied.insights).toHaveLength(2);
+    expect(applied.insights[0]).toMatch(/^Build: median NPV \(\$k\)/);
+    expect(validateFrameworkViz("monte_carlo_simulation", applied.vizPayload)).toMatchObject({
+      ok: true,
+      canonical: true,
+      issues: [],
+    });
+  });
+});
@@ -26,6 +26,8 @@ describe("OllamaAdapter", () => {
         message: {
           content: "I think you should ask about options and constraints.",
         },
+        prompt_eval_count: 200,
+        eval_count: 40,
       })
       .mockResolvedValueOnce({
         message: {
@@ -35,6 +37,8 @@ describe("OllamaAdapter", () => {
             ],
           }),
         },
+        prompt_eval_count: 240,
+        eval_count: 60,
       });
 
     const { OllamaAdapter } = await import("@/lib/llm/ollama-adapter");
@@ -57,7 +61,8 @@ describe("OllamaAdapter", () => {
       temperature: 0.1,
     });
 
-    expect(result.questions).toHaveLength(1);
+    expect(result.data.questions).toHaveLength(1);
+    expect(result.usage).toMatchObject({ inputTokens: 440, outputTokens: 100 });
     expect(chatMock).toHaveBeenCalledTimes(2);
     expect(typeof chatMock.mock.calls[0][0].format).toBe("object");
   });
@@ -87,34 +92,75 @@ describe("OllamaAdapter", () => {
       schema,
     });
 
-    expect(result.questions[0].id).toBe("q1");
+    expect(result.data.questions[0].id).toBe("q1");
     expect(chatMock).toHaveBeenCalledTimes(1);
   });
 
-  it("throws MODEL_OUTPUT_INVALID after retry exhaustion", async () => {
+  it("throws MODEL_OUTPUT_INVALID after retry exhaustion with the tokens both passes spent", async () => {
     chatMock
       .mockResolvedValueOnce({
         message: {
           content: "not valid",
         },
+        prompt_eval_count: 120,
+        eval_count: 30,
       })
       .mockResolvedValueOnce({
         message: {
           content: "still not valid",
         },
+        prompt_eval_count: 150,
+        eval_count: 20,
       });
 
     const { OllamaAdapter } = await import("@/lib/llm/ollama-adapter");
+    const { usageFromError } = await import("@/lib/llm/usage");
     const adapter = new OllamaAdapter();
     const schema = z.object({ ok: z.boolean() });
 
-    await expect(
-      adapter.generateJson({
+    const error = await adapter
+      .generateJson({
         systemPrompt: "Return object",
         userPrompt: "Return object",
         schema,
-      }),
-    ).rejects.toMatchObject({ code: "MODEL_OUTPUT_INVALID" });
+      })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toMatchObject({ code: "MODEL_OUTPUT_INVALID" });
+    expect(usageFromError(error)).toMatchObject({ inputTokens: 270, outputTokens: 50 });
     expect(chatMock).toHaveBeenCalledTimes(2);
   });
+
+  it("streams partial JSON when the caller asks for it", async () => {
+    const chunks = ['{"title": "Launch', ' pilot", "steps": ["Plan"', ', "Ship"]}'];
+    chatMock.mockImplementationOnce(async (request: { stream: boolean }) => {
+      expect(request.stream).toBe(true);
+      return (async function* () {
+        for (const [index, content] of chunks.entries()) {
+          const done = index === chunks.length - 1;
+          yield { message: { content }, done, ...(done ? { prompt_eval_count: 120, eval_count: 30 } : {}) };
+        }
+      })();
+    });
+
+    const { OllamaAdapter } = await import("@/lib/llm/ollama-adapter");
+    const adapter = new OllamaAdapter();
+    const partials: unknown[] = [];
+
+    const result = await adapter.generateJson({
+      systemPrompt: "Return a plan",
+      userPrompt: "Plan JSON",
+      schema: z.object({ title: z.string(), steps: z.array(z.string()) }),
+      onPartial: (partial) => partials.push(partial),
+    });
+
+    expect(partials).toEqual([
+      { title: "Launch" },
+      { title: "Launch pilot", steps: ["Plan"] },
+      { title: "Launch pilot", steps: ["Plan", "Ship"] },
+    ]);
+    expect(result.data).toEqual({ title: "Launch pilot", steps: ["Plan", "Ship"] });
+    expect(result.usage).toMatchObject({ inputTokens: 120, outputTokens: 30 });
+  });
 });
+
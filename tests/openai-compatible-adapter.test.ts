@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+const fetchMock = vi.fn();
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function completion(content: string) {
+  return jsonResponse({
+    choices: [{ message: { content } }],
+    usage: { prompt_tokens: 150, completion_tokens: 20 },
+  });
+}
+
+describe("OpenAICompatibleAdapter", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    process.env.OPENAI_COMPAT_BASE_URL = "http://localhost:8000";
+    process.env.OPENAI_COMPAT_MODEL = "qwen-test";
+    process.env.OPENAI_COMPAT_API_KEY = "secret";
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.OPENAI_COMPAT_BASE_URL;
+    delete process.env.OPENAI_COMPAT_MODEL;
+    delete process.env.OPENAI_COMPAT_API_KEY;
+  });
+
+  it("sends a json_schema response format and retries once when first output is invalid", async () => {
+    fetchMock
+      .mockResolvedValueOnce(completion("Sure, here are some thoughts."))
+      .mockResolvedValueOnce(completion(JSON.stringify({ ok: true })));
+    const onAttempt = vi.fn();
+
+    const { OpenAICompatibleAdapter } = await import("@/lib/llm/openai-compatible-adapter");
+    const adapter = new OpenAICompatibleAdapter();
+
+    const result = await adapter.generateJson({
+      systemPrompt: "Return object",
+      userPrompt: "Return object",
+      schema: z.object({ ok: z.boolean() }),
+      onAttempt,
+    });
+
+    expect(result.data.ok).toBe(true);
+    expect(onAttempt.mock.calls.map(([attempt]) => attempt)).toMatchObject([
+      {
+        pass: 1,
+        rawText: "Sure, here are some thoughts.",
+        repairedJson: null,
+        validationError: "Failed to parse JSON from model response",
+      },
+      { pass: 2, repairedJson: { ok: true }, validationError: null },
+    ]);
+    expect(onAttempt.mock.calls[1][0].userPrompt).toContain("Validation/parse failure");
+    expect(result.usage).toMatchObject({ inputTokens: 300, outputTokens: 40 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body as string);
+    expect(url).toBe("http://localhost:8000/v1/chat/completions");
+    expect(init.headers.Authorization).toBe("Bearer secret");
+    expect(body.model).toBe("qwen-test");
+    expect(body.response_format.type).toBe("json_schema");
+    expect(body.response_format.json_schema.schema.type).toBe("object");
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string).temperature).toBe(0);
+  });
+
+  it("sends schemas with optional fields without strict mode", async () => {
+    fetchMock.mockResolvedValueOnce(completion(JSON.stringify({ summary: "Pilot first" })));
+
+    const { OpenAICompatibleAdapter } = await import("@/lib/llm/openai-compatible-adapter");
+    const adapter = new OpenAICompatibleAdapter();
+
+    const result = await adapter.generateJson({
+      systemPrompt: "Return object",
+      userPrompt: "Return object",
+      schema: z.object({ summary: z.string(), caveat: z.string().optional() }),
+    });
+
+    expect(result.data).toEqual({ summary: "Pilot first" });
+    const { json_schema: jsonSchema } = JSON.parse(fetchMock.mock.calls[0][1].body as string).response_format;
+    expect(jsonSchema.strict).toBe(false);
+    expect(jsonSchema.schema.required).toEqual(["summary"]);
+    expect(Object.keys(jsonSchema.schema.properties)).toEqual(["summary", "caveat"]);
+  });
+
+  it("throws MODEL_OUTPUT_INVALID after retry exhaustion", async () => {
+    fetchMock.mockResolvedValueOnce(completion("not valid")).mockResolvedValueOnce(completion("still not valid"));
+
+    const { OpenAICompatibleAdapter } = await import("@/lib/llm/openai-compatible-adapter");
+    const adapter = new OpenAICompatibleAdapter();
+
+    await expect(
+      adapter.generateJson({
+        systemPrompt: "Return object",
+        userPrompt: "Return object",
+        schema: z.object({ ok: z.boolean() }),
+      }),
+    ).rejects.toMatchObject({ code: "MODEL_OUTPUT_INVALID" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("maps HTTP errors to PROVIDER_UNAVAILABLE without retrying", async () => {
+    fetchMock.mockResolvedValueOnce(new Response("model not loaded", { status: 503 }));
+
+    const { OpenAICompatibleAdapter } = await import("@/lib/llm/openai-compatible-adapter");
+    const adapter = new OpenAICompatibleAdapter();
+
+    await expect(
+      adapter.generateJson({
+        systemPrompt: "Return object",
+        userPrompt: "Return object",
+        schema: z.object({ ok: z.boolean() }),
+      }),
+    ).rejects.toMatchObject({ code: "PROVIDER_UNAVAILABLE" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("is healthy only when /v1/models lists the configured model", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ data: [{ id: "qwen-test" }, { id: "other" }] }))
+      .mockResolvedValueOnce(jsonResponse({ data: [{ id: "other" }] }));
+
+    const { OpenAICompatibleAdapter } = await import("@/lib/llm/openai-compatible-adapter");
+    const adapter = new OpenAICompatibleAdapter();
+
+    await expect(adapter.isHealthy()).resolves.toBe(true);
+    await expect(adapter.isHealthy()).resolves.toBe(false);
+    expect(fetchMock.mock.calls[0][0]).toBe("http://localhost:8000/v1/models");
+  });
+});
@@ -0,0 +1,111 @@
+import path from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import {
+  compareEvaluationReports,
+  formatEvaluationReportMarkdown,
+  loadGoldenBriefs,
+  runPromptEvaluation,
+  type EvaluationReport,
+} from "@/lib/evaluation/harness";
+import { runTextChecks } from "@/lib/evaluation/text-checks";
+import { ReplayAdapter } from "@/lib/llm/replay-adapter";
+import type { DecisionBrief } from "@/lib/types";
+
+const brief: DecisionBrief = {
+  title: "Regional warehouse",
+  decisionStatement: "Choose how to add Midwest fulfilment capacity before peak season.",
+  context: "Orders in the Midwest grew 40% and two-day delivery compliance fell.",
+  alternatives: ["Lease a warehouse near Indianapolis", "Outsource to a third-party logistics provider"],
+  constraints: ["Capital budget under $6M", "Live before October peak season"],
+  deadline: "2026-10-01",
+  stakeholders: ["Operations", "Finance"],
+  successCriteria: ["95% two-day delivery"],
+  riskTolerance: "medium",
+  budget: "$6M",
+  timeLimit: "4 months",
+  assumptions: [],
+  openQuestions: [],
+  executionSteps: [],
+};
+
+describe("prompt evaluation harness", () => {
+  it("flags generic, duplicated output that ignores the brief", () => {
+    const checks = runTextChecks(
+      {
+        insights: [
+          "Leasing near Indianapolis keeps the capital budget under $6M.",
+          "Focus on what matters most.",
+          "Focus on what matters the most.",
+        ],
+        actions: ["Sign the lease before October peak season."],
+        risks: ["Things may not go as planned."],
+        assumptions: [],
+      },
+      brief,
+    );
+    const byId = Object.fromEntries(checks.map((check) => [check.id, check]));
+
+    expect(byId.specificity.score).toBe(0.4);
+    expect(byId.alternatives_coverage.score).toBe(0.5);
+    expect(byId.alternatives_coverage.detail).toContain("third-party logistics");
+    expect(byId.constraints_coverage.score).toBe(1);
+    expect(byId.duplicate_insights.score).toBeLessThan(1);
+  });
+
+  it("scores the golden briefs offline from canned responses", async () => {
+    const adapter = new ReplayAdapter({ name: "canned", model: "canned" }, path.resolve("evals/fixtures"));
+    const report = await runPromptEvaluation({
+      briefs: await loadGoldenBriefs(path.resolve("evals/golden-briefs")),
+      frameworkIds: ["swot_analysis", "pareto_principle", "consequences_model"],
+      targets: [{ provider: "canned", llm: { adapter, provider: "canned", model: "canned" } }],
+    });
+
+    expect(report.prompt).toEqual({ key: "framework_analysis", scope: "global", version: 0 });
+    expect(report.cases).toHaveLength(6);
+    expect(report.cases.filter((entry) => entry.status === "error")).toEqual([]);
+    expect(report.summary[0]).toMatchObject({ provider: "canned", cases: 6, errors: 0 });
+
+    const weak = report.cases.find((entry) => entry.caseId === "regional-warehouse:pareto_principle:canned");
+    const strong = report.cases.find((entry) => entry.caseId === "regional-warehouse:swot_analysis:canned");
+    expect(weak!.score).toBeLessThan(strong!.score);
+    expect(formatEvaluationReportMarkdown(report)).toContain("| canned | 6 | 0 |");
+  });
+
+  it("reports cases that regress against a baseline", () => {
+    const report = (scores: Record<string, number>): EvaluationReport => ({
+      reportVersion: 1,
+      rubricVersion: 1,
+      generatedAt: "2026-03-16T09:00:00.000Z",
+      prompt: { key: "framework_analysis", scope: "global", version: 0 },
+      briefIds: ["b"],
+      frameworkIds: ["swot_analysis"],
+      cases: Object.entries(scores).map(([caseId, score]) => ({
+        caseId,
+        briefId: "b",
+        frameworkId: "swot_analysis",
+        provider: "canned",
+        model: "canned",
+        status: "ok",
+        rubric: null,
+        textChecks: [],
+        score,
+        latencyMs: 0,
+      })),
+      summary: [],
+    });
+
+    const comparison = compareEvaluationReports(
+      report({ "b:swot_analysis:a": 0.9, "b:swot_analysis:b": 0.8, "b:swot_analysis:gone": 0.5 }),
+      report({ "b:swot_analysis:a": 0.7, "b:swot_analysis:b": 0.82 }),
+    );
+
+    expect(comparison.regressions).toEqual(["b:swot_analysis:a"]);
+    expect(comparison.meanDelta).toBe(-0.09);
+    expect(comparison.cases.find((entry) => entry.caseId === "b:swot_analysis:gone")).toMatchObject({
+      currentScore: null,
+      delta: null,
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const findManyTemplates = vi.fn();
+const findFirstTemplate = vi.fn();
+const createTemplate = vi.fn();
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    promptTemplateVersion: {
+      findMany: findManyTemplates,
+    },
+    $transaction: async (callback: (transaction: unknown) => unknown) =>
+      callback({
+        promptTemplateVersion: {
+          findFirst: findFirstTemplate,
+          create: createTemplate,
+        },
+      }),
+  },
+}));
+
+function templateRecord(overrides: Record<string, unknown>) {
+  return {
+    id: "tpl-1",
+    key: "framework_analysis",
+    scope: "global",
+    version: 1,
+    systemTemplate: "System v1",
+    userTemplate: "Analyze {{frameworkName}}",
+    status: "active",
+    weight: 100,
+    note: null,
+    createdAt: new Date("2026-03-14T09:00:00.000Z"),
+    updatedAt: new Date("2026-03-14T09:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+describe("prompt templates", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    findManyTemplates.mockReset();
+    findFirstTemplate.mockReset();
+    createTemplate.mockReset();
+  });
+
+  it("renders built-ins to the legacy prompts and rejects missing variables", async () => {
+    const { BUILTIN_PROMPT_TEMPLATES, renderPromptTemplate, unknownTemplateVariables } = await import(
+      "@/lib/prompts/templates"
+    );
+
+    const first = renderPromptTemplate(BUILTIN_PROMPT_TEMPLATES.clarification_questions, {
+      intake: "{}",
+      retryNote: "",
+    });
+    expect(first.userPrompt).toBe(
+      [
+        "Generate up to 6 clarification questions.",
+        "Each question must include: id, question, rationale.",
+        "Focus on concrete options, constraints, timeline, stakeholders, success criteria, risk, and resources.",
+        "Output JSON only; no prose.",
+        "Decision intake JSON: {}",
+      ].join("\n"),
+    );
+
+    expect(() =>
+      renderPromptTemplate({ systemTemplate: "Hi {{ name }}", userTemplate: "" }, {}),
+    ).toThrow('Prompt template variable "name" was not provided');
+    expect(
+      unknownTemplateVariables("decision_brief", {
+        systemTemplate: "{{intake}}",
+        userTemplate: "{{clarifications}} {{frameworkName}}",
+      }),
+    ).toEqual(["frameworkName"]);
+  });
+
+  it("prefers framework-scoped versions and assigns A/B variants by a stable key", async () => {
+    findManyTemplates.mockResolvedValue([
+      templateRecord({ id: "g1", scope: "global", version: 1 }),
+      templateRecord({ id: "s1", scope: "swot_analysis", version: 1, weight: 50, systemTemplate: "A" }),
+      templateRecord({ id: "s2", scope: "swot_analysis", version: 2, weight: 50, systemTemplate: "B" }),
+    ]);
+
+    const { resolvePromptTemplate } = await import("@/lib/prompts/store");
+    const scoped = await resolvePromptTemplate("framework_analysis", {
+      frameworkId: "swot_analysis",
+      assignmentKey: "run-1",
+    });
+    const again = await resolvePromptTemplate("framework_analysis", {
+      frameworkId: "swot_analysis",
+      assignmentKey: "run-1",
+    });
+
+    expect(scoped.ref.scope).toBe("swot_analysis");
+    expect(again.ref).toEqual(scoped.ref);
+    expect(scoped.systemTemplate).toBe(scoped.ref.version === 1 ? "A" : "B");
+
+    const versions = new Set<number>();
+    for (let index = 0; index < 40; index += 1) {
+      const resolved = await resolvePromptTemplate("framework_analysis", {
+        frameworkId: "swot_analysis",
+        assignmentKey: `run-${index}`,
+      });
+      versions.add(resolved.ref.version);
+    }
+    expect(versions).toEqual(new Set([1, 2]));
+
+    const global = await resolvePromptTemplate("framework_analysis", { frameworkId: "pareto_principle" });
+    expect(global.ref).toEqual({ key: "framework_analysis", scope: "global", version: 1 });
+  });
+
+  it("falls back to the built-in template when nothing is active or the store is unreadable", async () => {
+    findManyTemplates.mockResolvedValueOnce([]).mockRejectedValueOnce(new Error("no such table"));
+
+    const { resolvePromptTemplate } = await import("@/lib/prompts/store");
+    const { BUILTIN_PROMPT_TEMPLATES } = await import("@/lib/prompts/templates");
+
+    await expect(resolvePromptTemplate("decision_brief")).resolves.toMatchObject({
+      ref: { key: "decision_brief", scope: "global", version: 0 },
+      userTemplate: BUILTIN_PROMPT_TEMPLATES.decision_brief.userTemplate,
+    });
+    await expect(resolvePromptTemplate("decision_brief")).resolves.toMatchObject({
+      ref: { version: 0 },
+    });
+  });
+
+  it("creates the next version through the admin API and rejects unknown variables", async () => {
+    findFirstTemplate.mockResolvedValue({ version: 2 });
+    createTemplate.mockImplementation(async ({ data }) => templateRecord({ id: "tpl-3", ...data }));
+
+    const { POST } = await import("@/app/api/prompt-templates/route");
+    const post = (body: unknown) =>
+      POST(
+        new Request("http://localhost/api/prompt-templates", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }),
+      );
+
+    const response = await post({
+      key: "framework_analysis",
+      scope: "swot_analysis",
+      systemTemplate: "Be terse.",
+      userTemplate: "Framework: {{frameworkName}}. Brief: {{briefCompact}}",
+      status: "active",
+      weight: 20,
+    });
+    expect(response.status).toBe(201);
+    await expect(response.json()).resolves.toMatchObject({
+      id: "tpl-3",
+      scope: "swot_analysis",
+      version: 3,
+      status: "active",
+      weight: 20,
+    });
+
+    const unknown = await post({
+      key: "decision_brief",
+      systemTemplate: "Brief for {{decisionOwner}}",
+      userTemplate: "{{intake}}",
+    });
+    expect(unknown.status).toBe(400);
+    await expect(unknown.json()).resolves.toMatchObject({
+      details: { unknownVariables: ["decisionOwner"] },
+    });
+
+    const misScoped = await post({
+      key: "decision_brief",
+      scope: "swot_analysis",
+      systemTemplate: "x",
+      userTemplate: "{{intake}}",
+    });
+    expect(misScoped.status).toBe(400);
+    expect(createTemplate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = "2";
+  process.env.LLM_CIRCUIT_COOLDOWN_MS = "5000";
+});
+
+import { AdaptiveConcurrencyLimiter } from "@/lib/analysis/concurrency";
+import { ModelOutputInvalidError, ModelTimeoutError, ProviderUnavailableError } from "@/lib/errors";
+import {
+  acquireProviderCall,
+  callWithCircuitBreaker,
+  getProviderHealth,
+  isCircuitOpen,
+  isRateLimitError,
+  recordProviderFailure,
+  recordProviderSuccess,
+  resetProviderHealth,
+} from "@/lib/llm/health";
+
+describe("provider circuit breaker", () => {
+  beforeEach(() => {
+    resetProviderHealth();
+  });
+
+  it("opens after consecutive failures and fails fast until the cooldown passes", async () => {
+    const timeout = vi.fn(async () => {
+      throw new ModelTimeoutError("Ollama timed out");
+    });
+
+    await expect(callWithCircuitBreaker("ollama", timeout)).rejects.toBeInstanceOf(ModelTimeoutError);
+    expect(getProviderHealth("ollama").state).toBe("closed");
+    await expect(callWithCircuitBreaker("ollama", timeout)).rejects.toBeInstanceOf(ModelTimeoutError);
+    expect(getProviderHealth("ollama")).toMatchObject({
+      state: "open",
+      consecutiveFailures: 2,
+      lastFailure: "Ollama timed out",
+    });
+    expect(isCircuitOpen("ollama")).toBe(true);
+
+    await expect(callWithCircuitBreaker("ollama", timeout)).rejects.toMatchObject({
+      name: "CircuitOpenError",
+      code: "PROVIDER_UNAVAILABLE",
+    });
+    expect(timeout).toHaveBeenCalledTimes(2);
+    expect(isCircuitOpen("anthropic")).toBe(false);
+  });
+
+  it("lets one half-open probe through and closes or re-opens on its outcome", async () => {
+    const failure = new ProviderUnavailableError("down");
+
+    recordProviderFailure("ollama", failure, 1000);
+    recordProviderFailure("ollama", failure, 1000);
+    expect(acquireProviderCall("ollama", 5999)).toBe(false);
+
+    expect(acquireProviderCall("ollama", 6000)).toBe(true);
+    expect(getProviderHealth("ollama").state).toBe("half_open");
+    expect(acquireProviderCall("ollama", 6001)).toBe(false);
+
+    recordProviderFailure("ollama", failure, 6500);
+    expect(getProviderHealth("ollama").state).toBe("open");
+    expect(acquireProviderCall("ollama", 11_000)).toBe(false);
+
+    expect(acquireProviderCall("ollama", 11_500)).toBe(true);
+    recordProviderSuccess("ollama");
+    expect(getProviderHealth("ollama")).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+  });
+
+  it("treats invalid model output as a live provider", async () => {
+
+    await expect(
+      callWithCircuitBreaker("ollama", async () => {
+        throw new ModelTimeoutError();
+      }),
+    ).rejects.toThrow();
+    await expect(
+      callWithCircuitBreaker("ollama", async () => {
+        throw new ModelOutputInvalidError();
+      }),
+    ).rejects.toThrow();
+
+    expect(getProviderHealth("ollama").consecutiveFailures).toBe(0);
+    expect(
+      isRateLimitError(new ProviderUnavailableError("rejected", { status: 429, reason: "HTTP 429: slow down" })),
+    ).toBe(true);
+    expect(isRateLimitError(new ModelTimeoutError())).toBe(false);
+  });
+});
+
+describe("adaptive concurrency limiter", () => {
+  it("halves on errors, drops to one on rate limits and recovers additively", async () => {
+    const limiter = new AdaptiveConcurrencyLimiter(4);
+
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    let fifthStarted = false;
+    const fifth = limiter.acquire().then(() => {
+      fifthStarted = true;
+    });
+
+    limiter.release("error");
+    expect(limiter.limit).toBe(2);
+    await Promise.resolve();
+    expect(fifthStarted).toBe(false);
+
+    limiter.release("success");
+    limiter.release("success");
+    await fifth;
+    expect(fifthStarted).toBe(true);
+    expect(limiter.limit).toBe(3);
+
+    limiter.release("rate_limited");
+    expect(limiter.limit).toBe(1);
+    limiter.release("success");
+    expect(limiter.limit).toBe(2);
+  });
+});
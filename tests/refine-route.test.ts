@@ -88,4 +88,71 @@ describe("POST /api/decisions/:id/refine", () => {
       { id: "q_3", answer: "A3" },
     ]);
   });
+
+  it("streams the partially written brief, then the saved result", async () => {
+    saveClarificationAnswers.mockResolvedValue({
+      qaPairs: [{ question: "Q1", answer: "A1" }],
+      unmatchedIds: [],
+      generationId: "gen:1",
+    });
+    const decisionBrief = { title: "Decision", decisionStatement: "Launch the pilot this quarter." };
+    generateDecisionBrief.mockImplementation(
+      async (
+        _input: unknown,
+        _qaPairs: unknown,
+        _preference: unknown,
+        _decisionId: unknown,
+        onPartial: (brief: unknown, provider: string) => void,
+      ) => {
+        onPartial({ title: "Deci" }, "ollama");
+        onPartial({ title: "Decision" }, "ollama");
+        return { decisionBrief, provider: "ollama", model: "llama3.2", fallback: false };
+      },
+    );
+    scoreDecisionBriefQuality.mockReturnValue(0.78);
+
+    const { POST } = await import("@/app/api/decisions/[id]/refine/stream/route");
+    const response = await POST(
+      new Request("http://localhost/api/decisions/decision-1/refine/stream", {
+        method: "POST",
+        body: JSON.stringify({ answers: [{ id: "q_1", answer: "A1" }] }),
+      }),
+      { params: Promise.resolve({ id: "decision-1" }) },
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    const events = (await response.text())
+      .trim()
+      .split("\n\n")
+      .map((frame) => JSON.parse(frame.split("\n")[1].slice("data: ".length)));
+    expect(events.map((event) => event.type)).toEqual(["partial", "partial", "complete"]);
+    expect(events[1]).toMatchObject({ brief: { title: "Decision" }, provider: "ollama" });
+    expect(events[2]).toMatchObject({ decisionBrief, qualityScore: 0.78, status: "brief_ready" });
+    expect(saveDecisionBrief).toHaveBeenCalledWith("decision-1", decisionBrief, 0.78);
+  });
+
+  it("ends the brief stream with an error event when generation fails", async () => {
+    saveClarificationAnswers.mockResolvedValue({
+      qaPairs: [{ question: "Q1", answer: "A1" }],
+      unmatchedIds: [],
+      generationId: "gen:1",
+    });
+    const { ModelTimeoutError } = await import("@/lib/errors");
+    generateDecisionBrief.mockRejectedValue(new ModelTimeoutError("Ollama response timed out"));
+
+    const { POST } = await import("@/app/api/decisions/[id]/refine/stream/route");
+    const response = await POST(
+      new Request("http://localhost/api/decisions/decision-1/refine/stream", {
+        method: "POST",
+        body: JSON.stringify({ answers: [{ id: "q_1", answer: "A1" }] }),
+      }),
+      { params: Promise.resolve({ id: "decision-1" }) },
+    );
+
+    await expect(response.text()).resolves.toContain(
+      '"type":"error","error":"Ollama response timed out","code":"MODEL_TIMEOUT"',
+    );
+    expect(saveDecisionBrief).not.toHaveBeenCalled();
+  });
 });
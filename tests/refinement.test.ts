@@ -1,18 +1,33 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import { ModelOutputInvalidError } from "@/lib/errors";
-import { resolveLLM } from "@/lib/llm/router";
+import { getFailoverChain, resolveLLM } from "@/lib/llm/router";
 import {
   generateClarificationQuestions,
   generateDecisionBrief,
   scoreDecisionBriefQuality,
   suggestClarificationAnswers,
+  suggestCriterionRatings,
 } from "@/lib/refinement";
-import type { ClarificationQuestion, CreateDecisionInput } from "@/lib/types";
+import type { ClarificationQuestion, CreateDecisionInput, DecisionBrief, DecisionCriterion } from "@/lib/types";
 
 const generateJson = vi.fn();
+const { createLlmCall } = vi.hoisted(() => ({ createLlmCall: vi.fn() }));
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    llmCallRecord: {
+      create: createLlmCall,
+    },
+  },
+}));
+
+function llmResult<T>(data: T) {
+  return { data, usage: { inputTokens: 100, outputTokens: 50, latencyMs: 5 } };
+}
 
 vi.mock("@/lib/llm/router", () => ({
+  getFailoverChain: vi.fn(() => []),
   resolveLLM: vi.fn(async () => ({
     provider: "hosted",
     model: "claude-test",
@@ -36,7 +51,9 @@ const input: CreateDecisionInput = {
 describe("refinement flow", () => {
   beforeEach(() => {
     generateJson.mockReset();
+    createLlmCall.mockReset().mockResolvedValue({});
     vi.mocked(resolveLLM).mockReset();
+    vi.mocked(getFailoverChain).mockReset().mockReturnValue([]);
     vi.mocked(resolveLLM).mockImplementation(async () => ({
       provider: "hosted",
       model: "claude-test",
@@ -50,13 +67,13 @@ describe("refinement flow", () => {
   });
 
   it("generates clarification questions", async () => {
-    generateJson.mockResolvedValue({
+    generateJson.mockResolvedValue(llmResult({
       questions: [
         { question: "What options are viable?" },
         { id: "constraints", question: "What constraints are hard?" },
         { question: "What KPI defines success?" },
       ],
-    });
+    }));
 
     const result = await generateClarificationQuestions(input, "auto");
 
@@ -103,33 +120,40 @@ describe("refinement flow", () => {
     expect(result.questions.length).toBeGreaterThanOrEqual(3);
   });
 
-  it("fails over from local to hosted in auto mode before heuristic fallback", async () => {
+  it("walks the failover chain in auto mode before heuristic fallback", async () => {
     const localGenerate = vi
       .fn()
       .mockRejectedValue(new ModelOutputInvalidError("Malformed local output"));
-    const hostedGenerate = vi.fn().mockResolvedValue({
+    const hostedGenerate = vi.fn().mockResolvedValue(llmResult({
       questions: [
         { id: "q1", question: "What options are viable?", rationale: "Need options." },
         { id: "q2", question: "What constraints apply?", rationale: "Need constraints." },
         { id: "q3", question: "How will success be measured?", rationale: "Need KPIs." },
       ],
-    });
-    vi.mocked(resolveLLM).mockImplementation(async (preference) => {
-      if (preference === "auto" || preference === "local") {
-        return {
-          provider: "local",
-          model: "llama3.2",
-          adapter: {
-            name: "ollama",
-            model: "llama3.2",
-            isHealthy: async () => true,
-            generateJson: localGenerate,
-          },
-        };
-      }
-
-      return {
-        provider: "hosted",
+    }));
+    vi.mocked(resolveLLM).mockImplementation(async () => ({
+      provider: "ollama",
+      model: "llama3.2",
+      adapter: {
+        name: "ollama",
+        model: "llama3.2",
+        isHealthy: async () => true,
+        generateJson: localGenerate,
+      },
+    }));
+    vi.mocked(getFailoverChain).mockReturnValue([
+      {
+        provider: "openai-compatible",
+        model: "vllm-test",
+        adapter: {
+          name: "openai-compatible",
+          model: "vllm-test",
+          isHealthy: async () => false,
+          generateJson: vi.fn(),
+        },
+      },
+      {
+        provider: "anthropic",
         model: "claude-test",
         adapter: {
           name: "anthropic",
@@ -137,19 +161,44 @@ describe("refinement flow", () => {
           isHealthy: async () => true,
           generateJson: hostedGenerate,
         },
-      };
-    });
+      },
+    ]);
 
     const result = await generateClarificationQuestions(input, "auto");
 
     expect(result.fallback).toBe(false);
-    expect(result.provider).toBe("hosted");
+    expect(getFailoverChain).toHaveBeenCalledWith("ollama");
+    expect(result.provider).toBe("anthropic");
     expect(result.questions.length).toBeGreaterThanOrEqual(3);
     expect(hostedGenerate).toHaveBeenCalled();
   });
 
+  it("records refinement usage against the decision when one is given", async () => {
+    generateJson.mockResolvedValue(llmResult({
+      questions: [
+        { id: "q1", question: "What options are viable?", rationale: "Need options." },
+        { id: "q2", question: "What constraints apply?", rationale: "Need constraints." },
+        { id: "q3", question: "How will success be measured?", rationale: "Need KPIs." },
+      ],
+    }));
+
+    await generateClarificationQuestions(input, "auto");
+    expect(createLlmCall).not.toHaveBeenCalled();
+
+    await generateClarificationQuestions(input, "auto", "decision-1");
+    expect(createLlmCall).toHaveBeenCalledTimes(1);
+    expect(createLlmCall.mock.calls[0][0].data).toMatchObject({
+      decisionId: "decision-1",
+      runId: null,
+      operation: "clarification_questions",
+      provider: "hosted",
+      inputTokens: 100,
+      outputTokens: 50,
+    });
+  });
+
   it("builds a decision brief and quality score", async () => {
-    generateJson.mockResolvedValue({
+    generateJson.mockResolvedValue(llmResult({
       title: "Lakehouse migration decision",
       decisionStatement:
         "Decide whether to migrate analytics stack to a lakehouse architecture in two quarters.",
@@ -165,7 +214,7 @@ describe("refinement flow", () => {
       assumptions: ["Data quality is sufficient", "Team capacity remains stable"],
       openQuestions: ["Which domain migrates first?"],
       executionSteps: ["Define scope", "Run pilot", "Scale rollout"],
-    });
+    }));
 
     const briefResult = await generateDecisionBrief(
       input,
@@ -202,11 +251,11 @@ describe("refinement flow", () => {
       },
     ];
 
-    generateJson.mockResolvedValue([
+    generateJson.mockResolvedValue(llmResult([
       { id: "alternatives", answer: "Evaluate phased pilot, full rollout, and delayed launch with KPI gates." },
       { id: "constraints", answer: "Maintain zero downtime, preserve compliance posture, and cap budget exposure." },
       { id: "success", answer: "Track cost reduction and latency improvement versus baseline targets." },
-    ]);
+    ]));
 
     const suggestionResult = await suggestClarificationAnswers(input, questions, "auto");
 
@@ -244,4 +293,48 @@ describe("refinement flow", () => {
     expect(suggestionResult.suggestions).toHaveLength(3);
     expect(suggestionResult.suggestions.every((item) => item.answer.trim().length > 0)).toBe(true);
   });
+
+  it("keeps known criterion ratings and snaps hard constraints to pass or fail", async () => {
+    const brief = { title: "Lakehouse migration decision" } as DecisionBrief;
+    const criteria: DecisionCriterion[] = [
+      { id: "success_1", label: "Cut query costs by 25%", source: "success_criterion", weight: 2, hard: false },
+      { id: "constraint_1", label: "No reporting downtime", source: "constraint", weight: 1, hard: true },
+    ];
+    generateJson.mockResolvedValue(
+      llmResult({
+        ratings: [
+          { option: "Migrate now", criterionId: "success_1", score: 8.26, rationale: "Fastest savings." },
+          { option: "Migrate now", criterionId: "constraint_1", score: 3 },
+          { option: "Migrate now", criterionId: "success_1", score: 2 },
+          { option: "Phased migration", criterionId: "constraint_1", score: 7 },
+          { option: "Delay migration", criterionId: "success_1", score: 4 },
+          { option: "Migrate now", criterionId: "unknown", score: 5 },
+        ],
+      }),
+    );
+
+    const result = await suggestCriterionRatings(brief, ["Migrate now", "Phased migration"], criteria, "auto");
+
+    expect(result.fallback).toBe(false);
+    expect(result.ratings).toEqual([
+      { option: "Migrate now", criterionId: "success_1", score: 8.3, rationale: "Fastest savings." },
+      { option: "Migrate now", criterionId: "constraint_1", score: 0 },
+      { option: "Phased migration", criterionId: "constraint_1", score: 10 },
+    ]);
+  });
+
+  it("returns no criterion ratings when the model output is unusable", async () => {
+    generateJson.mockResolvedValue(
+      llmResult({ ratings: [{ option: "Unlisted option", criterionId: "success_1", score: 6 }] }),
+    );
+
+    const result = await suggestCriterionRatings(
+      { title: "Lakehouse migration decision" } as DecisionBrief,
+      ["Migrate now", "Phased migration"],
+      [{ id: "success_1", label: "Cut query costs", source: "success_criterion", weight: 1, hard: false }],
+      "auto",
+    );
+
+    expect(result).toMatchObject({ ratings: [], fallback: true, provider: "heuristic_recovery" });
+  });
 });
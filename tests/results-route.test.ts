@@ -1,41 +1,57 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
+import { runMonteCarlo } from "@/lib/analysis/monte-carlo";
+
 const getDecisionWithLatestBrief = vi.fn();
 const getLatestCompleteRun = vi.fn();
+const findManyLlmCalls = vi.fn();
+const simulateStoredMonteCarloModel = vi.fn();
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    llmCallRecord: {
+      findMany: findManyLlmCalls,
+    },
+  },
+}));
 
 vi.mock("@/lib/decisions", () => ({
   getDecisionWithLatestBrief,
   getLatestCompleteRun,
+  parseScoringInputs: (decision: { decisionMatrix?: unknown }) => ({
+    matrix: decision.decisionMatrix ?? null,
+    ahp: null,
+  }),
+  simulateStoredMonteCarloModel,
 }));
 
+const briefJson = {
+  title: "Decision",
+  decisionStatement: "Decision statement long enough for schema validation.",
+  context: "Context long enough for schema validation requirements.",
+  alternatives: ["Option A", "Option B"],
+  constraints: ["Constraint"],
+  deadline: null,
+  stakeholders: ["Ops"],
+  successCriteria: ["KPI"],
+  riskTolerance: "medium",
+  budget: null,
+  timeLimit: null,
+  assumptions: ["Assumption 1", "Assumption 2"],
+  openQuestions: ["Question"],
+  executionSteps: ["Step 1", "Step 2", "Step 3"],
+};
+
 describe("GET /api/decisions/:id/results", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    simulateStoredMonteCarloModel.mockReturnValue(null);
   });
 
   it("returns synthesis warnings and per-framework generation metadata", async () => {
     getDecisionWithLatestBrief.mockResolvedValue({
       id: "decision-1",
-      briefs: [
-        {
-          briefJson: {
-            title: "Decision",
-            decisionStatement: "Decision statement long enough for schema validation.",
-            context: "Context long enough for schema validation requirements.",
-            alternatives: ["Option A", "Option B"],
-            constraints: ["Constraint"],
-            deadline: null,
-            stakeholders: ["Ops"],
-            successCriteria: ["KPI"],
-            riskTolerance: "medium",
-            budget: null,
-            timeLimit: null,
-            assumptions: ["Assumption 1", "Assumption 2"],
-            openQuestions: ["Question"],
-            executionSteps: ["Step 1", "Step 2", "Step 3"],
-          },
-        },
-      ],
+      briefs: [{ briefJson }],
     });
 
     getLatestCompleteRun.mockResolvedValue({
@@ -95,6 +111,13 @@ describe("GET /api/decisions/:id/results", () => {
       ],
     });
 
+    findManyLlmCalls.mockResolvedValue([
+      { runId: null, inputTokens: 900, outputTokens: 300, latencyMs: 4000, costUsd: 0.0072 },
+      { runId: "run-1", inputTokens: 1500, outputTokens: 400, latencyMs: 6000, costUsd: 0.0105 },
+      { runId: "run-1", inputTokens: 1200, outputTokens: 350, latencyMs: 5000, costUsd: null },
+      { runId: "run-0", inputTokens: 1000, outputTokens: 200, latencyMs: 3000, costUsd: 0.006 },
+    ]);
+
     const { GET } = await import("@/app/api/decisions/[id]/results/route");
     const response = await GET(new Request("http://localhost"), {
       params: Promise.resolve({ id: "decision-1" }),
@@ -104,5 +127,149 @@ describe("GET /api/decisions/:id/results", () => {
     const body = await response.json();
     expect(body.synthesis.warnings).toHaveLength(1);
     expect(body.frameworkResults[0].generation.mode).toBe("fallback");
+    expect(body.sensitivity).toMatchObject({ method: "heuristic" });
+    expect(body.sensitivity.factors.length).toBeGreaterThan(0);
+    expect(body.whatIfModel).toMatchObject({ method: "heuristic", riskTolerance: "medium" });
+    expect(findManyLlmCalls.mock.calls[0][0].where).toEqual({ decisionId: "decision-1" });
+    expect(body.usage.run).toEqual({
+      calls: 2,
+      inputTokens: 2700,
+      outputTokens: 750,
+      latencyMs: 11000,
+      costUsd: 0.0105,
+      unpricedCalls: 1,
+    });
+    expect(body.usage.decision).toMatchObject({ calls: 4, costUsd: 0.0237, unpricedCalls: 1 });
+  });
+
+  it("re-scores the recommendation against the saved decision matrix", async () => {
+    getDecisionWithLatestBrief.mockResolvedValue({
+      id: "decision-1",
+      briefs: [{ briefJson }],
+      decisionMatrix: {
+        options: ["Option A", "Option B"],
+        criteria: [
+          { id: "success_1", label: "KPI", source: "success_criterion", weight: 1, hard: false },
+          { id: "constraint_1", label: "Constraint", source: "constraint", weight: 1, hard: true },
+        ],
+        ratings: [
+          { option: "Option A", criterionId: "success_1", score: 9 },
+          { option: "Option A", criterionId: "constraint_1", score: 0 },
+          { option: "Option B", criterionId: "success_1", score: 6 },
+        ],
+        updatedAt: "2026-03-24T09:00:00.000Z",
+      },
+    });
+    getLatestCompleteRun.mockResolvedValue({
+      id: "run-1",
+      provider: "local",
+      model: "ollama-test",
+      propagatedMap: { nodes: [], edges: [], clusters: [], consensus: [], conflicts: [] },
+      synthesis: {
+        topFrameworks: [],
+        contradictions: [],
+        recommendedActions: ["Run a pilot"],
+        checkpoints: [],
+        decisionRecommendation: {
+          recommendedOption: "Option A",
+          confidence: 0.6,
+          rationale: "Heuristic fit.",
+          tradeoffs: [],
+          nextActions: [],
+          optionScores: [{ option: "Option A", score: 0.6, confidence: 0.6, rationale: "Heuristic fit." }],
+        },
+      },
+      frameworkResults: [],
+    });
+    findManyLlmCalls.mockResolvedValue([]);
+
+    const { GET } = await import("@/app/api/decisions/[id]/results/route");
+    const response = await GET(new Request("http://localhost"), {
+      params: Promise.resolve({ id: "decision-1" }),
+    });
+
+    expect(response.status).toBe(200);
+    const { synthesis, sensitivity } = await response.json();
+    expect(synthesis.decisionRecommendation).toMatchObject({
+      recommendedOption: "Option B",
+      method: "weighted_criteria",
+      nextActions: ["Run a pilot"],
+    });
+    expect(synthesis.decisionRecommendation.optionScores[1]).toMatchObject({
+      option: "Option A",
+      score: 0,
+      eliminatedBy: ["Constraint"],
+    });
+    // Only Option B is viable, so there is nothing to flip to.
+    expect(sensitivity).toBeNull();
+  });
+
+  it("replaces the Monte Carlo framework's approximation with the saved simulation", async () => {
+    const monteCarloModel = {
+      outcomeLabel: "Net value",
+      formula: "benefit - cost",
+      alternatives: ["Option A", "Option B"].map((option, index) => ({
+        option,
+        variables: [
+          { name: "benefit", distribution: { type: "uniform" as const, min: 80 + index * 20, max: 120 + index * 20 } },
+          { name: "cost", distribution: { type: "normal" as const, mean: 60, sd: 5 } },
+        ],
+      })),
+      correlations: [],
+      trials: 1000,
+      seed: "results-test",
+      updatedAt: "2026-03-30T09:00:00.000Z",
+    };
+    const simulation = runMonteCarlo(monteCarloModel);
+    simulateStoredMonteCarloModel.mockReturnValue(simulation);
+    getDecisionWithLatestBrief.mockResolvedValue({ id: "decision-1", briefs: [{ briefJson }], monteCarloModel });
+    getLatestCompleteRun.mockResolvedValue({
+      id: "run-1",
+      provider: "local",
+      model: "ollama-test",
+      propagatedMap: { nodes: [], edges: [], clusters: [], consensus: [], conflicts: [] },
+      synthesis: { topFrameworks: [], contradictions: [], recommendedActions: [], checkpoints: [] },
+      frameworkResults: [
+        {
+          resultJson: {
+            frameworkId: "monte_carlo_simulation",
+            frameworkName: "Monte Carlo Simulation",
+            applicabilityScore: 0.7,
+            confidence: 0.6,
+            insights: ["Theme-based estimate"],
+            actions: ["Plan for the bottom 10% scenario"],
+            risks: ["Assumption quality"],
+            assumptions: ["Inputs are independent"],
+            themes: {
+              risk: 0.5,
+              urgency: 0.5,
+              opportunity: 0.5,
+              uncertainty: 0.5,
+              resources: 0.5,
+              stakeholderImpact: 0.5,
+            },
+            vizPayload: { type: "histogram", title: "Monte Carlo Outcome Distribution", data: {} },
+            deepSupported: true,
+          },
+        },
+      ],
+    });
+    findManyLlmCalls.mockResolvedValue([]);
+
+    const { GET } = await import("@/app/api/decisions/[id]/results/route");
+    const response = await GET(new Request("http://localhost"), {
+      params: Promise.resolve({ id: "decision-1" }),
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(simulateStoredMonteCarloModel).toHaveBeenCalledWith(monteCarloModel, ["Option A", "Option B"]);
+    expect(body.monteCarlo).toEqual(simulation);
+    // Without a stored recommendation the histogram shows the option with the best median.
+    expect(body.frameworkResults[0].vizPayload).toMatchObject({
+      title: "Monte Carlo Outcome Distribution: Option B",
+      data: simulation.alternatives[1].viz,
+    });
+    expect(body.frameworkResults[0].insights[0]).toMatch(/^Option A: median Net value/);
   });
 });
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FrameworkId, FrameworkResult, PropagatedMapEdge } from "@/lib/types";
+
+const findFirstRunMock = vi.fn();
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    analysisRun: {
+      findFirst: (...args: unknown[]) => findFirstRunMock(...args),
+    },
+  },
+}));
+
+function result(frameworkId: FrameworkId, applicabilityScore: number, confidence: number) {
+  return {
+    frameworkId,
+    frameworkName: frameworkId,
+    applicabilityScore,
+    confidence,
+  } as FrameworkResult;
+}
+
+function edge(
+  source: FrameworkId,
+  target: FrameworkId,
+  relationType: PropagatedMapEdge["relationType"],
+): PropagatedMapEdge {
+  return { source, target, relationType, weight: 0.5, rationale: "shared themes" };
+}
+
+function recommendation(option: string, confidence: number) {
+  return {
+    topFrameworks: [],
+    contradictions: [],
+    recommendedActions: [],
+    checkpoints: [],
+    decisionRecommendation: {
+      recommendedOption: option,
+      confidence,
+      rationale: "",
+      tradeoffs: [],
+      nextActions: [],
+      optionScores: [],
+    },
+  };
+}
+
+describe("run comparison", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    findFirstRunMock.mockReset();
+  });
+
+  it("diffs framework scores, recommended option and map edges", async () => {
+    const { compareRuns } = await import("@/lib/analysis/run-comparison");
+
+    const comparison = compareRuns(
+      "decision-1",
+      {
+        runId: "run-a",
+        frameworkResults: [result("swot_analysis", 0.6, 0.7), result("bcg_matrix", 0.5, 0.5)],
+        propagatedMap: {
+          nodes: [],
+          clusters: [],
+          conflicts: [],
+          consensus: [],
+          edges: [edge("swot_analysis", "bcg_matrix", "consensus")],
+        },
+        synthesis: recommendation("Pilot", 0.6),
+      },
+      {
+        runId: "run-b",
+        frameworkResults: [result("swot_analysis", 0.8, 0.65), result("pareto_principle", 0.7, 0.7)],
+        propagatedMap: {
+          nodes: [],
+          clusters: [],
+          conflicts: [],
+          consensus: [],
+          edges: [edge("pareto_principle", "swot_analysis", "conflict")],
+        },
+        synthesis: recommendation("Delay", 0.7),
+      },
+    );
+
+    expect(comparison.frameworkDeltas[0]).toMatchObject({
+      frameworkId: "swot_analysis",
+      applicabilityDelta: 0.2,
+      confidenceDelta: -0.05,
+    });
+    expect(comparison.frameworkDeltas.slice(1).map((entry) => entry.frameworkId).sort()).toEqual([
+      "bcg_matrix",
+      "pareto_principle",
+    ]);
+    expect(comparison.frameworkDeltas.find((entry) => entry.frameworkId === "bcg_matrix")?.target).toBeNull();
+    expect(comparison.recommendation).toEqual({
+      base: "Pilot",
+      target: "Delay",
+      changed: true,
+      confidenceDelta: 0.1,
+    });
+    expect(comparison.edgesAdded).toHaveLength(1);
+    expect(comparison.edgesAdded[0].relationType).toBe("conflict");
+    expect(comparison.edgesRemoved).toHaveLength(1);
+    expect(comparison.edgesRemoved[0].relationType).toBe("consensus");
+  });
+
+  it("rejects comparing runs that are not complete", async () => {
+    findFirstRunMock.mockResolvedValue({
+      id: "run-a",
+      status: "analyzing",
+      frameworkResults: [],
+      propagatedMap: null,
+      synthesis: null,
+    });
+
+    const { GET } = await import("@/app/api/decisions/[id]/runs/compare/route");
+    const response = await GET(
+      new Request("http://localhost/api/decisions/decision-1/runs/compare?base=run-a&target=run-b"),
+      { params: Promise.resolve({ id: "decision-1" }) },
+    );
+
+    expect(response.status).toBe(400);
+    expect(findFirstRunMock.mock.calls[0][0].where).toEqual({ id: "run-a", decisionId: "decision-1" });
+  });
+
+  it("requires both run ids", async () => {
+    const { GET } = await import("@/app/api/decisions/[id]/runs/compare/route");
+    const response = await GET(
+      new Request("http://localhost/api/decisions/decision-1/runs/compare?base=run-a"),
+      { params: Promise.resolve({ id: "decision-1" }) },
+    );
+
+    expect(response.status).toBe(400);
+    expect(findFirstRunMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const getRunStatusSnapshotMock = vi.fn();
+const listRunFrameworkResultsMock = vi.fn();
+
+vi.mock("@/lib/analysis/runner", () => ({
+  getRunStatusSnapshot: (...args: unknown[]) => getRunStatusSnapshotMock(...args),
+  listRunFrameworkResults: (...args: unknown[]) => listRunFrameworkResultsMock(...args),
+}));
+
+function snapshot(status: string) {
+  return {
+    runId: "run-1",
+    decisionId: "decision-1",
+    provider: "local",
+    model: "ollama-test",
+    status,
+    error: null,
+    startedAt: null,
+    endedAt: null,
+    frameworkCount: 2,
+    completedFrameworkCount: 0,
+  };
+}
+
+async function readAll(response: Response): Promise<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text;
+    }
+    text += decoder.decode(value);
+  }
+}
+
+function parseEvents(text: string) {
+  return text
+    .split("\n\n")
+    .filter((chunk) => chunk.startsWith("event:"))
+    .map((chunk) => JSON.parse(chunk.split("\n")[1].replace(/^data: /, "")));
+}
+
+describe("GET /api/runs/:runId/events", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    getRunStatusSnapshotMock.mockReset();
+    listRunFrameworkResultsMock.mockReset().mockResolvedValue([]);
+  });
+
+  it("returns 404 for unknown runs", async () => {
+    getRunStatusSnapshotMock.mockResolvedValueOnce(null);
+
+    const { GET } = await import("@/app/api/runs/[runId]/events/route");
+    const response = await GET(new Request("http://localhost/api/runs/missing/events"), {
+      params: Promise.resolve({ runId: "missing" }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("streams a snapshot followed by live events and closes on a terminal status", async () => {
+    getRunStatusSnapshotMock.mockResolvedValueOnce(snapshot("analyzing"));
+
+    const { GET } = await import("@/app/api/runs/[runId]/events/route");
+    const { publishRunEvent } = await import("@/lib/analysis/run-events");
+    const response = await GET(new Request("http://localhost/api/runs/run-1/events"), {
+      params: Promise.resolve({ runId: "run-1" }),
+    });
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+
+    const body = readAll(response);
+    publishRunEvent("run-1", {
+      type: "framework_started",
+      frameworkId: "swot_analysis",
+      provider: "local",
+      model: "ollama-test",
+    });
+    publishRunEvent("run-2", { type: "warning", message: "other run" });
+    publishRunEvent("run-1", { type: "warning", message: "SWOT fell back" });
+    publishRunEvent("run-1", { type: "status", status: "complete", error: null });
+
+    const events = parseEvents(await body);
+    expect(events.map((event) => event.type)).toEqual([
+      "snapshot",
+      "framework_started",
+      "warning",
+      "status",
+    ]);
+    expect(events[0].run.status).toBe("analyzing");
+    expect(events[2].message).toBe("SWOT fell back");
+  });
+
+  it("closes immediately after the snapshot for finished runs", async () => {
+    getRunStatusSnapshotMock.mockResolvedValueOnce(snapshot("complete"));
+
+    const { GET } = await import("@/app/api/runs/[runId]/events/route");
+    const response = await GET(new Request("http://localhost/api/runs/run-1/events"), {
+      params: Promise.resolve({ runId: "run-1" }),
+    });
+
+    const events = parseEvents(await readAll(response));
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toBe("snapshot");
+  });
+});
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const getDecisionWithLatestBrief = vi.fn();
+const getLatestCompleteRun = vi.fn();
+const listDecisionScenarios = vi.fn();
+const createDecisionScenario = vi.fn();
+
+vi.mock("@/lib/decisions", () => ({
+  getDecisionWithLatestBrief,
+  getLatestCompleteRun,
+  getDecisionBriefVersion: vi.fn(),
+  listDecisionScenarios,
+  createDecisionScenario,
+}));
+
+const briefJson = {
+  title: "Decision",
+  decisionStatement: "Decide how far to roll out the new pricing model this quarter.",
+  context: "Pricing change affects every customer segment.",
+  alternatives: [],
+  constraints: [],
+  deadline: null,
+  stakeholders: ["Sales"],
+  successCriteria: [],
+  riskTolerance: "low",
+  budget: null,
+  timeLimit: null,
+  assumptions: [],
+  openQuestions: [],
+  executionSteps: [],
+};
+
+const params = { params: Promise.resolve({ id: "decision-1" }) };
+
+function post(body: unknown) {
+  return new Request("http://localhost/api/decisions/decision-1/scenarios", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("/api/decisions/:id/scenarios", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getDecisionWithLatestBrief.mockResolvedValue({ id: "decision-1", briefs: [{ briefJson }] });
+    getLatestCompleteRun.mockResolvedValue({ id: "run-1", briefVersion: null, frameworkResults: [] });
+    createDecisionScenario.mockImplementation(async (_id: string, scenario: object) => ({
+      id: "scenario-1",
+      createdAt: "2026-03-28T09:00:00.000Z",
+      ...scenario,
+    }));
+  });
+
+  it("lists saved scenarios", async () => {
+    listDecisionScenarios.mockResolvedValue([]);
+    const { GET } = await import("@/app/api/decisions/[id]/scenarios/route");
+    const response = await GET(new Request("http://localhost"), params);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ scenarios: [] });
+    expect(listDecisionScenarios).toHaveBeenCalledWith("decision-1");
+  });
+
+  it("saves the overrides with the ranking re-scored on the server", async () => {
+    const { POST } = await import("@/app/api/decisions/[id]/scenarios/route");
+    const response = await POST(
+      post({ name: "Bold bet", overrides: { themes: { opportunity: 0.9 }, riskTolerance: "high" } }),
+      params,
+    );
+
+    expect(response.status).toBe(201);
+    const { scenario } = await response.json();
+    expect(scenario).toMatchObject({
+      name: "Bold bet",
+      runId: "run-1",
+      overrides: { themes: { opportunity: 0.9 }, riskTolerance: "high" },
+    });
+    expect(scenario.ranking[0].option).toBe("Full-scale commitment");
+    expect(scenario.ranking).toHaveLength(3);
+  });
+
+  it("rejects unknown theme keys and out-of-range values", async () => {
+    const { POST } = await import("@/app/api/decisions/[id]/scenarios/route");
+
+    const unknownKey = await POST(post({ name: "Typo", overrides: { themes: { oportunity: 0.9 } } }), params);
+    const outOfRange = await POST(post({ name: "Too far", overrides: { themes: { risk: 1.5 } } }), params);
+
+    expect(unknownKey.status).toBe(400);
+    expect(outOfRange.status).toBe(400);
+    expect(createDecisionScenario).not.toHaveBeenCalled();
+  });
+
+  it("requires a completed run to score against", async () => {
+    getLatestCompleteRun.mockResolvedValue(null);
+    const { POST } = await import("@/app/api/decisions/[id]/scenarios/route");
+    const response = await POST(post({ name: "Early", overrides: { themes: {} } }), params);
+
+    expect(response.status).toBe(400);
+  });
+});
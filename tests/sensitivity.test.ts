@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+
+import { computeAhp } from "@/lib/analysis/ahp";
+import { rankHeuristicOptions } from "@/lib/analysis/heuristic";
+import { recommendDecision, resolveScoringModel } from "@/lib/analysis/propagation";
+import { analyzeSensitivity } from "@/lib/analysis/sensitivity";
+import type { DecisionBrief, DecisionMatrix, HeuristicScoringModel } from "@/lib/types";
+
+const brief: DecisionBrief = {
+  title: "Decision",
+  decisionStatement: "Decide how far to roll out the new pricing model this quarter.",
+  context: "Pricing change affects every customer segment.",
+  alternatives: [],
+  constraints: [],
+  deadline: null,
+  stakeholders: ["Sales"],
+  successCriteria: [],
+  riskTolerance: "low",
+  budget: null,
+  timeLimit: null,
+  assumptions: [],
+  openQuestions: [],
+  executionSteps: [],
+};
+
+const buildOrBuy: DecisionBrief = { ...brief, alternatives: ["Build", "Buy"] };
+
+function savedMatrix(overrides: Partial<DecisionMatrix> = {}): DecisionMatrix {
+  return {
+    options: ["Build", "Buy"],
+    criteria: [
+      { id: "success_1", label: "Capability", source: "success_criterion", weight: 1, hard: false },
+      { id: "success_2", label: "Cost", source: "success_criterion", weight: 1, hard: false },
+      { id: "constraint_1", label: "On-premises", source: "constraint", weight: 1, hard: true },
+    ],
+    ratings: [
+      { option: "Build", criterionId: "success_1", score: 10 },
+      { option: "Build", criterionId: "success_2", score: 0 },
+      { option: "Buy", criterionId: "success_1", score: 2 },
+      { option: "Buy", criterionId: "success_2", score: 6 },
+    ],
+    updatedAt: "2026-03-24T09:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("analyzeSensitivity", () => {
+  it("finds the risk tolerance level at which the heuristic pick flips", () => {
+    const analysis = analyzeSensitivity(resolveScoringModel(brief, []))!;
+
+    expect(analysis.recommendedOption).toBe(recommendDecision(brief, [], []).recommendedOption);
+    expect(analysis.recommendedOption).toBe("Conservative rollout");
+
+    const riskTolerance = analysis.factors.find((factor) => factor.id === "risk_tolerance")!;
+    expect(riskTolerance.baseline.label).toBe("low");
+    expect(riskTolerance.breakEven).toEqual({ value: 1, label: "medium", leader: "Phased pilot" });
+    expect(riskTolerance.high.leader).toBe("Full-scale commitment");
+    expect(riskTolerance.high.margin).toBeLessThan(0);
+
+    // Risk tolerance swings the lead the most, so it tops the tornado.
+    expect(analysis.factors[0].id).toBe("risk_tolerance");
+    expect(analysis.factors.map((factor) => factor.id)).toEqual(
+      expect.arrayContaining(["theme.opportunity", "theme.uncertainty", "weight.riskFit", "weight.uncertaintyPenalty"]),
+    );
+    expect(analysis.robustness).toBeGreaterThan(0);
+    expect(analysis.robustness).toBeLessThan(1);
+  });
+
+  it("breaks ties on rounded scores the way the recommendation does", () => {
+    const heuristic = resolveScoringModel(brief, []) as HeuristicScoringModel;
+    // Seeds this close score apart only past the third decimal.
+    const model: HeuristicScoringModel = {
+      ...heuristic,
+      options: [
+        { option: "Phased pilot", seed: 0.5 },
+        { option: "Pilot phase", seed: 0.5001 },
+      ],
+    };
+    const [first, second] = rankHeuristicOptions(model);
+    expect(first.score).toBe(second.score);
+
+    const analysis = analyzeSensitivity(model)!;
+    expect(analysis.recommendedOption).toBe(first.option);
+    expect(analysis.recommendedOption).toBe("Phased pilot");
+    expect(analysis.baselineMargin).toBe(0);
+  });
+
+  it("varies the synthesis composite weights, which never move the pick", () => {
+    const analysis = analyzeSensitivity(resolveScoringModel(brief, []))!;
+    const composite = analysis.factors.filter((factor) => factor.kind === "composite_weight");
+
+    expect(composite.map((factor) => factor.id)).toEqual(["composite.applicability", "composite.confidence"]);
+    expect(composite[0].baseline.value).toBe(0.6);
+    for (const factor of composite) {
+      expect(factor.swing).toBe(0);
+      expect(factor.breakEven).toBeNull();
+      expect(factor.holdShare).toBe(1);
+    }
+  });
+
+  it("reports criterion weight shares at which the matrix pick flips", () => {
+    const analysis = analyzeSensitivity(resolveScoringModel(buildOrBuy, [], { matrix: savedMatrix(), ahp: null }))!;
+
+    expect(analysis).toMatchObject({ method: "weighted_criteria", recommendedOption: "Build", runnerUp: "Buy" });
+    expect(analysis.baselineMargin).toBeCloseTo(0.1, 3);
+
+    // Build = s, Buy = 0.2s + 0.6(1 - s): they tie when Capability holds 3/7 of the weight.
+    const capability = analysis.factors.find((factor) => factor.id === "criterion.success_1")!;
+    expect(capability.baseline.label).toBe("50%");
+    expect(capability.breakEven?.leader).toBe("Buy");
+    expect(capability.breakEven?.value).toBeCloseTo(3 / 7, 2);
+    expect(capability.low).toMatchObject({ value: 0.25, leader: "Buy" });
+    expect(capability.holdShare).toBeCloseTo(13 / 21, 3);
+
+    const cost = analysis.factors.find((factor) => factor.id === "criterion.success_2")!;
+    expect(cost.breakEven?.value).toBeCloseTo(4 / 7, 2);
+    expect(analysis.factors.some((factor) => factor.id === "criterion.constraint_1")).toBe(false);
+  });
+
+  it("shifts AHP criterion priorities and rescales the rest", () => {
+    const analysis = analyzeSensitivity({
+      method: "ahp",
+      result: computeAhp({
+        criteria: [
+          { id: "cost", label: "Cost" },
+          { id: "speed", label: "Speed" },
+        ],
+        options: ["Build", "Buy"],
+        criteriaJudgments: [{ first: "cost", second: "speed", value: 3 }],
+        alternativeJudgments: [
+          { criterionId: "cost", judgments: [{ first: "Buy", second: "Build", value: 5 }] },
+          { criterionId: "speed", judgments: [{ first: "Build", second: "Buy", value: 7 }] },
+        ],
+        updatedAt: "2026-03-26T09:00:00.000Z",
+      }),
+      eliminatedBy: {},
+    })!;
+
+    expect(analysis.recommendedOption).toBe("Buy");
+    const cost = analysis.factors.find((factor) => factor.id === "criterion.cost")!;
+    // Buy = 5/6·s + 1/8·(1 - s) ties Build = 1/6·s + 7/8·(1 - s) at s = 9/17.
+    expect(cost.breakEven).toMatchObject({ leader: "Build" });
+    expect(cost.breakEven?.value).toBeCloseTo(9 / 17, 2);
+    expect(cost.high.leader).toBe("Buy");
+  });
+
+  it("returns null when fewer than two options remain viable", () => {
+    const matrix = savedMatrix({
+      ratings: [...savedMatrix().ratings, { option: "Buy", criterionId: "constraint_1", score: 0 }],
+    });
+
+    expect(analyzeSensitivity(resolveScoringModel(buildOrBuy, [], { matrix, ahp: null }))).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const createLlmCall = vi.fn();
+const createLlmCallLogs = vi.fn();
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    llmCallRecord: {
+      create: createLlmCall,
+    },
+    llmCallLog: {
+      createMany: createLlmCallLogs,
+    },
+  },
+}));
+
+const usage = { inputTokens: 2000, outputTokens: 500, latencyMs: 1200 };
+
+describe("LLM usage ledger", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    createLlmCall.mockReset().mockResolvedValue({});
+    createLlmCallLogs.mockReset().mockResolvedValue({ count: 0 });
+    delete process.env.LLM_PRICE_TABLE;
+  });
+
+  it("prices calls by model prefix, then by provider", async () => {
+    const { estimateCostUsd } = await import("@/lib/llm/pricing");
+
+    expect(estimateCostUsd("anthropic", "claude-sonnet-4-5-20250929", usage)).toBe(0.0135);
+    expect(estimateCostUsd("ollama", "llama3.2", usage)).toBe(0);
+    expect(estimateCostUsd("openai-compatible", "qwen2.5-32b", usage)).toBeNull();
+  });
+
+  it("merges LLM_PRICE_TABLE overrides into the defaults", async () => {
+    process.env.LLM_PRICE_TABLE = JSON.stringify({
+      "openai-compatible": { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+      "claude-sonnet-4-5": { inputPerMillion: 2, outputPerMillion: 10 },
+    });
+
+    const { estimateCostUsd } = await import("@/lib/llm/pricing");
+
+    expect(estimateCostUsd("openai-compatible", "qwen2.5-32b", usage)).toBe(0.00175);
+    expect(estimateCostUsd("anthropic", "claude-sonnet-4-5", usage)).toBe(0.009);
+    expect(estimateCostUsd("anthropic", "claude-haiku-4-5", usage)).toBe(0.0045);
+  });
+
+  it("records a ledger row for each metered call and ignores ledger write failures", async () => {
+    const generateJson = vi.fn().mockResolvedValue({ data: { ok: true }, usage });
+    const { meterLLM } = await import("@/lib/usage-ledger");
+    const metered = meterLLM(
+      {
+        provider: "anthropic",
+        model: "claude-sonnet-4-5",
+        adapter: { name: "anthropic", model: "claude-sonnet-4-5", isHealthy: async () => true, generateJson },
+      },
+      { decisionId: "decision-1", runId: "run-1", operation: "framework_analysis", frameworkId: "swot_analysis" },
+    );
+
+    const request = { systemPrompt: "s", userPrompt: "u", schema: {} as never };
+    await expect(metered.adapter.generateJson(request)).resolves.toEqual({ data: { ok: true }, usage });
+    expect(createLlmCall).toHaveBeenCalledWith({
+      data: {
+        decisionId: "decision-1",
+        runId: "run-1",
+        operation: "framework_analysis",
+        frameworkId: "swot_analysis",
+        provider: "anthropic",
+        model: "claude-sonnet-4-5",
+        inputTokens: 2000,
+        outputTokens: 500,
+        latencyMs: 1200,
+        costUsd: 0.0135,
+      },
+    });
+
+    createLlmCall.mockRejectedValueOnce(new Error("database is locked"));
+    await expect(metered.adapter.generateJson(request)).resolves.toEqual({ data: { ok: true }, usage });
+  });
+
+  it("audits every pass of a call, including failed calls with no model output", async () => {
+    const scope = {
+      decisionId: "decision-1",
+      runId: "run-1",
+      operation: "framework_analysis" as const,
+      frameworkId: "swot_analysis" as const,
+    };
+    const request = { systemPrompt: "s", userPrompt: "u", schema: {} as never, schemaName: "testSchema" };
+    const generateJson = vi
+      .fn()
+      .mockImplementationOnce(async (req) => {
+        const prompt = { systemPrompt: "s+", userPrompt: "u+" };
+        req.onAttempt({ ...prompt, pass: 1, rawText: "nope", repairedJson: null, validationError: "bad", latencyMs: 10 });
+        req.onAttempt({
+          ...prompt,
+          pass: 2,
+          rawText: "{\"ok\":true}",
+          repairedJson: { ok: true },
+          validationError: null,
+          latencyMs: 8,
+        });
+        return { data: { ok: true }, usage };
+      })
+      .mockRejectedValueOnce(new Error("Ollama response timed out"));
+
+    const { meterLLM } = await import("@/lib/usage-ledger");
+    const metered = meterLLM(
+      {
+        provider: "ollama",
+        model: "llama3.2",
+        adapter: { name: "ollama", model: "llama3.2", isHealthy: async () => true, generateJson },
+      },
+      scope,
+    );
+
+    await metered.adapter.generateJson(request);
+    const [{ data: passes }] = createLlmCallLogs.mock.calls[0];
+    expect(passes).toHaveLength(2);
+    expect(passes[0]).toMatchObject({
+      runId: "run-1",
+      frameworkId: "swot_analysis",
+      schemaName: "testSchema",
+      pass: 1,
+      rawText: "nope",
+      validationError: "bad",
+      error: null,
+    });
+    expect(passes[1]).toMatchObject({ pass: 2, repairedJson: { ok: true }, error: null });
+    expect(passes[0].callId).toBe(passes[1].callId);
+
+    await expect(metered.adapter.generateJson(request)).rejects.toThrow("timed out");
+    const [{ data: failed }] = createLlmCallLogs.mock.calls[1];
+    expect(failed).toEqual([
+      expect.objectContaining({
+        pass: 1,
+        systemPrompt: "s",
+        userPrompt: "u",
+        rawText: null,
+        error: "Ollama response timed out",
+      }),
+    ]);
+    expect(createLlmCall).toHaveBeenCalledTimes(1);
+  });
+
+  it("records the tokens a failed call spent before it threw", async () => {
+    const scope = { decisionId: "decision-1", operation: "decision_brief" as const };
+    const request = { systemPrompt: "s", userPrompt: "u", schema: {} as never };
+    const { UsageMeter } = await import("@/lib/llm/usage");
+    const generateJson = vi.fn().mockImplementation(async () => {
+      const meter = new UsageMeter();
+      meter.add(1000, 0);
+      meter.add(1000, 500);
+      throw meter.failed(new Error("still not valid JSON"));
+    });
+
+    const { meterLLM } = await import("@/lib/usage-ledger");
+    const metered = meterLLM(
+      {
+        provider: "anthropic",
+        model: "claude-sonnet-4-5",
+        adapter: { name: "anthropic", model: "claude-sonnet-4-5", isHealthy: async () => true, generateJson },
+      },
+      scope,
+    );
+
+    await expect(metered.adapter.generateJson(request)).rejects.toThrow("still not valid JSON");
+    expect(createLlmCall).toHaveBeenCalledTimes(1);
+    expect(createLlmCall).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        decisionId: "decision-1",
+        operation: "decision_brief",
+        inputTokens: 2000,
+        outputTokens: 500,
+        costUsd: 0.0135,
+      }),
+    });
+  });
+});